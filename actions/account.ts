@@ -0,0 +1,210 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import {
+  getCurrentSession,
+  revokeUserSessions,
+  toAuthUser,
+} from "@/lib/session";
+import { verifyPassword } from "@/lib/password";
+import {
+  PasswordPolicyError,
+  findUsableResetToken,
+  preparePasswordChange,
+  setUserPassword,
+  writePasswordChange,
+  type PreparedPasswordChange,
+} from "@/lib/credentials";
+import {
+  clearLoginLock,
+  formatLockRemaining,
+  isUserLocked,
+  registerFailedLogin,
+} from "@/lib/login-security";
+import { getRequestMetadata } from "@/lib/request-context";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/types/auth";
+import { logger } from "@/lib/logger";
+import { z } from "zod";
+
+export type ChangePasswordResult =
+  | {
+      success: true;
+      user: AuthUser;
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+/* ----------------------------------------
+ * CHANGE OWN PASSWORD
+ *    Not wrapped in withPermission on purpose: it is the one action a user
+ *    with mustChangePassword must still be able to run.
+ * -------------------------------------- */
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(1),
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+
+export async function changeOwnPasswordAction(
+  input: ChangePasswordInput,
+): Promise<ChangePasswordResult> {
+  const session = await getCurrentSession();
+
+  if (!session) {
+    return {
+      success: false,
+      error: "Tu sesión expiró. Volvé a iniciar sesión.",
+    };
+  }
+
+  const parsed = changePasswordSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: "Completá la contraseña actual y la nueva.",
+    };
+  }
+
+  const { currentPassword, newPassword } = parsed.data;
+
+  // Same lockout as the login form: a stolen session can't be used to guess
+  // the current password
+  if (isUserLocked(session.user)) {
+    return {
+      success: false,
+      error: `Demasiados intentos fallidos. Probá de nuevo en ${formatLockRemaining(session.user.lockedUntil!)}.`,
+    };
+  }
+
+  if (!(await verifyPassword(currentPassword, session.user.passwordHash))) {
+    await registerFailedLogin({
+      username: session.user.username,
+      user: session.user,
+      metadata: await getRequestMetadata(),
+    });
+    return {
+      success: false,
+      error: "La contraseña actual no es correcta.",
+    };
+  }
+
+  await clearLoginLock(session.userId);
+
+  try {
+    await setUserPassword(session.userId, newPassword, {
+      mustChangePassword: false,
+    });
+  } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return { success: false, error: error.message };
+    }
+
+    logger.error("Error changing password", error);
+    return {
+      success: false,
+      error: "No se pudo cambiar la contraseña. Intentá de nuevo.",
+    };
+  }
+
+  // Other devices may have been using the old (possibly leaked) password
+  await revokeUserSessions(session.userId, { exceptSessionId: session.id });
+
+  const actor = toAuthUser(session.user);
+  await recordAudit({
+    actor,
+    action: "user.password-change",
+    entityType: "User",
+    entityId: session.userId,
+  });
+
+  return {
+    success: true,
+    user: { ...actor, mustChangePassword: false },
+  };
+}
+
+/* ----------------------------------------
+ * RESET PASSWORD WITH AN ADMIN-ISSUED LINK (public, no session)
+ * -------------------------------------- */
+
+export type ResetPasswordResult =
+  | {
+      success: true;
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+const INVALID_RESET_LINK_ERROR =
+  "El enlace no es válido o ya venció. Pedile uno nuevo a un administrador.";
+
+export async function resetPasswordWithTokenAction(
+  formData: FormData,
+): Promise<ResetPasswordResult> {
+  const token = String(formData.get("token") ?? "").trim();
+  const newPassword = String(formData.get("password") ?? "");
+  const confirmation = String(formData.get("confirmPassword") ?? "");
+
+  const resetToken = await findUsableResetToken(token);
+
+  if (!resetToken) {
+    return { success: false, error: INVALID_RESET_LINK_ERROR };
+  }
+
+  if (newPassword !== confirmation) {
+    return { success: false, error: "Las contraseñas no coinciden." };
+  }
+
+  let change: PreparedPasswordChange;
+
+  try {
+    change = await preparePasswordChange(resetToken.userId, newPassword);
+  } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return { success: false, error: error.message };
+    }
+
+    logger.error("Error resetting password", error);
+    return {
+      success: false,
+      error: "No se pudo cambiar la contraseña. Intentá de nuevo.",
+    };
+  }
+
+  // Claim the token first: of two requests with the same link, only the one
+  // that marks it used gets to set the password
+  const now = new Date();
+  const claimed = await prisma.$transaction(async (tx) => {
+    const claim = await tx.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+
+    if (claim.count !== 1) return false;
+
+    await writePasswordChange(tx, change, { mustChangePassword: false });
+    await revokeUserSessions(resetToken.userId, {}, tx);
+    return true;
+  });
+
+  if (!claimed) {
+    return { success: false, error: INVALID_RESET_LINK_ERROR };
+  }
+
+  await clearLoginLock(resetToken.userId);
+
+  await recordAudit({
+    actor: toAuthUser(resetToken.user),
+    action: "user.password-reset",
+    entityType: "User",
+    entityId: resetToken.userId,
+  });
+
+  return { success: true };
+}
@@ -2,7 +2,10 @@
 "use server";
 
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
 import { hashPassword } from "@/lib/password";
+import { validatePasswordStrength } from "@/lib/password-policy";
+import { recordAudit } from "@/lib/audit";
 import { TransactionType, UserRole } from "@prisma/client";
 
 // ---- Tipos del dashboard (VIEW MODELS, no son el schema) ----
@@ -39,14 +42,14 @@ export type CashierSummary = {
 export type ClientAccount = {
   id: string; // cl-<clientId>
   company: string; // label de UI, derivado de username o del form
-  poc: string; // label de UI
-  email: string; // label de UI (no se guarda)
+  poc: string; // Client.fullName (o username si no tiene)
+  email: string; // Client.email
   stage: ClientLifecycleStage;
   monthlyValue: number;
   health: ClientHealthStatus;
   lastInteraction: string; // YYYY-MM-DD
   onboardingDays: number;
-  notes?: string;
+  notes?: string; // Client.notes
 };
 
 export type AdminDashboardMetrics = {
@@ -83,20 +86,6 @@ function mapUserRoleToLabel(role: UserRole): string {
   }
 }
 
-function validatePassword(password: string): { valid: boolean; error?: string } {
-  const trimmed = password.trim();
-
-  if (!trimmed) {
-    return { valid: false, error: "La contraseña no puede estar vacía" };
-  }
-
-  if (trimmed.length < 6) {
-    return { valid: false, error: "La contraseña debe tener al menos 6 caracteres" };
-  }
-
-  return { valid: true };
-}
-
 function detectUserRoleFromLabel(roleLabel: string): UserRole {
   const lower = roleLabel.toLowerCase().trim();
 
@@ -137,6 +126,8 @@ async function createUserInDB(input: {
       passwordHash: input.passwordHash,
       role: input.role,
       isActive: true,
+      // the admin chose this password, the user has to replace it on first login
+      mustChangePassword: true,
     },
     select: {
       id: true,
@@ -152,12 +143,12 @@ async function createUserInDB(input: {
 
 // ---- Carga del dashboard ----
 
-export async function getAdminDashboardData(): Promise<{
+export const getAdminDashboardData = withPermission("dashboard:admin", async (): Promise<{
   teamMembers: TeamMember[];
   clients: ClientAccount[];
   cashiers: CashierSummary[];
   metrics: AdminDashboardMetrics;
-}> {
+}> => {
   const now = new Date();
   const thirtyDaysAgo = new Date(now);
   thirtyDaysAgo.setDate(now.getDate() - 30);
@@ -305,16 +296,15 @@ export async function getAdminDashboardData(): Promise<{
 
     return {
       id: `cl-${client.id}`,
-      // 👇 Estos son labels de UI. No son campos del schema.
-      company: client.username,
-      poc: client.username,
-      email: "", // no existe email en el schema, así que lo dejamos vacío
+      company: client.username, // label de UI, no es un campo del schema
+      poc: client.fullName ?? client.username,
+      email: client.email ?? "",
       stage,
       monthlyValue,
       health,
       lastInteraction: lastInteraction.toISOString().slice(0, 10),
       onboardingDays,
-      notes: undefined,
+      notes: client.notes ?? undefined,
     };
   });
 
@@ -430,17 +420,17 @@ export async function getAdminDashboardData(): Promise<{
     cashiers,
     metrics,
   };
-}
+});
 
 // ---- Mutaciones ----
 
-export async function addTeamMember(input: {
+export const addTeamMember = withPermission("users:manage", async (user, input: {
   name: string;
   username: string;
   password: string;
   roleLabel: string;
   status: TeamMemberStatus;
-}): Promise<TeamMember> {
+}): Promise<TeamMember> => {
   // Trim inputs first
   const name = input.name?.trim() || "";
   const username = input.username?.trim() || "";
@@ -454,7 +444,7 @@ export async function addTeamMember(input: {
   }
 
   // Validate password strength
-  const passwordValidation = validatePassword(password);
+  const passwordValidation = validatePasswordStrength(password, { username });
   if (!passwordValidation.valid) {
     throw new Error(passwordValidation.error);
   }
@@ -480,6 +470,14 @@ export async function addTeamMember(input: {
       role: systemRole,
     });
 
+    await recordAudit({
+      actor: user,
+      action: "user.create",
+      entityType: "User",
+      entityId: dbUser.id,
+      after: dbUser,
+    });
+
     const now = new Date();
 
     const member: TeamMember = {
@@ -500,9 +498,9 @@ export async function addTeamMember(input: {
     }
     throw error;
   }
-}
+});
 
-export async function addClientAccount(input: {
+export const addClientAccount = withPermission("clients:create", async (user, input: {
   company: string;
   poc: string;
   email: string;
@@ -510,7 +508,7 @@ export async function addClientAccount(input: {
   monthlyValue: number;
   onboardingDays: number;
   notes?: string;
-}): Promise<ClientAccount> {
+}): Promise<ClientAccount> => {
   const { company, poc, email, stage, monthlyValue, onboardingDays, notes } =
     input;
 
@@ -520,7 +518,7 @@ export async function addClientAccount(input: {
     );
   }
 
-  // 👇 A NIVEL DB: sólo persistimos username, nada más.
+  // 👇 A NIVEL DB: username derivado de la empresa, más nombre, email y notas.
   const baseUsername = company
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
@@ -531,11 +529,21 @@ export async function addClientAccount(input: {
   const dbClient = await prisma.client.create({
     data: {
       username,
-      // NADA MÁS: ni phone, ni status, ni marketingSource, etc.
+      fullName: poc.trim(),
+      email: email.trim(),
+      notes: notes?.trim() || null,
       // status usa el default (ACTIVE), pointsBalance default(0), etc.
     },
   });
 
+  await recordAudit({
+    actor: user,
+    action: "client.create",
+    entityType: "Client",
+    entityId: dbClient.id,
+    after: dbClient,
+  });
+
   const now = new Date();
 
   // Salud para la vista (no se guarda)
@@ -548,8 +556,7 @@ export async function addClientAccount(input: {
 
   const clientAccount: ClientAccount = {
     id: `cl-${dbClient.id}`,
-    // Estos son datos de UI, no campos de la tabla Client
-    company: company.trim(),
+    company: company.trim(), // dato de UI, no es un campo de la tabla Client
     poc: poc.trim(),
     email: email.trim(),
     stage,
@@ -561,13 +568,13 @@ export async function addClientAccount(input: {
   };
 
   return clientAccount;
-}
+});
 
-export async function addCashier(input: {
+export const addCashier = withPermission("users:manage", async (user, input: {
   name: string;
   username: string;
   password: string;
-}): Promise<{ teamMember: TeamMember; cashier: CashierSummary }> {
+}): Promise<{ teamMember: TeamMember; cashier: CashierSummary }> => {
   // Trim inputs first
   const name = input.name?.trim() || "";
   const username = input.username?.trim() || "";
@@ -579,7 +586,7 @@ export async function addCashier(input: {
   }
 
   // Validate password strength
-  const passwordValidation = validatePassword(password);
+  const passwordValidation = validatePasswordStrength(password, { username });
   if (!passwordValidation.valid) {
     throw new Error(passwordValidation.error);
   }
@@ -602,6 +609,14 @@ export async function addCashier(input: {
       role: "CASHIER",
     });
 
+    await recordAudit({
+      actor: user,
+      action: "user.create",
+      entityType: "User",
+      entityId: dbUser.id,
+      after: dbUser,
+    });
+
     const now = new Date();
 
     const teamMember: TeamMember = {
@@ -632,4 +647,4 @@ export async function addCashier(input: {
     }
     throw error;
   }
-}
+});
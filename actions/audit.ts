@@ -0,0 +1,74 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { buildAuditWhere } from "@/lib/audit";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * AUDIT LOG VIEWER
+ * -------------------------------------- */
+
+const listAuditEventsSchema = z.object({
+  action: z.string().optional().nullable(),
+  entityType: z.string().optional().nullable(),
+  entityId: z.string().optional().nullable(),
+  actor: z.string().optional().nullable(),
+  from: z.string().optional().nullable(),
+  to: z.string().optional().nullable(),
+  page: z.number().int().positive().default(1),
+  pageSize: z.number().int().positive().max(200).default(50),
+});
+
+export type ListAuditEventsInput = z.input<typeof listAuditEventsSchema>;
+
+export type AuditEventRow = {
+  id: number;
+  createdAt: string;
+  actorUsername: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+  ipAddress: string | null;
+};
+
+export const listAuditEventsAction = withPermission("audit:read", async (_user, input: ListAuditEventsInput) => {
+  const data = listAuditEventsSchema.parse(input);
+  const where = buildAuditWhere(data);
+
+  const [events, total, entityTypes] = await prisma.$transaction([
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (data.page - 1) * data.pageSize,
+      take: data.pageSize,
+    }),
+    prisma.auditEvent.count({ where }),
+    prisma.auditEvent.findMany({
+      distinct: ["entityType"],
+      select: { entityType: true },
+      orderBy: { entityType: "asc" },
+    }),
+  ]);
+
+  const rows: AuditEventRow[] = events.map((event) => ({
+    id: event.id,
+    createdAt: event.createdAt.toISOString(),
+    actorUsername: event.actorUsername,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    before: event.before,
+    after: event.after,
+    ipAddress: event.ipAddress,
+  }));
+
+  return {
+    events: rows,
+    total,
+    entityTypes: entityTypes.map((row) => row.entityType),
+  };
+});
@@ -2,9 +2,27 @@
 "use server";
 
 import { prisma } from "@/lib/prisma";
-import { ClientStatus, PaymentMethod, TransactionType } from "@prisma/client";
-
-export type MembershipTier = "Premium" | "Estándar" | "Empresarial";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { findOpenShiftId } from "@/lib/shifts";
+import { markChargedOnDay } from "@/lib/daily-checks";
+import { applyPromotionBonus } from "@/lib/promotions";
+import { applyReferralReward } from "@/lib/referrals";
+import { ChargeLimitExceededError, enforceChargeLimits } from "@/lib/charge-limits";
+import { resolveChargeOverride, type ChargeOverrideInput } from "@/lib/charge-overrides";
+import {
+  DuplicateReferenceError,
+  assertReferenceAvailable,
+  referenceCodeSchema,
+} from "@/lib/reference-codes";
+import { checkInflowCap, resolvePaymentAccount } from "@/lib/payment-accounts";
+import { idempotencyKeySchema, runIdempotent } from "@/lib/idempotency";
+import {
+  ClientStatus,
+  PaymentMethod,
+  TransactionType,
+  type MembershipTier,
+} from "@prisma/client";
 
 export type LedgerMember = {
   id: number;
@@ -23,6 +41,7 @@ export type ChargeLogEntry = {
   coins: number;
   timestamp: string;
   note?: string;
+  reversed: boolean; // voided by a compensating ADJUSTMENT
 };
 
 export type DailyChargeSheetRow = {
@@ -61,16 +80,7 @@ function getMonthRange(dateStr: string) {
   return { start, end };
 }
 
-// Podés reemplazar esto con tu auth real (NextAuth, custom, etc.)
-async function getCurrentUserIdOrNull(): Promise<number | null> {
-  // EJEMPLO de cómo podría ser:
-  // const session = await auth();
-  // return session?.user?.id ?? null;
-
-  return null; // placeholder
-}
-
-export async function getCashierDashboardData(selectedDate: string) {
+export const getCashierDashboardData = withPermission("cashier:read", async (_user, selectedDate: string) => {
   const { start: dayStart, end: dayEnd } = getDayRange(selectedDate);
   const { start: monthStart, end: monthEnd } = getMonthRange(selectedDate);
 
@@ -86,6 +96,7 @@ export async function getCashierDashboardData(selectedDate: string) {
     by: ["clientId"],
     where: {
       type: TransactionType.CHARGE,
+      reversedBy: { is: null }, // los cargos revertidos no cuentan
       createdAt: {
         gte: monthStart,
         lte: monthEnd,
@@ -125,6 +136,7 @@ export async function getCashierDashboardData(selectedDate: string) {
     },
     include: {
       client: true,
+      reversedBy: { select: { id: true } },
     },
     orderBy: {
       createdAt: "desc",
@@ -138,13 +150,10 @@ export async function getCashierDashboardData(selectedDate: string) {
       ? agg._max.createdAt.toISOString().slice(0, 10)
       : undefined;
 
-    // “membership” sigue siendo sólo para UI hasta que lo agregues al schema
-    const membership: MembershipTier = "Estándar";
-
     return {
       id: client.id,
       name: client.username, // 👈 único identificador real que tenés en el schema
-      membership,
+      membership: client.tier,
       coinsThisMonth,
       lastCharge: lastChargeIso,
       visitWindow: undefined,
@@ -159,15 +168,16 @@ export async function getCashierDashboardData(selectedDate: string) {
     coins: tx.amount,
     timestamp: tx.createdAt.toISOString(),
     note: tx.description ?? undefined,
+    reversed: !!tx.reversedBy,
   }));
 
   return {
     ledger,
     chargeLog,
   };
-}
+});
 
-export async function getDailyChargeSheet(selectedDate: string) {
+export const getDailyChargeSheet = withPermission("cashier:read", async (_user, selectedDate: string) => {
   const { start: dayStart } = getDayRange(selectedDate);
 
   const clients = await prisma.client.findMany({
@@ -197,18 +207,21 @@ export async function getDailyChargeSheet(selectedDate: string) {
   });
 
   return rows;
-}
+});
 
-export async function updateDailyChargeCheck(params: {
+export const updateDailyChargeCheck = withPermission("daily-checks:write", async (user, params: {
   clientId: number;
   hasCharged: boolean;
   selectedDate: string;
-}) {
+}) => {
   const { clientId, hasCharged, selectedDate } = params;
 
-  const cashierId = await getCurrentUserIdOrNull();
+  const cashierId = user.id;
   const { start: dayStart } = getDayRange(selectedDate);
 
+  const before = await prisma.dailyChargeCheck.findUnique({
+    where: { clientId_date: { clientId, date: dayStart } },
+  });
   const record = await prisma.dailyChargeCheck.upsert({
     where: {
       clientId_date: {
@@ -232,6 +245,22 @@ export async function updateDailyChargeCheck(params: {
     },
   });
 
+  await recordAudit({
+    actor: user,
+    action: "daily-check.upsert",
+    entityType: "DailyChargeCheck",
+    entityId: record.id,
+    before,
+    after: {
+      id: record.id,
+      clientId: record.clientId,
+      date: record.date,
+      hasCharged: record.hasCharged,
+      checkedAt: record.checkedAt,
+      checkedById: record.checkedById,
+    },
+  });
+
   return {
     clientId,
     hasCharged: record.hasCharged,
@@ -239,28 +268,43 @@ export async function updateDailyChargeCheck(params: {
     checkedById: record.checkedById,
     checkedByName: record.checkedBy?.name ?? null,
   } satisfies DailyChargeCheckUpdate;
-}
+});
 
-export async function registerCharge(params: {
+export const registerCharge = withPermission("ledger:charge", async (user, params: {
   clientId: number;
   coins: number;
   selectedDate: string; // YYYY-MM-DD
   note?: string;
-  method?: PaymentMethod | null;
-}) {
-  const { clientId, coins, selectedDate, note, method } = params;
+  method?: PaymentMethod | null; // taken from the account when missing
+  paymentAccountId?: number | null; // account the money came into
+  referenceCode?: string | null; // transfer id or ticket number, unique per method
+  idempotencyKey?: string | null; // one per intended charge, reused on retries
+  limitOverride?: ChargeOverrideInput | null; // ADMIN authorization to go over the client's limits
+  referenceOverride?: ChargeOverrideInput | null; // ADMIN authorization to credit a reference again
+}) => {
+  const { clientId, coins, selectedDate, note, paymentAccountId } = params;
+  const idempotencyKey = idempotencyKeySchema.nullish().parse(params.idempotencyKey);
+  const referenceCode = referenceCodeSchema.nullish().parse(params.referenceCode);
 
   if (!Number.isFinite(coins) || coins <= 0) {
     throw new Error("El monto de monedas debe ser un número positivo.");
   }
 
-  const cashierId = await getCurrentUserIdOrNull();
+  const cashierId = user.id;
+  const override = await resolveChargeOverride(user, "LIMIT_EXCEEDED", params.limitOverride);
+  const referenceOverride = await resolveChargeOverride(user, "DUPLICATE_REFERENCE", params.referenceOverride);
 
-  const { start: dayStart } = getDayRange(selectedDate);
-  // guardamos la fecha del DailyChargeCheck como medianoche de ese día
-  const dailyDate = dayStart;
+  const applyCharge = () => prisma.$transaction(async (tx) => {
+    // 0) Cuenta de cobro (el método sale de la cuenta si no vino)
+    const account = await resolvePaymentAccount(tx, paymentAccountId, params.method);
+    const method = params.method ?? account?.method ?? null;
+
+    // 0a) Comprobante ya acreditado con el mismo método
+    const duplicateOfId = await assertReferenceAvailable(tx, method, referenceCode, referenceOverride);
+
+    // 0b) Autoexclusión y límites de carga (toma el lock de la fila del cliente)
+    const overridden = await enforceChargeLimits(tx, clientId, coins, override);
 
-  const result = await prisma.$transaction(async (tx) => {
     // 1) Actualizar balance de puntos del cliente
     const client = await tx.client.update({
       where: { id: clientId },
@@ -277,9 +321,17 @@ export async function registerCharge(params: {
         clientId,
         amount: coins,
         type: TransactionType.CHARGE,
-        method: method ?? null,
+        method,
+        paymentAccountId: account?.id ?? null,
         description: note ?? null,
+        referenceCode: referenceCode ?? null,
         cashierId,
+        shiftId: await findOpenShiftId(cashierId, tx),
+        idempotencyKey: idempotencyKey ?? null,
+        limitOverrideById: overridden ? override!.approvedById : null,
+        limitOverrideReason: overridden ? override!.reason : null,
+        referenceOverrideById: duplicateOfId ? referenceOverride!.approvedById : null,
+        referenceOverrideReason: duplicateOfId ? referenceOverride!.reason : null,
       },
       include: {
         client: true,
@@ -287,42 +339,95 @@ export async function registerCharge(params: {
     });
 
     // 3) Upsert del DailyChargeCheck
-    await tx.dailyChargeCheck.upsert({
-      where: {
-        clientId_date: {
-          clientId,
-          date: dailyDate,
+    await markChargedOnDay(tx, clientId, selectedDate, cashierId);
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "ledger.charge",
+        entityType: "Client",
+        entityId: clientId,
+        before: { pointsBalance: client.pointsBalance - coins },
+        after: {
+          pointsBalance: client.pointsBalance,
+          transactionId: transaction.id,
+          amount: transaction.amount,
+          method: transaction.method,
+          paymentAccountId: transaction.paymentAccountId,
+          referenceCode: transaction.referenceCode,
+          limitOverrideById: transaction.limitOverrideById,
+          limitOverrideReason: transaction.limitOverrideReason,
+          duplicateOfId,
+          referenceOverrideById: transaction.referenceOverrideById,
+          referenceOverrideReason: transaction.referenceOverrideReason,
         },
       },
-      create: {
-        clientId,
-        date: dailyDate,
-        hasCharged: true,
-        checkedById: cashierId,
-      },
-      update: {
-        hasCharged: true,
-        checkedAt: new Date(),
-        checkedById: cashierId,
-      },
-    });
+      tx,
+    );
+
+    // 4) Bonificación de la mejor promoción vigente (línea BONUS aparte)
+    const bonus = await applyPromotionBonus(tx, transaction, user);
+
+    // 5) Premio de referido si es la primera carga de un cliente referido
+    const referralReward = await applyReferralReward(tx, transaction, user);
 
-    return { client, transaction };
+    // 6) Tope diario de ingresos de la cuenta
+    const inflowAlert = await checkInflowCap(tx, account, coins, user);
+
+    return {
+      newBalance: client.pointsBalance + (bonus?.amount ?? 0) + (referralReward?.amount ?? 0),
+      transaction,
+      bonus,
+      inflowAlert,
+    };
   });
 
-  const newChargeLogEntry: ChargeLogEntry = {
-    id: result.transaction.id.toString(),
-    userId: result.transaction.clientId,
-    userName: result.transaction.client.username, // 👈 de nuevo, sólo username
-    coins,
-    timestamp: result.transaction.createdAt.toISOString(),
-    note: result.transaction.description ?? undefined,
-  };
+  try {
+    const { result, replayed } = await runIdempotent(
+      idempotencyKey,
+      { clientId, amount: coins, type: TransactionType.CHARGE },
+      applyCharge,
+      async (existing) => {
+        const transaction = await prisma.pointTransaction.findUniqueOrThrow({
+          where: { id: existing.id },
+          include: { client: true, bonus: true },
+        });
+        return {
+          newBalance: transaction.client.pointsBalance,
+          transaction,
+          bonus: transaction.bonus,
+          inflowAlert: null, // ya avisado en el pedido original
+        };
+      },
+    );
+
+    const newChargeLogEntry: ChargeLogEntry = {
+      id: result.transaction.id.toString(),
+      userId: result.transaction.clientId,
+      userName: result.transaction.client.username, // 👈 de nuevo, sólo username
+      coins,
+      timestamp: result.transaction.createdAt.toISOString(),
+      note: result.transaction.description ?? undefined,
+      reversed: false,
+    };
 
-  return {
-    clientId,
-    newBalance: result.client.pointsBalance,
-    newChargeLogEntry,
-    lastChargeDate: selectedDate,
-  };
-}
+    return {
+      clientId,
+      newBalance: result.newBalance,
+      newChargeLogEntry,
+      lastChargeDate: selectedDate,
+      bonus: result.bonus
+        ? { amount: result.bonus.amount, description: result.bonus.description }
+        : null,
+      inflowAlert: result.inflowAlert,
+      replayed, // a retried submit: the UI must not count it again
+    };
+  } catch (error) {
+    // Over the client's limits or a repeated receipt: the form asks for an
+    // ADMIN's authorization
+    if (error instanceof ChargeLimitExceededError || error instanceof DuplicateReferenceError) {
+      return error.result;
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,481 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { debitPointsBalance } from "@/lib/balances";
+import { enforceChargeLimits } from "@/lib/charge-limits";
+import { applyPromotionBonus } from "@/lib/promotions";
+import { applyReferralReward, reverseReferralRewards } from "@/lib/referrals";
+import { findOpenShiftId } from "@/lib/shifts";
+import { markChargedOnDay } from "@/lib/daily-checks";
+import { assertReferenceAvailable, findCreditedReferences } from "@/lib/reference-codes";
+import { checkInflowCap, resolvePaymentAccount } from "@/lib/payment-accounts";
+import { STATEMENT_MAX_ROWS, type StatementRow } from "@/lib/statement-parse";
+import {
+  ChargeImportStatus,
+  PaymentMethod,
+  TransactionType,
+} from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type ImportRowStatus = "READY" | "UNMATCHED" | "DUPLICATE" | "INVALID";
+
+export type ImportMatch = "USERNAME" | "PHONE" | "REFERENCE";
+
+export type ImportPreviewRow = StatementRow & {
+  status: ImportRowStatus;
+  clientId: number | null;
+  clientUsername: string | null;
+  matchedBy: ImportMatch | null;
+  message: string | null;
+};
+
+export type ChargeImportRow = {
+  id: number;
+  createdAt: string;
+  status: ChargeImportStatus;
+  fileName: string;
+  rowCount: number;
+  totalAmount: number;
+  createdByName: string;
+  rolledBackByName: string | null;
+  rolledBackAt: string | null;
+  rollbackReason: string | null;
+};
+
+// Imports and rollbacks write several rows per line in a single transaction;
+// Prisma's 5s default isn't enough for a few hundred lines. It has to end
+// before the function does: vercel.json gives the imports page 90s, against
+// the 30s of every other route.
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+// Phone numbers are compared by their last 10 digits (area code + number)
+function normalizePhone(value: string | null) {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length >= 8 ? digits.slice(-10) : null;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/* ----------------------------------------
+ * 1) PREVIEW
+ * -------------------------------------- */
+
+const statementRowSchema = z.object({
+  line: z.number().int().positive(),
+  date: z.string().nullable(),
+  amount: z.number().int().nullable(),
+  reference: z.string().trim().max(120).nullable(),
+  username: z.string().trim().nullable(),
+  phone: z.string().trim().nullable(),
+  description: z.string().trim().nullable(),
+});
+
+const previewChargeImportSchema = z.object({
+  rows: z.array(statementRowSchema).min(1, "El archivo no tiene filas.").max(STATEMENT_MAX_ROWS),
+});
+
+export type PreviewChargeImportInput = z.infer<typeof previewChargeImportSchema>;
+
+/**
+ * Matches each statement row to a client: the username column first, then
+ * the phone, then a username written in the reference or concept of the
+ * transfer. Rows whose reference was already charged (or repeats within the
+ * file) are flagged as duplicates.
+ */
+export const previewChargeImportAction = withPermission("ledger:import", async (
+  _user,
+  input: PreviewChargeImportInput,
+): Promise<ImportPreviewRow[]> => {
+  const data = previewChargeImportSchema.parse(input);
+
+  // The client list is small enough to match in memory, which lets us compare
+  // usernames case-insensitively and phones in any format
+  const clients = await prisma.client.findMany({
+    select: { id: true, username: true, phone: true },
+  });
+
+  const byUsername = new Map(clients.map((client) => [client.username.toLowerCase(), client]));
+  const byPhone = new Map(
+    clients
+      .map((client) => [normalizePhone(client.phone), client] as const)
+      .filter((entry): entry is readonly [string, (typeof clients)[number]] => entry[0] !== null),
+  );
+  const usernamePatterns = clients.map((client) => ({
+    client,
+    pattern: new RegExp(`(^|[^\\w.])@?${escapeRegExp(client.username)}($|[^\\w.])`, "i"),
+  }));
+
+  const charged = await findCreditedReferences(
+    PaymentMethod.TRANSFER,
+    data.rows.map((row) => row.reference).filter((reference): reference is string => !!reference),
+  );
+  const seenReferences = new Map<string, number>();
+
+  return data.rows.map((row): ImportPreviewRow => {
+    const result = (
+      status: ImportRowStatus,
+      message: string | null,
+      client: (typeof clients)[number] | null = null,
+      matchedBy: ImportMatch | null = null,
+    ): ImportPreviewRow => ({
+      ...row,
+      status,
+      message,
+      clientId: client?.id ?? null,
+      clientUsername: client?.username ?? null,
+      matchedBy,
+    });
+
+    if (row.amount === null) return result("INVALID", "Importe inválido.");
+    if (row.amount <= 0) return result("INVALID", "Débito o importe cero: no es una carga.");
+
+    let client: (typeof clients)[number] | null = null;
+    let matchedBy: ImportMatch | null = null;
+
+    const username = row.username?.replace(/^@/, "").toLowerCase();
+    const phone = normalizePhone(row.phone);
+
+    if (username && byUsername.has(username)) {
+      client = byUsername.get(username)!;
+      matchedBy = "USERNAME";
+    } else if (phone && byPhone.has(phone)) {
+      client = byPhone.get(phone)!;
+      matchedBy = "PHONE";
+    } else {
+      const text = [row.reference, row.description].filter(Boolean).join(" ");
+      const matches = text ? usernamePatterns.filter(({ pattern }) => pattern.test(text)) : [];
+
+      if (matches.length > 1) {
+        return result("UNMATCHED", `Coincide con varios clientes: ${matches.map((m) => `@${m.client.username}`).join(", ")}.`);
+      }
+
+      if (matches.length === 1) {
+        client = matches[0].client;
+        matchedBy = "REFERENCE";
+      }
+    }
+
+    if (!client) return result("UNMATCHED", "No se encontró el cliente.");
+
+    if (row.reference) {
+      const chargedId = charged.get(row.reference);
+      if (chargedId) {
+        return result("DUPLICATE", `La referencia ya se cargó en el movimiento #${chargedId}.`, client, matchedBy);
+      }
+
+      const firstLine = seenReferences.get(row.reference);
+      if (firstLine) {
+        return result("DUPLICATE", `Referencia repetida en el archivo (fila ${firstLine}).`, client, matchedBy);
+      }
+      seenReferences.set(row.reference, row.line);
+    }
+
+    return result("READY", row.reference ? null : "Sin referencia: no se puede detectar si ya se cargó.", client, matchedBy);
+  });
+});
+
+/* ----------------------------------------
+ * 2) COMMIT
+ * -------------------------------------- */
+
+const commitChargeImportSchema = z.object({
+  fileName: z.string().trim().min(1).max(200),
+  paymentAccountId: z.number().int().optional().nullable(), // bank account of the statement
+  rows: z
+    .array(
+      z.object({
+        line: z.number().int().positive(),
+        clientId: z.number().int(),
+        amount: z.number().int().positive(),
+        reference: z.string().trim().max(120).nullable(),
+      }),
+    )
+    .min(1, "No hay filas confirmadas para importar.")
+    .max(STATEMENT_MAX_ROWS),
+});
+
+export type CommitChargeImportInput = z.infer<typeof commitChargeImportSchema>;
+
+/**
+ * Registers the confirmed rows as TRANSFER charges, all or nothing: any row
+ * failing (duplicate reference, self-exclusion, charge limit) aborts the
+ * whole import with the row number. Each charge goes through the same steps
+ * as one made at the counter, promotions and referral rewards included.
+ */
+export const commitChargeImportAction = withPermission("ledger:import", async (user, input: CommitChargeImportInput) => {
+  const data = commitChargeImportSchema.parse(input);
+
+  const references = data.rows.map((row) => row.reference).filter((reference): reference is string => !!reference);
+  if (new Set(references).size !== references.length) {
+    throw new Error("Hay referencias repetidas entre las filas confirmadas.");
+  }
+
+  const totalAmount = data.rows.reduce((acc, row) => acc + row.amount, 0);
+
+  return prisma.$transaction(async (db) => {
+    const account = await resolvePaymentAccount(db, data.paymentAccountId, PaymentMethod.TRANSFER);
+    const chargeImport = await db.chargeImport.create({
+      data: {
+        fileName: data.fileName,
+        rowCount: data.rows.length,
+        totalAmount,
+        createdById: user.id,
+      },
+    });
+    const shiftId = await findOpenShiftId(user.id, db);
+    // The UTC day the cashier sheet opens on, as for a charge at the counter
+    const today = new Date().toISOString().slice(0, 10);
+
+    for (const row of data.rows) {
+      const rowError = (message: string) => new Error(`Fila ${row.line}: ${message}`);
+
+      try {
+        await assertReferenceAvailable(db, PaymentMethod.TRANSFER, row.reference, null);
+        await enforceChargeLimits(db, row.clientId, row.amount, null);
+      } catch (error) {
+        throw rowError(error instanceof Error ? error.message : "no se pudo cargar.");
+      }
+
+      const client = await db.client.update({
+        where: { id: row.clientId },
+        data: { pointsBalance: { increment: row.amount } },
+      });
+
+      const transaction = await db.pointTransaction.create({
+        data: {
+          clientId: row.clientId,
+          amount: row.amount,
+          type: TransactionType.CHARGE,
+          method: PaymentMethod.TRANSFER,
+          paymentAccountId: account?.id ?? null,
+          referenceCode: row.reference,
+          description: `Importación #${chargeImport.id} (fila ${row.line})`,
+          cashierId: user.id,
+          shiftId,
+          chargeImportId: chargeImport.id,
+        },
+      });
+
+      await markChargedOnDay(db, row.clientId, today, user.id);
+
+      await recordAudit(
+        {
+          actor: user,
+          action: "ledger.charge",
+          entityType: "Client",
+          entityId: row.clientId,
+          before: { pointsBalance: client.pointsBalance - row.amount },
+          after: {
+            pointsBalance: client.pointsBalance,
+            transactionId: transaction.id,
+            amount: transaction.amount,
+            method: transaction.method,
+            paymentAccountId: transaction.paymentAccountId,
+            referenceCode: transaction.referenceCode,
+            chargeImportId: chargeImport.id,
+          },
+        },
+        db,
+      );
+
+      await applyPromotionBonus(db, transaction, user);
+      await applyReferralReward(db, transaction, user);
+    }
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "charge-import.commit",
+        entityType: "ChargeImport",
+        entityId: chargeImport.id,
+        after: { fileName: data.fileName, rowCount: data.rows.length, totalAmount, paymentAccountId: account?.id ?? null },
+      },
+      db,
+    );
+
+    const inflowAlert = await checkInflowCap(db, account, totalAmount, user);
+
+    return { importId: chargeImport.id, rowCount: data.rows.length, totalAmount, inflowAlert };
+  }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+});
+
+/* ----------------------------------------
+ * 3) HISTORY AND ROLLBACK
+ * -------------------------------------- */
+
+const listChargeImportsSchema = z.object({
+  limit: z.number().int().positive().max(100).default(20),
+});
+
+export type ListChargeImportsInput = z.input<typeof listChargeImportsSchema>;
+
+export const listChargeImportsAction = withPermission("ledger:import", async (
+  _user,
+  input: ListChargeImportsInput = {},
+): Promise<ChargeImportRow[]> => {
+  const data = listChargeImportsSchema.parse(input);
+
+  const imports = await prisma.chargeImport.findMany({
+    orderBy: { createdAt: "desc" },
+    take: data.limit,
+    include: {
+      createdBy: { select: { name: true } },
+      rolledBackBy: { select: { name: true } },
+    },
+  });
+
+  return imports.map((chargeImport) => ({
+    id: chargeImport.id,
+    createdAt: chargeImport.createdAt.toISOString(),
+    status: chargeImport.status,
+    fileName: chargeImport.fileName,
+    rowCount: chargeImport.rowCount,
+    totalAmount: chargeImport.totalAmount,
+    createdByName: chargeImport.createdBy.name,
+    rolledBackByName: chargeImport.rolledBackBy?.name ?? null,
+    rolledBackAt: chargeImport.rolledBackAt?.toISOString() ?? null,
+    rollbackReason: chargeImport.rollbackReason,
+  }));
+});
+
+const rollbackChargeImportSchema = z.object({
+  importId: z.number().int(),
+  reason: z.string().trim().min(5, "Indicá el motivo de la reversión."),
+});
+
+export type RollbackChargeImportInput = z.infer<typeof rollbackChargeImportSchema>;
+
+/**
+ * Reverses every charge of the import (with its promotion bonus and referral
+ * rewards) that wasn't reversed on its own already. All or nothing: if a
+ * client already spent the points, nothing is reversed and the error names
+ * the client.
+ */
+export const rollbackChargeImportAction = withPermission("ledger:import-rollback", async (user, input: RollbackChargeImportInput) => {
+  const data = rollbackChargeImportSchema.parse(input);
+
+  try {
+    return await prisma.$transaction(async (db) => {
+      const claimed = await db.chargeImport.updateMany({
+        where: { id: data.importId, status: ChargeImportStatus.COMMITTED },
+        data: {
+          status: ChargeImportStatus.ROLLED_BACK,
+          rolledBackById: user.id,
+          rolledBackAt: new Date(),
+          rollbackReason: data.reason,
+        },
+      });
+
+      if (claimed.count === 0) {
+        const exists = await db.chargeImport.count({ where: { id: data.importId } });
+        throw new Error(exists ? "La importación ya fue revertida." : "La importación no existe.");
+      }
+
+      const charges = await db.pointTransaction.findMany({
+        where: { chargeImportId: data.importId, reversedBy: { is: null } },
+        include: {
+          client: { select: { username: true } },
+          bonus: { include: { reversedBy: { select: { id: true } } } },
+        },
+        orderBy: { id: "asc" },
+      });
+
+      const shiftId = await findOpenShiftId(user.id, db);
+      let reversedAmount = 0;
+
+      for (const charge of charges) {
+        const bonus = charge.bonus && !charge.bonus.reversedBy ? charge.bonus : null;
+        const total = charge.amount + (bonus?.amount ?? 0);
+
+        await debitPointsBalance(
+          db,
+          charge.clientId,
+          total,
+          `@${charge.client.username} ya usó parte de la carga #${charge.id}; revertila a mano antes de revertir la importación.`,
+        );
+
+        const reversal = await db.pointTransaction.create({
+          data: {
+            clientId: charge.clientId,
+            amount: -charge.amount,
+            type: TransactionType.ADJUSTMENT,
+            method: charge.method,
+            description: `Reversión de la importación #${data.importId}`,
+            reversesId: charge.id,
+            reversalReason: data.reason,
+            cashierId: user.id,
+            shiftId,
+          },
+        });
+
+        if (bonus) {
+          await db.pointTransaction.create({
+            data: {
+              clientId: charge.clientId,
+              amount: -bonus.amount,
+              type: TransactionType.ADJUSTMENT,
+              description: `Reversión de la bonificación #${bonus.id}`,
+              reversesId: bonus.id,
+              reversalReason: data.reason,
+              cashierId: user.id,
+            },
+          });
+        }
+
+        await reverseReferralRewards(db, charge, { reason: data.reason }, user);
+
+        await recordAudit(
+          {
+            actor: user,
+            action: "ledger.reverse",
+            entityType: "Client",
+            entityId: charge.clientId,
+            after: {
+              transactionId: reversal.id,
+              reversesId: charge.id,
+              amount: -total,
+              reason: data.reason,
+              chargeImportId: data.importId,
+            },
+          },
+          db,
+        );
+
+        reversedAmount += total;
+      }
+
+      await recordAudit(
+        {
+          actor: user,
+          action: "charge-import.rollback",
+          entityType: "ChargeImport",
+          entityId: data.importId,
+          before: { status: ChargeImportStatus.COMMITTED },
+          after: {
+            status: ChargeImportStatus.ROLLED_BACK,
+            reason: data.reason,
+            reversedCharges: charges.length,
+            reversedAmount,
+          },
+        },
+        db,
+      );
+
+      return { importId: data.importId, reversedCharges: charges.length, reversedAmount };
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    // A cashier reversed one of the charges while we were rolling back
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new Error("Uno de los movimientos se revirtió mientras tanto; intentá de nuevo.");
+    }
+    throw error;
+  }
+});
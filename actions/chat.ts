@@ -1,6 +1,8 @@
 "use server";
 
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { getPointsExpiryWarnings } from "@/lib/points-expiry";
 import { MessageSenderType, MessageType } from "@prisma/client";
 import { z } from "zod";
 
@@ -14,7 +16,6 @@ const saveChatMessageSchema = z.object({
   guestUsername: z.string().optional().nullable(),
   guestPhone: z.string().optional().nullable(),
   senderType: z.nativeEnum(MessageSenderType),
-  operatorId: z.number().int().optional().nullable(),
   messageType: z.nativeEnum(MessageType),
   text: z.string().optional().nullable(),
   imageUrl: z.string().optional().nullable(),
@@ -25,7 +26,7 @@ const saveChatMessageSchema = z.object({
 
 export type SaveChatMessageInput = z.infer<typeof saveChatMessageSchema>;
 
-export async function saveChatMessageAction(input: SaveChatMessageInput) {
+export const saveChatMessageAction = withPermission("chat:operate", async (user, input: SaveChatMessageInput) => {
   const data = saveChatMessageSchema.parse(input);
 
   // Check if guest was manually converted to client
@@ -62,7 +63,8 @@ export async function saveChatMessageAction(input: SaveChatMessageInput) {
       guestUsername: finalGuestUsername ?? null,
       guestPhone: finalGuestPhone ?? null,
       senderType: data.senderType,
-      operatorId: data.operatorId ?? null,
+      // Operator messages are attributed to the signed-in user, never to a client-supplied id
+      operatorId: data.senderType === MessageSenderType.OPERATOR ? user.id : null,
       messageType: data.messageType,
       text: data.text ?? null,
       imageUrl: data.imageUrl ?? null,
@@ -73,7 +75,7 @@ export async function saveChatMessageAction(input: SaveChatMessageInput) {
   });
 
   return message;
-}
+});
 
 /* ----------------------------------------
  * GET CHAT HISTORY FOR A CLIENT
@@ -89,7 +91,7 @@ const getChatHistorySchema = z.object({
 
 export type GetChatHistoryInput = z.infer<typeof getChatHistorySchema>;
 
-export async function getChatHistoryAction(input: GetChatHistoryInput) {
+export const getChatHistoryAction = withPermission("chat:operate", async (_user, input: GetChatHistoryInput) => {
   const data = getChatHistorySchema.parse(input);
 
   const whereClause: any = {};
@@ -131,7 +133,7 @@ export async function getChatHistoryAction(input: GetChatHistoryInput) {
   });
 
   return messages;
-}
+});
 
 /* ----------------------------------------
  * GET CLIENT BY USERNAME
@@ -143,7 +145,7 @@ const getClientByUsernameSchema = z.object({
 
 export type GetClientByUsernameInput = z.infer<typeof getClientByUsernameSchema>;
 
-export async function getClientByUsernameAction(input: GetClientByUsernameInput) {
+export const getClientByUsernameAction = withPermission("chat:operate", async (_user, input: GetClientByUsernameInput) => {
   const data = getClientByUsernameSchema.parse(input);
 
   const client = await prisma.client.findUnique({
@@ -157,11 +159,17 @@ export async function getClientByUsernameAction(input: GetClientByUsernameInput)
       status: true,
       pointsBalance: true,
       createdAt: true,
+      selfExcludedUntil: true,
+      tier: true,
     },
   });
 
-  return client;
-}
+  if (!client) return null;
+
+  const expiryWarnings = await getPointsExpiryWarnings([client]);
+
+  return { ...client, pointsExpiry: expiryWarnings.get(client.id) ?? null };
+});
 
 /* ----------------------------------------
  * MARK MESSAGES AS READ
@@ -170,12 +178,11 @@ export async function getClientByUsernameAction(input: GetClientByUsernameInput)
 const markMessagesAsReadSchema = z.object({
   clientId: z.number().int().optional().nullable(),
   guestUsername: z.string().optional().nullable(),
-  operatorId: z.number().int(),
 });
 
 export type MarkMessagesAsReadInput = z.infer<typeof markMessagesAsReadSchema>;
 
-export async function markMessagesAsReadAction(input: MarkMessagesAsReadInput) {
+export const markMessagesAsReadAction = withPermission("chat:operate", async (_user, input: MarkMessagesAsReadInput) => {
   const data = markMessagesAsReadSchema.parse(input);
 
   const whereClause: any = {
@@ -199,7 +206,7 @@ export async function markMessagesAsReadAction(input: MarkMessagesAsReadInput) {
   });
 
   return result;
-}
+});
 
 /* ----------------------------------------
  * GET UNREAD MESSAGE COUNT
@@ -212,7 +219,7 @@ const getUnreadCountSchema = z.object({
 
 export type GetUnreadCountInput = z.infer<typeof getUnreadCountSchema>;
 
-export async function getUnreadCountAction(input: GetUnreadCountInput) {
+export const getUnreadCountAction = withPermission("chat:operate", async (_user, input: GetUnreadCountInput) => {
   const data = getUnreadCountSchema.parse(input);
 
   const whereClause: any = {
@@ -232,7 +239,7 @@ export async function getUnreadCountAction(input: GetUnreadCountInput) {
   });
 
   return count;
-}
+});
 
 /* ----------------------------------------
  * SEARCH MESSAGES
@@ -247,7 +254,7 @@ const searchMessagesSchema = z.object({
 
 export type SearchMessagesInput = z.infer<typeof searchMessagesSchema>;
 
-export async function searchMessagesAction(input: SearchMessagesInput) {
+export const searchMessagesAction = withPermission("chat:operate", async (_user, input: SearchMessagesInput) => {
   const data = searchMessagesSchema.parse(input);
 
   const whereClause: any = {
@@ -298,13 +305,13 @@ export async function searchMessagesAction(input: SearchMessagesInput) {
   });
 
   return messages;
-}
+});
 
 /* ----------------------------------------
  * GET RECENT CHATS WITH LAST MESSAGE
  * -------------------------------------- */
 
-export async function getRecentChatsAction() {
+export const getRecentChatsAction = withPermission("chat:operate", async () => {
   try {
     // Get all clients who have chat messages
     const clients = await prisma.client.findMany({
@@ -318,9 +325,16 @@ export async function getRecentChatsAction() {
         username: true,
         phone: true,
         status: true,
+        selfExcludedUntil: true,
+        tier: true,
+        pointsBalance: true,
+        createdAt: true,
       },
     });
 
+    // Operators see in the chat header when the client's points are about to expire
+    const expiryWarnings = await getPointsExpiryWarnings(clients);
+
     // Get unique guest usernames from messages without clientId
     // Wrap in try-catch in case guestUsername field doesn't exist in production DB
     let guestUsernames: Array<{ guestUsername: string | null; _max: { guestPhone: string | null } }> = [];
@@ -370,7 +384,7 @@ export async function getRecentChatsAction() {
         });
 
         return {
-          client,
+          client: { ...client, pointsExpiry: expiryWarnings.get(client.id) ?? null },
           lastMessage,
           unreadCount,
           isGuest: false,
@@ -426,6 +440,9 @@ export async function getRecentChatsAction() {
             username: guest.guestUsername,
             phone: guest._max.guestPhone ?? null,
             status: 'ACTIVE' as const,
+            selfExcludedUntil: null,
+            tier: null,
+            pointsExpiry: null,
           },
           lastMessage,
           unreadCount,
@@ -453,4 +470,4 @@ export async function getRecentChatsAction() {
     // Return empty array instead of throwing to prevent complete failure
     return [];
   }
-}
+});
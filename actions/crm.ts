@@ -1,12 +1,30 @@
 "use server";
 
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { debitPointsBalance } from "@/lib/balances";
+import { findOpenShiftId } from "@/lib/shifts";
+import { applyPromotionBonus } from "@/lib/promotions";
+import { applyReferralReward, resolveReferralCode } from "@/lib/referrals";
+import { ChargeLimitExceededError, enforceChargeLimits } from "@/lib/charge-limits";
+import { chargeOverrideSchema, resolveChargeOverride } from "@/lib/charge-overrides";
+import {
+  DuplicateReferenceError,
+  assertReferenceAvailable,
+  referenceCodeSchema,
+} from "@/lib/reference-codes";
+import { checkInflowCap, resolvePaymentAccount } from "@/lib/payment-accounts";
+import { idempotencyKeySchema, runIdempotent } from "@/lib/idempotency";
 import {
   ContactChannel,
   ContactDirection,
+  MessageSenderType,
+  MessageType,
   PaymentMethod,
   TransactionType,
   ClientStatus,
+  type Prisma,
 } from "@prisma/client";
 import { z } from "zod";
 /* ----------------------------------------
@@ -21,56 +39,138 @@ function startOfDay(date: Date) {
  * 1) CREATE / UPDATE CLIENT
  * -------------------------------------- */
 
+// Empty profile fields are stored as null
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .nullable()
+    .transform((value) => value || null);
+
 const createClientSchema = z.object({
   username: z.string().min(3),
   phone: z.string().min(5).optional().nullable(),
-  fullName: z.string().optional().nullable(),
+  fullName: optionalText(120),
+  email: z
+    .string()
+    .trim()
+    .email("El email no es válido.")
+    .optional()
+    .nullable()
+    .or(z.literal(""))
+    .transform((value) => value || null),
+  birthDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "La fecha de nacimiento tiene que tener el formato AAAA-MM-DD.")
+    .optional()
+    .nullable()
+    .or(z.literal("")), // YYYY-MM-DD
+  documentId: optionalText(20),
+  city: optionalText(80),
+  notes: optionalText(2000),
   marketingSourceId: z.number().int().optional().nullable(),
 });
 
-export type CreateClientInput = z.infer<typeof createClientSchema>;
+function toClientProfileData(data: z.infer<typeof createClientSchema>) {
+  return {
+    fullName: data.fullName,
+    email: data.email,
+    birthDate: data.birthDate ? new Date(`${data.birthDate}T00:00:00`) : null,
+    documentId: data.documentId,
+    city: data.city,
+    notes: data.notes,
+  };
+}
 
-export async function createClientAction(input: CreateClientInput) {
-  const data = createClientSchema.parse(input);
+const createClientWithReferralSchema = createClientSchema.extend({
+  referredByCode: z.string().trim().optional().nullable(), // referral code of the client who brought them
+});
 
-  const client = await prisma.client.create({
-    data: {
-      username: data.username,
-      phone: data.phone ?? null,
-      marketingSourceId: data.marketingSourceId ?? null,
-      status: ClientStatus.ACTIVE,
-    },
+export type CreateClientInput = z.input<typeof createClientWithReferralSchema>;
+
+export const createClientAction = withPermission("clients:create", async (user, input: CreateClientInput) => {
+  const data = createClientWithReferralSchema.parse(input);
+
+  const referredById = data.referredByCode ? await resolveReferralCode(data.referredByCode) : null;
+
+  let client;
+  try {
+    client = await prisma.client.create({
+      data: {
+        username: data.username,
+        phone: data.phone ?? null,
+        ...toClientProfileData(data),
+        marketingSourceId: data.marketingSourceId ?? null,
+        referredById,
+        status: ClientStatus.ACTIVE,
+      },
+    });
+  } catch (error) {
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new Error("Ya existe un cliente con ese usuario, teléfono o documento.");
+    }
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "client.create",
+    entityType: "Client",
+    entityId: client.id,
+    after: client,
   });
 
   // Optionally revalidate lists
   // await revalidatePath("/crm/clients");
 
   return client;
-}
+});
 
 const updateClientSchema = createClientSchema.extend({
   id: z.number().int(),
   status: z.nativeEnum(ClientStatus).optional(),
 });
 
-export type UpdateClientInput = z.infer<typeof updateClientSchema>;
+export type UpdateClientInput = z.input<typeof updateClientSchema>;
 
-export async function updateClientAction(input: UpdateClientInput) {
+export const updateClientAction = withPermission("clients:update", async (user, input: UpdateClientInput) => {
   const data = updateClientSchema.parse(input);
 
-  const client = await prisma.client.update({
-    where: { id: data.id },
-    data: {
-      username: data.username,
-      phone: data.phone ?? null,
-      marketingSourceId: data.marketingSourceId ?? null,
-      status: data.status,
-    },
+  const before = await prisma.client.findUnique({ where: { id: data.id } });
+
+  let client;
+  try {
+    client = await prisma.client.update({
+      where: { id: data.id },
+      data: {
+        username: data.username,
+        phone: data.phone ?? null,
+        ...toClientProfileData(data),
+        marketingSourceId: data.marketingSourceId ?? null,
+        status: data.status,
+      },
+    });
+  } catch (error) {
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new Error("Ya existe un cliente con ese usuario, teléfono o documento.");
+    }
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "client.update",
+    entityType: "Client",
+    entityId: client.id,
+    before,
+    after: client,
   });
 
   // await revalidatePath(`/crm/clients/${client.id}`);
   return client;
-}
+});
 
 /* ----------------------------------------
  * 2) LOG CONTACT (ads, WhatsApp, etc.)
@@ -83,12 +183,11 @@ const logContactSchema = z.object({
   viaAd: z.boolean().default(false),
   campaign: z.string().optional().nullable(),
   message: z.string().optional().nullable(),
-  handledById: z.number().int().optional().nullable(), // internal user (agent/cashier)
 });
 
 export type LogContactInput = z.infer<typeof logContactSchema>;
 
-export async function logContactAction(input: LogContactInput) {
+export const logContactAction = withPermission("contacts:write", async (user, input: LogContactInput) => {
   const data = logContactSchema.parse(input);
 
   const contact = await prisma.clientContact.create({
@@ -99,13 +198,13 @@ export async function logContactAction(input: LogContactInput) {
       viaAd: data.viaAd,
       campaign: data.campaign ?? null,
       message: data.message ?? null,
-      handledById: data.handledById ?? null,
+      handledById: user.id,
     },
   });
 
   // await revalidatePath(`/crm/clients/${data.clientId}`);
   return contact;
-}
+});
 
 /* ----------------------------------------
  * 3) REGISTER POINT CHARGE (1 punto = 1 peso)
@@ -115,42 +214,124 @@ export async function logContactAction(input: LogContactInput) {
 const registerChargeSchema = z.object({
   clientId: z.number().int(),
   amount: z.number().int().positive(), // pesos/puntos
-  method: z.nativeEnum(PaymentMethod).optional().nullable(),
+  method: z.nativeEnum(PaymentMethod).optional().nullable(), // taken from the account when missing
+  paymentAccountId: z.number().int().optional().nullable(), // account the money came into
   description: z.string().optional().nullable(),
-  referenceCode: z.string().optional().nullable(), // ticket, trans id, etc.
-  cashierId: z.number().int().optional().nullable(), // internal User
+  referenceCode: referenceCodeSchema.optional().nullable(), // ticket, trans id, etc.
+  idempotencyKey: idempotencyKeySchema.optional().nullable(),
+  limitOverride: chargeOverrideSchema.optional().nullable(), // ADMIN authorization to go over the limits
+  referenceOverride: chargeOverrideSchema.optional().nullable(), // ADMIN authorization to credit a reference again
 });
 
-export type RegisterChargeInput = z.infer<typeof registerChargeSchema>;
+export type RegisterChargeInput = z.input<typeof registerChargeSchema>;
 
-export async function registerPointChargeAction(input: RegisterChargeInput) {
+export const registerPointChargeAction = withPermission("ledger:charge", async (user, input: RegisterChargeInput) => {
   const data = registerChargeSchema.parse(input);
+  const override = await resolveChargeOverride(user, "LIMIT_EXCEEDED", data.limitOverride);
+  const referenceOverride = await resolveChargeOverride(user, "DUPLICATE_REFERENCE", data.referenceOverride);
+
+  const applyCharge = () => prisma.$transaction(async (db) => {
+    const account = await resolvePaymentAccount(db, data.paymentAccountId, data.method);
+    const method = data.method ?? account?.method ?? null;
+
+    // A receipt already credited with the same method, before anything else
+    const duplicateOfId = await assertReferenceAvailable(db, method, data.referenceCode, referenceOverride);
+
+    // Self-exclusion and limits: this also takes the client row lock
+    const overridden = await enforceChargeLimits(db, data.clientId, data.amount, override);
 
-  const [tx, client] = await prisma.$transaction([
-    prisma.pointTransaction.create({
+    const tx = await db.pointTransaction.create({
       data: {
         clientId: data.clientId,
         amount: data.amount,
         type: TransactionType.CHARGE,
-        method: data.method ?? null,
+        method,
+        paymentAccountId: account?.id ?? null,
         description: data.description ?? null,
         referenceCode: data.referenceCode ?? null,
-        cashierId: data.cashierId ?? null,
+        cashierId: user.id,
+        shiftId: await findOpenShiftId(user.id, db),
+        idempotencyKey: data.idempotencyKey ?? null,
+        limitOverrideById: overridden ? override!.approvedById : null,
+        limitOverrideReason: overridden ? override!.reason : null,
+        referenceOverrideById: duplicateOfId ? referenceOverride!.approvedById : null,
+        referenceOverrideReason: duplicateOfId ? referenceOverride!.reason : null,
       },
-    }),
-    prisma.client.update({
+    });
+
+    const client = await db.client.update({
       where: { id: data.clientId },
       data: {
         pointsBalance: {
           increment: data.amount,
         },
       },
-    }),
-  ]);
+    });
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "ledger.charge",
+        entityType: "Client",
+        entityId: data.clientId,
+        before: { pointsBalance: client.pointsBalance - data.amount },
+        after: {
+          pointsBalance: client.pointsBalance,
+          transactionId: tx.id,
+          amount: tx.amount,
+          method: tx.method,
+          paymentAccountId: tx.paymentAccountId,
+          referenceCode: tx.referenceCode,
+          limitOverrideById: tx.limitOverrideById,
+          limitOverrideReason: tx.limitOverrideReason,
+          duplicateOfId,
+          referenceOverrideById: tx.referenceOverrideById,
+          referenceOverrideReason: tx.referenceOverrideReason,
+        },
+      },
+      db,
+    );
 
-  // await revalidatePath(`/crm/clients/${data.clientId}`);
-  return { transaction: tx, client };
-}
+    const bonus = await applyPromotionBonus(db, tx, user);
+    const referralReward = await applyReferralReward(db, tx, user);
+    const credited = (bonus?.amount ?? 0) + (referralReward?.amount ?? 0);
+    const inflowAlert = await checkInflowCap(db, account, data.amount, user);
+
+    return {
+      tx,
+      bonus,
+      client: credited ? { ...client, pointsBalance: client.pointsBalance + credited } : client,
+      inflowAlert,
+    };
+  });
+
+  try {
+    const {
+      result: { tx, bonus, client, inflowAlert },
+      replayed,
+    } = await runIdempotent(
+      data.idempotencyKey,
+      { clientId: data.clientId, amount: data.amount, type: TransactionType.CHARGE },
+      applyCharge,
+      async (existing) => ({
+        tx: existing,
+        bonus: await prisma.pointTransaction.findUnique({ where: { bonusForId: existing.id } }),
+        client: await prisma.client.findUniqueOrThrow({ where: { id: existing.clientId } }),
+        inflowAlert: null, // already reported by the original request
+      }),
+    );
+
+    // await revalidatePath(`/crm/clients/${data.clientId}`);
+    return { transaction: tx, bonus, client, inflowAlert, replayed };
+  } catch (error) {
+    // Over the client's limits or a repeated receipt: the form asks for an
+    // ADMIN's authorization
+    if (error instanceof ChargeLimitExceededError || error instanceof DuplicateReferenceError) {
+      return error.result;
+    }
+    throw error;
+  }
+});
 
 /* Optional: Redeem points if you end up needing it later */
 
@@ -158,50 +339,70 @@ const redeemPointsSchema = z.object({
   clientId: z.number().int(),
   amount: z.number().int().positive(),
   description: z.string().optional().nullable(),
-  cashierId: z.number().int().optional().nullable(),
+  idempotencyKey: idempotencyKeySchema.optional().nullable(),
 });
 
 export type RedeemPointsInput = z.infer<typeof redeemPointsSchema>;
 
-export async function redeemPointsAction(input: RedeemPointsInput) {
+export const redeemPointsAction = withPermission("ledger:redeem", async (user, input: RedeemPointsInput) => {
   const data = redeemPointsSchema.parse(input);
 
-  const client = await prisma.client.findUnique({
-    where: { id: data.clientId },
-    select: { pointsBalance: true },
-  });
-
-  if (!client) {
-    throw new Error("Client not found");
-  }
-
-  if (client.pointsBalance < data.amount) {
-    throw new Error("Insufficient points balance");
-  }
+  const applyRedeem = () => prisma.$transaction(async (db) => {
+    // Check and decrement in one conditional update (see debitPointsBalance)
+    const updatedClient = await debitPointsBalance(
+      db,
+      data.clientId,
+      data.amount,
+      "Insufficient points balance",
+    );
 
-  const [tx, updatedClient] = await prisma.$transaction([
-    prisma.pointTransaction.create({
+    const tx = await db.pointTransaction.create({
       data: {
         clientId: data.clientId,
         amount: -data.amount,
         type: TransactionType.REDEEM,
         description: data.description ?? null,
-        cashierId: data.cashierId ?? null,
+        cashierId: user.id,
+        shiftId: await findOpenShiftId(user.id, db),
+        idempotencyKey: data.idempotencyKey ?? null,
       },
-    }),
-    prisma.client.update({
-      where: { id: data.clientId },
-      data: {
-        pointsBalance: {
-          decrement: data.amount,
+    });
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "ledger.redeem",
+        entityType: "Client",
+        entityId: data.clientId,
+        before: { pointsBalance: updatedClient.pointsBalance + data.amount },
+        after: {
+          pointsBalance: updatedClient.pointsBalance,
+          transactionId: tx.id,
+          amount: tx.amount,
         },
       },
+      db,
+    );
+
+    return { tx, updatedClient };
+  });
+
+  const {
+    result: { tx, updatedClient },
+    replayed,
+  } = await runIdempotent(
+    data.idempotencyKey,
+    { clientId: data.clientId, amount: -data.amount, type: TransactionType.REDEEM },
+    applyRedeem,
+    async (existing) => ({
+      tx: existing,
+      updatedClient: await prisma.client.findUniqueOrThrow({ where: { id: existing.clientId } }),
     }),
-  ]);
+  );
 
   // await revalidatePath(`/crm/clients/${data.clientId}`);
-  return { transaction: tx, client: updatedClient };
-}
+  return { transaction: tx, client: updatedClient, replayed };
+});
 
 /* ----------------------------------------
  * 4) DAILY CHECKBOX: "DID THIS USER CHARGE TODAY?"
@@ -211,17 +412,19 @@ const dailyCheckSchema = z.object({
   clientId: z.number().int(),
   date: z.string().optional(), // "YYYY-MM-DD" from the UI; defaults to today
   hasCharged: z.boolean(),
-  checkedById: z.number().int().optional().nullable(), // cashier
 });
 
 export type DailyCheckInput = z.infer<typeof dailyCheckSchema>;
 
-export async function upsertDailyChargeCheckAction(input: DailyCheckInput) {
+export const upsertDailyChargeCheckAction = withPermission("daily-checks:write", async (user, input: DailyCheckInput) => {
   const data = dailyCheckSchema.parse(input);
 
   const dateBase = data.date ? new Date(data.date) : new Date();
   const date = startOfDay(dateBase); // normalize to the start of that day
 
+  const before = await prisma.dailyChargeCheck.findUnique({
+    where: { clientId_date: { clientId: data.clientId, date } },
+  });
   const record = await prisma.dailyChargeCheck.upsert({
     where: {
       clientId_date: {
@@ -232,19 +435,28 @@ export async function upsertDailyChargeCheckAction(input: DailyCheckInput) {
     update: {
       hasCharged: data.hasCharged,
       checkedAt: new Date(),
-      checkedById: data.checkedById ?? null,
+      checkedById: user.id,
     },
     create: {
       clientId: data.clientId,
       date,
       hasCharged: data.hasCharged,
-      checkedById: data.checkedById ?? null,
+      checkedById: user.id,
     },
   });
 
+  await recordAudit({
+    actor: user,
+    action: "daily-check.upsert",
+    entityType: "DailyChargeCheck",
+    entityId: record.id,
+    before,
+    after: record,
+  });
+
   // await revalidatePath(`/crm/daily/${data.date ?? "today"}`);
   return record;
-}
+});
 
 /* ----------------------------------------
  * 5) METRICS / OVERVIEW PER CLIENT
@@ -256,7 +468,7 @@ const getClientOverviewSchema = z.object({
 
 export type GetClientOverviewInput = z.infer<typeof getClientOverviewSchema>;
 
-export async function getClientOverviewAction(input: GetClientOverviewInput) {
+export const getClientOverviewAction = withPermission("clients:read", async (_user, input: GetClientOverviewInput) => {
   const data = getClientOverviewSchema.parse(input);
 
   const [client, totals, lastCharge, lastContact] = await prisma.$transaction([
@@ -302,7 +514,7 @@ export async function getClientOverviewAction(input: GetClientOverviewInput) {
       lastContactDirection: lastContact?.direction ?? null,
     },
   };
-}
+});
 
 /* ----------------------------------------
  * 6) DAILY SHEET FOR CASHIERS
@@ -316,7 +528,7 @@ const dailySheetSchema = z.object({
 
 export type DailySheetInput = z.infer<typeof dailySheetSchema>;
 
-export async function getDailyChargeSheetAction(input: DailySheetInput) {
+export const getDailyChargeSheetAction = withPermission("cashier:read", async (_user, input: DailySheetInput) => {
   const data = dailySheetSchema.parse(input);
 
   const dateBase = data.date ? new Date(data.date) : new Date();
@@ -345,4 +557,305 @@ export async function getDailyChargeSheetAction(input: DailySheetInput) {
       checkedById: check?.checkedById ?? null,
     };
   });
+});
+
+/* ----------------------------------------
+ * 7) TRANSACTION HISTORY PER CLIENT
+ *    (reversed rows stay listed, flagged with reversedById)
+ * -------------------------------------- */
+
+const clientTransactionsSchema = z.object({
+  clientId: z.number().int(),
+  take: z.number().int().positive().max(200).default(50),
+});
+
+export type ClientTransactionsInput = z.input<typeof clientTransactionsSchema>;
+
+export type ClientTransactionRow = {
+  id: number;
+  createdAt: string;
+  type: TransactionType;
+  amount: number;
+  method: PaymentMethod | null;
+  description: string | null;
+  cashierName: string | null;
+  reversesId: number | null;
+  reversalReason: string | null;
+  reversedById: number | null;
+  withdrawalId: number | null; // set on the REDEEM row that holds a withdrawal
+};
+
+const clientTransactionInclude = {
+  cashier: { select: { name: true } },
+  reversedBy: { select: { id: true } },
+  withdrawal: { select: { id: true } },
+} satisfies Prisma.PointTransactionInclude;
+
+function toClientTransactionRow(
+  tx: Prisma.PointTransactionGetPayload<{ include: typeof clientTransactionInclude }>,
+): ClientTransactionRow {
+  return {
+    id: tx.id,
+    createdAt: tx.createdAt.toISOString(),
+    type: tx.type,
+    amount: tx.amount,
+    method: tx.method,
+    description: tx.description,
+    cashierName: tx.cashier?.name ?? null,
+    reversesId: tx.reversesId,
+    reversalReason: tx.reversalReason,
+    reversedById: tx.reversedBy?.id ?? null,
+    withdrawalId: tx.withdrawal?.id ?? null,
+  };
 }
+
+export const getClientTransactionsAction = withPermission("clients:read", async (_user, input: ClientTransactionsInput): Promise<ClientTransactionRow[]> => {
+  const data = clientTransactionsSchema.parse(input);
+
+  const transactions = await prisma.pointTransaction.findMany({
+    where: { clientId: data.clientId },
+    orderBy: { createdAt: "desc" },
+    take: data.take,
+    include: clientTransactionInclude,
+  });
+
+  return transactions.map(toClientTransactionRow);
+});
+
+/* ----------------------------------------
+ * 8) ACTIVITY TIMELINE PER CLIENT
+ *    (transactions, contacts, daily checks and chat messages merged by date)
+ * -------------------------------------- */
+
+export type ClientTimelineKind = "TRANSACTION" | "CONTACT" | "DAILY_CHECK" | "CHAT";
+
+export type ClientTimelineItem = { key: string; at: string } & (
+  | { kind: "TRANSACTION"; transaction: ClientTransactionRow }
+  | {
+      kind: "CONTACT";
+      contact: {
+        id: number;
+        channel: ContactChannel;
+        direction: ContactDirection;
+        viaAd: boolean;
+        campaign: string | null;
+        message: string | null;
+        handledByName: string | null;
+      };
+    }
+  | {
+      kind: "DAILY_CHECK";
+      check: { id: number; date: string; hasCharged: boolean; checkedByName: string | null };
+    }
+  | {
+      kind: "CHAT";
+      message: {
+        id: number;
+        senderType: MessageSenderType;
+        messageType: MessageType;
+        text: string | null;
+        imageName: string | null;
+        operatorName: string | null;
+      };
+    }
+);
+
+export type ClientTimelinePage = {
+  items: ClientTimelineItem[];
+  nextCursor: string | null; // pass it back as `cursor` for the next page
+};
+
+// Order between items with the same timestamp (a charge and its bonus share it)
+const TIMELINE_KIND_RANK: Record<ClientTimelineKind, number> = {
+  TRANSACTION: 0,
+  CONTACT: 1,
+  DAILY_CHECK: 2,
+  CHAT: 3,
+};
+
+const TIMELINE_KINDS = Object.keys(TIMELINE_KIND_RANK) as ClientTimelineKind[];
+
+const clientTimelineSchema = z.object({
+  clientId: z.number().int(),
+  kinds: z.array(z.enum(TIMELINE_KINDS as [ClientTimelineKind, ...ClientTimelineKind[]])).min(1).default(TIMELINE_KINDS),
+  from: z.string().optional().nullable(), // YYYY-MM-DD, inclusive
+  to: z.string().optional().nullable(), // YYYY-MM-DD, inclusive
+  cursor: z.string().optional().nullable(),
+  pageSize: z.number().int().positive().max(100).default(30),
+});
+
+export type ClientTimelineInput = z.input<typeof clientTimelineSchema>;
+
+type TimelineCursor = { at: Date; kind: ClientTimelineKind; id: number };
+
+function encodeTimelineCursor(item: { at: string; kind: ClientTimelineKind }, id: number) {
+  return `${item.at}|${item.kind}|${id}`;
+}
+
+function decodeTimelineCursor(value: string): TimelineCursor {
+  const [at, kind, id] = value.split("|");
+  const cursor = { at: new Date(at), kind: kind as ClientTimelineKind, id: Number(id) };
+
+  if (Number.isNaN(cursor.at.getTime()) || !(cursor.kind in TIMELINE_KIND_RANK) || !Number.isInteger(cursor.id)) {
+    throw new Error("Cursor de historial inválido.");
+  }
+
+  return cursor;
+}
+
+/**
+ * Items of `kind` that come after the cursor in the timeline order
+ * (newest first; same timestamp by kind, then id descending).
+ */
+function afterCursor(kind: ClientTimelineKind, cursor: TimelineCursor | null, dateField: "createdAt" | "checkedAt") {
+  if (!cursor) return {};
+
+  const rank = TIMELINE_KIND_RANK[kind];
+  const cursorRank = TIMELINE_KIND_RANK[cursor.kind];
+
+  if (rank > cursorRank) return { [dateField]: { lte: cursor.at } };
+  if (rank < cursorRank) return { [dateField]: { lt: cursor.at } };
+
+  return {
+    OR: [{ [dateField]: { lt: cursor.at } }, { [dateField]: cursor.at, id: { lt: cursor.id } }],
+  };
+}
+
+function itemId(item: ClientTimelineItem) {
+  switch (item.kind) {
+    case "TRANSACTION":
+      return item.transaction.id;
+    case "CONTACT":
+      return item.contact.id;
+    case "DAILY_CHECK":
+      return item.check.id;
+    case "CHAT":
+      return item.message.id;
+  }
+}
+
+/**
+ * One page of everything that happened with a client. Each source is read
+ * up to `pageSize + 1` rows past the cursor and the results are merged, so a
+ * page costs four small indexed queries whatever the size of the history.
+ */
+export const getClientTimelineAction = withPermission("clients:read", async (
+  _user,
+  input: ClientTimelineInput,
+): Promise<ClientTimelinePage> => {
+  const data = clientTimelineSchema.parse(input);
+  const cursor = data.cursor ? decodeTimelineCursor(data.cursor) : null;
+  const take = data.pageSize + 1;
+
+  const range = {
+    ...(data.from ? { gte: new Date(`${data.from}T00:00:00`) } : {}),
+    ...(data.to ? { lte: new Date(`${data.to}T23:59:59.999`) } : {}),
+  };
+  const inRange = (dateField: "createdAt" | "checkedAt") =>
+    data.from || data.to ? { [dateField]: range } : {};
+  const wants = (kind: ClientTimelineKind) => data.kinds.includes(kind);
+  const order = (dateField: "createdAt" | "checkedAt") => [{ [dateField]: "desc" as const }, { id: "desc" as const }];
+
+  const [transactions, contacts, checks, messages] = await Promise.all([
+    wants("TRANSACTION")
+      ? prisma.pointTransaction.findMany({
+          where: {
+            AND: [{ clientId: data.clientId }, inRange("createdAt"), afterCursor("TRANSACTION", cursor, "createdAt")],
+          },
+          orderBy: order("createdAt"),
+          take,
+          include: clientTransactionInclude,
+        })
+      : [],
+    wants("CONTACT")
+      ? prisma.clientContact.findMany({
+          where: {
+            AND: [{ clientId: data.clientId }, inRange("createdAt"), afterCursor("CONTACT", cursor, "createdAt")],
+          },
+          orderBy: order("createdAt"),
+          take,
+          include: { handledBy: { select: { name: true } } },
+        })
+      : [],
+    wants("DAILY_CHECK")
+      ? prisma.dailyChargeCheck.findMany({
+          where: {
+            AND: [{ clientId: data.clientId }, inRange("checkedAt"), afterCursor("DAILY_CHECK", cursor, "checkedAt")],
+          },
+          orderBy: order("checkedAt"),
+          take,
+          include: { checkedBy: { select: { name: true } } },
+        })
+      : [],
+    wants("CHAT")
+      ? prisma.chatMessage.findMany({
+          where: {
+            AND: [{ clientId: data.clientId }, inRange("createdAt"), afterCursor("CHAT", cursor, "createdAt")],
+          },
+          orderBy: order("createdAt"),
+          take,
+          include: { operator: { select: { name: true } } },
+        })
+      : [],
+  ]);
+
+  const merged: ClientTimelineItem[] = [
+    ...transactions.map((tx): ClientTimelineItem => ({
+      key: `TRANSACTION-${tx.id}`,
+      at: tx.createdAt.toISOString(),
+      kind: "TRANSACTION",
+      transaction: toClientTransactionRow(tx),
+    })),
+    ...contacts.map((contact): ClientTimelineItem => ({
+      key: `CONTACT-${contact.id}`,
+      at: contact.createdAt.toISOString(),
+      kind: "CONTACT",
+      contact: {
+        id: contact.id,
+        channel: contact.channel,
+        direction: contact.direction,
+        viaAd: contact.viaAd,
+        campaign: contact.campaign,
+        message: contact.message,
+        handledByName: contact.handledBy?.name ?? null,
+      },
+    })),
+    ...checks.map((check): ClientTimelineItem => ({
+      key: `DAILY_CHECK-${check.id}`,
+      at: check.checkedAt.toISOString(),
+      kind: "DAILY_CHECK",
+      check: {
+        id: check.id,
+        date: check.date.toISOString(),
+        hasCharged: check.hasCharged,
+        checkedByName: check.checkedBy?.name ?? null,
+      },
+    })),
+    ...messages.map((message): ClientTimelineItem => ({
+      key: `CHAT-${message.id}`,
+      at: message.createdAt.toISOString(),
+      kind: "CHAT",
+      message: {
+        id: message.id,
+        senderType: message.senderType,
+        messageType: message.messageType,
+        text: message.text,
+        imageName: message.imageName,
+        operatorName: message.operator?.name ?? null,
+      },
+    })),
+  ].sort(
+    (a, b) =>
+      b.at.localeCompare(a.at) ||
+      TIMELINE_KIND_RANK[a.kind] - TIMELINE_KIND_RANK[b.kind] ||
+      itemId(b) - itemId(a),
+  );
+
+  const items = merged.slice(0, data.pageSize);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: merged.length > data.pageSize && last ? encodeTimelineCursor(last, itemId(last)) : null,
+  };
+});
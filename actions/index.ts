@@ -1,59 +1,145 @@
 "use server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
 import { hashPassword } from "@/lib/password";
-import { UserRole } from "@prisma/client";
+import { validatePasswordStrength } from "@/lib/password-policy";
+import { setUserPassword } from "@/lib/credentials";
+import { revokeUserSessions } from "@/lib/session";
+import { recordAudit, toAuditUser } from "@/lib/audit";
+import { UserRole, type Prisma } from "@prisma/client";
 
 const createUserSchema = z.object({
   name: z.string().min(3),
   username: z.string().min(3),
-  password: z.string().min(6),
+  password: z.string().min(1),
   role: z.nativeEnum(UserRole),
   isActive: z.boolean().default(true),
 });
 
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 
-export async function createUserAction(input: CreateUserInput) {
+export const createUserAction = withPermission("users:manage", async (user, input: CreateUserInput) => {
   const data = createUserSchema.parse(input);
   const { password, ...rest } = data;
+
+  const passwordValidation = validatePasswordStrength(password, {
+    username: rest.username,
+  });
+  if (!passwordValidation.valid) {
+    throw new Error(passwordValidation.error);
+  }
+
   const passwordHash = await hashPassword(password);
 
-  return prisma.user.create({
+  const created = await prisma.user.create({
     data: {
       ...rest,
       passwordHash,
+      mustChangePassword: true,
     },
   });
-}
+
+  await recordAudit({
+    actor: user,
+    action: "user.create",
+    entityType: "User",
+    entityId: created.id,
+    after: toAuditUser(created),
+  });
+
+  return created;
+});
 
 const updateUserSchema = createUserSchema.omit({ password: true }).extend({
   id: z.number().int(),
-  password: z.string().min(6).optional(),
+  password: z.string().min(1).optional(),
 });
 
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 
-export async function updateUserAction(input: UpdateUserInput) {
+export const updateUserAction = withPermission("users:manage", async (user, input: UpdateUserInput) => {
   const data = updateUserSchema.parse(input);
   const { id, password, ...rest } = data;
-  const passwordUpdate = password
-    ? { passwordHash: await hashPassword(password) }
-    : undefined;
-  return prisma.user.update({
-    where: { id },
-    data: {
-      ...rest,
-      ...passwordUpdate,
-    },
+
+  const before = await prisma.user.findUnique({ where: { id } });
+
+  // Applies policy + history; an admin-set password must be replaced by its owner
+  if (password) {
+    await setUserPassword(id, password, { mustChangePassword: true });
+  }
+
+  const { updated, revokedSessions } = await prisma.$transaction(async (tx) => {
+    const updated = await tx.user.update({
+      where: { id },
+      data: rest,
+    });
+
+    // A deactivated user must lose access now, not when the session expires
+    const revokedSessions = updated.isActive ? 0 : await revokeUserSessions(id, {}, tx);
+
+    return { updated, revokedSessions };
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "user.update",
+    entityType: "User",
+    entityId: updated.id,
+    before: before ? toAuditUser(before) : null,
+    after: { ...toAuditUser(updated), passwordChanged: !!password, revokedSessions },
   });
-}
 
-export async function listUsersAction() {
+  return updated;
+});
+
+const setUserActiveSchema = z.object({
+  userId: z.number().int(),
+  isActive: z.boolean(),
+});
+
+export type SetUserActiveInput = z.infer<typeof setUserActiveSchema>;
+
+export const setUserActiveAction = withPermission("users:manage", async (user, input: SetUserActiveInput) => {
+  const data = setUserActiveSchema.parse(input);
+
+  if (data.userId === user.id && !data.isActive) {
+    throw new Error("No podés desactivar tu propio usuario.");
+  }
+
+  const before = await prisma.user.findUnique({ where: { id: data.userId } });
+
+  if (!before) {
+    throw new Error("Usuario no encontrado.");
+  }
+
+  const { updated, revokedSessions } = await prisma.$transaction(async (tx) => {
+    const updated = await tx.user.update({
+      where: { id: data.userId },
+      data: { isActive: data.isActive },
+    });
+    const revokedSessions = data.isActive ? 0 : await revokeUserSessions(data.userId, {}, tx);
+
+    return { updated, revokedSessions };
+  });
+
+  await recordAudit({
+    actor: user,
+    action: data.isActive ? "user.reactivate" : "user.deactivate",
+    entityType: "User",
+    entityId: data.userId,
+    before: toAuditUser(before),
+    after: { ...toAuditUser(updated), revokedSessions },
+  });
+
+  return { userId: updated.id, isActive: updated.isActive, revokedSessions };
+});
+
+export const listUsersAction = withPermission("users:manage", async () => {
   return prisma.user.findMany({
     orderBy: { name: "asc" },
   });
-}
+});
 
 const listClientsSchema = z.object({
   query: z.string().optional(),
@@ -64,32 +150,33 @@ const listClientsSchema = z.object({
 
 export type ListClientsInput = z.infer<typeof listClientsSchema>;
 
-export async function listClientsAction(input: ListClientsInput) {
+export const listClientsAction = withPermission("clients:read", async (_user, input: ListClientsInput) => {
   const data = listClientsSchema.parse(input);
-  const where = {
+  const where: Prisma.ClientWhereInput = {
     status: data.status,
     OR: data.query
       ? [
           { username: { contains: data.query, mode: "insensitive" } },
           { fullName: { contains: data.query, mode: "insensitive" } },
           { phone: { contains: data.query, mode: "insensitive" } },
+          { email: { contains: data.query, mode: "insensitive" } },
+          { documentId: { contains: data.query, mode: "insensitive" } },
         ]
       : undefined,
   };
 
   const [clients, total] = await prisma.$transaction([
     prisma.client.findMany({
-      //@ts-expect-error bla
       where,
       orderBy: { username: "asc" },
       skip: (data.page - 1) * data.pageSize,
       take: data.pageSize,
-    }), //@ts-expect-error bla
+    }),
     prisma.client.count({ where }),
   ]);
 
   return { clients, total };
-}
+});
 
 const listClientHistorySchema = z.object({
   clientId: z.number().int(),
@@ -99,9 +186,10 @@ const listClientHistorySchema = z.object({
 
 export type ListClientHistoryInput = z.infer<typeof listClientHistorySchema>;
 
-export async function listClientTransactionsAction(
+export const listClientTransactionsAction = withPermission("clients:read", async (
+  _user,
   input: ListClientHistoryInput,
-) {
+) => {
   const data = listClientHistorySchema.parse(input);
   const where = { clientId: data.clientId };
 
@@ -116,9 +204,9 @@ export async function listClientTransactionsAction(
   ]);
 
   return { transactions, total };
-}
+});
 
-export async function listClientContactsAction(input: ListClientHistoryInput) {
+export const listClientContactsAction = withPermission("clients:read", async (_user, input: ListClientHistoryInput) => {
   const data = listClientHistorySchema.parse(input);
   const where = { clientId: data.clientId };
 
@@ -133,7 +221,7 @@ export async function listClientContactsAction(input: ListClientHistoryInput) {
   ]);
 
   return { contacts, total };
-}
+});
 
 const createMarketingSourceSchema = z.object({
   name: z.string().min(3),
@@ -145,12 +233,23 @@ export type CreateMarketingSourceInput = z.infer<
   typeof createMarketingSourceSchema
 >;
 
-export async function createMarketingSourceAction(
+export const createMarketingSourceAction = withPermission("marketing:manage", async (
+  user,
   input: CreateMarketingSourceInput,
-) {
+) => {
   const data = createMarketingSourceSchema.parse(input);
-  return prisma.marketingSource.create({ data });
-}
+  const source = await prisma.marketingSource.create({ data });
+
+  await recordAudit({
+    actor: user,
+    action: "marketing-source.create",
+    entityType: "MarketingSource",
+    entityId: source.id,
+    after: source,
+  });
+
+  return source;
+});
 
 const updateMarketingSourceSchema = createMarketingSourceSchema.extend({
   id: z.number().int(),
@@ -160,18 +259,33 @@ export type UpdateMarketingSourceInput = z.infer<
   typeof updateMarketingSourceSchema
 >;
 
-export async function updateMarketingSourceAction(
+export const updateMarketingSourceAction = withPermission("marketing:manage", async (
+  user,
   input: UpdateMarketingSourceInput,
-) {
+) => {
   const data = updateMarketingSourceSchema.parse(input);
-  return prisma.marketingSource.update({
+  const before = await prisma.marketingSource.findUnique({
+    where: { id: data.id },
+  });
+  const source = await prisma.marketingSource.update({
     where: { id: data.id },
     data,
   });
-}
 
-export async function listMarketingSourcesAction() {
+  await recordAudit({
+    actor: user,
+    action: "marketing-source.update",
+    entityType: "MarketingSource",
+    entityId: source.id,
+    before,
+    after: source,
+  });
+
+  return source;
+});
+
+export const listMarketingSourcesAction = withPermission("marketing:read", async () => {
   return prisma.marketingSource.findMany({
     orderBy: { name: "asc" },
   });
-}
+});
@@ -0,0 +1,130 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import {
+  DEFAULT_INVITATION_TTL_HOURS,
+  MAX_INVITATION_TTL_HOURS,
+  generateInvitationToken,
+  getInvitationState,
+  type InvitationState,
+} from "@/lib/invitations";
+import { UserRole } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * CREATE INVITATION
+ * -------------------------------------- */
+
+const createInvitationSchema = z.object({
+  role: z.nativeEnum(UserRole),
+  expiresInHours: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_INVITATION_TTL_HOURS)
+    .default(DEFAULT_INVITATION_TTL_HOURS),
+  note: z.string().trim().max(200).optional().nullable(),
+});
+
+export type CreateInvitationInput = z.input<typeof createInvitationSchema>;
+
+export type InvitationRow = {
+  id: number;
+  role: UserRole;
+  note: string | null;
+  state: InvitationState;
+  createdAt: string;
+  expiresAt: string;
+  createdByName: string;
+  usedByUsername: string | null;
+};
+
+export const createInvitationAction = withPermission("users:manage", async (user, input: CreateInvitationInput) => {
+  const data = createInvitationSchema.parse(input);
+  const { token, tokenHash } = generateInvitationToken();
+
+  const invitation = await prisma.userInvitation.create({
+    data: {
+      tokenHash,
+      role: data.role,
+      note: data.note || null,
+      expiresAt: new Date(Date.now() + data.expiresInHours * 60 * 60 * 1000),
+      createdById: user.id,
+    },
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "invitation.create",
+    entityType: "UserInvitation",
+    entityId: invitation.id,
+    after: {
+      role: invitation.role,
+      note: invitation.note,
+      expiresAt: invitation.expiresAt,
+    },
+  });
+
+  // The plain token only leaves the server here; the UI builds the link
+  return {
+    token,
+    invitationId: invitation.id,
+    expiresAt: invitation.expiresAt.toISOString(),
+  };
+});
+
+/* ----------------------------------------
+ * LIST / REVOKE
+ * -------------------------------------- */
+
+export const listInvitationsAction = withPermission("users:manage", async (): Promise<InvitationRow[]> => {
+  const invitations = await prisma.userInvitation.findMany({
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    include: {
+      createdBy: { select: { name: true } },
+      usedBy: { select: { username: true } },
+    },
+  });
+
+  return invitations.map((invitation) => ({
+    id: invitation.id,
+    role: invitation.role,
+    note: invitation.note,
+    state: getInvitationState(invitation),
+    createdAt: invitation.createdAt.toISOString(),
+    expiresAt: invitation.expiresAt.toISOString(),
+    createdByName: invitation.createdBy.name,
+    usedByUsername: invitation.usedBy?.username ?? null,
+  }));
+});
+
+const revokeInvitationSchema = z.object({
+  invitationId: z.number().int(),
+});
+
+export type RevokeInvitationInput = z.infer<typeof revokeInvitationSchema>;
+
+export const revokeInvitationAction = withPermission("users:manage", async (user, input: RevokeInvitationInput) => {
+  const data = revokeInvitationSchema.parse(input);
+
+  const result = await prisma.userInvitation.updateMany({
+    where: { id: data.invitationId, usedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new Error("La invitación ya se usó o fue revocada.");
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "invitation.revoke",
+    entityType: "UserInvitation",
+    entityId: data.invitationId,
+  });
+
+  return { success: true as const, invitationId: data.invitationId };
+});
@@ -0,0 +1,234 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { findOpenShiftId } from "@/lib/shifts";
+import { reverseReferralRewards } from "@/lib/referrals";
+import {
+  findBalanceDiscrepancies,
+  repairBalanceDiscrepancy,
+  type BalanceDiscrepancy,
+  type BalanceRepair,
+} from "@/lib/balances";
+import { approverSchema, verifyApprover } from "@/lib/approvals";
+import {
+  REVERSAL_APPROVAL_THRESHOLD,
+  REVERSAL_REASON_MIN_LENGTH,
+  requiresReversalApproval,
+  type ReversalApprovalRequiredResult,
+} from "@/lib/reversal-policy";
+import { TransactionType } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * REVERSALS
+ *    A mistaken charge or redeem is never edited or deleted: it gets a
+ *    compensating ADJUSTMENT row that points back to it via reversesId.
+ * -------------------------------------- */
+
+const ALREADY_REVERSED_ERROR = "Este movimiento ya fue revertido.";
+
+const reverseTransactionSchema = z.object({
+  transactionId: z.number().int(),
+  reason: z
+    .string()
+    .trim()
+    .min(
+      REVERSAL_REASON_MIN_LENGTH,
+      `Indicá el motivo (al menos ${REVERSAL_REASON_MIN_LENGTH} caracteres).`,
+    ),
+  // supervisor credentials typed on the same screen, only above the threshold
+  approver: approverSchema.optional().nullable(),
+});
+
+export type ReverseTransactionInput = z.infer<typeof reverseTransactionSchema>;
+
+export const reverseTransactionAction = withPermission("ledger:reverse", async (user, input: ReverseTransactionInput) => {
+  const data = reverseTransactionSchema.parse(input);
+
+  const original = await prisma.pointTransaction.findUnique({
+    where: { id: data.transactionId },
+    include: {
+      reversedBy: { select: { id: true } },
+      withdrawal: { select: { id: true } },
+      bonus: { include: { reversedBy: { select: { id: true } } } },
+      referralRewards: { where: { reversedBy: { is: null } }, select: { amount: true } },
+    },
+  });
+
+  if (!original) {
+    throw new Error("Movimiento no encontrado.");
+  }
+
+  if (original.reversesId) {
+    throw new Error("No se puede revertir una reversión.");
+  }
+
+  if (original.reversedBy) {
+    throw new Error(ALREADY_REVERSED_ERROR);
+  }
+
+  // The hold of a withdrawal is released by rejecting the request, not here
+  if (original.withdrawal) {
+    throw new Error(
+      `Este movimiento retiene el retiro #${original.withdrawal.id}; rechazalo desde la cola de retiros.`,
+    );
+  }
+
+  // A reversed charge takes its promotion bonus and referral rewards with it
+  const bonus = original.bonus && !original.bonus.reversedBy ? original.bonus : null;
+
+  // The threshold applies to every point the reversal takes back
+  const pointsMoved =
+    Math.abs(original.amount) +
+    (bonus?.amount ?? 0) +
+    original.referralRewards.reduce((acc, reward) => acc + reward.amount, 0);
+
+  let approvedById: number | null = null;
+
+  if (requiresReversalApproval(pointsMoved)) {
+    if (!data.approver) {
+      return {
+        success: false,
+        code: "APPROVAL_REQUIRED",
+        message:
+          `Las reversiones de más de ${REVERSAL_APPROVAL_THRESHOLD} puntos necesitan la aprobación de un administrador ` +
+          `(esta mueve ${pointsMoved}, con la bonificación y los premios por referido).`,
+        pointsMoved,
+      } satisfies ReversalApprovalRequiredResult;
+    }
+
+    approvedById = (
+      await verifyApprover(data.approver, user, "ledger:approve-reversal", {
+        sameUser: "La reversión la tiene que aprobar otra persona.",
+        forbidden: "El aprobador no tiene permiso para autorizar reversiones.",
+      })
+    ).id;
+  }
+
+  try {
+    return await prisma.$transaction(async (db) => {
+      const reversal = await db.pointTransaction.create({
+        data: {
+          clientId: original.clientId,
+          amount: -original.amount,
+          type: TransactionType.ADJUSTMENT,
+          method: original.method,
+          description: `Reversión del movimiento #${original.id}`,
+          reversesId: original.id,
+          reversalReason: data.reason,
+          cashierId: user.id,
+          // bonuses, referral rewards and expiries aren't cash: neither they nor their reversals go in the drawer count
+          shiftId:
+            original.type === TransactionType.BONUS ||
+            original.type === TransactionType.REFERRAL ||
+            original.type === TransactionType.EXPIRE
+              ? null
+              : await findOpenShiftId(user.id, db),
+          approvedById,
+        },
+      });
+
+      const bonusReversal = bonus
+        ? await db.pointTransaction.create({
+            data: {
+              clientId: original.clientId,
+              amount: -bonus.amount,
+              type: TransactionType.ADJUSTMENT,
+              description: `Reversión de la bonificación #${bonus.id}`,
+              reversesId: bonus.id,
+              reversalReason: data.reason,
+              cashierId: user.id,
+              approvedById,
+            },
+          })
+        : null;
+
+      // ...and the referral rewards it earned, on both sides
+      const referralReversals = await reverseReferralRewards(
+        db,
+        original,
+        { reason: data.reason, approvedById },
+        user,
+      );
+
+      const totalChange = reversal.amount + (bonusReversal?.amount ?? 0);
+
+      const client = await db.client.update({
+        where: { id: original.clientId },
+        data: {
+          pointsBalance: {
+            increment: totalChange,
+          },
+        },
+      });
+
+      // Undoing a charge the client already spent would leave a negative balance
+      if (client.pointsBalance < 0) {
+        throw new Error(
+          "El cliente ya no tiene saldo suficiente para revertir este movimiento.",
+        );
+      }
+
+      await recordAudit(
+        {
+          actor: user,
+          action: "ledger.reverse",
+          entityType: "Client",
+          entityId: original.clientId,
+          before: { pointsBalance: client.pointsBalance - totalChange },
+          after: {
+            pointsBalance: client.pointsBalance,
+            transactionId: reversal.id,
+            reversesId: original.id,
+            amount: reversal.amount,
+            bonusReversalId: bonusReversal?.id ?? null,
+            referralReversalIds: referralReversals.map((row) => row.id),
+            reason: data.reason,
+            approvedById,
+          },
+        },
+        db,
+      );
+
+      return { reversal, client };
+    });
+  } catch (error) {
+    // Two cashiers reversing the same row at once: the unique reversesId decides
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new Error(ALREADY_REVERSED_ERROR);
+    }
+    throw error;
+  }
+});
+
+/* ----------------------------------------
+ * RECONCILIATION
+ *    Compares each Client.pointsBalance with the sum of its ledger. The same
+ *    check runs from the CLI: scripts/reconcile-balances.ts
+ * -------------------------------------- */
+
+export const getBalanceDiscrepanciesAction = withPermission("ledger:reconcile", async (): Promise<BalanceDiscrepancy[]> => {
+  return findBalanceDiscrepancies();
+});
+
+const repairBalancesSchema = z.object({
+  clientIds: z.array(z.number().int()).min(1),
+});
+
+export type RepairBalancesInput = z.infer<typeof repairBalancesSchema>;
+
+export const repairBalancesAction = withPermission("ledger:reconcile", async (user, input: RepairBalancesInput): Promise<BalanceRepair[]> => {
+  const data = repairBalancesSchema.parse(input);
+
+  const repairs: BalanceRepair[] = [];
+
+  // One transaction per client: a failure doesn't undo the others
+  for (const clientId of data.clientIds) {
+    const repair = await repairBalanceDiscrepancy(clientId, user);
+    if (repair) repairs.push(repair);
+  }
+
+  return repairs;
+});
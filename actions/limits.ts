@@ -0,0 +1,237 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { hasPermission } from "@/lib/permissions";
+import {
+  CHARGE_LIMIT_POLICY_ID,
+  getChargeLimitPolicy,
+  getChargeUsage,
+  getEffectiveChargeLimits,
+} from "@/lib/charge-limits";
+import { CHARGE_LIMIT_PERIODS, type ChargeLimits } from "@/lib/charge-limit-policy";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type ClientLimitsSummary = {
+  clientId: number;
+  username: string;
+  own: ChargeLimits; // set on the client, null = default
+  defaults: ChargeLimits;
+  effective: ChargeLimits;
+  usage: Record<keyof ChargeLimits, number>;
+  selfExcludedUntil: string | null;
+  selfExclusionReason: string | null;
+};
+
+const limitSchema = z.number().int().positive().nullable();
+
+const chargeLimitsSchema = z.object({
+  DAILY: limitSchema,
+  WEEKLY: limitSchema,
+  MONTHLY: limitSchema,
+});
+
+/* ----------------------------------------
+ * 1) GLOBAL DEFAULTS (admin)
+ * -------------------------------------- */
+
+export const getChargeLimitPolicyAction = withPermission("limits:manage", async (): Promise<ChargeLimits> => {
+  return getChargeLimitPolicy();
+});
+
+export type UpdateChargeLimitPolicyInput = z.infer<typeof chargeLimitsSchema>;
+
+export const updateChargeLimitPolicyAction = withPermission("limits:manage", async (user, input: UpdateChargeLimitPolicyInput) => {
+  const data = chargeLimitsSchema.parse(input);
+
+  const before = await getChargeLimitPolicy();
+  const values = { dailyLimit: data.DAILY, weeklyLimit: data.WEEKLY, monthlyLimit: data.MONTHLY };
+
+  await prisma.chargeLimitPolicy.upsert({
+    where: { id: CHARGE_LIMIT_POLICY_ID },
+    create: { id: CHARGE_LIMIT_POLICY_ID, ...values },
+    update: values,
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "limits.policy-update",
+    entityType: "ChargeLimitPolicy",
+    entityId: CHARGE_LIMIT_POLICY_ID,
+    before,
+    after: data,
+  });
+
+  return data;
+});
+
+/* ----------------------------------------
+ * 2) PER-CLIENT LIMITS
+ * -------------------------------------- */
+
+const clientIdSchema = z.object({ clientId: z.number().int() });
+
+export type ClientLimitsInput = z.infer<typeof clientIdSchema>;
+
+async function loadClientLimits(clientId: number): Promise<ClientLimitsSummary> {
+  const [client, defaults, usage] = await Promise.all([
+    prisma.client.findUnique({ where: { id: clientId } }),
+    getChargeLimitPolicy(),
+    getChargeUsage(clientId),
+  ]);
+
+  if (!client) {
+    throw new Error("Cliente no encontrado.");
+  }
+
+  return {
+    clientId: client.id,
+    username: client.username,
+    own: {
+      DAILY: client.dailyChargeLimit,
+      WEEKLY: client.weeklyChargeLimit,
+      MONTHLY: client.monthlyChargeLimit,
+    },
+    defaults,
+    effective: getEffectiveChargeLimits(client, defaults),
+    usage,
+    selfExcludedUntil: client.selfExcludedUntil?.toISOString() ?? null,
+    selfExclusionReason: client.selfExclusionReason,
+  };
+}
+
+export const getClientLimitsAction = withPermission("clients:read", async (_user, input: ClientLimitsInput) => {
+  const data = clientIdSchema.parse(input);
+
+  return loadClientLimits(data.clientId);
+});
+
+const setClientLimitsSchema = clientIdSchema.extend({ limits: chargeLimitsSchema });
+
+export type SetClientLimitsInput = z.infer<typeof setClientLimitsSchema>;
+
+// Operators can tighten limits at the client's request; loosening them takes an ADMIN
+export const setClientLimitsAction = withPermission("clients:update", async (user, input: SetClientLimitsInput) => {
+  const data = setClientLimitsSchema.parse(input);
+
+  const before = await loadClientLimits(data.clientId);
+  const after = getEffectiveChargeLimits(
+    {
+      dailyChargeLimit: data.limits.DAILY,
+      weeklyChargeLimit: data.limits.WEEKLY,
+      monthlyChargeLimit: data.limits.MONTHLY,
+    },
+    before.defaults,
+  );
+
+  const loosens = CHARGE_LIMIT_PERIODS.some((period) => {
+    const previous = before.effective[period];
+    const next = after[period];
+    return previous !== null && (next === null || next > previous);
+  });
+
+  if (loosens && !hasPermission(user.role, "ledger:override-limits")) {
+    throw new Error("Solo un administrador puede subir o quitar un límite de carga.");
+  }
+
+  await prisma.client.update({
+    where: { id: data.clientId },
+    data: {
+      dailyChargeLimit: data.limits.DAILY,
+      weeklyChargeLimit: data.limits.WEEKLY,
+      monthlyChargeLimit: data.limits.MONTHLY,
+    },
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "client.limits",
+    entityType: "Client",
+    entityId: data.clientId,
+    before: before.own,
+    after: data.limits,
+  });
+
+  return loadClientLimits(data.clientId);
+});
+
+/* ----------------------------------------
+ * 3) SELF-EXCLUSION
+ * -------------------------------------- */
+
+const selfExclusionSchema = clientIdSchema.extend({
+  days: z.number().int().min(1).max(3650),
+  reason: z.string().trim().optional().nullable(),
+});
+
+export type SelfExclusionInput = z.infer<typeof selfExclusionSchema>;
+
+// A running exclusion can be extended here but never shortened
+export const startSelfExclusionAction = withPermission("clients:update", async (user, input: SelfExclusionInput) => {
+  const data = selfExclusionSchema.parse(input);
+
+  const client = await prisma.client.findUnique({ where: { id: data.clientId } });
+
+  if (!client) {
+    throw new Error("Cliente no encontrado.");
+  }
+
+  const until = new Date(Date.now() + data.days * 24 * 60 * 60 * 1000);
+
+  if (client.selfExcludedUntil && client.selfExcludedUntil > until) {
+    throw new Error("El cliente ya está autoexcluido por más tiempo.");
+  }
+
+  const updated = await prisma.client.update({
+    where: { id: data.clientId },
+    data: { selfExcludedUntil: until, selfExclusionReason: data.reason || null },
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "client.self-exclusion",
+    entityType: "Client",
+    entityId: data.clientId,
+    before: { selfExcludedUntil: client.selfExcludedUntil, selfExclusionReason: client.selfExclusionReason },
+    after: { selfExcludedUntil: updated.selfExcludedUntil, selfExclusionReason: updated.selfExclusionReason },
+  });
+
+  return loadClientLimits(data.clientId);
+});
+
+const endSelfExclusionSchema = clientIdSchema.extend({
+  reason: z.string().trim().min(5, "Indicá el motivo (al menos 5 caracteres)."),
+});
+
+export type EndSelfExclusionInput = z.infer<typeof endSelfExclusionSchema>;
+
+export const endSelfExclusionAction = withPermission("limits:manage", async (user, input: EndSelfExclusionInput) => {
+  const data = endSelfExclusionSchema.parse(input);
+
+  const client = await prisma.client.findUnique({ where: { id: data.clientId } });
+
+  if (!client?.selfExcludedUntil) {
+    throw new Error("El cliente no está autoexcluido.");
+  }
+
+  await prisma.client.update({
+    where: { id: data.clientId },
+    data: { selfExcludedUntil: null, selfExclusionReason: null },
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "client.self-exclusion-end",
+    entityType: "Client",
+    entityId: data.clientId,
+    before: { selfExcludedUntil: client.selfExcludedUntil, selfExclusionReason: client.selfExclusionReason },
+    after: { selfExcludedUntil: null, reason: data.reason },
+  });
+
+  return loadClientLimits(data.clientId);
+});
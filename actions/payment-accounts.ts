@@ -0,0 +1,203 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import {
+  emptyPaymentAccountTotals,
+  getLocalDayRange,
+  getPaymentAccountTotals,
+  type PaymentAccountTotals,
+} from "@/lib/payment-accounts";
+import { PaymentMethod } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type PaymentAccountOption = {
+  id: number;
+  name: string;
+  method: PaymentMethod;
+  identifier: string | null;
+  isActive: boolean;
+};
+
+export type PaymentAccountRow = PaymentAccountOption & {
+  dailyInflowCap: number | null;
+  totals: PaymentAccountTotals; // all time
+  today: PaymentAccountTotals;
+};
+
+export type PaymentAccountDaySummary = PaymentAccountOption & {
+  dailyInflowCap: number | null;
+  day: PaymentAccountTotals;
+  overCap: boolean;
+};
+
+const DUPLICATE_NAME_ERROR = "Ya existe una cuenta con ese nombre.";
+
+/* ----------------------------------------
+ * 1) LIST (charge and payout forms)
+ * -------------------------------------- */
+
+export const listPaymentAccountsAction = withPermission("ledger:charge", async (): Promise<PaymentAccountOption[]> => {
+  return prisma.paymentAccount.findMany({
+    orderBy: [{ isActive: "desc" }, { name: "asc" }],
+    select: { id: true, name: true, method: true, identifier: true, isActive: true },
+  });
+});
+
+/* ----------------------------------------
+ * 2) ADMIN: TOTALS / CREATE / UPDATE
+ * -------------------------------------- */
+
+export const listPaymentAccountRowsAction = withPermission("payment-accounts:manage", async (): Promise<PaymentAccountRow[]> => {
+  const { start, end } = getLocalDayRange();
+
+  const [accounts, totals, today] = await Promise.all([
+    prisma.paymentAccount.findMany({ orderBy: [{ isActive: "desc" }, { name: "asc" }] }),
+    getPaymentAccountTotals(),
+    getPaymentAccountTotals({ from: start, to: end }),
+  ]);
+
+  return accounts.map((account) => ({
+    id: account.id,
+    name: account.name,
+    method: account.method,
+    identifier: account.identifier,
+    isActive: account.isActive,
+    dailyInflowCap: account.dailyInflowCap,
+    totals: totals.get(account.id) ?? emptyPaymentAccountTotals(),
+    today: today.get(account.id) ?? emptyPaymentAccountTotals(),
+  }));
+});
+
+const paymentAccountSchema = z.object({
+  name: z.string().trim().min(3, "El nombre es obligatorio.").max(80),
+  method: z.nativeEnum(PaymentMethod),
+  identifier: z.string().trim().max(100).optional().nullable(),
+  dailyInflowCap: z.number().int().positive().optional().nullable(),
+});
+
+export type PaymentAccountInput = z.infer<typeof paymentAccountSchema>;
+
+export const createPaymentAccountAction = withPermission("payment-accounts:manage", async (user, input: PaymentAccountInput) => {
+  const data = paymentAccountSchema.parse(input);
+
+  let account;
+  try {
+    account = await prisma.paymentAccount.create({
+      data: {
+        name: data.name,
+        method: data.method,
+        identifier: data.identifier || null,
+        dailyInflowCap: data.dailyInflowCap ?? null,
+      },
+    });
+  } catch (error) {
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new Error(DUPLICATE_NAME_ERROR);
+    }
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "payment-account.create",
+    entityType: "PaymentAccount",
+    entityId: account.id,
+    after: account,
+  });
+
+  return account;
+});
+
+// The method isn't editable: the account's movements were recorded with it
+const updatePaymentAccountSchema = paymentAccountSchema.omit({ method: true }).extend({
+  accountId: z.number().int(),
+  isActive: z.boolean(),
+});
+
+export type UpdatePaymentAccountInput = z.infer<typeof updatePaymentAccountSchema>;
+
+export const updatePaymentAccountAction = withPermission("payment-accounts:manage", async (user, input: UpdatePaymentAccountInput) => {
+  const data = updatePaymentAccountSchema.parse(input);
+
+  const before = await prisma.paymentAccount.findUnique({ where: { id: data.accountId } });
+
+  if (!before) {
+    throw new Error("Cuenta de cobro no encontrada.");
+  }
+
+  let account;
+  try {
+    account = await prisma.paymentAccount.update({
+      where: { id: data.accountId },
+      data: {
+        name: data.name,
+        identifier: data.identifier || null,
+        dailyInflowCap: data.dailyInflowCap ?? null,
+        isActive: data.isActive,
+      },
+    });
+  } catch (error) {
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new Error(DUPLICATE_NAME_ERROR);
+    }
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "payment-account.update",
+    entityType: "PaymentAccount",
+    entityId: account.id,
+    before,
+    after: account,
+  });
+
+  return account;
+});
+
+/* ----------------------------------------
+ * 3) DAILY SUMMARY (cashier dashboard)
+ * -------------------------------------- */
+
+const daySummarySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
+});
+
+export type PaymentAccountDaySummaryInput = z.infer<typeof daySummarySchema>;
+
+// Inactive accounts only show up on days they moved money
+export const getPaymentAccountDaySummaryAction = withPermission("cashier:read", async (
+  _user,
+  input: PaymentAccountDaySummaryInput,
+): Promise<PaymentAccountDaySummary[]> => {
+  const data = daySummarySchema.parse(input);
+  const { start, end } = getLocalDayRange(data.date);
+
+  const [accounts, day] = await Promise.all([
+    prisma.paymentAccount.findMany({ orderBy: { name: "asc" } }),
+    getPaymentAccountTotals({ from: start, to: end }),
+  ]);
+
+  return accounts
+    .filter((account) => account.isActive || day.has(account.id))
+    .map((account) => {
+      const totals = day.get(account.id) ?? emptyPaymentAccountTotals();
+
+      return {
+        id: account.id,
+        name: account.name,
+        method: account.method,
+        identifier: account.identifier,
+        isActive: account.isActive,
+        dailyInflowCap: account.dailyInflowCap,
+        day: totals,
+        overCap: account.dailyInflowCap !== null && totals.inflow > account.dailyInflowCap,
+      };
+    });
+});
@@ -0,0 +1,136 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import {
+  expireInactiveBalances,
+  getPointsExpiryPolicy,
+  getPointsExpiryWarnings,
+  POINTS_EXPIRY_POLICY_ID,
+  type PointsExpiryPolicySettings,
+  type PointsExpiryRun,
+} from "@/lib/points-expiry";
+import { TransactionType } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type PointsExpiryReport = {
+  expiredLast30Days: number;
+  clientsLast30Days: number;
+  expiredTotal: number;
+  byMonth: Array<{ month: string; points: number }>; // YYYY-MM, last 6 months, oldest first
+  upcomingPoints: number; // inside the warning window
+  upcomingClients: number;
+};
+
+/* ----------------------------------------
+ * 1) EXPIRY RULE (admin)
+ * -------------------------------------- */
+
+export const getPointsExpiryPolicyAction = withPermission("expiry:manage", async (): Promise<PointsExpiryPolicySettings> => {
+  return getPointsExpiryPolicy();
+});
+
+const pointsExpiryPolicySchema = z
+  .object({
+    isActive: z.boolean(),
+    inactivityDays: z.number().int().min(1).max(3650),
+    warningDays: z.number().int().min(0),
+  })
+  .refine((data) => data.warningDays < data.inactivityDays, {
+    message: "El aviso tiene que ser menor que el período de inactividad.",
+    path: ["warningDays"],
+  });
+
+export type UpdatePointsExpiryPolicyInput = z.infer<typeof pointsExpiryPolicySchema>;
+
+export const updatePointsExpiryPolicyAction = withPermission("expiry:manage", async (user, input: UpdatePointsExpiryPolicyInput) => {
+  const data = pointsExpiryPolicySchema.parse(input);
+
+  const before = await getPointsExpiryPolicy();
+
+  await prisma.pointsExpiryPolicy.upsert({
+    where: { id: POINTS_EXPIRY_POLICY_ID },
+    create: { id: POINTS_EXPIRY_POLICY_ID, ...data },
+    update: data,
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "expiry.policy-update",
+    entityType: "PointsExpiryPolicy",
+    entityId: POINTS_EXPIRY_POLICY_ID,
+    before,
+    after: data,
+  });
+
+  return data;
+});
+
+/* ----------------------------------------
+ * 2) RUN AND REPORT
+ * -------------------------------------- */
+
+export const runPointsExpiryAction = withPermission("expiry:manage", async (user): Promise<PointsExpiryRun> => {
+  const run = await expireInactiveBalances(user);
+
+  if (!run) {
+    throw new Error("El vencimiento de puntos está desactivado.");
+  }
+
+  return run;
+});
+
+// Expired points net of reversals: a reversed EXPIRE row gave the points back
+export const getPointsExpiryReportAction = withPermission("expiry:manage", async (): Promise<PointsExpiryReport> => {
+  const now = new Date();
+  const last30Days = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  const sixMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 5, 1);
+  const expiredWhere = { type: TransactionType.EXPIRE, reversedBy: { is: null } };
+
+  const [total, recent, monthRows, clients] = await Promise.all([
+    prisma.pointTransaction.aggregate({ where: expiredWhere, _sum: { amount: true } }),
+    prisma.pointTransaction.groupBy({
+      by: ["clientId"],
+      where: { ...expiredWhere, createdAt: { gte: last30Days } },
+      _sum: { amount: true },
+      orderBy: { clientId: "asc" },
+    }),
+    prisma.pointTransaction.findMany({
+      where: { ...expiredWhere, createdAt: { gte: sixMonthsAgo } },
+      select: { amount: true, createdAt: true },
+    }),
+    prisma.client.findMany({
+      where: { pointsBalance: { gt: 0 } },
+      select: { id: true, pointsBalance: true, createdAt: true },
+    }),
+  ]);
+
+  const byMonth = Array.from({ length: 6 }, (_, index) => {
+    const start = new Date(sixMonthsAgo.getFullYear(), sixMonthsAgo.getMonth() + index, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    const points = monthRows
+      .filter((row) => row.createdAt >= start && row.createdAt < end)
+      .reduce((acc, row) => acc - row.amount, 0);
+
+    return {
+      month: `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}`,
+      points,
+    };
+  });
+
+  const warnings = await getPointsExpiryWarnings(clients, now);
+
+  return {
+    expiredLast30Days: -recent.reduce((acc, row) => acc + (row._sum.amount ?? 0), 0),
+    clientsLast30Days: recent.length,
+    expiredTotal: -(total._sum.amount ?? 0),
+    byMonth,
+    upcomingPoints: [...warnings.values()].reduce((acc, warning) => acc + warning.points, 0),
+    upcomingClients: warnings.size,
+  };
+});
@@ -0,0 +1,197 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { findBestPromotion, type PromotionMatch } from "@/lib/promotions";
+import { MembershipTier, PromotionKind, TransactionType } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type PromotionRow = {
+  id: number;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  kind: PromotionKind;
+  value: number;
+  maxBonus: number | null;
+  firstDepositOnly: boolean;
+  minAmount: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  marketingSourceId: number | null;
+  marketingSourceName: string | null;
+  tier: MembershipTier | null;
+  maxUsesPerClient: number | null;
+  timesUsed: number;
+  totalBonus: number;
+};
+
+/* ----------------------------------------
+ * 1) ADMIN: LIST / CREATE / UPDATE
+ * -------------------------------------- */
+
+export const listPromotionsAction = withPermission("promotions:manage", async (): Promise<PromotionRow[]> => {
+  const [promotions, usage] = await Promise.all([
+    prisma.promotion.findMany({
+      orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+      include: { marketingSource: { select: { name: true } } },
+    }),
+    prisma.pointTransaction.groupBy({
+      by: ["promotionId"],
+      where: {
+        type: TransactionType.BONUS,
+        promotionId: { not: null },
+        reversedBy: { is: null },
+      },
+      _count: { _all: true },
+      _sum: { amount: true },
+      orderBy: { promotionId: "asc" },
+    }),
+  ]);
+
+  const usageByPromotion = new Map(usage.map((row) => [row.promotionId, row]));
+
+  return promotions.map((promotion) => {
+    const used = usageByPromotion.get(promotion.id);
+
+    return {
+      id: promotion.id,
+      name: promotion.name,
+      description: promotion.description,
+      isActive: promotion.isActive,
+      kind: promotion.kind,
+      value: promotion.value,
+      maxBonus: promotion.maxBonus,
+      firstDepositOnly: promotion.firstDepositOnly,
+      minAmount: promotion.minAmount,
+      startsAt: promotion.startsAt?.toISOString() ?? null,
+      endsAt: promotion.endsAt?.toISOString() ?? null,
+      marketingSourceId: promotion.marketingSourceId,
+      marketingSourceName: promotion.marketingSource?.name ?? null,
+      tier: promotion.tier,
+      maxUsesPerClient: promotion.maxUsesPerClient,
+      timesUsed: used?._count._all ?? 0,
+      totalBonus: used?._sum.amount ?? 0,
+    };
+  });
+});
+
+const promotionSchema = z
+  .object({
+    name: z.string().trim().min(3, "El nombre es obligatorio."),
+    description: z.string().trim().optional().nullable(),
+    isActive: z.boolean().default(true),
+    kind: z.nativeEnum(PromotionKind),
+    value: z.number().int().positive(),
+    maxBonus: z.number().int().positive().optional().nullable(),
+    firstDepositOnly: z.boolean().default(false),
+    minAmount: z.number().int().positive().optional().nullable(),
+    startsAt: z.string().optional().nullable(), // YYYY-MM-DD
+    endsAt: z.string().optional().nullable(),
+    marketingSourceId: z.number().int().optional().nullable(),
+    tier: z.nativeEnum(MembershipTier).optional().nullable(),
+    maxUsesPerClient: z.number().int().positive().optional().nullable(),
+  })
+  .refine((data) => data.kind !== PromotionKind.PERCENTAGE || data.value <= 100, {
+    message: "El porcentaje no puede superar el 100%.",
+    path: ["value"],
+  })
+  .refine((data) => !data.startsAt || !data.endsAt || data.startsAt <= data.endsAt, {
+    message: "La fecha de fin es anterior a la de inicio.",
+    path: ["endsAt"],
+  });
+
+export type PromotionInput = z.input<typeof promotionSchema>;
+
+function toPromotionData(data: z.infer<typeof promotionSchema>) {
+  return {
+    name: data.name,
+    description: data.description || null,
+    isActive: data.isActive,
+    kind: data.kind,
+    value: data.value,
+    maxBonus: data.kind === PromotionKind.PERCENTAGE ? data.maxBonus ?? null : null,
+    firstDepositOnly: data.firstDepositOnly,
+    minAmount: data.minAmount ?? null,
+    // the window covers both days completely
+    startsAt: data.startsAt ? new Date(`${data.startsAt}T00:00:00`) : null,
+    endsAt: data.endsAt ? new Date(`${data.endsAt}T23:59:59.999`) : null,
+    marketingSourceId: data.marketingSourceId ?? null,
+    tier: data.tier ?? null,
+    maxUsesPerClient: data.maxUsesPerClient ?? null,
+  };
+}
+
+export const createPromotionAction = withPermission("promotions:manage", async (user, input: PromotionInput) => {
+  const data = promotionSchema.parse(input);
+
+  const promotion = await prisma.promotion.create({
+    data: { ...toPromotionData(data), createdById: user.id },
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "promotion.create",
+    entityType: "Promotion",
+    entityId: promotion.id,
+    after: promotion,
+  });
+
+  return promotion;
+});
+
+const updatePromotionSchema = z.object({
+  promotionId: z.number().int(),
+  isActive: z.boolean(),
+});
+
+export type UpdatePromotionInput = z.infer<typeof updatePromotionSchema>;
+
+// Rules aren't edited once bonuses were paid with them: deactivate and create a new one
+export const setPromotionActiveAction = withPermission("promotions:manage", async (user, input: UpdatePromotionInput) => {
+  const data = updatePromotionSchema.parse(input);
+
+  const before = await prisma.promotion.findUnique({ where: { id: data.promotionId } });
+
+  if (!before) {
+    throw new Error("Promoción no encontrada.");
+  }
+
+  const promotion = await prisma.promotion.update({
+    where: { id: data.promotionId },
+    data: { isActive: data.isActive },
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "promotion.update",
+    entityType: "Promotion",
+    entityId: promotion.id,
+    before: { isActive: before.isActive },
+    after: { isActive: promotion.isActive },
+  });
+
+  return promotion;
+});
+
+/* ----------------------------------------
+ * 2) PREVIEW (cashier charge form)
+ * -------------------------------------- */
+
+const previewPromotionSchema = z.object({
+  clientId: z.number().int(),
+  amount: z.number().int().positive(),
+});
+
+export type PreviewPromotionInput = z.infer<typeof previewPromotionSchema>;
+
+export const previewPromotionAction = withPermission("ledger:charge", async (_user, input: PreviewPromotionInput): Promise<PromotionMatch | null> => {
+  const data = previewPromotionSchema.parse(input);
+
+  return findBestPromotion(data);
+});
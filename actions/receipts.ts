@@ -0,0 +1,28 @@
+"use server";
+
+import { withPermission } from "@/lib/authz";
+import { getReceipt, type Receipt } from "@/lib/receipts";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * RECEIPTS
+ * -------------------------------------- */
+
+const getReceiptSchema = z.object({
+  transactionId: z.number().int().positive(),
+});
+
+export type GetReceiptInput = z.infer<typeof getReceiptSchema>;
+
+// Same data as the PDF route; the print view and the chat image are built from it
+export const getReceiptAction = withPermission("clients:read", async (_user, input: GetReceiptInput): Promise<Receipt> => {
+  const data = getReceiptSchema.parse(input);
+
+  const receipt = await getReceipt(data.transactionId);
+
+  if (!receipt) {
+    throw new Error("El movimiento no existe.");
+  }
+
+  return receipt;
+});
@@ -0,0 +1,150 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { getReferralProgram, REFERRAL_PROGRAM_ID } from "@/lib/referrals";
+import { TransactionType } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type ReferralProgramSettings = {
+  isActive: boolean;
+  referrerReward: number;
+  referredReward: number;
+  minFirstCharge: number;
+};
+
+export type ReferralLeaderboardRow = {
+  clientId: number;
+  username: string;
+  referralCode: string;
+  referrals: number; // clients that signed up with their code
+  qualified: number; // of those, the ones whose first charge earned the reward
+  rewardPoints: number; // REFERRAL points credited to this client, net of reversals
+};
+
+/* ----------------------------------------
+ * 1) PROGRAM SETTINGS (admin)
+ * -------------------------------------- */
+
+export const getReferralProgramAction = withPermission("referrals:manage", async (): Promise<ReferralProgramSettings> => {
+  const program = await getReferralProgram();
+
+  return {
+    isActive: program.isActive,
+    referrerReward: program.referrerReward,
+    referredReward: program.referredReward,
+    minFirstCharge: program.minFirstCharge,
+  };
+});
+
+const referralProgramSchema = z.object({
+  isActive: z.boolean(),
+  referrerReward: z.number().int().min(0),
+  referredReward: z.number().int().min(0),
+  minFirstCharge: z.number().int().min(0),
+});
+
+export type UpdateReferralProgramInput = z.infer<typeof referralProgramSchema>;
+
+export const updateReferralProgramAction = withPermission("referrals:manage", async (user, input: UpdateReferralProgramInput) => {
+  const data = referralProgramSchema.parse(input);
+
+  if (data.isActive && data.referrerReward === 0 && data.referredReward === 0) {
+    throw new Error("Definí al menos un premio antes de activar el programa.");
+  }
+
+  const before = await prisma.referralProgram.findUnique({ where: { id: REFERRAL_PROGRAM_ID } });
+  const program = await prisma.referralProgram.upsert({
+    where: { id: REFERRAL_PROGRAM_ID },
+    create: { id: REFERRAL_PROGRAM_ID, ...data },
+    update: data,
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "referral.program-update",
+    entityType: "ReferralProgram",
+    entityId: program.id,
+    before,
+    after: program,
+  });
+
+  return data;
+});
+
+/* ----------------------------------------
+ * 2) LEADERBOARD
+ * -------------------------------------- */
+
+const leaderboardSchema = z.object({
+  limit: z.number().int().positive().max(50).default(10),
+});
+
+export type ReferralLeaderboardInput = z.input<typeof leaderboardSchema>;
+
+export const getReferralLeaderboardAction = withPermission("referrals:manage", async (
+  _user,
+  input: ReferralLeaderboardInput = {},
+): Promise<ReferralLeaderboardRow[]> => {
+  const data = leaderboardSchema.parse(input);
+
+  const top = await prisma.client.groupBy({
+    by: ["referredById"],
+    where: { referredById: { not: null } },
+    _count: { _all: true },
+    orderBy: [{ _count: { referredById: "desc" } }, { referredById: "asc" }],
+    take: data.limit,
+  });
+
+  const referrerIds = top.flatMap((row) => (row.referredById ? [row.referredById] : []));
+
+  if (referrerIds.length === 0) return [];
+
+  const [referrers, qualified, rewards] = await Promise.all([
+    prisma.client.findMany({
+      where: { id: { in: referrerIds } },
+      select: { id: true, username: true, referralCode: true },
+    }),
+    prisma.client.groupBy({
+      by: ["referredById"],
+      where: { referredById: { in: referrerIds }, referralRewardedAt: { not: null } },
+      _count: { _all: true },
+      orderBy: { referredById: "asc" },
+    }),
+    prisma.pointTransaction.groupBy({
+      by: ["clientId"],
+      where: {
+        clientId: { in: referrerIds },
+        type: TransactionType.REFERRAL,
+        reversedBy: { is: null },
+      },
+      _sum: { amount: true },
+      orderBy: { clientId: "asc" },
+    }),
+  ]);
+
+  const referrerById = new Map(referrers.map((client) => [client.id, client]));
+  const qualifiedById = new Map(qualified.map((row) => [row.referredById, row._count._all]));
+  const rewardsById = new Map(rewards.map((row) => [row.clientId, row._sum.amount ?? 0]));
+
+  return top.flatMap((row) => {
+    const referrer = row.referredById ? referrerById.get(row.referredById) : undefined;
+    if (!referrer) return [];
+
+    return [
+      {
+        clientId: referrer.id,
+        username: referrer.username,
+        referralCode: referrer.referralCode,
+        referrals: row._count._all,
+        qualified: qualifiedById.get(referrer.id) ?? 0,
+        rewardPoints: rewardsById.get(referrer.id) ?? 0,
+      },
+    ];
+  });
+});
@@ -1,9 +1,17 @@
 "use server";
 
 import { prisma } from "@/lib/prisma";
+import { recordAudit, toAuditUser } from "@/lib/audit";
 import { hashPassword } from "@/lib/password";
-import type { AuthRole, AuthUser } from "@/types/auth";
+import { validatePasswordStrength } from "@/lib/password-policy";
+import { createSession, toAuthUser } from "@/lib/session";
+import type { AuthUser } from "@/types/auth";
 import { logger } from "@/lib/logger";
+import { findUsableInvitation } from "@/lib/invitations";
+import { isTwoFactorRequired } from "@/lib/two-factor";
+
+const INVALID_INVITATION_ERROR =
+  "La invitación no es válida, ya se usó o venció. Pedile una nueva a un administrador.";
 
 export type RegisterUserPayload = AuthUser;
 
@@ -11,12 +19,16 @@ export type RegisterResult =
   | {
       success: true;
       user: RegisterUserPayload;
+      // the role requires 2FA, which is enrolled on the first login
+      requiresLogin?: boolean;
     }
   | {
       success: false;
       error: string;
     };
 
+class InvitationAlreadyUsedError extends Error {}
+
 export async function registerAction(
   formData: FormData,
 ): Promise<RegisterResult> {
@@ -24,6 +36,17 @@ export async function registerAction(
   const lastName = String(formData.get("lastName") ?? "").trim();
   const username = String(formData.get("username") ?? "").trim();
   const password = String(formData.get("password") ?? "");
+  const invitationToken = String(formData.get("invitationToken") ?? "").trim();
+
+  // El registro es sólo por invitación: el rol lo define quien invita.
+  const invitation = await findUsableInvitation(invitationToken);
+
+  if (!invitation) {
+    return {
+      success: false,
+      error: INVALID_INVITATION_ERROR,
+    };
+  }
 
   if (!firstName || !lastName || !username || !password) {
     return {
@@ -32,10 +55,11 @@ export async function registerAction(
     };
   }
 
-  if (password.length < 6) {
+  const passwordValidation = validatePasswordStrength(password, { username });
+  if (!passwordValidation.valid) {
     return {
       success: false,
-      error: "La contraseña debe tener al menos 6 caracteres.",
+      error: passwordValidation.error,
     };
   }
 
@@ -54,26 +78,70 @@ export async function registerAction(
 
   try {
     const passwordHash = await hashPassword(password, 10);
-    const dbUser = await prisma.user.create({
-      data: {
-        name: fullName,
-        username,
-        passwordHash,
-      },
+    const dbUser = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          name: fullName,
+          username,
+          passwordHash,
+          role: invitation.role,
+        },
+      });
+
+      // Conditional update so two concurrent signups can't share one invitation
+      const claimed = await tx.userInvitation.updateMany({
+        where: {
+          id: invitation.id,
+          usedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        data: { usedAt: new Date(), usedById: created.id },
+      });
+
+      if (claimed.count === 0) {
+        throw new InvitationAlreadyUsedError();
+      }
+
+      // The new user is the actor: nobody else is signed in
+      await recordAudit(
+        {
+          actor: toAuthUser(created),
+          action: "user.create",
+          entityType: "User",
+          entityId: created.id,
+          after: { ...toAuditUser(created), invitationId: invitation.id },
+        },
+        tx,
+      );
+
+      return created;
     });
 
-    const user: RegisterUserPayload = {
-      id: dbUser.id,
-      name: dbUser.name,
-      username: dbUser.username,
-      role: dbUser.role as AuthRole,
-    };
+    const user: RegisterUserPayload = toAuthUser(dbUser);
+
+    if (await isTwoFactorRequired(dbUser.role)) {
+      return {
+        success: true,
+        user,
+        requiresLogin: true,
+      };
+    }
+
+    await createSession(dbUser.id);
 
     return {
       success: true,
       user,
     };
   } catch (error) {
+    if (error instanceof InvitationAlreadyUsedError) {
+      return {
+        success: false,
+        error: INVALID_INVITATION_ERROR,
+      };
+    }
+
     logger.error("Error creating user", error);
 
     const knownError = error as { code?: string };
@@ -0,0 +1,556 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { clearLoginLock } from "@/lib/login-security";
+import {
+  getCurrentSession,
+  listActiveSessions,
+  revokeCurrentSession,
+  revokeUserSessions,
+} from "@/lib/session";
+import { createPasswordResetToken } from "@/lib/credentials";
+import { recordAudit, toAuditUser } from "@/lib/audit";
+import {
+  acceptTotpCode,
+  disableTwoFactor,
+  enableTwoFactor,
+  isTwoFactorRequired,
+  regenerateBackupCodes,
+  startTwoFactorEnrollment,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+import { UserRole } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * LOGIN LOCKS (brute-force protection)
+ * -------------------------------------- */
+
+export type LockedUserRow = {
+  id: number;
+  name: string;
+  username: string;
+  failedLoginAttempts: number;
+  lockedUntil: string | null; // ISO; null = has failures but is not locked yet
+};
+
+export type LoginAttemptRow = {
+  id: number;
+  username: string;
+  success: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
+export const getLoginSecurityOverviewAction = withPermission("users:manage", async () => {
+  const now = new Date();
+
+  const [users, attempts] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        OR: [{ lockedUntil: { gt: now } }, { failedLoginAttempts: { gt: 0 } }],
+      },
+      orderBy: { lockedUntil: "desc" },
+      select: {
+        id: true,
+        name: true,
+        username: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
+      },
+    }),
+    prisma.loginAttempt.findMany({
+      where: { success: false },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    }),
+  ]);
+
+  const lockedUsers: LockedUserRow[] = users.map((user) => ({
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    failedLoginAttempts: user.failedLoginAttempts,
+    lockedUntil:
+      user.lockedUntil && user.lockedUntil > now
+        ? user.lockedUntil.toISOString()
+        : null,
+  }));
+
+  const recentFailures: LoginAttemptRow[] = attempts.map((attempt) => ({
+    id: attempt.id,
+    username: attempt.username,
+    success: attempt.success,
+    ipAddress: attempt.ipAddress,
+    userAgent: attempt.userAgent,
+    createdAt: attempt.createdAt.toISOString(),
+  }));
+
+  return { lockedUsers, recentFailures };
+});
+
+const clearLoginLockSchema = z.object({
+  userId: z.number().int(),
+});
+
+export type ClearLoginLockInput = z.infer<typeof clearLoginLockSchema>;
+
+export const clearLoginLockAction = withPermission("users:manage", async (user, input: ClearLoginLockInput) => {
+  const data = clearLoginLockSchema.parse(input);
+
+  const before = await prisma.user.findUnique({ where: { id: data.userId } });
+  const unlocked = await clearLoginLock(data.userId);
+
+  await recordAudit({
+    actor: user,
+    action: "security.unlock",
+    entityType: "User",
+    entityId: data.userId,
+    before: before && {
+      ...toAuditUser(before),
+      failedLoginAttempts: before.failedLoginAttempts,
+      lockedUntil: before.lockedUntil,
+    },
+    after: {
+      ...toAuditUser(unlocked),
+      failedLoginAttempts: unlocked.failedLoginAttempts,
+      lockedUntil: unlocked.lockedUntil,
+    },
+  });
+
+  return { success: true as const, userId: data.userId };
+});
+
+/* ----------------------------------------
+ * TWO-FACTOR AUTHENTICATION (own account)
+ * -------------------------------------- */
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean; // by the policy of the user's role
+  backupCodesRemaining: number;
+};
+
+async function findUserOrThrow(userId: number) {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new Error("Usuario no encontrado.");
+  }
+
+  return user;
+}
+
+export const getTwoFactorStatusAction = withPermission("account:security", async (user): Promise<TwoFactorStatus> => {
+  const dbUser = await findUserOrThrow(user.id);
+
+  return {
+    enabled: !!dbUser.totpEnabledAt,
+    required: await isTwoFactorRequired(dbUser.role),
+    backupCodesRemaining: dbUser.totpBackupCodeHashes.length,
+  };
+});
+
+export const startTwoFactorEnrollmentAction = withPermission("account:security", async (user) => {
+  const dbUser = await findUserOrThrow(user.id);
+
+  if (dbUser.totpEnabledAt) {
+    throw new Error("La verificación en dos pasos ya está activa.");
+  }
+
+  return startTwoFactorEnrollment(dbUser);
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Ingresá el código de verificación."),
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+
+export const confirmTwoFactorEnrollmentAction = withPermission("account:security", async (user, input: TwoFactorCodeInput) => {
+  const data = twoFactorCodeSchema.parse(input);
+  const dbUser = await findUserOrThrow(user.id);
+
+  if (dbUser.totpEnabledAt) {
+    throw new Error("La verificación en dos pasos ya está activa.");
+  }
+
+  // Only a TOTP code proves the app was set up; backup codes don't exist yet
+  if (!(await acceptTotpCode(dbUser, data.code))) {
+    throw new Error("El código de verificación no es válido.");
+  }
+
+  const backupCodes = await enableTwoFactor(dbUser.id);
+
+  return { backupCodes };
+});
+
+export const disableTwoFactorAction = withPermission("account:security", async (user, input: TwoFactorCodeInput) => {
+  const data = twoFactorCodeSchema.parse(input);
+  const dbUser = await findUserOrThrow(user.id);
+
+  if (await isTwoFactorRequired(dbUser.role)) {
+    throw new Error("Tu rol requiere verificación en dos pasos; no se puede desactivar.");
+  }
+
+  if (!dbUser.totpEnabledAt || !(await verifySecondFactor(dbUser, data.code))) {
+    throw new Error("El código de verificación no es válido.");
+  }
+
+  await disableTwoFactor(dbUser.id);
+
+  return { success: true as const };
+});
+
+export const regenerateBackupCodesAction = withPermission("account:security", async (user, input: TwoFactorCodeInput) => {
+  const data = twoFactorCodeSchema.parse(input);
+  const dbUser = await findUserOrThrow(user.id);
+
+  if (!dbUser.totpEnabledAt || !(await acceptTotpCode(dbUser, data.code))) {
+    throw new Error("El código de verificación no es válido.");
+  }
+
+  const backupCodes = await regenerateBackupCodes(dbUser.id);
+
+  return { backupCodes };
+});
+
+/* ----------------------------------------
+ * TWO-FACTOR POLICY PER ROLE (admin)
+ * -------------------------------------- */
+
+export type TwoFactorPolicyRow = {
+  role: UserRole;
+  requireTwoFactor: boolean;
+  usersWithoutTwoFactor: number;
+};
+
+export const getTwoFactorPoliciesAction = withPermission("users:manage", async (): Promise<TwoFactorPolicyRow[]> => {
+  const [policies, pending] = await Promise.all([
+    prisma.roleSecurityPolicy.findMany(),
+    prisma.user.groupBy({
+      by: ["role"],
+      where: { isActive: true, totpEnabledAt: null },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return Object.values(UserRole).map((role) => ({
+    role,
+    requireTwoFactor:
+      policies.find((policy) => policy.role === role)?.requireTwoFactor ?? false,
+    usersWithoutTwoFactor:
+      pending.find((row) => row.role === role)?._count._all ?? 0,
+  }));
+});
+
+const setTwoFactorPolicySchema = z.object({
+  role: z.nativeEnum(UserRole),
+  requireTwoFactor: z.boolean(),
+});
+
+export type SetTwoFactorPolicyInput = z.infer<typeof setTwoFactorPolicySchema>;
+
+export const setTwoFactorPolicyAction = withPermission("users:manage", async (user, input: SetTwoFactorPolicyInput) => {
+  const data = setTwoFactorPolicySchema.parse(input);
+
+  const before = await prisma.roleSecurityPolicy.findUnique({
+    where: { role: data.role },
+  });
+  const policy = await prisma.roleSecurityPolicy.upsert({
+    where: { role: data.role },
+    create: { role: data.role, requireTwoFactor: data.requireTwoFactor },
+    update: { requireTwoFactor: data.requireTwoFactor },
+  });
+
+  // Turning the policy on closes the sessions of users who still lack 2FA,
+  // so their next login goes through the forced enrolment.
+  let revokedSessions = 0;
+
+  if (data.requireTwoFactor) {
+    const result = await prisma.session.updateMany({
+      where: {
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+        user: { role: data.role, totpEnabledAt: null },
+      },
+      data: { revokedAt: new Date() },
+    });
+    revokedSessions = result.count;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "security.two-factor-policy",
+    entityType: "RoleSecurityPolicy",
+    entityId: data.role,
+    before,
+    after: { ...policy, revokedSessions },
+  });
+
+  return { role: policy.role, requireTwoFactor: policy.requireTwoFactor, revokedSessions };
+});
+
+/* ----------------------------------------
+ * PASSWORD RESETS (admin)
+ * -------------------------------------- */
+
+export type PasswordStatusRow = {
+  id: number;
+  name: string;
+  username: string;
+  role: UserRole;
+  isActive: boolean;
+  mustChangePassword: boolean;
+  passwordChangedAt: string | null;
+  pendingResetExpiresAt: string | null; // newest unused, unexpired link
+};
+
+export const getPasswordStatusListAction = withPermission("users:manage", async (): Promise<PasswordStatusRow[]> => {
+  const now = new Date();
+
+  const users = await prisma.user.findMany({
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      role: true,
+      isActive: true,
+      mustChangePassword: true,
+      passwordChangedAt: true,
+      passwordResetTokens: {
+        where: { usedAt: null, expiresAt: { gt: now } },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        select: { expiresAt: true },
+      },
+    },
+  });
+
+  return users.map(({ passwordResetTokens, ...user }) => ({
+    ...user,
+    passwordChangedAt: user.passwordChangedAt?.toISOString() ?? null,
+    pendingResetExpiresAt: passwordResetTokens[0]?.expiresAt.toISOString() ?? null,
+  }));
+});
+
+const userTargetSchema = z.object({
+  userId: z.number().int(),
+});
+
+export type UserTargetInput = z.infer<typeof userTargetSchema>;
+
+export const createPasswordResetLinkAction = withPermission("users:manage", async (user, input: UserTargetInput) => {
+  const data = userTargetSchema.parse(input);
+
+  const target = await prisma.user.findUnique({ where: { id: data.userId } });
+
+  if (!target) {
+    throw new Error("Usuario no encontrado.");
+  }
+
+  if (!target.isActive) {
+    throw new Error("No se puede resetear la contraseña de un usuario inactivo.");
+  }
+
+  const { token, expiresAt } = await createPasswordResetToken({
+    userId: target.id,
+    createdById: user.id,
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "user.password-reset-link",
+    entityType: "User",
+    entityId: target.id,
+    after: { expiresAt },
+  });
+
+  // The raw token only leaves the server here; the DB keeps its hash
+  return { token, expiresAt: expiresAt.toISOString() };
+});
+
+export const forcePasswordChangeAction = withPermission("users:manage", async (user, input: UserTargetInput) => {
+  const data = userTargetSchema.parse(input);
+
+  if (data.userId === user.id) {
+    throw new Error("Para tu propia cuenta usá la pantalla de cambio de contraseña.");
+  }
+
+  const before = await prisma.user.findUnique({ where: { id: data.userId } });
+
+  if (!before) {
+    throw new Error("Usuario no encontrado.");
+  }
+
+  const { updated, revokedSessions } = await prisma.$transaction(async (tx) => ({
+    updated: await tx.user.update({
+      where: { id: data.userId },
+      data: { mustChangePassword: true },
+    }),
+    // Open sessions would otherwise keep working until they expire
+    revokedSessions: await revokeUserSessions(data.userId, {}, tx),
+  }));
+
+  await recordAudit({
+    actor: user,
+    action: "user.force-password-change",
+    entityType: "User",
+    entityId: data.userId,
+    before: { ...toAuditUser(before), mustChangePassword: before.mustChangePassword },
+    after: {
+      ...toAuditUser(updated),
+      mustChangePassword: updated.mustChangePassword,
+      revokedSessions,
+    },
+  });
+
+  return { success: true as const, userId: data.userId, revokedSessions };
+});
+
+/* ----------------------------------------
+ * SESSIONS / DEVICES
+ * -------------------------------------- */
+
+export type SessionRow = {
+  id: number;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  current: boolean;
+};
+
+function toSessionRow(
+  session: Awaited<ReturnType<typeof listActiveSessions>>[number],
+  currentSessionId: number | null,
+): SessionRow {
+  return {
+    id: session.id,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    current: session.id === currentSessionId,
+  };
+}
+
+export const listMySessionsAction = withPermission("account:security", async (user): Promise<SessionRow[]> => {
+  const [sessions, current] = await Promise.all([
+    listActiveSessions(user.id),
+    getCurrentSession(),
+  ]);
+
+  return sessions.map((session) => toSessionRow(session, current?.id ?? null));
+});
+
+const sessionTargetSchema = z.object({
+  sessionId: z.number().int(),
+});
+
+export type SessionTargetInput = z.infer<typeof sessionTargetSchema>;
+
+export const revokeMySessionAction = withPermission("account:security", async (user, input: SessionTargetInput) => {
+  const data = sessionTargetSchema.parse(input);
+
+  // Scoped by userId so nobody can close someone else's session by id
+  const result = await prisma.session.updateMany({
+    where: { id: data.sessionId, userId: user.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new Error("La sesión ya no está activa.");
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "session.revoke",
+    entityType: "User",
+    entityId: user.id,
+    after: { sessionId: data.sessionId },
+  });
+
+  return { success: true as const, sessionId: data.sessionId };
+});
+
+// Includes the current session: the caller ends up signed out too
+export const signOutEverywhereAction = withPermission("account:security", async (user) => {
+  const revokedSessions = await revokeUserSessions(user.id);
+
+  await recordAudit({
+    actor: user,
+    action: "session.revoke-all",
+    entityType: "User",
+    entityId: user.id,
+    after: { revokedSessions },
+  });
+
+  await revokeCurrentSession();
+
+  return { success: true as const, revokedSessions };
+});
+
+export type UserSessionsRow = {
+  id: number;
+  name: string;
+  username: string;
+  role: UserRole;
+  isActive: boolean;
+  sessions: SessionRow[];
+};
+
+export const listUserSessionsAction = withPermission("users:manage", async (user): Promise<UserSessionsRow[]> => {
+  const users = await prisma.user.findMany({
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      role: true,
+      isActive: true,
+      sessions: {
+        where: { revokedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { lastSeenAt: "desc" },
+      },
+    },
+  });
+  const current = await getCurrentSession();
+
+  return users.map(({ sessions, ...row }) => ({
+    ...row,
+    sessions: sessions.map((session) =>
+      toSessionRow(session, row.id === user.id ? (current?.id ?? null) : null),
+    ),
+  }));
+});
+
+export const revokeUserSessionsAction = withPermission("users:manage", async (user, input: UserTargetInput) => {
+  const data = userTargetSchema.parse(input);
+
+  const target = await prisma.user.findUnique({ where: { id: data.userId } });
+
+  if (!target) {
+    throw new Error("Usuario no encontrado.");
+  }
+
+  const current = data.userId === user.id ? await getCurrentSession() : null;
+  const revokedSessions = await revokeUserSessions(data.userId, {
+    exceptSessionId: current?.id,
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "session.revoke-all",
+    entityType: "User",
+    entityId: data.userId,
+    after: { revokedSessions },
+  });
+
+  return { success: true as const, userId: data.userId, revokedSessions };
+});
@@ -0,0 +1,318 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { hasPermission } from "@/lib/permissions";
+import { computeExpectedTotals, type ShiftTotals } from "@/lib/shifts";
+import { PAYMENT_METHODS } from "@/lib/payment-methods";
+import type { AuthUser } from "@/types/auth";
+import { PaymentMethod, TransactionType } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type ShiftCountRow = {
+  method: PaymentMethod;
+  expected: number;
+  counted: number;
+  difference: number; // > 0 sobrante, < 0 faltante
+};
+
+export type ShiftSummary = {
+  id: number;
+  cashierId: number;
+  cashierName: string;
+  openedAt: string;
+  closedAt: string | null;
+  openingFloat: number;
+  closingNote: string | null;
+  transactionCount: number;
+  // open shift: live expected totals; closed: what was stored at closing
+  expected: ShiftTotals;
+  counts: ShiftCountRow[];
+  totalDifference: number | null; // null while open
+};
+
+export type ShiftReportTransaction = {
+  id: number;
+  createdAt: string;
+  type: TransactionType;
+  method: PaymentMethod | null;
+  amount: number;
+  clientUsername: string;
+  reversesId: number | null;
+  reversed: boolean;
+};
+
+export type ShiftReport = ShiftSummary & {
+  transactions: ShiftReportTransaction[];
+};
+
+const shiftInclude = {
+  cashier: { select: { name: true } },
+  counts: true,
+  _count: { select: { transactions: true } },
+} as const;
+
+async function toShiftSummary(shift: {
+  id: number;
+  cashierId: number;
+  cashier: { name: string };
+  openedAt: Date;
+  closedAt: Date | null;
+  openingFloat: number;
+  closingNote: string | null;
+  counts: ShiftCountRow[];
+  _count: { transactions: number };
+}): Promise<ShiftSummary> {
+  const counts = PAYMENT_METHODS.flatMap((method) => {
+    const count = shift.counts.find((row) => row.method === method);
+    return count
+      ? [{ method, expected: count.expected, counted: count.counted, difference: count.difference }]
+      : [];
+  });
+
+  const expected = shift.closedAt
+    ? (Object.fromEntries(
+        PAYMENT_METHODS.map((method) => [
+          method,
+          counts.find((row) => row.method === method)?.expected ?? 0,
+        ]),
+      ) as ShiftTotals)
+    : await computeExpectedTotals(shift);
+
+  return {
+    id: shift.id,
+    cashierId: shift.cashierId,
+    cashierName: shift.cashier.name,
+    openedAt: shift.openedAt.toISOString(),
+    closedAt: shift.closedAt?.toISOString() ?? null,
+    openingFloat: shift.openingFloat,
+    closingNote: shift.closingNote,
+    transactionCount: shift._count.transactions,
+    expected,
+    counts,
+    totalDifference: shift.closedAt
+      ? counts.reduce((acc, row) => acc + row.difference, 0)
+      : null,
+  };
+}
+
+function assertCanSeeShift(user: AuthUser, cashierId: number) {
+  if (cashierId !== user.id && !hasPermission(user.role, "shifts:read-all")) {
+    throw new Error("No tenés permisos para ver este turno.");
+  }
+}
+
+/* ----------------------------------------
+ * 1) CURRENT SHIFT / OPEN
+ * -------------------------------------- */
+
+export const getCurrentShiftAction = withPermission("shifts:operate", async (user): Promise<ShiftSummary | null> => {
+  const shift = await prisma.cashierShift.findFirst({
+    where: { cashierId: user.id, closedAt: null },
+    include: shiftInclude,
+  });
+
+  return shift ? toShiftSummary(shift) : null;
+});
+
+const openShiftSchema = z.object({
+  openingFloat: z.number().int().min(0),
+});
+
+export type OpenShiftInput = z.infer<typeof openShiftSchema>;
+
+export const openShiftAction = withPermission("shifts:operate", async (user, input: OpenShiftInput) => {
+  const data = openShiftSchema.parse(input);
+
+  try {
+    const shift = await prisma.cashierShift.create({
+      data: { cashierId: user.id, openingFloat: data.openingFloat },
+      include: shiftInclude,
+    });
+
+    await recordAudit({
+      actor: user,
+      action: "shift.open",
+      entityType: "CashierShift",
+      entityId: shift.id,
+      after: { openingFloat: shift.openingFloat },
+    });
+
+    return toShiftSummary(shift);
+  } catch (error) {
+    // Partial unique index: one open shift per cashier
+    if ((error as { code?: string })?.code === "P2002") {
+      throw new Error("Ya tenés un turno abierto. Cerralo antes de abrir otro.");
+    }
+    throw error;
+  }
+});
+
+/* ----------------------------------------
+ * 2) CLOSE WITH CASH COUNT (ARQUEO)
+ * -------------------------------------- */
+
+const closeShiftSchema = z.object({
+  counted: z.record(z.nativeEnum(PaymentMethod), z.number().int().min(0)),
+  note: z.string().trim().max(500).optional().nullable(),
+});
+
+export type CloseShiftInput = z.infer<typeof closeShiftSchema>;
+
+export const closeShiftAction = withPermission("shifts:operate", async (user, input: CloseShiftInput) => {
+  const data = closeShiftSchema.parse(input);
+
+  const closed = await prisma.$transaction(async (db) => {
+    const shift = await db.cashierShift.findFirst({
+      where: { cashierId: user.id, closedAt: null },
+    });
+
+    if (!shift) {
+      throw new Error("No tenés un turno abierto.");
+    }
+
+    const expected = await computeExpectedTotals(shift, db);
+
+    await db.cashierShiftCount.createMany({
+      data: PAYMENT_METHODS.map((method) => {
+        const counted = data.counted[method] ?? 0;
+        return {
+          shiftId: shift.id,
+          method,
+          expected: expected[method],
+          counted,
+          difference: counted - expected[method],
+        };
+      }),
+    });
+
+    // Conditional update: a concurrent close of the same shift finds nothing
+    const result = await db.cashierShift.updateMany({
+      where: { id: shift.id, closedAt: null },
+      data: { closedAt: new Date(), closingNote: data.note || null },
+    });
+
+    if (result.count === 0) {
+      throw new Error("El turno ya fue cerrado.");
+    }
+
+    const closed = await db.cashierShift.findUniqueOrThrow({
+      where: { id: shift.id },
+      include: shiftInclude,
+    });
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "shift.close",
+        entityType: "CashierShift",
+        entityId: shift.id,
+        before: { openingFloat: shift.openingFloat, expected },
+        after: { counts: closed.counts, closingNote: closed.closingNote },
+      },
+      db,
+    );
+
+    return closed;
+  });
+
+  return toShiftSummary(closed);
+});
+
+/* ----------------------------------------
+ * 3) REPORT (printable) AND ADMIN LIST
+ * -------------------------------------- */
+
+const shiftReportSchema = z.object({
+  shiftId: z.number().int(),
+});
+
+export type ShiftReportInput = z.infer<typeof shiftReportSchema>;
+
+export const getShiftReportAction = withPermission("shifts:operate", async (user, input: ShiftReportInput): Promise<ShiftReport> => {
+  const data = shiftReportSchema.parse(input);
+
+  const shift = await prisma.cashierShift.findUnique({
+    where: { id: data.shiftId },
+    include: {
+      ...shiftInclude,
+      transactions: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          client: { select: { username: true } },
+          reversedBy: { select: { id: true } },
+        },
+      },
+    },
+  });
+
+  if (!shift) {
+    throw new Error("Turno no encontrado.");
+  }
+
+  assertCanSeeShift(user, shift.cashierId);
+
+  return {
+    ...(await toShiftSummary(shift)),
+    transactions: shift.transactions.map((tx) => ({
+      id: tx.id,
+      createdAt: tx.createdAt.toISOString(),
+      type: tx.type,
+      method: tx.method,
+      amount: tx.amount,
+      clientUsername: tx.client.username,
+      reversesId: tx.reversesId,
+      reversed: !!tx.reversedBy,
+    })),
+  };
+});
+
+const listShiftsSchema = z.object({
+  cashierId: z.number().int().optional().nullable(),
+  from: z.string().optional(), // YYYY-MM-DD
+  to: z.string().optional(),
+  page: z.number().int().positive().default(1),
+  pageSize: z.number().int().positive().max(100).default(25),
+});
+
+export type ListShiftsInput = z.input<typeof listShiftsSchema>;
+
+export const listShiftsAction = withPermission("shifts:read-all", async (_user, input: ListShiftsInput) => {
+  const data = listShiftsSchema.parse(input);
+
+  const openedAt: { gte?: Date; lte?: Date } = {};
+  if (data.from) openedAt.gte = new Date(`${data.from}T00:00:00`);
+  if (data.to) openedAt.lte = new Date(`${data.to}T23:59:59.999`);
+
+  const where = {
+    ...(data.cashierId ? { cashierId: data.cashierId } : {}),
+    ...(data.from || data.to ? { openedAt } : {}),
+  };
+
+  const [shifts, total, cashiers] = await Promise.all([
+    prisma.cashierShift.findMany({
+      where,
+      orderBy: { openedAt: "desc" },
+      skip: (data.page - 1) * data.pageSize,
+      take: data.pageSize,
+      include: shiftInclude,
+    }),
+    prisma.cashierShift.count({ where }),
+    prisma.user.findMany({
+      where: { cashierShifts: { some: {} } },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  return {
+    shifts: await Promise.all(shifts.map(toShiftSummary)),
+    total,
+    cashiers,
+  };
+});
@@ -0,0 +1,117 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import {
+  getMembershipTierPolicy,
+  MEMBERSHIP_TIER_POLICY_ID,
+  recalculateMembershipTiers,
+  type MembershipTierPolicySettings,
+  type TierRecalculation,
+} from "@/lib/membership";
+import type { MembershipTier } from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type TierChangeRow = {
+  id: number;
+  createdAt: string;
+  clientId: number;
+  username: string;
+  fromTier: MembershipTier;
+  toTier: MembershipTier;
+  volume: number;
+  changedByName: string | null; // null = nightly job
+};
+
+/* ----------------------------------------
+ * 1) THRESHOLDS (admin)
+ * -------------------------------------- */
+
+export const getMembershipTierPolicyAction = withPermission("tiers:manage", async (): Promise<MembershipTierPolicySettings> => {
+  return getMembershipTierPolicy();
+});
+
+const tierPolicySchema = z
+  .object({
+    windowDays: z.number().int().min(1).max(365),
+    premiumMinVolume: z.number().int().positive(),
+    enterpriseMinVolume: z.number().int().positive(),
+  })
+  .refine((data) => data.enterpriseMinVolume > data.premiumMinVolume, {
+    message: "El umbral Empresarial tiene que ser mayor que el Premium.",
+    path: ["enterpriseMinVolume"],
+  });
+
+export type UpdateMembershipTierPolicyInput = z.infer<typeof tierPolicySchema>;
+
+// Takes effect on the next recalculation (nightly, or "Recalcular ahora")
+export const updateMembershipTierPolicyAction = withPermission("tiers:manage", async (user, input: UpdateMembershipTierPolicyInput) => {
+  const data = tierPolicySchema.parse(input);
+
+  const before = await getMembershipTierPolicy();
+
+  await prisma.membershipTierPolicy.upsert({
+    where: { id: MEMBERSHIP_TIER_POLICY_ID },
+    create: { id: MEMBERSHIP_TIER_POLICY_ID, ...data },
+    update: data,
+  });
+
+  await recordAudit({
+    actor: user,
+    action: "tiers.policy-update",
+    entityType: "MembershipTierPolicy",
+    entityId: MEMBERSHIP_TIER_POLICY_ID,
+    before,
+    after: data,
+  });
+
+  return data;
+});
+
+/* ----------------------------------------
+ * 2) RECALCULATION AND HISTORY
+ * -------------------------------------- */
+
+export const recalculateTiersAction = withPermission("tiers:manage", async (user): Promise<TierRecalculation> => {
+  return recalculateMembershipTiers(user);
+});
+
+const listTierChangesSchema = z.object({
+  clientId: z.number().int().optional().nullable(),
+  limit: z.number().int().positive().max(200).default(20),
+});
+
+export type ListTierChangesInput = z.input<typeof listTierChangesSchema>;
+
+export const listTierChangesAction = withPermission("clients:read", async (
+  _user,
+  input: ListTierChangesInput = {},
+): Promise<TierChangeRow[]> => {
+  const data = listTierChangesSchema.parse(input);
+
+  const changes = await prisma.clientTierChange.findMany({
+    where: data.clientId ? { clientId: data.clientId } : undefined,
+    orderBy: { createdAt: "desc" },
+    take: data.limit,
+    include: {
+      client: { select: { username: true } },
+      changedBy: { select: { name: true } },
+    },
+  });
+
+  return changes.map((change) => ({
+    id: change.id,
+    createdAt: change.createdAt.toISOString(),
+    clientId: change.clientId,
+    username: change.client.username,
+    fromTier: change.fromTier,
+    toTier: change.toTier,
+    volume: change.volume,
+    changedByName: change.changedBy?.name ?? null,
+  }));
+});
@@ -0,0 +1,413 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/authz";
+import { recordAudit } from "@/lib/audit";
+import { resolvePaymentAccount } from "@/lib/payment-accounts";
+import { debitPointsBalance } from "@/lib/balances";
+import { idempotencyKeySchema, runIdempotent } from "@/lib/idempotency";
+import {
+  PaymentMethod,
+  TransactionType,
+  WithdrawalStatus,
+  type Prisma,
+} from "@prisma/client";
+import { z } from "zod";
+
+/* ----------------------------------------
+ * Types
+ * -------------------------------------- */
+
+export type WithdrawalRow = {
+  id: number;
+  createdAt: string;
+  status: WithdrawalStatus;
+  clientId: number;
+  clientUsername: string;
+  clientBalance: number;
+  amount: number;
+  destination: string;
+  note: string | null;
+  requestedByName: string;
+  reviewedByName: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  paidByName: string | null;
+  paidAt: string | null;
+  payoutMethod: PaymentMethod | null;
+  payoutAccountName: string | null;
+  transferReference: string | null;
+};
+
+export type WithdrawalLiabilities = Record<"PENDING" | "APPROVED", { count: number; amount: number }>;
+
+const withdrawalInclude = {
+  client: { select: { username: true, pointsBalance: true } },
+  requestedBy: { select: { name: true } },
+  reviewedBy: { select: { name: true } },
+  paidBy: { select: { name: true } },
+  payoutAccount: { select: { name: true } },
+} satisfies Prisma.WithdrawalRequestInclude;
+
+type WithdrawalWithRelations = Prisma.WithdrawalRequestGetPayload<{
+  include: typeof withdrawalInclude;
+}>;
+
+function toWithdrawalRow(withdrawal: WithdrawalWithRelations): WithdrawalRow {
+  return {
+    id: withdrawal.id,
+    createdAt: withdrawal.createdAt.toISOString(),
+    status: withdrawal.status,
+    clientId: withdrawal.clientId,
+    clientUsername: withdrawal.client.username,
+    clientBalance: withdrawal.client.pointsBalance,
+    amount: withdrawal.amount,
+    destination: withdrawal.destination,
+    note: withdrawal.note,
+    requestedByName: withdrawal.requestedBy.name,
+    reviewedByName: withdrawal.reviewedBy?.name ?? null,
+    reviewedAt: withdrawal.reviewedAt?.toISOString() ?? null,
+    rejectionReason: withdrawal.rejectionReason,
+    paidByName: withdrawal.paidBy?.name ?? null,
+    paidAt: withdrawal.paidAt?.toISOString() ?? null,
+    payoutMethod: withdrawal.payoutMethod,
+    payoutAccountName: withdrawal.payoutAccount?.name ?? null,
+    transferReference: withdrawal.transferReference,
+  };
+}
+
+const STATUS_CHANGED_ERROR = "La solicitud cambió de estado. Recargá la lista.";
+
+/* ----------------------------------------
+ * 1) REQUEST (from the chat operator)
+ *    The amount is held right away: a REDEEM row takes it out of the
+ *    balance, so it can't be spent twice while the request is in the queue.
+ * -------------------------------------- */
+
+const requestWithdrawalSchema = z.object({
+  clientId: z.number().int(),
+  amount: z.number().int().positive(),
+  destination: z.string().trim().min(3, "Indicá el CBU, CVU o alias de destino.").max(100),
+  note: z.string().trim().max(500).optional().nullable(),
+  idempotencyKey: idempotencyKeySchema.optional().nullable(),
+});
+
+export type RequestWithdrawalInput = z.infer<typeof requestWithdrawalSchema>;
+
+export const requestWithdrawalAction = withPermission("withdrawals:request", async (user, input: RequestWithdrawalInput): Promise<WithdrawalRow> => {
+  const data = requestWithdrawalSchema.parse(input);
+
+  const applyRequest = () => prisma.$transaction(async (db) => {
+    const updatedClient = await debitPointsBalance(
+      db,
+      data.clientId,
+      data.amount,
+      "El cliente no tiene saldo suficiente para ese retiro.",
+    );
+
+    const hold = await db.pointTransaction.create({
+      data: {
+        clientId: data.clientId,
+        amount: -data.amount,
+        type: TransactionType.REDEEM,
+        description: "Retiro solicitado (retenido hasta el pago)",
+        cashierId: user.id,
+        idempotencyKey: data.idempotencyKey ?? null,
+      },
+    });
+
+    const withdrawal = await db.withdrawalRequest.create({
+      data: {
+        clientId: data.clientId,
+        amount: data.amount,
+        destination: data.destination,
+        note: data.note || null,
+        requestedById: user.id,
+        holdTransactionId: hold.id,
+      },
+      include: withdrawalInclude,
+    });
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "withdrawal.request",
+        entityType: "WithdrawalRequest",
+        entityId: withdrawal.id,
+        before: { pointsBalance: updatedClient.pointsBalance + data.amount },
+        after: {
+          pointsBalance: updatedClient.pointsBalance,
+          clientId: data.clientId,
+          amount: data.amount,
+          destination: data.destination,
+          holdTransactionId: hold.id,
+        },
+      },
+      db,
+    );
+
+    return withdrawal;
+  });
+
+  const { result: withdrawal } = await runIdempotent(
+    data.idempotencyKey,
+    { clientId: data.clientId, amount: -data.amount, type: TransactionType.REDEEM },
+    applyRequest,
+    (existing) =>
+      prisma.withdrawalRequest.findUniqueOrThrow({
+        where: { holdTransactionId: existing.id },
+        include: withdrawalInclude,
+      }),
+  );
+
+  return toWithdrawalRow(withdrawal);
+});
+
+/* ----------------------------------------
+ * 2) QUEUE AND LIABILITIES
+ * -------------------------------------- */
+
+const listWithdrawalsSchema = z.object({
+  status: z.nativeEnum(WithdrawalStatus).optional().nullable(),
+  clientId: z.number().int().optional().nullable(),
+  page: z.number().int().positive().default(1),
+  pageSize: z.number().int().positive().max(100).default(25),
+});
+
+export type ListWithdrawalsInput = z.input<typeof listWithdrawalsSchema>;
+
+export const listWithdrawalsAction = withPermission("withdrawals:read", async (_user, input: ListWithdrawalsInput) => {
+  const data = listWithdrawalsSchema.parse(input);
+
+  const where: Prisma.WithdrawalRequestWhereInput = {
+    ...(data.status ? { status: data.status } : {}),
+    ...(data.clientId ? { clientId: data.clientId } : {}),
+  };
+
+  const [withdrawals, total, open] = await Promise.all([
+    prisma.withdrawalRequest.findMany({
+      where,
+      // oldest first: it's a queue
+      orderBy: { createdAt: data.status === "PENDING" || data.status === "APPROVED" ? "asc" : "desc" },
+      skip: (data.page - 1) * data.pageSize,
+      take: data.pageSize,
+      include: withdrawalInclude,
+    }),
+    prisma.withdrawalRequest.count({ where }),
+    prisma.withdrawalRequest.groupBy({
+      by: ["status"],
+      where: { status: { in: ["PENDING", "APPROVED"] } },
+      _count: { _all: true },
+      _sum: { amount: true },
+      orderBy: { status: "asc" },
+    }),
+  ]);
+
+  // Money owed to clients: requested or approved but not transferred yet
+  const liabilities: WithdrawalLiabilities = {
+    PENDING: { count: 0, amount: 0 },
+    APPROVED: { count: 0, amount: 0 },
+  };
+
+  for (const group of open) {
+    if (group.status === "PENDING" || group.status === "APPROVED") {
+      liabilities[group.status] = {
+        count: group._count._all,
+        amount: group._sum.amount ?? 0,
+      };
+    }
+  }
+
+  return {
+    withdrawals: withdrawals.map(toWithdrawalRow),
+    total,
+    liabilities,
+  };
+});
+
+/* ----------------------------------------
+ * 3) APPROVE / REJECT (admin)
+ * -------------------------------------- */
+
+const withdrawalTargetSchema = z.object({
+  withdrawalId: z.number().int(),
+});
+
+export type WithdrawalTargetInput = z.infer<typeof withdrawalTargetSchema>;
+
+export const approveWithdrawalAction = withPermission("withdrawals:review", async (user, input: WithdrawalTargetInput): Promise<WithdrawalRow> => {
+  const data = withdrawalTargetSchema.parse(input);
+
+  const withdrawal = await prisma.$transaction(async (db) => {
+    // Conditional update: only a PENDING request can be approved
+    const result = await db.withdrawalRequest.updateMany({
+      where: { id: data.withdrawalId, status: WithdrawalStatus.PENDING },
+      data: {
+        status: WithdrawalStatus.APPROVED,
+        reviewedById: user.id,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      throw new Error(STATUS_CHANGED_ERROR);
+    }
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "withdrawal.approve",
+        entityType: "WithdrawalRequest",
+        entityId: data.withdrawalId,
+        before: { status: WithdrawalStatus.PENDING },
+        after: { status: WithdrawalStatus.APPROVED },
+      },
+      db,
+    );
+
+    return db.withdrawalRequest.findUniqueOrThrow({
+      where: { id: data.withdrawalId },
+      include: withdrawalInclude,
+    });
+  });
+
+  return toWithdrawalRow(withdrawal);
+});
+
+const rejectWithdrawalSchema = withdrawalTargetSchema.extend({
+  reason: z.string().trim().min(5, "Indicá el motivo del rechazo (al menos 5 caracteres)."),
+});
+
+export type RejectWithdrawalInput = z.infer<typeof rejectWithdrawalSchema>;
+
+export const rejectWithdrawalAction = withPermission("withdrawals:review", async (user, input: RejectWithdrawalInput): Promise<WithdrawalRow> => {
+  const data = rejectWithdrawalSchema.parse(input);
+
+  const withdrawal = await prisma.$transaction(async (db) => {
+    const current = await db.withdrawalRequest.findUnique({
+      where: { id: data.withdrawalId },
+    });
+
+    if (!current) {
+      throw new Error("Solicitud no encontrada.");
+    }
+
+    const result = await db.withdrawalRequest.updateMany({
+      where: {
+        id: current.id,
+        status: { in: [WithdrawalStatus.PENDING, WithdrawalStatus.APPROVED] },
+      },
+      data: {
+        status: WithdrawalStatus.REJECTED,
+        reviewedById: user.id,
+        reviewedAt: new Date(),
+        rejectionReason: data.reason,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new Error(STATUS_CHANGED_ERROR);
+    }
+
+    // Release the hold: reverse the REDEEM row so the history shows both
+    await db.pointTransaction.create({
+      data: {
+        clientId: current.clientId,
+        amount: current.amount,
+        type: TransactionType.ADJUSTMENT,
+        description: `Retiro #${current.id} rechazado`,
+        reversesId: current.holdTransactionId,
+        reversalReason: data.reason,
+        cashierId: user.id,
+      },
+    });
+
+    const client = await db.client.update({
+      where: { id: current.clientId },
+      data: { pointsBalance: { increment: current.amount } },
+    });
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "withdrawal.reject",
+        entityType: "WithdrawalRequest",
+        entityId: current.id,
+        before: { status: current.status, pointsBalance: client.pointsBalance - current.amount },
+        after: {
+          status: WithdrawalStatus.REJECTED,
+          pointsBalance: client.pointsBalance,
+          reason: data.reason,
+        },
+      },
+      db,
+    );
+
+    return db.withdrawalRequest.findUniqueOrThrow({
+      where: { id: current.id },
+      include: withdrawalInclude,
+    });
+  });
+
+  return toWithdrawalRow(withdrawal);
+});
+
+/* ----------------------------------------
+ * 4) PAYOUT (cashier records the transfer)
+ * -------------------------------------- */
+
+const payWithdrawalSchema = withdrawalTargetSchema.extend({
+  transferReference: z.string().trim().min(3, "Indicá el número de operación de la transferencia.").max(100),
+  method: z.nativeEnum(PaymentMethod).default(PaymentMethod.TRANSFER),
+  payoutAccountId: z.number().int().optional().nullable(), // account the money left from
+});
+
+export type PayWithdrawalInput = z.input<typeof payWithdrawalSchema>;
+
+export const payWithdrawalAction = withPermission("withdrawals:pay", async (user, input: PayWithdrawalInput): Promise<WithdrawalRow> => {
+  const data = payWithdrawalSchema.parse(input);
+
+  const withdrawal = await prisma.$transaction(async (db) => {
+    const account = await resolvePaymentAccount(db, data.payoutAccountId, data.method);
+
+    const result = await db.withdrawalRequest.updateMany({
+      where: { id: data.withdrawalId, status: WithdrawalStatus.APPROVED },
+      data: {
+        status: WithdrawalStatus.PAID,
+        paidById: user.id,
+        paidAt: new Date(),
+        payoutMethod: data.method,
+        payoutAccountId: account?.id ?? null,
+        transferReference: data.transferReference,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new Error("Solo se pueden pagar solicitudes aprobadas. Recargá la lista.");
+    }
+
+    await recordAudit(
+      {
+        actor: user,
+        action: "withdrawal.pay",
+        entityType: "WithdrawalRequest",
+        entityId: data.withdrawalId,
+        before: { status: WithdrawalStatus.APPROVED },
+        after: {
+          status: WithdrawalStatus.PAID,
+          method: data.method,
+          payoutAccountId: account?.id ?? null,
+          transferReference: data.transferReference,
+        },
+      },
+      db,
+    );
+
+    return db.withdrawalRequest.findUniqueOrThrow({
+      where: { id: data.withdrawalId },
+      include: withdrawalInclude,
+    });
+  });
+
+  return toWithdrawalRow(withdrawal);
+});
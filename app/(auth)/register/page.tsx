@@ -5,9 +5,19 @@ import type { Metadata } from "next";
 export const metadata: Metadata = {
   title: "Crear cuenta | CRM Ganamos",
   description:
-    "Registrate en CRM Ganamos para empezar a gestionar oportunidades y relaciones.",
+    "Aceptá tu invitación a CRM Ganamos para empezar a gestionar oportunidades y relaciones.",
 };
 
-export default function RegisterPage() {
-  return <RegisterCard />;
+export default async function RegisterPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string | string[] }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <RegisterCard
+      invitationToken={typeof token === "string" ? token : undefined}
+    />
+  );
 }
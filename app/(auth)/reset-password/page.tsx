@@ -0,0 +1,22 @@
+// app/(auth)/reset-password/page.tsx
+import type { Metadata } from "next";
+import { ResetPasswordCard } from "@/components/auth/ResetPasswordCard";
+
+export const metadata: Metadata = {
+  title: "Recuperar contraseña | CRM Ganamos",
+  description: "Elegí una nueva contraseña para tu cuenta de CRM Ganamos.",
+};
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string | string[] }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <ResetPasswordCard
+      resetToken={typeof token === "string" ? token : undefined}
+    />
+  );
+}
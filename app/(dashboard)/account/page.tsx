@@ -0,0 +1,31 @@
+"use client";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { ChangePasswordCard } from "@/components/account/change-password-card";
+import { SessionsCard } from "@/components/account/sessions-card";
+import { TwoFactorCard } from "@/components/account/two-factor-card";
+
+export default function AccountPage() {
+  return (
+    <AuthGuard>
+      <AccountContent />
+    </AuthGuard>
+  );
+}
+
+function AccountContent() {
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Mi cuenta</h1>
+        <p className="text-sm text-muted-foreground">Seguridad y acceso de tu usuario</p>
+      </div>
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        <TwoFactorCard />
+        <ChangePasswordCard />
+        <SessionsCard />
+      </div>
+    </div>
+  );
+}
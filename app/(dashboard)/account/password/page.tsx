@@ -0,0 +1,42 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { ChangePasswordCard } from "@/components/account/change-password-card";
+import { getDashboardRouteForRole } from "@/lib/auth";
+import { PASSWORD_POLICY_HINT } from "@/lib/password-policy";
+import { useAuthStore } from "@/stores/auth-store";
+
+export default function ChangePasswordPage() {
+  return (
+    <AuthGuard>
+      <ChangePasswordContent />
+    </AuthGuard>
+  );
+}
+
+function ChangePasswordContent() {
+  const router = useRouter();
+  const mustChangePassword = useAuthStore((state) => state.user?.mustChangePassword);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Cambiar contraseña</h1>
+        <p className="text-sm text-muted-foreground">
+          {mustChangePassword
+            ? "Un administrador definió tu contraseña. Elegí una nueva para seguir usando el panel."
+            : "Actualizá la contraseña con la que ingresás al panel."}
+        </p>
+      </div>
+
+      <div className="max-w-xl">
+        <ChangePasswordCard
+          description={PASSWORD_POLICY_HINT}
+          onChanged={(user) => router.replace(getDashboardRouteForRole(user.role))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Download, ScrollText } from "lucide-react";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { listAuditEventsAction, type AuditEventRow } from "@/actions/audit";
+import { AUDIT_ACTIONS, getAuditActionLabel } from "@/lib/audit-actions";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const PAGE_SIZE = 50;
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "medium",
+});
+
+type AuditFiltersForm = {
+  action: string;
+  entityType: string;
+  entityId: string;
+  actor: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: AuditFiltersForm = {
+  action: "",
+  entityType: "",
+  entityId: "",
+  actor: "",
+  from: "",
+  to: "",
+};
+
+export default function AdminAuditPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN"]}>
+      <AdminAuditContent />
+    </AuthGuard>
+  );
+}
+
+function formatJson(value: AuditEventRow["before"]) {
+  return value === null ? "—" : JSON.stringify(value, null, 2);
+}
+
+function AdminAuditContent() {
+  const [filters, setFilters] = useState<AuditFiltersForm>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFiltersForm>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const data = await listAuditEventsAction({
+        ...appliedFilters,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+
+      if (isForbidden(data)) {
+        logger.error("Audit log forbidden", data.error);
+        return;
+      }
+
+      setEvents(data.events);
+      setTotal(data.total);
+      setEntityTypes(data.entityTypes);
+    } catch (error) {
+      logger.error("Error loading audit events", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    void loadEvents();
+  }, [loadEvents]);
+
+  const exportHref = useMemo(() => {
+    const params = new URLSearchParams();
+    Object.entries(appliedFilters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return `/api/admin/audit/export?${params.toString()}`;
+  }, [appliedFilters]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const handleApplyFilters = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Auditoría</h1>
+        <p className="text-sm text-muted-foreground">
+          Registro inmutable de cambios sensibles: quién, qué, cuándo y desde dónde
+        </p>
+      </div>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScrollText className="size-5 text-primary" />
+            Eventos
+          </CardTitle>
+          <CardDescription>{total} eventos con los filtros actuales</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form className="grid gap-3 md:grid-cols-3 xl:grid-cols-6" onSubmit={handleApplyFilters}>
+            <select
+              className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+              value={filters.action}
+              onChange={(e) => setFilters((prev) => ({ ...prev, action: e.target.value }))}
+            >
+              <option value="">Todas las acciones</option>
+              {AUDIT_ACTIONS.map((action) => (
+                <option key={action} value={action}>
+                  {getAuditActionLabel(action)}
+                </option>
+              ))}
+            </select>
+            <select
+              className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+              value={filters.entityType}
+              onChange={(e) => setFilters((prev) => ({ ...prev, entityType: e.target.value }))}
+            >
+              <option value="">Todas las entidades</option>
+              {entityTypes.map((entityType) => (
+                <option key={entityType} value={entityType}>
+                  {entityType}
+                </option>
+              ))}
+            </select>
+            <Input
+              placeholder="ID de entidad"
+              value={filters.entityId}
+              onChange={(e) => setFilters((prev) => ({ ...prev, entityId: e.target.value }))}
+            />
+            <Input
+              placeholder="Usuario"
+              value={filters.actor}
+              onChange={(e) => setFilters((prev) => ({ ...prev, actor: e.target.value }))}
+            />
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+            />
+            <div className="flex gap-2 md:col-span-3 xl:col-span-6">
+              <Button type="submit" disabled={isLoading}>
+                Filtrar
+              </Button>
+              <Button type="button" variant="ghost" onClick={handleClearFilters}>
+                Limpiar
+              </Button>
+              <Button asChild variant="outline" className="ml-auto">
+                <a href={exportHref}>
+                  <Download className="size-4" />
+                  Exportar CSV
+                </a>
+              </Button>
+            </div>
+          </form>
+
+          <div className="overflow-x-auto rounded-lg border border-border/70">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40 text-left text-xs uppercase text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2">Fecha</th>
+                  <th className="px-3 py-2">Usuario</th>
+                  <th className="px-3 py-2">Acción</th>
+                  <th className="px-3 py-2">Entidad</th>
+                  <th className="px-3 py-2">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-muted-foreground">
+                      {isLoading ? "Cargando..." : "No hay eventos para estos filtros."}
+                    </td>
+                  </tr>
+                ) : (
+                  events.map((event) => (
+                    <AuditEventRowView
+                      key={event.id}
+                      event={event}
+                      expanded={expandedId === event.id}
+                      onToggle={() =>
+                        setExpandedId((prev) => (prev === event.id ? null : event.id))
+                      }
+                    />
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Página {page} de {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1 || isLoading}
+                onClick={() => setPage((prev) => prev - 1)}
+              >
+                Anterior
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages || isLoading}
+                onClick={() => setPage((prev) => prev + 1)}
+              >
+                Siguiente
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function AuditEventRowView({
+  event,
+  expanded,
+  onToggle,
+}: {
+  event: AuditEventRow;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <>
+      <tr
+        className="cursor-pointer border-t border-border/60 hover:bg-muted/30"
+        onClick={onToggle}
+      >
+        <td className="whitespace-nowrap px-3 py-2">
+          {dateTimeFormatter.format(new Date(event.createdAt))}
+        </td>
+        <td className="px-3 py-2">{event.actorUsername ?? "Sistema"}</td>
+        <td className="px-3 py-2">{getAuditActionLabel(event.action)}</td>
+        <td className="px-3 py-2">
+          {event.entityType} #{event.entityId}
+        </td>
+        <td className="px-3 py-2 text-muted-foreground">{event.ipAddress ?? "—"}</td>
+      </tr>
+      {expanded && (
+        <tr className="border-t border-border/40 bg-muted/20">
+          <td colSpan={5} className="px-3 py-3">
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <p className="mb-1 text-xs font-medium uppercase text-muted-foreground">Antes</p>
+                <pre className="max-h-64 overflow-auto rounded-md bg-background p-2 text-xs">
+                  {formatJson(event.before)}
+                </pre>
+              </div>
+              <div>
+                <p className="mb-1 text-xs font-medium uppercase text-muted-foreground">Después</p>
+                <pre className="max-h-64 overflow-auto rounded-md bg-background p-2 text-xs">
+                  {formatJson(event.after)}
+                </pre>
+              </div>
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
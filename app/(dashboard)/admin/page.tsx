@@ -13,12 +13,25 @@ import {
   TrendingUp,
 } from "lucide-react";
 
+import { AuthGuard } from "@/components/auth/AuthGuard";
 import { MetricCard } from "@/components/dashboard/metric-card";
 import { ChartCard } from "@/components/dashboard/chart-card";
 import { RevenueTrendChart } from "@/components/dashboard/revenue-trend-chart";
 import { BarComparisonChart } from "@/components/dashboard/bar-comparison-chart";
 import { DonutChart } from "@/components/dashboard/donut-chart";
+import { LoginLocksCard } from "@/components/admin/login-locks-card";
+import { TwoFactorPolicyCard } from "@/components/admin/two-factor-policy-card";
+import { InvitationsCard } from "@/components/admin/invitations-card";
+import { PasswordResetsCard } from "@/components/admin/password-resets-card";
+import { UserSessionsCard } from "@/components/admin/user-sessions-card";
+import { BalanceReconciliationCard } from "@/components/admin/balance-reconciliation-card";
+import { ReferralProgramCard } from "@/components/admin/referral-program-card";
+import { ReferralLeaderboardCard } from "@/components/admin/referral-leaderboard-card";
+import { ChargeLimitsCard } from "@/components/admin/charge-limits-card";
+import { MembershipTiersCard } from "@/components/admin/membership-tiers-card";
+import { PointsExpiryCard } from "@/components/admin/points-expiry-card";
 import { logger } from "@/lib/logger";
+import { isForbidden } from "@/lib/auth";
 import {
   Card,
   CardContent,
@@ -58,7 +71,11 @@ const currency = new Intl.NumberFormat("en-US", {
 });
 
 export default function AdminDashboardPage() {
-  return <AdminDashboardContent />;
+  return (
+    <AuthGuard allowedRoles={["ADMIN"]}>
+      <AdminDashboardContent />
+    </AuthGuard>
+  );
 }
 
 function AdminDashboardContent() {
@@ -119,6 +136,11 @@ function AdminDashboardContent() {
     startTransition(() => {
       getAdminDashboardData()
         .then((data) => {
+          if (isForbidden(data)) {
+            logger.error("Admin dashboard forbidden", data.error);
+            return;
+          }
+
           setTeamMembers(data.teamMembers);
           setClients(data.clients);
           setCashiers(data.cashiers);
@@ -300,6 +322,11 @@ function AdminDashboardContent() {
         status: userForm.status,
       });
 
+      if (isForbidden(newMember)) {
+        setUserMessage(newMember.error);
+        return;
+      }
+
       setTeamMembers((prev) => [newMember, ...prev]);
       setUserForm({
         name: "",
@@ -335,6 +362,11 @@ function AdminDashboardContent() {
         notes: clientForm.notes.trim(),
       });
 
+      if (isForbidden(newClient)) {
+        setClientMessage(newClient.error);
+        return;
+      }
+
       setClients((prev) => [newClient, ...prev]);
       setClientForm({
         company: "",
@@ -368,6 +400,11 @@ function AdminDashboardContent() {
         password: cashierForm.password,
       });
 
+      if (isForbidden(result)) {
+        setCashierMessage(result.error);
+        return;
+      }
+
       setCashiers((prev) => [result.cashier, ...prev]);
       setCashierForm({
         name: "",
@@ -522,6 +559,31 @@ function AdminDashboardContent() {
             </CardContent>
           </Card>
         )}
+
+        <div className="grid gap-6 xl:grid-cols-2">
+          <LoginLocksCard />
+          <TwoFactorPolicyCard />
+        </div>
+
+        <div className="grid gap-6 xl:grid-cols-2">
+          <InvitationsCard />
+          <PasswordResetsCard />
+        </div>
+
+        <UserSessionsCard />
+
+        <BalanceReconciliationCard />
+
+        <div className="grid gap-6 xl:grid-cols-2">
+          <ReferralProgramCard />
+          <ReferralLeaderboardCard />
+        </div>
+
+        <ChargeLimitsCard />
+
+        <MembershipTiersCard />
+
+        <PointsExpiryCard />
       </div>
 
       <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end gap-3">
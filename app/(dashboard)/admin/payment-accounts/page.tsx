@@ -0,0 +1,304 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Landmark } from "lucide-react";
+import type { PaymentMethod } from "@prisma/client";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import {
+  createPaymentAccountAction,
+  listPaymentAccountRowsAction,
+  updatePaymentAccountAction,
+  type PaymentAccountRow,
+} from "@/actions/payment-accounts";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "@/lib/payment-methods";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+type AccountForm = {
+  name: string;
+  method: PaymentMethod;
+  identifier: string;
+  dailyInflowCap: string;
+};
+
+const EMPTY_FORM: AccountForm = {
+  name: "",
+  method: "TRANSFER",
+  identifier: "",
+  dailyInflowCap: "",
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function optionalNumber(value: string) {
+  return value ? Number(value) : null;
+}
+
+export default function AdminPaymentAccountsPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN"]}>
+      <AdminPaymentAccountsContent />
+    </AuthGuard>
+  );
+}
+
+function AdminPaymentAccountsContent() {
+  const notification = useNotification();
+  const [accounts, setAccounts] = useState<PaymentAccountRow[]>([]);
+  const [form, setForm] = useState<AccountForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editing, setEditing] = useState<(AccountForm & { id: number }) | null>(null);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(unwrapAction(await listPaymentAccountRowsAction()));
+    } catch (error) {
+      logger.error("Error loading payment accounts", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadAccounts();
+  }, [loadAccounts]);
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    try {
+      unwrapAction(
+        await createPaymentAccountAction({
+          name: form.name,
+          method: form.method,
+          identifier: form.identifier || null,
+          dailyInflowCap: optionalNumber(form.dailyInflowCap),
+        }),
+      );
+      notification.success("Cuenta creada.");
+      setForm(EMPTY_FORM);
+      await loadAccounts();
+    } catch (error) {
+      logger.error("Error creating payment account", error);
+      notification.error(getErrorMessage(error, "No se pudo crear la cuenta."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveAccount = async (
+    account: PaymentAccountRow,
+    changes: { name: string; identifier: string | null; dailyInflowCap: number | null; isActive: boolean },
+  ) => {
+    setWorkingId(account.id);
+
+    try {
+      unwrapAction(await updatePaymentAccountAction({ accountId: account.id, ...changes }));
+      setEditing(null);
+      await loadAccounts();
+    } catch (error) {
+      logger.error("Error updating payment account", error);
+      notification.error(getErrorMessage(error, "No se pudo actualizar la cuenta."));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const selectClassName = "h-9 w-full rounded-md border border-border bg-background px-3 text-sm";
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Cuentas de cobro</h1>
+        <p className="text-sm text-muted-foreground">
+          Cuentas bancarias y billeteras donde entran las cargas y desde donde se pagan los retiros.
+        </p>
+      </div>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="size-5 text-primary" />
+            Nueva cuenta
+          </CardTitle>
+          <CardDescription>
+            Con tope diario, se avisa al operador (y queda en auditoría) cuando las cargas del día lo superan
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="grid gap-3 md:grid-cols-4" onSubmit={handleCreate}>
+            <Input
+              placeholder="Nombre (ej.: Galicia Ganamos)"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              required
+            />
+            <select
+              className={selectClassName}
+              value={form.method}
+              onChange={(e) => setForm((prev) => ({ ...prev, method: e.target.value as PaymentMethod }))}
+            >
+              {PAYMENT_METHODS.map((method) => (
+                <option key={method} value={method}>
+                  {PAYMENT_METHOD_LABELS[method]}
+                </option>
+              ))}
+            </select>
+            <Input
+              placeholder="CBU / CVU / alias"
+              value={form.identifier}
+              onChange={(e) => setForm((prev) => ({ ...prev, identifier: e.target.value }))}
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Tope diario de ingresos"
+              value={form.dailyInflowCap}
+              onChange={(e) => setForm((prev) => ({ ...prev, dailyInflowCap: e.target.value }))}
+            />
+            <div className="md:col-span-4">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Guardando..." : "Crear cuenta"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle>Cuentas</CardTitle>
+          <CardDescription>
+            Totales históricos: cargas no revertidas y retiros pagados por cada cuenta
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {accounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no hay cuentas.</p>
+          ) : (
+            accounts.map((account) => {
+              const overCap = account.dailyInflowCap !== null && account.today.inflow > account.dailyInflowCap;
+
+              if (editing?.id === account.id) {
+                return (
+                  <form
+                    key={account.id}
+                    className="grid gap-2 rounded-md border border-border/60 px-3 py-2 md:grid-cols-4"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      void saveAccount(account, {
+                        name: editing.name,
+                        identifier: editing.identifier || null,
+                        dailyInflowCap: optionalNumber(editing.dailyInflowCap),
+                        isActive: account.isActive,
+                      });
+                    }}
+                  >
+                    <Input
+                      value={editing.name}
+                      onChange={(e) => setEditing((prev) => prev && { ...prev, name: e.target.value })}
+                      required
+                    />
+                    <Input
+                      placeholder="CBU / CVU / alias"
+                      value={editing.identifier}
+                      onChange={(e) => setEditing((prev) => prev && { ...prev, identifier: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Sin tope"
+                      value={editing.dailyInflowCap}
+                      onChange={(e) => setEditing((prev) => prev && { ...prev, dailyInflowCap: e.target.value })}
+                    />
+                    <div className="flex gap-2">
+                      <Button type="submit" size="sm" disabled={workingId === account.id}>
+                        Guardar
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                        Cancelar
+                      </Button>
+                    </div>
+                  </form>
+                );
+              }
+
+              return (
+                <div
+                  key={account.id}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border/60 px-3 py-2 text-sm"
+                >
+                  <div className={account.isActive ? undefined : "text-muted-foreground"}>
+                    <p className="font-medium">
+                      {account.name} · {PAYMENT_METHOD_LABELS[account.method]}
+                      {!account.isActive && " · Inactiva"}
+                    </p>
+                    {account.identifier && <p className="text-xs text-muted-foreground">{account.identifier}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      Ingresos {amountFormatter.format(account.totals.inflow)} ({account.totals.charges} cargas) ·
+                      Egresos {amountFormatter.format(account.totals.outflow)} ({account.totals.payouts} retiros) ·
+                      Neto {amountFormatter.format(account.totals.inflow - account.totals.outflow)}
+                    </p>
+                    <p className={`text-xs ${overCap ? "font-medium text-destructive" : "text-muted-foreground"}`}>
+                      Hoy: {amountFormatter.format(account.today.inflow)}
+                      {account.dailyInflowCap !== null
+                        ? ` de ${amountFormatter.format(account.dailyInflowCap)} de tope${overCap ? " · superado" : ""}`
+                        : " · sin tope"}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        setEditing({
+                          id: account.id,
+                          name: account.name,
+                          method: account.method,
+                          identifier: account.identifier ?? "",
+                          dailyInflowCap: account.dailyInflowCap?.toString() ?? "",
+                        })
+                      }
+                    >
+                      Editar
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={account.isActive ? "outline" : "default"}
+                      disabled={workingId === account.id}
+                      onClick={() =>
+                        saveAccount(account, {
+                          name: account.name,
+                          identifier: account.identifier,
+                          dailyInflowCap: account.dailyInflowCap,
+                          isActive: !account.isActive,
+                        })
+                      }
+                    >
+                      {account.isActive ? "Desactivar" : "Activar"}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Gift } from "lucide-react";
+import type { MarketingSource, MembershipTier, PromotionKind } from "@prisma/client";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { listMarketingSourcesAction } from "@/actions";
+import {
+  createPromotionAction,
+  listPromotionsAction,
+  setPromotionActiveAction,
+  type PromotionRow,
+} from "@/actions/promotions";
+import { isForbidden, unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { MEMBERSHIP_TIER_LABELS, MEMBERSHIP_TIERS } from "@/lib/membership-tiers";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateFormatter = new Intl.DateTimeFormat("es-AR", { dateStyle: "short" });
+
+type PromotionForm = {
+  name: string;
+  kind: PromotionKind;
+  value: string;
+  maxBonus: string;
+  firstDepositOnly: boolean;
+  minAmount: string;
+  startsAt: string;
+  endsAt: string;
+  marketingSourceId: string;
+  tier: MembershipTier | "";
+  maxUsesPerClient: string;
+};
+
+const EMPTY_FORM: PromotionForm = {
+  name: "",
+  kind: "PERCENTAGE",
+  value: "",
+  maxBonus: "",
+  firstDepositOnly: false,
+  minAmount: "",
+  startsAt: "",
+  endsAt: "",
+  marketingSourceId: "",
+  tier: "",
+  maxUsesPerClient: "",
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function optionalNumber(value: string) {
+  return value ? Number(value) : null;
+}
+
+function describeRule(promotion: PromotionRow) {
+  const parts = [
+    promotion.kind === "PERCENTAGE"
+      ? `${promotion.value}% extra${promotion.maxBonus ? ` (tope ${pointsFormatter.format(promotion.maxBonus)})` : ""}`
+      : `${pointsFormatter.format(promotion.value)} puntos extra`,
+  ];
+
+  if (promotion.firstDepositOnly) parts.push("solo primera carga");
+  if (promotion.minAmount) parts.push(`mínimo ${pointsFormatter.format(promotion.minAmount)}`);
+  if (promotion.marketingSourceName) parts.push(`origen ${promotion.marketingSourceName}`);
+  if (promotion.tier) parts.push(`nivel ${MEMBERSHIP_TIER_LABELS[promotion.tier]}`);
+  if (promotion.maxUsesPerClient) parts.push(`${promotion.maxUsesPerClient} usos por cliente`);
+  if (promotion.startsAt || promotion.endsAt) {
+    parts.push(
+      `${promotion.startsAt ? dateFormatter.format(new Date(promotion.startsAt)) : "…"} – ${promotion.endsAt ? dateFormatter.format(new Date(promotion.endsAt)) : "…"}`,
+    );
+  }
+
+  return parts.join(" · ");
+}
+
+export default function AdminPromotionsPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN"]}>
+      <AdminPromotionsContent />
+    </AuthGuard>
+  );
+}
+
+function AdminPromotionsContent() {
+  const notification = useNotification();
+  const [promotions, setPromotions] = useState<PromotionRow[]>([]);
+  const [sources, setSources] = useState<MarketingSource[]>([]);
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      setPromotions(unwrapAction(await listPromotionsAction()));
+    } catch (error) {
+      logger.error("Error loading promotions", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPromotions();
+
+    listMarketingSourcesAction()
+      .then((result) => {
+        if (!isForbidden(result)) setSources(result);
+      })
+      .catch((error) => logger.error("Error loading marketing sources", error));
+  }, [loadPromotions]);
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    try {
+      unwrapAction(
+        await createPromotionAction({
+          name: form.name,
+          kind: form.kind,
+          value: Number(form.value),
+          maxBonus: optionalNumber(form.maxBonus),
+          firstDepositOnly: form.firstDepositOnly,
+          minAmount: optionalNumber(form.minAmount),
+          startsAt: form.startsAt || null,
+          endsAt: form.endsAt || null,
+          marketingSourceId: optionalNumber(form.marketingSourceId),
+          tier: form.tier || null,
+          maxUsesPerClient: optionalNumber(form.maxUsesPerClient),
+        }),
+      );
+      notification.success("Promoción creada.");
+      setForm(EMPTY_FORM);
+      await loadPromotions();
+    } catch (error) {
+      logger.error("Error creating promotion", error);
+      notification.error(getErrorMessage(error, "No se pudo crear la promoción."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (promotion: PromotionRow) => {
+    setWorkingId(promotion.id);
+
+    try {
+      unwrapAction(
+        await setPromotionActiveAction({ promotionId: promotion.id, isActive: !promotion.isActive }),
+      );
+      await loadPromotions();
+    } catch (error) {
+      logger.error("Error updating promotion", error);
+      notification.error(getErrorMessage(error, "No se pudo actualizar la promoción."));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const selectClassName = "h-9 w-full rounded-md border border-border bg-background px-3 text-sm";
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Promociones</h1>
+        <p className="text-sm text-muted-foreground">
+          Bonificaciones que se acreditan solas al registrar una carga. No son acumulables: se aplica la de mayor bonificación.
+        </p>
+      </div>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gift className="size-5 text-primary" />
+            Nueva promoción
+          </CardTitle>
+          <CardDescription>Los campos vacíos no restringen la promoción</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="grid gap-3 md:grid-cols-3" onSubmit={handleCreate}>
+            <Input
+              className="md:col-span-3"
+              placeholder="Nombre (ej.: 20% extra en la primera carga)"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              required
+            />
+            <select
+              className={selectClassName}
+              value={form.kind}
+              onChange={(e) => setForm((prev) => ({ ...prev, kind: e.target.value as PromotionKind }))}
+            >
+              <option value="PERCENTAGE">Porcentaje de la carga</option>
+              <option value="FIXED">Puntos fijos</option>
+            </select>
+            <Input
+              type="number"
+              min={1}
+              placeholder={form.kind === "PERCENTAGE" ? "Porcentaje" : "Puntos"}
+              value={form.value}
+              onChange={(e) => setForm((prev) => ({ ...prev, value: e.target.value }))}
+              required
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Tope de bonificación"
+              disabled={form.kind !== "PERCENTAGE"}
+              value={form.maxBonus}
+              onChange={(e) => setForm((prev) => ({ ...prev, maxBonus: e.target.value }))}
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Carga mínima"
+              value={form.minAmount}
+              onChange={(e) => setForm((prev) => ({ ...prev, minAmount: e.target.value }))}
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Usos máximos por cliente"
+              value={form.maxUsesPerClient}
+              onChange={(e) => setForm((prev) => ({ ...prev, maxUsesPerClient: e.target.value }))}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.firstDepositOnly}
+                onChange={(e) => setForm((prev) => ({ ...prev, firstDepositOnly: e.target.checked }))}
+              />
+              Solo primera carga
+            </label>
+            <Input
+              type="date"
+              title="Desde"
+              value={form.startsAt}
+              onChange={(e) => setForm((prev) => ({ ...prev, startsAt: e.target.value }))}
+            />
+            <Input
+              type="date"
+              title="Hasta"
+              value={form.endsAt}
+              onChange={(e) => setForm((prev) => ({ ...prev, endsAt: e.target.value }))}
+            />
+            <select
+              className={selectClassName}
+              value={form.marketingSourceId}
+              onChange={(e) => setForm((prev) => ({ ...prev, marketingSourceId: e.target.value }))}
+            >
+              <option value="">Cualquier origen</option>
+              {sources.map((source) => (
+                <option key={source.id} value={source.id}>
+                  {source.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className={selectClassName}
+              value={form.tier}
+              onChange={(e) => setForm((prev) => ({ ...prev, tier: e.target.value as MembershipTier | "" }))}
+            >
+              <option value="">Cualquier nivel</option>
+              {MEMBERSHIP_TIERS.map((tier) => (
+                <option key={tier} value={tier}>
+                  {MEMBERSHIP_TIER_LABELS[tier]}
+                </option>
+              ))}
+            </select>
+            <div className="md:col-span-3">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Guardando..." : "Crear promoción"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle>Promociones cargadas</CardTitle>
+          <CardDescription>
+            Las reglas no se editan una vez usadas: desactivá la promoción y creá otra
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {promotions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no hay promociones.</p>
+          ) : (
+            promotions.map((promotion) => (
+              <div
+                key={promotion.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border/60 px-3 py-2 text-sm"
+              >
+                <div className={promotion.isActive ? undefined : "text-muted-foreground"}>
+                  <p className="font-medium">
+                    {promotion.name}
+                    {!promotion.isActive && " · Inactiva"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeRule(promotion)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {promotion.timesUsed} usos · {pointsFormatter.format(promotion.totalBonus)} puntos bonificados
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant={promotion.isActive ? "outline" : "default"}
+                  disabled={workingId === promotion.id}
+                  onClick={() => handleToggle(promotion)}
+                >
+                  {promotion.isActive ? "Desactivar" : "Activar"}
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
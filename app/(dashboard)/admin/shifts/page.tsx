@@ -0,0 +1,227 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Wallet } from "lucide-react";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { listShiftsAction, type ShiftSummary } from "@/actions/shifts";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const PAGE_SIZE = 25;
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+type ShiftFiltersForm = {
+  cashierId: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: ShiftFiltersForm = { cashierId: "", from: "", to: "" };
+
+export default function AdminShiftsPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN"]}>
+      <AdminShiftsContent />
+    </AuthGuard>
+  );
+}
+
+function AdminShiftsContent() {
+  const [filters, setFilters] = useState<ShiftFiltersForm>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<ShiftFiltersForm>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [shifts, setShifts] = useState<ShiftSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [cashiers, setCashiers] = useState<{ id: number; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadShifts = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const data = await listShiftsAction({
+        cashierId: appliedFilters.cashierId ? Number(appliedFilters.cashierId) : null,
+        from: appliedFilters.from || undefined,
+        to: appliedFilters.to || undefined,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+
+      if (isForbidden(data)) {
+        logger.error("Shift list forbidden", data.error);
+        return;
+      }
+
+      setShifts(data.shifts);
+      setTotal(data.total);
+      setCashiers(data.cashiers);
+    } catch (error) {
+      logger.error("Error loading shifts", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    void loadShifts();
+  }, [loadShifts]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const handleApplyFilters = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Turnos de caja</h1>
+        <p className="text-sm text-muted-foreground">
+          Aperturas, cierres y diferencias de arqueo por cajero
+        </p>
+      </div>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="size-5 text-primary" />
+            Turnos
+          </CardTitle>
+          <CardDescription>{total} turnos con los filtros actuales</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form className="grid gap-3 md:grid-cols-4" onSubmit={handleApplyFilters}>
+            <select
+              className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+              value={filters.cashierId}
+              onChange={(e) => setFilters((prev) => ({ ...prev, cashierId: e.target.value }))}
+            >
+              <option value="">Todos los cajeros</option>
+              {cashiers.map((cashier) => (
+                <option key={cashier.id} value={cashier.id}>
+                  {cashier.name}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading}>
+                Filtrar
+              </Button>
+              <Button type="button" variant="ghost" onClick={handleClearFilters}>
+                Limpiar
+              </Button>
+            </div>
+          </form>
+
+          <div className="overflow-x-auto rounded-lg border border-border/70">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40 text-left text-xs uppercase text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2">#</th>
+                  <th className="px-3 py-2">Cajero</th>
+                  <th className="px-3 py-2">Apertura</th>
+                  <th className="px-3 py-2">Cierre</th>
+                  <th className="px-3 py-2 text-right">Movimientos</th>
+                  <th className="px-3 py-2 text-right">Diferencia</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {shifts.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-muted-foreground">
+                      {isLoading ? "Cargando..." : "No hay turnos para estos filtros."}
+                    </td>
+                  </tr>
+                ) : (
+                  shifts.map((shift) => (
+                    <tr key={shift.id} className="border-t border-border/60">
+                      <td className="px-3 py-2">{shift.id}</td>
+                      <td className="px-3 py-2">{shift.cashierName}</td>
+                      <td className="whitespace-nowrap px-3 py-2">
+                        {dateTimeFormatter.format(new Date(shift.openedAt))}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2">
+                        {shift.closedAt ? dateTimeFormatter.format(new Date(shift.closedAt)) : "Abierto"}
+                      </td>
+                      <td className="px-3 py-2 text-right">{shift.transactionCount}</td>
+                      <td
+                        className={`px-3 py-2 text-right ${shift.totalDifference && shift.totalDifference < 0 ? "text-destructive" : ""}`}
+                      >
+                        {shift.totalDifference === null ? "—" : amountFormatter.format(shift.totalDifference)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <Button asChild size="sm" variant="ghost">
+                          <Link href={`/cashier/shifts/${shift.id}`}>Reporte</Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Página {page} de {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1 || isLoading}
+                onClick={() => setPage((prev) => prev - 1)}
+              >
+                Anterior
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages || isLoading}
+                onClick={() => setPage((prev) => prev + 1)}
+              >
+                Siguiente
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { FileSpreadsheet, Undo2 } from "lucide-react";
+import readXlsxFile from "read-excel-file";
+import type { ChargeImportStatus } from "@prisma/client";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import {
+  commitChargeImportAction,
+  listChargeImportsAction,
+  previewChargeImportAction,
+  rollbackChargeImportAction,
+  type ChargeImportRow,
+  type ImportMatch,
+  type ImportPreviewRow,
+  type ImportRowStatus,
+} from "@/actions/charge-imports";
+import { isForbidden, unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { hasPermission } from "@/lib/permissions";
+import { describeInflowCapAlert } from "@/lib/payment-methods";
+import { parseCsv, tableToStatementRows } from "@/lib/statement-parse";
+import { useNotification } from "@/lib/useNotification";
+import { useAuthStore } from "@/stores/auth-store";
+import { PaymentAccountSelect } from "@/components/ledger/payment-account-select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const ROW_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  READY: "Lista",
+  UNMATCHED: "Sin cliente",
+  DUPLICATE: "Duplicada",
+  INVALID: "Inválida",
+};
+
+const ROW_STATUS_CLASSES: Record<ImportRowStatus, string> = {
+  READY: "bg-green-100 text-green-800",
+  UNMATCHED: "bg-amber-100 text-amber-800",
+  DUPLICATE: "bg-red-100 text-red-700",
+  INVALID: "bg-gray-100 text-gray-800",
+};
+
+const MATCH_LABELS: Record<ImportMatch, string> = {
+  USERNAME: "por usuario",
+  PHONE: "por teléfono",
+  REFERENCE: "por referencia",
+};
+
+const IMPORT_STATUS_LABELS: Record<ChargeImportStatus, string> = {
+  COMMITTED: "Importada",
+  ROLLED_BACK: "Revertida",
+};
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+async function readStatementFile(file: File) {
+  const table = /\.xlsx$/i.test(file.name)
+    ? await readXlsxFile(file)
+    : parseCsv(await file.text());
+
+  return tableToStatementRows(table);
+}
+
+export default function ChargeImportsPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN", "CASHIER"]}>
+      <ChargeImportsContent />
+    </AuthGuard>
+  );
+}
+
+function ChargeImportsContent() {
+  const notification = useNotification();
+  const role = useAuthStore((state) => state.user?.role);
+  const canRollback = !!role && hasPermission(role, "ledger:import-rollback");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [paymentAccountId, setPaymentAccountId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [imports, setImports] = useState<ChargeImportRow[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [rollbackTarget, setRollbackTarget] = useState<ChargeImportRow | null>(null);
+
+  const loadImports = useCallback(async () => {
+    try {
+      const data = await listChargeImportsAction({ limit: 20 });
+
+      if (isForbidden(data)) {
+        logger.error("Charge imports forbidden", data.error);
+        return;
+      }
+
+      setImports(data);
+    } catch (error) {
+      logger.error("Error loading charge imports", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadImports();
+  }, [loadImports]);
+
+  const resetPreview = () => {
+    setFileName(null);
+    setPreview([]);
+    setSelected(new Set());
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setIsParsing(true);
+    resetPreview();
+
+    try {
+      const rows = await readStatementFile(file);
+      const result = unwrapAction(await previewChargeImportAction({ rows }));
+      setFileName(file.name);
+      setPreview(result);
+      setSelected(new Set(result.filter((row) => row.status === "READY").map((row) => row.line)));
+    } catch (error) {
+      logger.error("Error parsing bank statement", error);
+      notification.error(getErrorMessage(error, "No se pudo leer el archivo."));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const counts = useMemo(
+    () =>
+      preview.reduce(
+        (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+        { READY: 0, UNMATCHED: 0, DUPLICATE: 0, INVALID: 0 } as Record<ImportRowStatus, number>,
+      ),
+    [preview],
+  );
+
+  const confirmedRows = preview.filter((row) => row.status === "READY" && selected.has(row.line));
+  const confirmedTotal = confirmedRows.reduce((acc, row) => acc + (row.amount ?? 0), 0);
+
+  const toggleRow = (line: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line);
+      else next.add(line);
+      return next;
+    });
+  };
+
+  const handleCommit = async () => {
+    if (!fileName || confirmedRows.length === 0) return;
+
+    setIsCommitting(true);
+
+    try {
+      const result = unwrapAction(
+        await commitChargeImportAction({
+          fileName,
+          paymentAccountId,
+          rows: confirmedRows.map((row) => ({
+            line: row.line,
+            clientId: row.clientId!,
+            amount: row.amount!,
+            reference: row.reference,
+          })),
+        }),
+      );
+      notification.success(
+        `Importación #${result.importId}: ${result.rowCount} cargas por ${amountFormatter.format(result.totalAmount)}.`,
+      );
+      if (result.inflowAlert) notification.warning(describeInflowCapAlert(result.inflowAlert));
+      resetPreview();
+      void loadImports();
+    } catch (error) {
+      logger.error("Error committing charge import", error);
+      notification.error(getErrorMessage(error, "No se pudo importar el archivo."));
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Importar cargas</h1>
+        <p className="text-sm text-muted-foreground">
+          Cargas por transferencia desde el extracto del banco (CSV o Excel)
+        </p>
+      </div>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="size-5 text-primary" />
+            Extracto
+          </CardTitle>
+          <CardDescription>
+            Se reconocen las columnas de importe, fecha, referencia, usuario, teléfono y concepto.
+            Solo se importan las filas listas que marques.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              disabled={isParsing || isCommitting}
+              className="text-sm"
+            />
+            <PaymentAccountSelect
+              className="h-9 w-64"
+              method="TRANSFER"
+              emptyLabel="Cuenta del extracto (opcional)"
+              value={paymentAccountId}
+              onChange={(account) => setPaymentAccountId(account?.id ?? null)}
+            />
+            {isParsing && <span className="text-sm text-muted-foreground">Leyendo archivo...</span>}
+          </div>
+
+          {preview.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(Object.keys(ROW_STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+                  <span key={status} className={`rounded-full px-2 py-0.5 ${ROW_STATUS_CLASSES[status]}`}>
+                    {ROW_STATUS_LABELS[status]}: {counts[status]}
+                  </span>
+                ))}
+              </div>
+
+              <div className="max-h-[60vh] overflow-auto rounded-lg border border-border/70">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/40 text-left text-xs uppercase text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2" />
+                      <th className="px-3 py-2">Fila</th>
+                      <th className="px-3 py-2">Fecha</th>
+                      <th className="px-3 py-2">Cliente</th>
+                      <th className="px-3 py-2">Referencia</th>
+                      <th className="px-3 py-2 text-right">Importe</th>
+                      <th className="px-3 py-2">Estado</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((row) => (
+                      <tr key={row.line} className="border-t border-border/60 align-top">
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            disabled={row.status !== "READY"}
+                            checked={row.status === "READY" && selected.has(row.line)}
+                            onChange={() => toggleRow(row.line)}
+                          />
+                        </td>
+                        <td className="px-3 py-2">{row.line}</td>
+                        <td className="whitespace-nowrap px-3 py-2">{row.date ?? "—"}</td>
+                        <td className="px-3 py-2">
+                          {row.clientUsername ? (
+                            <>
+                              @{row.clientUsername}
+                              {row.matchedBy && (
+                                <p className="text-xs text-muted-foreground">{MATCH_LABELS[row.matchedBy]}</p>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">
+                              {row.username ?? row.phone ?? row.description ?? "—"}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.reference ?? "—"}
+                          {row.description && (
+                            <p className="text-xs text-muted-foreground">{row.description}</p>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right font-medium">
+                          {row.amount === null ? "—" : amountFormatter.format(row.amount)}
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`rounded-full px-2 py-0.5 text-xs ${ROW_STATUS_CLASSES[row.status]}`}>
+                            {ROW_STATUS_LABELS[row.status]}
+                          </span>
+                          {row.message && <p className="mt-1 text-xs text-muted-foreground">{row.message}</p>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <span className="text-sm text-muted-foreground">
+                  {fileName} · {confirmedRows.length} cargas por {amountFormatter.format(confirmedTotal)}
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="ghost" onClick={resetPreview} disabled={isCommitting}>
+                    Descartar
+                  </Button>
+                  <Button onClick={handleCommit} disabled={isCommitting || confirmedRows.length === 0}>
+                    {isCommitting ? "Importando..." : `Importar ${confirmedRows.length} cargas`}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle>Importaciones anteriores</CardTitle>
+          <CardDescription>Revertir una importación revierte todas sus cargas juntas</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {imports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no hay importaciones.</p>
+          ) : (
+            imports.map((chargeImport) => (
+              <div
+                key={chargeImport.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-border/70 bg-background/80 p-4"
+              >
+                <div className="flex flex-col gap-1">
+                  <span className="font-medium">
+                    #{chargeImport.id} · {chargeImport.fileName}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    {dateTimeFormatter.format(new Date(chargeImport.createdAt))} · {chargeImport.createdByName} ·{" "}
+                    {chargeImport.rowCount} cargas por {amountFormatter.format(chargeImport.totalAmount)}
+                  </span>
+                  {chargeImport.status === "ROLLED_BACK" && (
+                    <span className="text-xs text-muted-foreground">
+                      Revertida por {chargeImport.rolledBackByName}
+                      {chargeImport.rolledBackAt && ` el ${dateTimeFormatter.format(new Date(chargeImport.rolledBackAt))}`}
+                      {chargeImport.rollbackReason && `: ${chargeImport.rollbackReason}`}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm">{IMPORT_STATUS_LABELS[chargeImport.status]}</span>
+                  {canRollback && chargeImport.status === "COMMITTED" && (
+                    <Button size="sm" variant="ghost" onClick={() => setRollbackTarget(chargeImport)}>
+                      <Undo2 className="size-4" />
+                      Revertir
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <RollbackImportDialog
+        chargeImport={rollbackTarget}
+        onClose={() => setRollbackTarget(null)}
+        onDone={() => void loadImports()}
+      />
+    </div>
+  );
+}
+
+function RollbackImportDialog({
+  chargeImport,
+  onClose,
+  onDone,
+}: {
+  chargeImport: ChargeImportRow | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const notification = useNotification();
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!chargeImport) return;
+
+    setIsSaving(true);
+
+    try {
+      const result = unwrapAction(
+        await rollbackChargeImportAction({ importId: chargeImport.id, reason }),
+      );
+      notification.success(
+        `Importación #${result.importId} revertida: ${result.reversedCharges} cargas, ${amountFormatter.format(result.reversedAmount)} puntos.`,
+      );
+      onDone();
+      handleClose();
+    } catch (error) {
+      logger.error("Error rolling back charge import", error);
+      notification.error(getErrorMessage(error, "No se pudo revertir la importación."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!chargeImport} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Revertir importación #{chargeImport?.id}</DialogTitle>
+          <DialogDescription>
+            {chargeImport?.fileName} · {chargeImport?.rowCount} cargas por{" "}
+            {amountFormatter.format(chargeImport?.totalAmount ?? 0)}. Se revierten también sus bonificaciones y recompensas por referido.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Textarea
+            placeholder="Motivo de la reversión"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            minLength={5}
+            required
+          />
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSaving}>
+              {isSaving ? "Revirtiendo..." : "Revertir"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,50 @@
 "use client";
 
 import { useEffect, useMemo, useState, useTransition } from "react";
+import Link from "next/link";
 import {
   CalendarClock,
   CheckCircle2,
   CircleSlash2,
   Coins,
+  ReceiptText,
   Search,
   Sparkles,
   UsersRound,
   TrendingUp,
+  Undo2,
 } from "lucide-react";
 
+import { AuthGuard } from "@/components/auth/AuthGuard";
 import { MetricCard } from "@/components/dashboard/metric-card";
 import { ChartCard } from "@/components/dashboard/chart-card";
 import { BarComparisonChart } from "@/components/dashboard/bar-comparison-chart";
+import { ShiftCard } from "@/components/cashier/shift-card";
+import { PaymentAccountsCard } from "@/components/cashier/payment-accounts-card";
+import { PaymentAccountSelect } from "@/components/ledger/payment-account-select";
+import type { PaymentAccountOption } from "@/actions/payment-accounts";
+import { BonusPreview } from "@/components/cashier/bonus-preview";
+import {
+  ReverseTransactionDialog,
+  type ReversibleTransaction,
+} from "@/components/ledger/reverse-transaction-dialog";
+import {
+  isOverridableRejection,
+  LimitOverrideDialog,
+  type LimitOverrideRequest,
+  type OverridableChargeRejection,
+} from "@/components/ledger/limit-override-dialog";
 import { logger } from "@/lib/logger";
+import { isForbidden, unwrapAction } from "@/lib/auth";
+import type { ChargeOverrideInput } from "@/lib/charge-overrides";
+import { describeInflowCapAlert } from "@/lib/payment-methods";
+import { useIdempotencyKeys } from "@/lib/useIdempotencyKey";
+import {
+  MEMBERSHIP_TIER_BADGE_CLASSES,
+  MEMBERSHIP_TIER_LABELS,
+  MEMBERSHIP_TIERS,
+} from "@/lib/membership-tiers";
+import type { MembershipTier } from "@prisma/client";
 import {
   Card,
   CardContent,
@@ -29,7 +58,6 @@ import { Input } from "@/components/ui/input";
 import {
   LedgerMember,
   ChargeLogEntry,
-  MembershipTier,
   DailyChargeSheetRow,
   getCashierDashboardData,
   getDailyChargeSheet,
@@ -43,8 +71,21 @@ const coinFormatter = new Intl.NumberFormat("en-US", {
 
 type SheetStatusFilter = "all" | "charged" | "not-charged" | "pending";
 
+type ChargeOverrides = {
+  limitOverride?: ChargeOverrideInput;
+  referenceOverride?: ChargeOverrideInput;
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
 export default function CashierDashboardPage() {
-  return <CashierDashboardContent />;
+  return (
+    <AuthGuard allowedRoles={["ADMIN", "CASHIER"]}>
+      <CashierDashboardContent />
+    </AuthGuard>
+  );
 }
 
 function CashierDashboardContent() {
@@ -54,9 +95,17 @@ function CashierDashboardContent() {
   const [chargeLog, setChargeLog] = useState<ChargeLogEntry[]>([]);
   const [dailySheet, setDailySheet] = useState<DailyChargeSheetRow[]>([]);
   const [pendingCharges, setPendingCharges] = useState<Record<number, string>>({});
+  const [pendingReferences, setPendingReferences] = useState<Record<number, string>>({});
+  const [chargeAccount, setChargeAccount] = useState<PaymentAccountOption | null>(null);
   const [rowFeedback, setRowFeedback] = useState<Record<number, string | null>>({});
   const [sheetFeedback, setSheetFeedback] = useState<Record<number, string | null>>({});
   const [sheetSaving, setSheetSaving] = useState<Record<number, boolean>>({});
+  const [chargeSaving, setChargeSaving] = useState<Record<number, boolean>>({});
+  const chargeKeys = useIdempotencyKeys();
+  const [reversalTarget, setReversalTarget] = useState<ReversibleTransaction | null>(null);
+  const [overrideTarget, setOverrideTarget] = useState<
+    (LimitOverrideRequest & { memberId: number; coins: number; overrides: ChargeOverrides }) | null
+  >(null);
   const [tierFilter, setTierFilter] = useState<"all" | MembershipTier>("all");
   const [searchTerm, setSearchTerm] = useState("");
   const [sheetStatusFilter, setSheetStatusFilter] = useState<SheetStatusFilter>("all");
@@ -69,6 +118,11 @@ function CashierDashboardContent() {
         getDailyChargeSheet(selectedDate),
       ])
         .then(([data, sheet]) => {
+          if (isForbidden(data) || isForbidden(sheet)) {
+            logger.error("Cashier dashboard forbidden");
+            return;
+          }
+
           setLedger(data.ledger);
           setChargeLog(data.chargeLog);
           setDailySheet(sheet);
@@ -89,7 +143,7 @@ function CashierDashboardContent() {
   );
 
   const coinsChargedToday = useMemo(
-    () => chargesForSelectedDate.reduce((acc, entry) => acc + entry.coins, 0),
+    () => chargesForSelectedDate.reduce((acc, entry) => acc + (entry.reversed ? 0 : entry.coins), 0),
     [chargesForSelectedDate],
   );
 
@@ -119,11 +173,10 @@ function CashierDashboardContent() {
   }, [ledger]);
 
   const membershipDistribution = useMemo(() => {
-    const tiers: MembershipTier[] = ['Premium', 'Estándar', 'Empresarial'];
-    return tiers.map((tier) => ({
-      name: tier,
+    return MEMBERSHIP_TIERS.map((tier) => ({
+      name: MEMBERSHIP_TIER_LABELS[tier],
       value: ledger.filter((m) => m.membership === tier).length,
-      color: tier === 'Premium' ? '#8b5cf6' : tier === 'Estándar' ? '#6366f1' : '#3b82f6',
+      color: tier === 'PREMIUM' ? '#8b5cf6' : tier === 'STANDARD' ? '#6366f1' : '#3b82f6',
     }));
   }, [ledger]);
 
@@ -139,7 +192,7 @@ function CashierDashboardContent() {
       if (!searchTerm) return true;
       const normalized = searchTerm.toLowerCase();
       return member.name.toLowerCase().includes(normalized) ||
-             member.membership.toLowerCase().includes(normalized);
+             MEMBERSHIP_TIER_LABELS[member.membership].toLowerCase().includes(normalized);
     });
   }, [ledger, tierFilter, searchTerm]);
 
@@ -155,6 +208,94 @@ function CashierDashboardContent() {
     });
   }, [dailySheet, searchTerm, sheetStatusFilter]);
 
+  const submitCharge = async (memberId: number, coins: number, overrides: ChargeOverrides = {}) => {
+    // A receipt number on the quick charge means a transfer, unless the
+    // account says otherwise
+    const referenceCode = pendingReferences[memberId]?.trim() || null;
+    const paymentAccountId = chargeAccount?.id ?? null;
+    const result = unwrapAction(
+      await registerCharge({
+        clientId: memberId,
+        coins,
+        selectedDate,
+        method: paymentAccountId ? null : referenceCode ? "TRANSFER" : null,
+        paymentAccountId,
+        referenceCode,
+        idempotencyKey: chargeKeys.getKey(memberId, { coins, selectedDate, referenceCode, paymentAccountId }),
+        ...overrides,
+      }),
+    );
+
+    // Over the limit and a repeated receipt: one authorization after the other
+    if (isOverridableRejection(result)) {
+      requestOverride(result, memberId, coins, overrides);
+      return;
+    }
+
+    chargeKeys.release(memberId);
+    setPendingCharges((prev) => ({ ...prev, [memberId]: "" }));
+    setPendingReferences((prev) => ({ ...prev, [memberId]: "" }));
+
+    // A retried submit returns the charge that already went through: it is
+    // already in the totals and the log
+    if (result.replayed) {
+      setRowFeedback((prev) => ({ ...prev, [memberId]: "✓ La carga ya estaba registrada" }));
+      return;
+    }
+
+    setLedger((prev) =>
+      prev.map((item) =>
+        item.id === memberId
+          ? { ...item, coinsThisMonth: item.coinsThisMonth + coins, lastCharge: result.lastChargeDate }
+          : item,
+      ),
+    );
+    setChargeLog((prev) => [result.newChargeLogEntry, ...prev]);
+    const feedback = result.bonus
+      ? `✓ ${coinFormatter.format(coins)} monedas + ${coinFormatter.format(result.bonus.amount)} de bonificación`
+      : `✓ ${coinFormatter.format(coins)} monedas`;
+    setRowFeedback((prev) => ({
+      ...prev,
+      [memberId]: result.inflowAlert ? `${feedback} · ⚠ ${describeInflowCapAlert(result.inflowAlert)}` : feedback,
+    }));
+  };
+
+  // Opens the authorization dialog for a charge rejected on a limit or a
+  // repeated receipt; `overrides` are the ones already given
+  const requestOverride = (
+    rejection: OverridableChargeRejection,
+    memberId: number,
+    coins: number,
+    overrides: ChargeOverrides,
+  ) => {
+    const kind = rejection.code;
+    const member = ledger.find((item) => item.id === memberId);
+    setOverrideTarget({
+      kind,
+      memberId,
+      coins,
+      overrides,
+      message: rejection.message,
+      label: `${member?.name ?? `#${memberId}`} · ${coinFormatter.format(coins)} monedas`,
+    });
+    setRowFeedback((prev) => ({
+      ...prev,
+      [memberId]: kind === "LIMIT_EXCEEDED" ? "Supera el límite: requiere autorización" : "Comprobante repetido: requiere autorización",
+    }));
+  };
+
+  const handleOverrideConfirm = async (override: ChargeOverrideInput) => {
+    if (!overrideTarget) return;
+
+    const { memberId, coins } = overrideTarget;
+    const overrides =
+      overrideTarget.kind === "DUPLICATE_REFERENCE"
+        ? { ...overrideTarget.overrides, referenceOverride: override }
+        : { ...overrideTarget.overrides, limitOverride: override };
+
+    await submitCharge(memberId, coins, overrides);
+  };
+
   const handleChargeSubmit = async (memberId: number) => {
     const rawValue = pendingCharges[memberId];
     const coins = Number(rawValue);
@@ -164,21 +305,31 @@ function CashierDashboardContent() {
       return;
     }
 
+    setChargeSaving((prev) => ({ ...prev, [memberId]: true }));
     try {
-      const result = await registerCharge({ clientId: memberId, coins, selectedDate });
+      await submitCharge(memberId, coins);
+    } catch (error) {
+      logger.error("Error al registrar cargo", error);
+      setRowFeedback((prev) => ({ ...prev, [memberId]: getErrorMessage(error, "Error al registrar") }));
+    } finally {
+      setChargeSaving((prev) => ({ ...prev, [memberId]: false }));
+    }
+  };
+
+  const handleReversed = ({ transactionId }: { transactionId: number }) => {
+    const entry = chargeLog.find((item) => item.id === transactionId.toString());
+
+    setChargeLog((prev) =>
+      prev.map((item) => (item.id === transactionId.toString() ? { ...item, reversed: true } : item)),
+    );
+    if (entry) {
       setLedger((prev) =>
         prev.map((item) =>
-          item.id === memberId
-            ? { ...item, coinsThisMonth: item.coinsThisMonth + coins, lastCharge: result.lastChargeDate }
+          item.id === entry.userId
+            ? { ...item, coinsThisMonth: item.coinsThisMonth - entry.coins }
             : item,
         ),
       );
-      setChargeLog((prev) => [result.newChargeLogEntry, ...prev]);
-      setPendingCharges((prev) => ({ ...prev, [memberId]: "" }));
-      setRowFeedback((prev) => ({ ...prev, [memberId]: `✓ ${coinFormatter.format(coins)} monedas` }));
-    } catch (error) {
-      logger.error("Error al registrar cargo", error);
-      setRowFeedback((prev) => ({ ...prev, [memberId]: "Error al registrar" }));
     }
   };
 
@@ -186,6 +337,10 @@ function CashierDashboardContent() {
     setSheetSaving((prev) => ({ ...prev, [clientId]: true }));
     try {
       const result = await updateDailyChargeCheck({ clientId, hasCharged, selectedDate });
+      if (isForbidden(result)) {
+        setSheetFeedback((prev) => ({ ...prev, [clientId]: result.error }));
+        return;
+      }
       setDailySheet((prev) =>
         prev.map((row) =>
           row.clientId === clientId
@@ -218,6 +373,10 @@ function CashierDashboardContent() {
         />
       </div>
 
+      <ShiftCard />
+
+      <PaymentAccountsCard date={selectedDate} refreshKey={chargeLog} />
+
       <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
         <MetricCard
           title="Monedas hoy"
@@ -296,28 +455,23 @@ function CashierDashboardContent() {
                   >
                     Todos
                   </Button>
-                  <Button
-                    size="sm"
-                    variant={tierFilter === "Premium" ? "default" : "outline"}
-                    onClick={() => setTierFilter("Premium")}
-                  >
-                    Premium
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant={tierFilter === "Estándar" ? "default" : "outline"}
-                    onClick={() => setTierFilter("Estándar")}
-                  >
-                    Estándar
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant={tierFilter === "Empresarial" ? "default" : "outline"}
-                    onClick={() => setTierFilter("Empresarial")}
-                  >
-                    Empresarial
-                  </Button>
+                  {MEMBERSHIP_TIERS.map((tier) => (
+                    <Button
+                      key={tier}
+                      size="sm"
+                      variant={tierFilter === tier ? "default" : "outline"}
+                      onClick={() => setTierFilter(tier)}
+                    >
+                      {MEMBERSHIP_TIER_LABELS[tier]}
+                    </Button>
+                  ))}
                 </div>
+                <PaymentAccountSelect
+                  className="h-9 w-48"
+                  emptyLabel="Cuenta de cobro: ninguna"
+                  value={chargeAccount?.id ?? null}
+                  onChange={setChargeAccount}
+                />
               </div>
             </CardDescription>
           </CardHeader>
@@ -330,15 +484,14 @@ function CashierDashboardContent() {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
                     <span className="font-medium text-sm">{member.name}</span>
-                    <span className={`text-xs px-2 py-0.5 rounded-full ${
-                      member.membership === 'Premium' ? 'bg-purple-100 text-purple-800' :
-                      member.membership === 'Estándar' ? 'bg-blue-100 text-blue-800' :
-                      'bg-indigo-100 text-indigo-800'
-                    }`}>
-                      {member.membership}
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${MEMBERSHIP_TIER_BADGE_CLASSES[member.membership]}`}>
+                      {MEMBERSHIP_TIER_LABELS[member.membership]}
                     </span>
                   </div>
                   <p className="text-xs text-muted-foreground">{coinFormatter.format(member.coinsThisMonth)} este mes</p>
+                  {pendingCharges[member.id] && (
+                    <BonusPreview clientId={member.id} amount={Number(pendingCharges[member.id])} />
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <Input
@@ -348,8 +501,16 @@ function CashierDashboardContent() {
                     onChange={(e) => setPendingCharges((prev) => ({ ...prev, [member.id]: e.target.value }))}
                     className="w-24 h-9 text-sm"
                   />
+                  <Input
+                    placeholder="Comprobante"
+                    title="Nº de operación de la transferencia (opcional)"
+                    value={pendingReferences[member.id] || ""}
+                    onChange={(e) => setPendingReferences((prev) => ({ ...prev, [member.id]: e.target.value }))}
+                    className="w-28 h-9 text-sm"
+                  />
                   <Button
                     size="sm"
+                    disabled={chargeSaving[member.id]}
                     onClick={() => handleChargeSubmit(member.id)}
                   >
                     Cargar
@@ -453,20 +614,57 @@ function CashierDashboardContent() {
                 key={idx}
                 className="flex items-center justify-between rounded-lg border border-border/70 bg-background/80 p-3"
               >
-                <div>
+                <div className={entry.reversed ? "line-through text-muted-foreground" : undefined}>
                   <p className="font-medium text-sm">{entry.userName}</p>
                   <p className="text-xs text-muted-foreground">
                     {new Date(entry.timestamp).toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' })}
                   </p>
                 </div>
-                <div className="text-right">
-                  <p className="font-medium">{coinFormatter.format(entry.coins)} monedas</p>
+                <div className="flex items-center gap-3 text-right">
+                  <p className={`font-medium ${entry.reversed ? "line-through text-muted-foreground" : ""}`}>
+                    {coinFormatter.format(entry.coins)} monedas
+                  </p>
+                  <Button asChild size="sm" variant="ghost">
+                    <Link href={`/receipts/${entry.id}`} target="_blank" title="Comprobante">
+                      <ReceiptText className="size-4" />
+                    </Link>
+                  </Button>
+                  {entry.reversed ? (
+                    <span className="text-xs text-muted-foreground">Revertido</span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        setReversalTarget({
+                          id: Number(entry.id),
+                          amount: entry.coins,
+                          label: `${entry.userName} · ${coinFormatter.format(entry.coins)} monedas`,
+                        })
+                      }
+                    >
+                      <Undo2 className="size-4" />
+                      Revertir
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
           </CardContent>
         </Card>
       )}
+
+      <LimitOverrideDialog
+        request={overrideTarget}
+        onClose={() => setOverrideTarget((current) => (current === overrideTarget ? null : current))}
+        onConfirm={handleOverrideConfirm}
+      />
+
+      <ReverseTransactionDialog
+        transaction={reversalTarget}
+        onClose={() => setReversalTarget(null)}
+        onReversed={handleReversed}
+      />
     </div>
   );
 }
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, Printer } from "lucide-react";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { getShiftReportAction, type ShiftReport } from "@/actions/shifts";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "@/lib/payment-methods";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+const TYPE_LABELS: Record<ShiftReport["transactions"][number]["type"], string> = {
+  CHARGE: "Carga",
+  REDEEM: "Canje",
+  ADJUSTMENT: "Ajuste",
+  BONUS: "Bonificación",
+  REFERRAL: "Premio por referido",
+  EXPIRE: "Vencimiento",
+};
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export default function ShiftReportPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN", "CASHIER"]}>
+      <ShiftReportContent />
+    </AuthGuard>
+  );
+}
+
+function ShiftReportContent() {
+  const params = useParams<{ id: string }>();
+  const shiftId = Number(params.id);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!Number.isInteger(shiftId)) return;
+
+    getShiftReportAction({ shiftId })
+      .then((result) => setReport(unwrapAction(result)))
+      .catch((error) => {
+        logger.error("Error loading shift report", error);
+        setLoadError(getErrorMessage(error, "No se pudo cargar el reporte."));
+      });
+  }, [shiftId]);
+
+  if (!Number.isInteger(shiftId) || loadError) {
+    return <p className="text-sm text-destructive">{loadError ?? "Turno inválido."}</p>;
+  }
+
+  if (!report) {
+    return <p className="text-sm text-muted-foreground">Cargando reporte...</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-semibold tracking-tight">Turno #{report.id}</h1>
+          <p className="text-sm text-muted-foreground">
+            {report.cashierName} · {dateTimeFormatter.format(new Date(report.openedAt))}
+            {" – "}
+            {report.closedAt ? dateTimeFormatter.format(new Date(report.closedAt)) : "abierto"}
+          </p>
+        </div>
+        <div className="flex gap-2 print:hidden">
+          <Button asChild variant="ghost">
+            <Link href="/cashier">
+              <ArrowLeft className="size-4" />
+              Volver
+            </Link>
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="size-4" />
+            Imprimir
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-border/70 bg-background/95 print:border-0 print:shadow-none">
+        <CardHeader>
+          <CardTitle>Arqueo</CardTitle>
+          <CardDescription>
+            Fondo inicial en efectivo: {amountFormatter.format(report.openingFloat)}
+            {report.totalDifference !== null &&
+              ` · Diferencia total: ${amountFormatter.format(report.totalDifference)}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs uppercase text-muted-foreground">
+              <tr>
+                <th className="py-2">Medio de pago</th>
+                <th className="py-2 text-right">Esperado</th>
+                <th className="py-2 text-right">Contado</th>
+                <th className="py-2 text-right">Diferencia</th>
+              </tr>
+            </thead>
+            <tbody>
+              {PAYMENT_METHODS.map((method) => {
+                const count = report.counts.find((row) => row.method === method);
+
+                return (
+                  <tr key={method} className="border-t border-border/60">
+                    <td className="py-2">{PAYMENT_METHOD_LABELS[method]}</td>
+                    <td className="py-2 text-right">{amountFormatter.format(report.expected[method])}</td>
+                    <td className="py-2 text-right">
+                      {count ? amountFormatter.format(count.counted) : "—"}
+                    </td>
+                    <td
+                      className={`py-2 text-right ${count && count.difference < 0 ? "text-destructive" : ""}`}
+                    >
+                      {count ? amountFormatter.format(count.difference) : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {report.closingNote && (
+            <p className="text-sm text-muted-foreground">Observaciones: {report.closingNote}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/70 bg-background/95 print:border-0 print:shadow-none">
+        <CardHeader>
+          <CardTitle>Movimientos</CardTitle>
+          <CardDescription>{report.transactions.length} movimientos registrados en el turno</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs uppercase text-muted-foreground">
+              <tr>
+                <th className="py-2">#</th>
+                <th className="py-2">Fecha</th>
+                <th className="py-2">Cliente</th>
+                <th className="py-2">Tipo</th>
+                <th className="py-2">Medio</th>
+                <th className="py-2 text-right">Monto</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.transactions.map((tx) => (
+                <tr
+                  key={tx.id}
+                  className={`border-t border-border/60 ${tx.reversed ? "line-through text-muted-foreground" : ""}`}
+                >
+                  <td className="py-2">{tx.id}</td>
+                  <td className="py-2">{dateTimeFormatter.format(new Date(tx.createdAt))}</td>
+                  <td className="py-2">@{tx.clientUsername}</td>
+                  <td className="py-2">
+                    {TYPE_LABELS[tx.type]}
+                    {tx.reversesId && ` (revierte #${tx.reversesId})`}
+                  </td>
+                  <td className="py-2">{PAYMENT_METHOD_LABELS[tx.method ?? "CASH"]}</td>
+                  <td className="py-2 text-right">{amountFormatter.format(tx.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
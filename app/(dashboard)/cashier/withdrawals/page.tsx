@@ -0,0 +1,434 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Banknote, CheckCircle2, Hourglass, XCircle } from "lucide-react";
+import type { PaymentMethod, WithdrawalStatus } from "@prisma/client";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { MetricCard } from "@/components/dashboard/metric-card";
+import { PaymentAccountSelect } from "@/components/ledger/payment-account-select";
+import {
+  approveWithdrawalAction,
+  listWithdrawalsAction,
+  payWithdrawalAction,
+  rejectWithdrawalAction,
+  type WithdrawalLiabilities,
+  type WithdrawalRow,
+} from "@/actions/withdrawals";
+import { isForbidden, unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "@/lib/payment-methods";
+import { hasPermission } from "@/lib/permissions";
+import { useNotification } from "@/lib/useNotification";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const PAGE_SIZE = 25;
+
+const STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  PENDING: "Pendiente",
+  APPROVED: "Aprobado",
+  PAID: "Pagado",
+  REJECTED: "Rechazado",
+};
+
+const STATUS_FILTERS: (WithdrawalStatus | "all")[] = ["PENDING", "APPROVED", "PAID", "REJECTED", "all"];
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+type PendingDecision =
+  | { kind: "reject"; withdrawal: WithdrawalRow }
+  | { kind: "pay"; withdrawal: WithdrawalRow };
+
+export default function WithdrawalsPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN", "CASHIER"]}>
+      <WithdrawalsContent />
+    </AuthGuard>
+  );
+}
+
+function WithdrawalsContent() {
+  const notification = useNotification();
+  const role = useAuthStore((state) => state.user?.role);
+  const canReview = !!role && hasPermission(role, "withdrawals:review");
+  const canPay = !!role && hasPermission(role, "withdrawals:pay");
+  const [statusFilter, setStatusFilter] = useState<WithdrawalStatus | "all">("PENDING");
+  const [page, setPage] = useState(1);
+  const [withdrawals, setWithdrawals] = useState<WithdrawalRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [liabilities, setLiabilities] = useState<WithdrawalLiabilities | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+  const [decision, setDecision] = useState<PendingDecision | null>(null);
+
+  const loadWithdrawals = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const data = await listWithdrawalsAction({
+        status: statusFilter === "all" ? null : statusFilter,
+        page,
+        pageSize: PAGE_SIZE,
+      });
+
+      if (isForbidden(data)) {
+        logger.error("Withdrawal queue forbidden", data.error);
+        return;
+      }
+
+      setWithdrawals(data.withdrawals);
+      setTotal(data.total);
+      setLiabilities(data.liabilities);
+    } catch (error) {
+      logger.error("Error loading withdrawals", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, page]);
+
+  useEffect(() => {
+    void loadWithdrawals();
+  }, [loadWithdrawals]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const handleApprove = async (withdrawal: WithdrawalRow) => {
+    setWorkingId(withdrawal.id);
+
+    try {
+      unwrapAction(await approveWithdrawalAction({ withdrawalId: withdrawal.id }));
+      notification.success(`Retiro #${withdrawal.id} aprobado.`);
+    } catch (error) {
+      logger.error("Error approving withdrawal", error);
+      notification.error(getErrorMessage(error, "No se pudo aprobar el retiro."));
+    } finally {
+      setWorkingId(null);
+      void loadWithdrawals();
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-2">
+        <h1 className="text-3xl font-semibold tracking-tight">Retiros</h1>
+        <p className="text-sm text-muted-foreground">
+          Solicitudes de pago de los clientes: aprobación, transferencia y rechazos
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+        <MetricCard
+          title="Pendientes de aprobar"
+          value={amountFormatter.format(liabilities?.PENDING.amount ?? 0)}
+          icon={<Hourglass className="size-5" />}
+          trendValue={`${liabilities?.PENDING.count ?? 0} solicitudes`}
+          trendDirection="neutral"
+        />
+        <MetricCard
+          title="Aprobados sin pagar"
+          value={amountFormatter.format(liabilities?.APPROVED.amount ?? 0)}
+          icon={<CheckCircle2 className="size-5" />}
+          trendValue={`${liabilities?.APPROVED.count ?? 0} solicitudes`}
+          trendDirection="neutral"
+        />
+        <MetricCard
+          title="Pasivo total"
+          value={amountFormatter.format(
+            (liabilities?.PENDING.amount ?? 0) + (liabilities?.APPROVED.amount ?? 0),
+          )}
+          icon={<Banknote className="size-5" />}
+          trendValue="Retenido del saldo de los clientes"
+          trendDirection="neutral"
+        />
+      </div>
+
+      <Card className="border-border/70 bg-background/95">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="size-5 text-primary" />
+            Cola de retiros
+          </CardTitle>
+          <CardDescription>{total} solicitudes con el filtro actual</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map((status) => (
+              <Button
+                key={status}
+                size="sm"
+                variant={statusFilter === status ? "default" : "outline"}
+                onClick={() => {
+                  setStatusFilter(status);
+                  setPage(1);
+                }}
+              >
+                {status === "all" ? "Todos" : STATUS_LABELS[status]}
+              </Button>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border border-border/70">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40 text-left text-xs uppercase text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2">#</th>
+                  <th className="px-3 py-2">Fecha</th>
+                  <th className="px-3 py-2">Cliente</th>
+                  <th className="px-3 py-2 text-right">Monto</th>
+                  <th className="px-3 py-2">Destino</th>
+                  <th className="px-3 py-2">Estado</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {withdrawals.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-muted-foreground">
+                      {isLoading ? "Cargando..." : "No hay solicitudes con este filtro."}
+                    </td>
+                  </tr>
+                ) : (
+                  withdrawals.map((withdrawal) => (
+                    <tr key={withdrawal.id} className="border-t border-border/60 align-top">
+                      <td className="px-3 py-2">{withdrawal.id}</td>
+                      <td className="whitespace-nowrap px-3 py-2">
+                        {dateTimeFormatter.format(new Date(withdrawal.createdAt))}
+                        <p className="text-xs text-muted-foreground">por {withdrawal.requestedByName}</p>
+                      </td>
+                      <td className="px-3 py-2">@{withdrawal.clientUsername}</td>
+                      <td className="px-3 py-2 text-right font-medium">
+                        {amountFormatter.format(withdrawal.amount)}
+                      </td>
+                      <td className="px-3 py-2">
+                        {withdrawal.destination}
+                        {withdrawal.note && (
+                          <p className="text-xs text-muted-foreground">{withdrawal.note}</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {STATUS_LABELS[withdrawal.status]}
+                        <p className="text-xs text-muted-foreground">
+                          {withdrawal.status === "PAID" &&
+                            `${withdrawal.payoutMethod ? PAYMENT_METHOD_LABELS[withdrawal.payoutMethod] : ""}${withdrawal.payoutAccountName ? ` (${withdrawal.payoutAccountName})` : ""} · Op. ${withdrawal.transferReference} · ${withdrawal.paidByName}`}
+                          {withdrawal.status === "REJECTED" && withdrawal.rejectionReason}
+                          {withdrawal.status === "APPROVED" && `por ${withdrawal.reviewedByName}`}
+                        </p>
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex justify-end gap-2">
+                          {canReview && withdrawal.status === "PENDING" && (
+                            <Button
+                              size="sm"
+                              disabled={workingId === withdrawal.id}
+                              onClick={() => handleApprove(withdrawal)}
+                            >
+                              Aprobar
+                            </Button>
+                          )}
+                          {canPay && withdrawal.status === "APPROVED" && (
+                            <Button size="sm" onClick={() => setDecision({ kind: "pay", withdrawal })}>
+                              Registrar pago
+                            </Button>
+                          )}
+                          {canReview && (withdrawal.status === "PENDING" || withdrawal.status === "APPROVED") && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setDecision({ kind: "reject", withdrawal })}
+                            >
+                              <XCircle className="size-4" />
+                              Rechazar
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Página {page} de {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1 || isLoading}
+                onClick={() => setPage((prev) => prev - 1)}
+              >
+                Anterior
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages || isLoading}
+                onClick={() => setPage((prev) => prev + 1)}
+              >
+                Siguiente
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <WithdrawalDecisionDialog
+        decision={decision}
+        onClose={() => setDecision(null)}
+        onDone={() => void loadWithdrawals()}
+      />
+    </div>
+  );
+}
+
+function WithdrawalDecisionDialog({
+  decision,
+  onClose,
+  onDone,
+}: {
+  decision: PendingDecision | null;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const notification = useNotification();
+  const [reason, setReason] = useState("");
+  const [transferReference, setTransferReference] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>("TRANSFER");
+  const [payoutAccountId, setPayoutAccountId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClose = () => {
+    setReason("");
+    setTransferReference("");
+    setMethod("TRANSFER");
+    setPayoutAccountId(null);
+    onClose();
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!decision) return;
+
+    const withdrawalId = decision.withdrawal.id;
+    setIsSaving(true);
+
+    try {
+      if (decision.kind === "reject") {
+        unwrapAction(await rejectWithdrawalAction({ withdrawalId, reason }));
+        notification.success(`Retiro #${withdrawalId} rechazado; el saldo volvió al cliente.`);
+      } else {
+        unwrapAction(await payWithdrawalAction({ withdrawalId, transferReference, method, payoutAccountId }));
+        notification.success(`Retiro #${withdrawalId} marcado como pagado.`);
+      }
+
+      onDone();
+      handleClose();
+    } catch (error) {
+      logger.error("Error updating withdrawal", error);
+      notification.error(getErrorMessage(error, "No se pudo actualizar el retiro."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const withdrawal = decision?.withdrawal;
+
+  return (
+    <Dialog open={!!decision} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {decision?.kind === "reject" ? "Rechazar retiro" : "Registrar pago"} #{withdrawal?.id}
+          </DialogTitle>
+          <DialogDescription>
+            @{withdrawal?.clientUsername} · {amountFormatter.format(withdrawal?.amount ?? 0)} a{" "}
+            {withdrawal?.destination}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {decision?.kind === "reject" ? (
+            <Textarea
+              placeholder="Motivo del rechazo"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              minLength={5}
+              required
+            />
+          ) : (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <select
+                className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+                value={method}
+                onChange={(e) => {
+                  setMethod(e.target.value as PaymentMethod);
+                  setPayoutAccountId(null);
+                }}
+              >
+                {PAYMENT_METHODS.map((option) => (
+                  <option key={option} value={option}>
+                    {PAYMENT_METHOD_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <Input
+                placeholder="N.º de operación"
+                value={transferReference}
+                onChange={(e) => setTransferReference(e.target.value)}
+                required
+              />
+              <PaymentAccountSelect
+                className="h-9 sm:col-span-2"
+                method={method}
+                emptyLabel="Cuenta de origen (opcional)"
+                value={payoutAccountId}
+                onChange={(account) => setPayoutAccountId(account?.id ?? null)}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button
+              type="submit"
+              variant={decision?.kind === "reject" ? "destructive" : "default"}
+              disabled={isSaving}
+            >
+              {isSaving ? "Guardando..." : decision?.kind === "reject" ? "Rechazar" : "Confirmar pago"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
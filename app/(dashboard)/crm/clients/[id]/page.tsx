@@ -0,0 +1,447 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import {
+  ArrowDownCircle,
+  ArrowLeft,
+  ArrowUpCircle,
+  CalendarClock,
+  MessageCircle,
+  Pencil,
+  ReceiptText,
+  Wallet,
+} from "lucide-react";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { MetricCard } from "@/components/dashboard/metric-card";
+import { ClientProfileDialog } from "@/components/crm/client-profile-dialog";
+import {
+  getClientOverviewAction,
+  getClientTimelineAction,
+  type ClientTimelineItem,
+  type ClientTimelineKind,
+} from "@/actions/crm";
+import { unwrapAction } from "@/lib/auth";
+import { isSelfExcluded } from "@/lib/charge-limit-policy";
+import { logger } from "@/lib/logger";
+import { MEMBERSHIP_TIER_BADGE_CLASSES, MEMBERSHIP_TIER_LABELS } from "@/lib/membership-tiers";
+import { hasPermission } from "@/lib/permissions";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ForbiddenResult } from "@/types/auth";
+
+type ClientOverview = Exclude<Awaited<ReturnType<typeof getClientOverviewAction>>, ForbiddenResult>;
+
+type TimelineEntry<K extends ClientTimelineKind> = Extract<ClientTimelineItem, { kind: K }>;
+
+const KIND_LABELS: Record<ClientTimelineKind, string> = {
+  TRANSACTION: "Movimientos",
+  CONTACT: "Contactos",
+  DAILY_CHECK: "Control diario",
+  CHAT: "Chat",
+};
+
+const TIMELINE_KINDS = Object.keys(KIND_LABELS) as ClientTimelineKind[];
+
+const TYPE_LABELS: Record<TimelineEntry<"TRANSACTION">["transaction"]["type"], string> = {
+  CHARGE: "Carga",
+  REDEEM: "Canje",
+  ADJUSTMENT: "Ajuste",
+  BONUS: "Bonificación",
+  REFERRAL: "Premio por referido",
+  EXPIRE: "Vencimiento",
+};
+
+const CHANNEL_LABELS: Record<TimelineEntry<"CONTACT">["contact"]["channel"], string> = {
+  WHATSAPP: "WhatsApp",
+  INSTAGRAM: "Instagram",
+  FACEBOOK: "Facebook",
+  TIKTOK: "TikTok",
+  CALL: "Llamada",
+  EMAIL: "Email",
+  SMS: "SMS",
+  IN_PERSON: "En persona",
+  OTHER: "Otro",
+};
+
+const DIRECTION_LABELS: Record<TimelineEntry<"CONTACT">["contact"]["direction"], string> = {
+  INBOUND: "Entrante",
+  OUTBOUND: "Saliente",
+};
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+const dateFormatter = new Intl.DateTimeFormat("es-AR", { dateStyle: "short" });
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function formatOptionalDate(value: Date | string | null) {
+  return value ? dateTimeFormatter.format(new Date(value)) : "Nunca";
+}
+
+export default function ClientDetailPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN", "AGENT"]}>
+      <ClientDetailContent />
+    </AuthGuard>
+  );
+}
+
+function ClientDetailContent() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const clientId = Number(params.id);
+  const role = useAuthStore((state) => state.user?.role);
+  const canEdit = !!role && hasPermission(role, "clients:update");
+  const [overview, setOverview] = useState<ClientOverview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    if (!Number.isInteger(clientId)) return;
+
+    getClientOverviewAction({ clientId })
+      .then((result) => setOverview(unwrapAction(result)))
+      .catch((error) => {
+        logger.error("Error loading client overview", error);
+        setLoadError(getErrorMessage(error, "No se pudo cargar el cliente."));
+      });
+  }, [clientId]);
+
+  if (!Number.isInteger(clientId) || loadError) {
+    return <p className="text-sm text-destructive">{loadError ?? "Cliente inválido."}</p>;
+  }
+
+  if (!overview) {
+    return <p className="text-sm text-muted-foreground">Cargando cliente...</p>;
+  }
+
+  const { client, metrics } = overview;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-semibold tracking-tight">@{client.username}</h1>
+          {client.fullName && <p className="text-sm text-muted-foreground">{client.fullName}</p>}
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span className={`text-xs px-2 py-0.5 rounded-full ${
+              client.status === "ACTIVE" ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+            }`}>
+              {client.status === "ACTIVE" ? "Activo" : "Inactivo"}
+            </span>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${MEMBERSHIP_TIER_BADGE_CLASSES[client.tier]}`}>
+              {MEMBERSHIP_TIER_LABELS[client.tier]}
+            </span>
+            <span>Cliente desde el {dateFormatter.format(new Date(client.createdAt))}</span>
+          </div>
+        </div>
+        <Button variant="ghost" onClick={() => router.back()}>
+          <ArrowLeft className="size-4" />
+          Volver
+        </Button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+        <MetricCard
+          title="Saldo actual"
+          value={pointsFormatter.format(metrics.currentBalance)}
+          icon={<Wallet className="size-5" />}
+          description="Puntos disponibles"
+        />
+        <MetricCard
+          title="Total cargado"
+          value={pointsFormatter.format(metrics.totalChargedPoints)}
+          icon={<ArrowUpCircle className="size-5" />}
+          description={`Última carga: ${formatOptionalDate(metrics.lastChargeAt)}`}
+        />
+        <MetricCard
+          title="Total canjeado"
+          value={pointsFormatter.format(metrics.totalRedeemedPoints)}
+          icon={<ArrowDownCircle className="size-5" />}
+        />
+        <MetricCard
+          title="Último contacto"
+          value={formatOptionalDate(metrics.lastContactAt)}
+          icon={<MessageCircle className="size-5" />}
+          description={
+            metrics.lastContactChannel && metrics.lastContactDirection
+              ? `${CHANNEL_LABELS[metrics.lastContactChannel]} · ${DIRECTION_LABELS[metrics.lastContactDirection]}`
+              : undefined
+          }
+        />
+      </div>
+
+      <div className="grid gap-6 xl:grid-cols-[20rem_1fr]">
+        <Card className="h-fit border-border/70 bg-background/95">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Perfil</CardTitle>
+            {canEdit && (
+              <Button size="sm" variant="ghost" onClick={() => setIsEditing(true)}>
+                <Pencil className="size-4" />
+                Editar
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <ProfileRow label="Teléfono" value={client.phone ?? "Sin teléfono"} />
+            <ProfileRow label="Email" value={client.email ?? "Sin email"} />
+            <ProfileRow
+              label="Nacimiento"
+              value={client.birthDate ? dateFormatter.format(new Date(client.birthDate)) : "Sin dato"}
+            />
+            <ProfileRow label="DNI / CUIT" value={client.documentId ?? "Sin dato"} />
+            <ProfileRow label="Ciudad" value={client.city ?? "Sin dato"} />
+            <ProfileRow label="Origen" value={client.marketingSource?.name ?? "Sin origen"} />
+            <ProfileRow label="Código de referido" value={client.referralCode} />
+            {client.notes && (
+              <p className="whitespace-pre-wrap rounded-md bg-muted/40 p-2 text-muted-foreground">{client.notes}</p>
+            )}
+            {isSelfExcluded(client.selfExcludedUntil) && (
+              <p className="font-medium text-destructive">
+                Autoexcluido hasta el {dateTimeFormatter.format(new Date(client.selfExcludedUntil!))}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <ClientTimelineCard clientId={client.id} />
+      </div>
+
+      <ClientProfileDialog
+        client={isEditing ? client : null}
+        onClose={() => setIsEditing(false)}
+        onSaved={(updated) =>
+          setOverview((prev) => prev && { ...prev, client: { ...prev.client, ...updated } })
+        }
+      />
+    </div>
+  );
+}
+
+function ProfileRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="truncate font-medium">{value}</span>
+    </div>
+  );
+}
+
+function ClientTimelineCard({ clientId }: { clientId: number }) {
+  const [kinds, setKinds] = useState<ClientTimelineKind[]>(TIMELINE_KINDS);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [items, setItems] = useState<ClientTimelineItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      setIsLoading(true);
+      setLoadError(null);
+
+      try {
+        const page = unwrapAction(
+          await getClientTimelineAction({ clientId, kinds, from: from || null, to: to || null, cursor }),
+        );
+        setItems((prev) => (cursor ? [...prev, ...page.items] : page.items));
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        logger.error("Error loading client timeline", error);
+        setLoadError(getErrorMessage(error, "No se pudo cargar el historial."));
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [clientId, kinds, from, to],
+  );
+
+  // Filters changed: start over from the newest item
+  useEffect(() => {
+    setItems([]);
+    setNextCursor(null);
+    void loadPage(null);
+  }, [loadPage]);
+
+  const toggleKind = (kind: ClientTimelineKind) => {
+    setKinds((prev) => {
+      if (!prev.includes(kind)) return TIMELINE_KINDS.filter((k) => k === kind || prev.includes(k));
+      // at least one kind stays selected
+      return prev.length === 1 ? prev : prev.filter((k) => k !== kind);
+    });
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="size-5 text-primary" />
+          Actividad
+        </CardTitle>
+        <CardDescription>
+          Movimientos, contactos, controles diarios y mensajes de chat, del más reciente al más antiguo.
+        </CardDescription>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          {TIMELINE_KINDS.map((kind) => (
+            <Button
+              key={kind}
+              size="sm"
+              variant={kinds.includes(kind) ? "default" : "outline"}
+              onClick={() => toggleKind(kind)}
+            >
+              {KIND_LABELS[kind]}
+            </Button>
+          ))}
+          <Input
+            type="date"
+            className="h-9 w-auto"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            title="Desde"
+          />
+          <Input
+            type="date"
+            className="h-9 w-auto"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            title="Hasta"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+        {isLoading && items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Cargando actividad...</p>
+        ) : items.length === 0 && !loadError ? (
+          <p className="text-sm text-muted-foreground">Sin actividad para los filtros elegidos.</p>
+        ) : (
+          items.map((item) => <TimelineRow key={item.key} item={item} />)
+        )}
+        {nextCursor && (
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={isLoading}
+            onClick={() => void loadPage(nextCursor)}
+          >
+            {isLoading ? "Cargando..." : "Cargar más"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TimelineRow({ item }: { item: ClientTimelineItem }) {
+  const at = dateTimeFormatter.format(new Date(item.at));
+
+  switch (item.kind) {
+    case "TRANSACTION": {
+      const tx = item.transaction;
+      const isReversed = tx.reversedById !== null;
+
+      return (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2 text-sm">
+          <div className={isReversed ? "line-through text-muted-foreground" : undefined}>
+            <p className="font-medium">
+              #{tx.id} · {TYPE_LABELS[tx.type]}
+              {tx.cashierName && ` · ${tx.cashierName}`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {at}
+              {tx.reversesId
+                ? ` · Revierte #${tx.reversesId}: ${tx.reversalReason ?? ""}`
+                : tx.withdrawalId
+                  ? ` · Retiro #${tx.withdrawalId}`
+                  : tx.description && ` · ${tx.description}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span
+              className={`font-medium ${isReversed ? "line-through text-muted-foreground" : tx.amount < 0 ? "text-destructive" : ""}`}
+            >
+              {tx.amount > 0 ? "+" : ""}
+              {pointsFormatter.format(tx.amount)}
+            </span>
+            <Button asChild size="sm" variant="ghost">
+              <Link href={`/receipts/${tx.id}`} target="_blank" title="Comprobante">
+                <ReceiptText className="size-4" />
+              </Link>
+            </Button>
+          </div>
+        </div>
+      );
+    }
+    case "CONTACT": {
+      const contact = item.contact;
+
+      return (
+        <div className="rounded-md border border-border/60 px-3 py-2 text-sm">
+          <p className="font-medium">
+            Contacto {DIRECTION_LABELS[contact.direction].toLowerCase()} · {CHANNEL_LABELS[contact.channel]}
+            {contact.viaAd && ` · Anuncio${contact.campaign ? ` (${contact.campaign})` : ""}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {at}
+            {contact.handledByName && ` · ${contact.handledByName}`}
+          </p>
+          {contact.message && <p className="mt-1 whitespace-pre-wrap">{contact.message}</p>}
+        </div>
+      );
+    }
+    case "DAILY_CHECK": {
+      const check = item.check;
+
+      return (
+        <div className="rounded-md border border-dashed border-border/60 px-3 py-2 text-sm">
+          <p className="font-medium">
+            Control del {dateFormatter.format(new Date(check.date))}:{" "}
+            {check.hasCharged ? "cargó" : "no cargó"}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {at}
+            {check.checkedByName && ` · ${check.checkedByName}`}
+          </p>
+        </div>
+      );
+    }
+    case "CHAT": {
+      const message = item.message;
+      const fromClient = message.senderType === "CLIENT";
+
+      return (
+        <div
+          className={`rounded-md px-3 py-2 text-sm ${fromClient ? "mr-12 bg-muted/60" : "ml-12 bg-primary/10"}`}
+        >
+          <p className="text-xs text-muted-foreground">
+            {fromClient ? "Cliente" : message.operatorName ?? "Operador"} · {at}
+          </p>
+          <p className="whitespace-pre-wrap">
+            {message.messageType === "IMAGE" ? `Imagen${message.imageName ? `: ${message.imageName}` : ""}` : message.text}
+          </p>
+        </div>
+      );
+    }
+  }
+}
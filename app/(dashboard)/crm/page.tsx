@@ -9,15 +9,30 @@ import {
   Users,
   Wallet,
   Search,
+  UserRound,
 } from "lucide-react";
 import Link from "next/link";
 import { useNotification } from "@/lib/useNotification";
 import { logger } from "@/lib/logger";
+import { isForbidden, unwrapAction } from "@/lib/auth";
+import type { ChargeOverrideInput } from "@/lib/charge-overrides";
+import { describeInflowCapAlert } from "@/lib/payment-methods";
+import { useIdempotencyKeys } from "@/lib/useIdempotencyKey";
+import { MEMBERSHIP_TIER_BADGE_CLASSES, MEMBERSHIP_TIER_LABELS } from "@/lib/membership-tiers";
 
+import { AuthGuard } from "@/components/auth/AuthGuard";
 import { MetricCard } from "@/components/dashboard/metric-card";
 import { ChartCard } from "@/components/dashboard/chart-card";
 import { BarComparisonChart } from "@/components/dashboard/bar-comparison-chart";
 import { DonutChart } from "@/components/dashboard/donut-chart";
+import { ClientTransactionsDialog } from "@/components/ledger/client-transactions-dialog";
+import { PaymentAccountSelect } from "@/components/ledger/payment-account-select";
+import {
+  isOverridableRejection,
+  LimitOverrideDialog,
+  type LimitOverrideRequest,
+  type OverridableChargeRejection,
+} from "@/components/ledger/limit-override-dialog";
 import {
   Card,
   CardContent,
@@ -47,6 +62,7 @@ import {
   logContactAction,
   registerPointChargeAction,
 } from "@/actions/crm";
+import type { ForbiddenResult } from "@/types/auth";
 
 const pesoFormatter = new Intl.NumberFormat("es-AR", {
   style: "currency",
@@ -55,14 +71,40 @@ const pesoFormatter = new Intl.NumberFormat("es-AR", {
 });
 
 export default function CrmWorkspacePage() {
-  return <CrmWorkspaceContent />;
+  return (
+    <AuthGuard allowedRoles={["ADMIN", "AGENT"]}>
+      <CrmWorkspaceContent />
+    </AuthGuard>
+  );
 }
 
-type ClientRecord = Awaited<ReturnType<typeof listClientsAction>>["clients"][number];
+type ClientRecord = Exclude<
+  Awaited<ReturnType<typeof listClientsAction>>,
+  ForbiddenResult
+>["clients"][number];
 
 type NewClientForm = {
   username: string;
   phone: string;
+  fullName: string;
+  email: string;
+  birthDate: string;
+  documentId: string;
+  city: string;
+  notes: string;
+  referredByCode: string;
+};
+
+const EMPTY_CLIENT_FORM: NewClientForm = {
+  username: "",
+  phone: "",
+  fullName: "",
+  email: "",
+  birthDate: "",
+  documentId: "",
+  city: "",
+  notes: "",
+  referredByCode: "",
 };
 
 type ContactFormState = {
@@ -77,16 +119,20 @@ type ChargeFormState = {
   clientId: string;
   amount: string;
   method: PaymentMethod;
+  paymentAccountId: number | null;
+  referenceCode: string;
   description: string;
 };
 
+type ChargeOverrides = {
+  limitOverride?: ChargeOverrideInput;
+  referenceOverride?: ChargeOverrideInput;
+};
+
 function CrmWorkspaceContent() {
   const [clients, setClients] = useState<ClientRecord[]>([]);
   const [, startTransition] = useTransition();
-  const [newClient, setNewClient] = useState<NewClientForm>({
-    username: "",
-    phone: "",
-  });
+  const [newClient, setNewClient] = useState<NewClientForm>(EMPTY_CLIENT_FORM);
   const [contactForm, setContactForm] = useState<ContactFormState>({
     clientId: "",
     channel: ContactChannel.WHATSAPP,
@@ -98,6 +144,8 @@ function CrmWorkspaceContent() {
     clientId: "",
     amount: "",
     method: PaymentMethod.CASH,
+    paymentAccountId: null,
+    referenceCode: "",
     description: "",
   });
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -108,6 +156,11 @@ function CrmWorkspaceContent() {
   const [isCreatingClient, setIsCreatingClient] = useState(false);
   const [isLoggingContact, setIsLoggingContact] = useState(false);
   const [isRegisteringCharge, setIsRegisteringCharge] = useState(false);
+  const chargeKeys = useIdempotencyKeys();
+  const [historyClient, setHistoryClient] = useState<ClientRecord | null>(null);
+  const [overrideRequest, setOverrideRequest] = useState<
+    (LimitOverrideRequest & { overrides: ChargeOverrides }) | null
+  >(null);
 
   const notification = useNotification();
 
@@ -115,6 +168,11 @@ function CrmWorkspaceContent() {
     startTransition(() => {
       listClientsAction({ page: 1, pageSize: 50 })
         .then((data) => {
+          if (isForbidden(data)) {
+            notification.error(data.error);
+            return;
+          }
+
           setClients(data.clients);
         })
         .catch((err) => {
@@ -162,7 +220,10 @@ function CrmWorkspaceContent() {
     return clients.filter(
       (client) =>
         client.username.toLowerCase().includes(query) ||
-        (client.phone && client.phone.includes(query))
+        (client.phone && client.phone.includes(query)) ||
+        (client.fullName && client.fullName.toLowerCase().includes(query)) ||
+        (client.email && client.email.toLowerCase().includes(query)) ||
+        (client.documentId && client.documentId.includes(query))
     );
   }, [clients, searchQuery]);
 
@@ -179,28 +240,58 @@ function CrmWorkspaceContent() {
       id: Date.now(),
       username: newClient.username.trim(),
       phone: newClient.phone.trim() || null,
+      fullName: newClient.fullName.trim() || null,
+      email: newClient.email.trim() || null,
+      birthDate: newClient.birthDate ? new Date(`${newClient.birthDate}T00:00:00`) : null,
+      documentId: newClient.documentId.trim() || null,
+      city: newClient.city.trim() || null,
+      notes: newClient.notes.trim() || null,
       status: "ACTIVE",
       pointsBalance: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
       marketingSourceId: null,
+      referralCode: "",
+      referredById: null,
+      referralRewardedAt: null,
+      dailyChargeLimit: null,
+      weeklyChargeLimit: null,
+      monthlyChargeLimit: null,
+      selfExcludedUntil: null,
+      selfExclusionReason: null,
+      tier: "STANDARD",
+      tierUpdatedAt: null,
     };
+    const referredByCode = newClient.referredByCode.trim();
+    const birthDate = newClient.birthDate;
 
     setClients((prev) => [tempClient, ...prev]);
-    setNewClient({ username: "", phone: "" });
+    setNewClient(EMPTY_CLIENT_FORM);
 
     try {
       const client = await createClientAction({
         username: tempClient.username,
         phone: tempClient.phone || undefined,
+        fullName: tempClient.fullName,
+        email: tempClient.email,
+        birthDate: birthDate || null,
+        documentId: tempClient.documentId,
+        city: tempClient.city,
+        notes: tempClient.notes,
+        referredByCode: referredByCode || undefined,
       });
+      if (isForbidden(client)) {
+        setClients((prev) => prev.filter((c) => c.id !== tempClient.id));
+        notification.error(client.error);
+        return;
+      }
       setClients((prev) => prev.map((c) => (c.id === tempClient.id ? client : c)));
       notification.success(`Cliente ${client.username} creado.`);
       setIsClientDialogOpen(false);
     } catch (err) {
       logger.error("Error creating client", err);
       setClients((prev) => prev.filter((c) => c.id !== tempClient.id));
-      notification.error("Error al crear el cliente.");
+      notification.error(err instanceof Error && err.message ? err.message : "Error al crear el cliente.");
     } finally {
       setIsCreatingClient(false);
     }
@@ -216,13 +307,17 @@ function CrmWorkspaceContent() {
 
     setIsLoggingContact(true);
     try {
-      await logContactAction({
+      const result = await logContactAction({
         clientId: Number(contactForm.clientId),
         channel: contactForm.channel,
         direction: contactForm.direction,
         viaAd: contactForm.viaAd,
         message: contactForm.message.trim(),
       });
+      if (isForbidden(result)) {
+        notification.error(result.error);
+        return;
+      }
       notification.success("Contacto registrado correctamente.");
       setContactForm({
         clientId: "",
@@ -240,6 +335,78 @@ function CrmWorkspaceContent() {
     }
   };
 
+  const submitCharge = async (overrides: ChargeOverrides = {}) => {
+    const input = {
+      clientId: Number(chargeForm.clientId),
+      amount: parseFloat(chargeForm.amount),
+      method: chargeForm.method,
+      paymentAccountId: chargeForm.paymentAccountId,
+      referenceCode: chargeForm.referenceCode.trim() || undefined,
+      description: chargeForm.description.trim() || undefined,
+    };
+    const result = unwrapAction(
+      await registerPointChargeAction({
+        ...input,
+        idempotencyKey: chargeKeys.getKey("charge", input),
+        ...overrides,
+      }),
+    );
+
+    // Over the limit and a repeated receipt: one authorization after the other
+    if (isOverridableRejection(result)) {
+      requestOverride(result, overrides);
+      return;
+    }
+
+    chargeKeys.release("charge");
+
+    setClients((prev) =>
+      prev.map((c) =>
+        c.id === input.clientId
+          ? { ...c, pointsBalance: result.client.pointsBalance }
+          : c
+      )
+    );
+    notification.success(
+      result.replayed
+        ? `El cargo de ${pesoFormatter.format(input.amount)} ya estaba registrado.`
+        : `Cargo de ${pesoFormatter.format(input.amount)} registrado.`,
+    );
+    if (result.inflowAlert) notification.warning(describeInflowCapAlert(result.inflowAlert));
+    setChargeForm({
+      clientId: "",
+      amount: "",
+      method: PaymentMethod.CASH,
+      paymentAccountId: null,
+      referenceCode: "",
+      description: "",
+    });
+    setIsChargeDialogOpen(false);
+  };
+
+  // Opens the authorization dialog for a charge rejected on a limit or a
+  // repeated receipt; `overrides` are the ones already given
+  const requestOverride = (rejection: OverridableChargeRejection, overrides: ChargeOverrides) => {
+    const client = clients.find((c) => c.id === Number(chargeForm.clientId));
+    setOverrideRequest({
+      kind: rejection.code,
+      message: rejection.message,
+      label: `@${client?.username ?? chargeForm.clientId} · ${pesoFormatter.format(parseFloat(chargeForm.amount))}`,
+      overrides,
+    });
+  };
+
+  const handleOverrideConfirm = async (override: ChargeOverrideInput) => {
+    if (!overrideRequest) return;
+
+    const overrides =
+      overrideRequest.kind === "DUPLICATE_REFERENCE"
+        ? { ...overrideRequest.overrides, referenceOverride: override }
+        : { ...overrideRequest.overrides, limitOverride: override };
+
+    await submitCharge(overrides);
+  };
+
   const handleRegisterCharge = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const amount = parseFloat(chargeForm.amount);
@@ -251,31 +418,10 @@ function CrmWorkspaceContent() {
 
     setIsRegisteringCharge(true);
     try {
-      const result = await registerPointChargeAction({
-        clientId: Number(chargeForm.clientId),
-        amount,
-        method: chargeForm.method,
-        description: chargeForm.description.trim() || undefined,
-      });
-
-      setClients((prev) =>
-        prev.map((c) =>
-          c.id === Number(chargeForm.clientId)
-            ? { ...c, pointsBalance: result.client.pointsBalance }
-            : c
-        )
-      );
-      notification.success(`Cargo de ${pesoFormatter.format(amount)} registrado.`);
-      setChargeForm({
-        clientId: "",
-        amount: "",
-        method: PaymentMethod.CASH,
-        description: "",
-      });
-      setIsChargeDialogOpen(false);
+      await submitCharge();
     } catch (err) {
       logger.error("Error registering charge", err);
-      notification.error("Error al registrar el cargo.");
+      notification.error(err instanceof Error && err.message ? err.message : "Error al registrar el cargo.");
     } finally {
       setIsRegisteringCharge(false);
     }
@@ -346,7 +492,7 @@ function CrmWorkspaceContent() {
             <div className="flex items-center gap-2 mt-2">
               <Search className="size-4" />
               <Input
-                placeholder="Buscar por usuario o teléfono..."
+                placeholder="Buscar por usuario, nombre, teléfono, email o documento..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="h-9 max-w-sm"
@@ -356,25 +502,42 @@ function CrmWorkspaceContent() {
         </CardHeader>
         <CardContent className="space-y-2 max-h-[500px] overflow-y-auto">
           {filteredClients.slice(0, 20).map((client) => (
-            <div
-              key={client.id}
-              className="flex items-center justify-between rounded-lg border border-border/70 bg-background/80 p-3 transition-all hover:border-border/90"
-            >
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2">
-                  <span className="font-medium text-sm">@{client.username}</span>
-                  <span className={`text-xs px-2 py-0.5 rounded-full ${
-                    client.status === 'ACTIVE' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                  }`}>
-                    {client.status === 'ACTIVE' ? 'Activo' : 'Inactivo'}
-                  </span>
+            <div key={client.id} className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setHistoryClient(client)}
+                className="flex w-full items-center justify-between rounded-lg border border-border/70 bg-background/80 p-3 text-left transition-all hover:border-border/90"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">@{client.username}</span>
+                    {client.fullName && (
+                      <span className="truncate text-xs text-muted-foreground">{client.fullName}</span>
+                    )}
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${
+                      client.status === 'ACTIVE' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {client.status === 'ACTIVE' ? 'Activo' : 'Inactivo'}
+                    </span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${MEMBERSHIP_TIER_BADGE_CLASSES[client.tier]}`}>
+                      {MEMBERSHIP_TIER_LABELS[client.tier]}
+                    </span>
+                  </div>
+                  {client.phone && <p className="text-xs text-muted-foreground">{client.phone}</p>}
+                  {client.referralCode && (
+                    <p className="text-xs text-muted-foreground">Código de referido: {client.referralCode}</p>
+                  )}
                 </div>
-                {client.phone && <p className="text-xs text-muted-foreground">{client.phone}</p>}
-              </div>
-              <div className="text-right">
-                <div className="font-medium text-sm">{pesoFormatter.format(client.pointsBalance)}</div>
-                <div className="text-xs text-muted-foreground">Puntos</div>
-              </div>
+                <div className="text-right">
+                  <div className="font-medium text-sm">{pesoFormatter.format(client.pointsBalance)}</div>
+                  <div className="text-xs text-muted-foreground">Puntos</div>
+                </div>
+              </button>
+              <Button asChild size="sm" variant="ghost" title="Ver ficha">
+                <Link href={`/crm/clients/${client.id}`}>
+                  <UserRound className="size-4" />
+                </Link>
+              </Button>
             </div>
           ))}
         </CardContent>
@@ -432,8 +595,18 @@ function CrmWorkspaceContent() {
         </Button>
       </div>
 
+      <ClientTransactionsDialog
+        client={historyClient}
+        onClose={() => setHistoryClient(null)}
+        onBalanceChange={(clientId, pointsBalance) =>
+          setClients((prev) =>
+            prev.map((c) => (c.id === clientId ? { ...c, pointsBalance } : c))
+          )
+        }
+      />
+
       <Dialog open={isClientDialogOpen} onOpenChange={setIsClientDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] w-full max-w-xl overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Crear nuevo cliente</DialogTitle>
             <DialogDescription>Registra un nuevo cliente en el CRM</DialogDescription>
@@ -456,6 +629,61 @@ function CrmWorkspaceContent() {
                 onChange={(e) => setNewClient((prev) => ({ ...prev, phone: e.target.value }))}
               />
             </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Nombre completo (opcional)</label>
+                <Input
+                  value={newClient.fullName}
+                  onChange={(e) => setNewClient((prev) => ({ ...prev, fullName: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Email (opcional)</label>
+                <Input
+                  type="email"
+                  value={newClient.email}
+                  onChange={(e) => setNewClient((prev) => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Fecha de nacimiento (opcional)</label>
+                <Input
+                  type="date"
+                  value={newClient.birthDate}
+                  onChange={(e) => setNewClient((prev) => ({ ...prev, birthDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">DNI / CUIT (opcional)</label>
+                <Input
+                  value={newClient.documentId}
+                  onChange={(e) => setNewClient((prev) => ({ ...prev, documentId: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Ciudad (opcional)</label>
+              <Input
+                value={newClient.city}
+                onChange={(e) => setNewClient((prev) => ({ ...prev, city: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Notas (opcional)</label>
+              <Textarea
+                placeholder="Preferencias, horarios, cómo prefiere que lo contacten..."
+                value={newClient.notes}
+                onChange={(e) => setNewClient((prev) => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Código de referido (opcional)</label>
+              <Input
+                placeholder="Código del cliente que lo recomendó"
+                value={newClient.referredByCode}
+                onChange={(e) => setNewClient((prev) => ({ ...prev, referredByCode: e.target.value }))}
+              />
+            </div>
             <DialogFooter>
               <Button type="button" variant="ghost" onClick={() => setIsClientDialogOpen(false)}>
                 Cancelar
@@ -542,7 +770,7 @@ function CrmWorkspaceContent() {
         </DialogContent>
       </Dialog>
 
-      <Dialog open={isChargeDialogOpen} onOpenChange={setIsChargeDialogOpen}>
+      <Dialog open={isChargeDialogOpen && !overrideRequest} onOpenChange={setIsChargeDialogOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Acreditar puntos</DialogTitle>
@@ -582,7 +810,11 @@ function CrmWorkspaceContent() {
                   className="h-10 w-full rounded-md border border-border bg-background px-3 text-sm"
                   value={chargeForm.method}
                   onChange={(e) =>
-                    setChargeForm((prev) => ({ ...prev, method: e.target.value as PaymentMethod }))
+                    setChargeForm((prev) => ({
+                      ...prev,
+                      method: e.target.value as PaymentMethod,
+                      paymentAccountId: null,
+                    }))
                   }
                 >
                   <option value="CASH">Efectivo</option>
@@ -591,6 +823,22 @@ function CrmWorkspaceContent() {
                 </select>
               </div>
             </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Cuenta de cobro (opcional)</label>
+              <PaymentAccountSelect
+                method={chargeForm.method}
+                value={chargeForm.paymentAccountId}
+                onChange={(account) => setChargeForm((prev) => ({ ...prev, paymentAccountId: account?.id ?? null }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Referencia (opcional)</label>
+              <Input
+                placeholder="Nº de operación o comprobante"
+                value={chargeForm.referenceCode}
+                onChange={(e) => setChargeForm((prev) => ({ ...prev, referenceCode: e.target.value }))}
+              />
+            </div>
             <div className="space-y-2">
               <label className="text-sm font-medium">Descripción (opcional)</label>
               <Input
@@ -610,6 +858,12 @@ function CrmWorkspaceContent() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <LimitOverrideDialog
+        request={overrideRequest}
+        onClose={() => setOverrideRequest((current) => (current === overrideRequest ? null : current))}
+        onConfirm={handleOverrideConfirm}
+      />
     </div>
   );
 }
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, FileDown, Printer } from "lucide-react";
+
+import { AuthGuard } from "@/components/auth/AuthGuard";
+import { getReceiptAction } from "@/actions/receipts";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import type { Receipt } from "@/lib/receipts";
+import {
+  getReceiptLines,
+  RECEIPT_FOOTER,
+  RECEIPT_ISSUER,
+  RECEIPT_TITLES,
+} from "@/lib/receipt-format";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export default function ReceiptPage() {
+  return (
+    <AuthGuard allowedRoles={["ADMIN", "AGENT", "CASHIER"]}>
+      <ReceiptContent />
+    </AuthGuard>
+  );
+}
+
+function ReceiptContent() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const transactionId = Number(params.id);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!Number.isInteger(transactionId)) return;
+
+    getReceiptAction({ transactionId })
+      .then((result) => setReceipt(unwrapAction(result)))
+      .catch((error) => {
+        logger.error("Error loading receipt", error);
+        setLoadError(getErrorMessage(error, "No se pudo cargar el comprobante."));
+      });
+  }, [transactionId]);
+
+  if (!Number.isInteger(transactionId) || loadError) {
+    return <p className="text-sm text-destructive">{loadError ?? "Comprobante inválido."}</p>;
+  }
+
+  if (!receipt) {
+    return <p className="text-sm text-muted-foreground">Cargando comprobante...</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 print:hidden">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-semibold tracking-tight">Comprobante #{receipt.transactionId}</h1>
+          <p className="text-sm text-muted-foreground">@{receipt.clientUsername}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" onClick={() => router.back()}>
+            <ArrowLeft className="size-4" />
+            Volver
+          </Button>
+          <Button asChild variant="outline">
+            <a href={`/api/receipts/${receipt.transactionId}/pdf?download=1`}>
+              <FileDown className="size-4" />
+              Descargar PDF
+            </a>
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="size-4" />
+            Imprimir
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mx-auto max-w-md border-border/70 bg-background/95 print:border-0 print:shadow-none">
+        <CardHeader>
+          <CardTitle className="text-primary">{RECEIPT_ISSUER}</CardTitle>
+          <CardDescription>{RECEIPT_TITLES[receipt.type]}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <dl className="space-y-2 text-sm">
+            {getReceiptLines(receipt).map((line) => (
+              <div key={line.label} className="flex justify-between gap-4 border-t border-border/60 pt-2">
+                <dt className="text-muted-foreground">{line.label}</dt>
+                <dd className="text-right font-medium">{line.value}</dd>
+              </div>
+            ))}
+          </dl>
+          {receipt.description && (
+            <p className="text-sm text-muted-foreground">{receipt.description}</p>
+          )}
+          <p className="text-xs text-muted-foreground">{RECEIPT_FOOTER}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
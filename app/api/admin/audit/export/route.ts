@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/session";
+import { hasPermission } from "@/lib/permissions";
+import { auditEventsToCsv, buildAuditWhere } from "@/lib/audit";
+import { logger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+// Tope de filas por exportación; para más, acotar por fechas.
+const MAX_EXPORT_ROWS = 10000;
+
+export async function GET(request: Request) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado." }, { status: 401 });
+  }
+
+  if (!hasPermission(user.role, "audit:read")) {
+    return NextResponse.json({ error: "No autorizado." }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const events = await prisma.auditEvent.findMany({
+      where: buildAuditWhere({
+        action: searchParams.get("action"),
+        entityType: searchParams.get("entityType"),
+        entityId: searchParams.get("entityId"),
+        actor: searchParams.get("actor"),
+        from: searchParams.get("from"),
+        to: searchParams.get("to"),
+      }),
+      orderBy: { createdAt: "desc" },
+      take: MAX_EXPORT_ROWS,
+    });
+
+    const fileName = `auditoria-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(auditEventsToCsv(events), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Audit export error", error);
+    return NextResponse.json(
+      { error: "No se pudo generar la exportación." },
+      { status: 500 },
+    );
+  }
+}
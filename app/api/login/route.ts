@@ -2,8 +2,31 @@ import { NextResponse } from "next/server";
 
 import { prisma } from "@/lib/prisma";
 import { verifyPassword } from "@/lib/password";
-import type { AuthRole, AuthUser, LoginResponse } from "@/types/auth";
+import { createSession, toAuthUser } from "@/lib/session";
+import type { LoginResponse } from "@/types/auth";
 import { logger } from "@/lib/logger";
+import { getRequestMetadata } from "@/lib/request-context";
+import {
+  isIpThrottled,
+  isUserLocked,
+  recordLoginAttempt,
+  registerFailedLogin,
+  registerLockedLogin,
+  registerSuccessfulLogin,
+} from "@/lib/login-security";
+import {
+  createLoginChallenge,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  startTwoFactorEnrollment,
+} from "@/lib/two-factor";
+
+// Unknown, inactive and locked accounts get the same answer as a wrong
+// password, so the form can't be used to find out which usernames exist
+const INVALID_CREDENTIALS: LoginResponse = {
+  success: false,
+  error: "Usuario o contraseña incorrectos.",
+};
 
 export async function POST(request: Request) {
   let payload: unknown;
@@ -52,42 +75,71 @@ export async function POST(request: Request) {
   }
 
   try {
-    const dbUser = await prisma.user.findUnique({
-      where: { username },
-    });
+    const metadata = await getRequestMetadata();
 
-    if (!dbUser || !dbUser.isActive) {
+    if (await isIpThrottled(metadata.ipAddress)) {
+      await recordLoginAttempt({ username, success: false, metadata });
       return NextResponse.json<LoginResponse>(
         {
           success: false,
-          error: "No encontramos un usuario activo con esas credenciales.",
+          error:
+            "Demasiados intentos fallidos desde esta conexión. Esperá unos minutos.",
         },
-        { status: 401 },
+        { status: 429 },
       );
     }
 
+    const dbUser = await prisma.user.findUnique({
+      where: { username },
+    });
+
+    if (dbUser && isUserLocked(dbUser)) {
+      await registerLockedLogin({ username, user: dbUser, metadata });
+      return NextResponse.json<LoginResponse>(INVALID_CREDENTIALS, {
+        status: 401,
+      });
+    }
+
+    if (!dbUser || !dbUser.isActive) {
+      await registerFailedLogin({ username, user: null, metadata });
+      return NextResponse.json<LoginResponse>(INVALID_CREDENTIALS, {
+        status: 401,
+      });
+    }
+
     const isValidPassword = await verifyPassword(password, dbUser.passwordHash);
 
     if (!isValidPassword) {
-      return NextResponse.json<LoginResponse>(
-        {
-          success: false,
-          error: "Usuario o contraseña incorrectos.",
-        },
-        { status: 401 },
-      );
+      await registerFailedLogin({ username, user: dbUser, metadata });
+      return NextResponse.json<LoginResponse>(INVALID_CREDENTIALS, {
+        status: 401,
+      });
+    }
+
+    // Password OK: users with 2FA (or whose role requires it) still need a code
+    if (isTwoFactorEnabled(dbUser)) {
+      return NextResponse.json<LoginResponse>({
+        success: false,
+        twoFactorStep: "verify",
+        challenge: createLoginChallenge(dbUser.id),
+      });
+    }
+
+    if (await isTwoFactorRequired(dbUser.role)) {
+      return NextResponse.json<LoginResponse>({
+        success: false,
+        twoFactorStep: "enroll",
+        challenge: createLoginChallenge(dbUser.id),
+        enrollment: await startTwoFactorEnrollment(dbUser),
+      });
     }
 
-    const user: AuthUser = {
-      id: dbUser.id,
-      name: dbUser.name,
-      username: dbUser.username,
-      role: dbUser.role as AuthRole,
-    };
+    await registerSuccessfulLogin({ username, userId: dbUser.id, metadata });
+    await createSession(dbUser.id);
 
     return NextResponse.json<LoginResponse>({
       success: true,
-      user,
+      user: toAuthUser(dbUser),
     });
   } catch (error) {
     logger.error("Login error", error);
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+import { createSession, toAuthUser } from "@/lib/session";
+import type { LoginResponse } from "@/types/auth";
+import { logger } from "@/lib/logger";
+import { getRequestMetadata } from "@/lib/request-context";
+import {
+  formatLockRemaining,
+  isUserLocked,
+  registerFailedLogin,
+  registerSuccessfulLogin,
+} from "@/lib/login-security";
+import {
+  enableTwoFactor,
+  readLoginChallenge,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+
+/**
+ * Second login step: exchanges the challenge issued by POST /api/login plus a
+ * TOTP (or backup) code for a session. Also completes a forced enrolment.
+ */
+export async function POST(request: Request) {
+  let payload: unknown;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json<LoginResponse>(
+      {
+        success: false,
+        error: "No se pudo procesar la solicitud. Intentá de nuevo.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const { challenge: rawChallenge, code: rawCode } =
+    typeof payload === "object" && payload !== null
+      ? (payload as Record<string, unknown>)
+      : {};
+  const challenge = typeof rawChallenge === "string" ? rawChallenge : "";
+  const code = typeof rawCode === "string" ? rawCode.trim() : "";
+
+  if (!challenge || !code) {
+    return NextResponse.json<LoginResponse>(
+      {
+        success: false,
+        error: "Ingresá el código de verificación.",
+      },
+      { status: 400 },
+    );
+  }
+
+  const userId = readLoginChallenge(challenge);
+
+  if (!userId) {
+    return NextResponse.json<LoginResponse>(
+      {
+        success: false,
+        error: "La verificación expiró. Volvé a ingresar tu contraseña.",
+      },
+      { status: 401 },
+    );
+  }
+
+  try {
+    const metadata = await getRequestMetadata();
+    const dbUser = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!dbUser || !dbUser.isActive) {
+      return NextResponse.json<LoginResponse>(
+        {
+          success: false,
+          error: "No encontramos un usuario activo con esas credenciales.",
+        },
+        { status: 401 },
+      );
+    }
+
+    if (isUserLocked(dbUser)) {
+      return NextResponse.json<LoginResponse>(
+        {
+          success: false,
+          error: `La cuenta está bloqueada por intentos fallidos. Intentá de nuevo en ${formatLockRemaining(dbUser.lockedUntil!)}.`,
+        },
+        { status: 423 },
+      );
+    }
+
+    const isValidCode = await verifySecondFactor(dbUser, code);
+
+    if (!isValidCode) {
+      await registerFailedLogin({
+        username: dbUser.username,
+        user: dbUser,
+        metadata,
+      });
+      return NextResponse.json<LoginResponse>(
+        {
+          success: false,
+          error: "El código de verificación no es válido.",
+        },
+        { status: 401 },
+      );
+    }
+
+    const backupCodes = dbUser.totpEnabledAt
+      ? undefined
+      : await enableTwoFactor(dbUser.id);
+
+    await registerSuccessfulLogin({
+      username: dbUser.username,
+      userId: dbUser.id,
+      metadata,
+    });
+    await createSession(dbUser.id);
+
+    return NextResponse.json<LoginResponse>({
+      success: true,
+      user: toAuthUser(dbUser),
+      backupCodes,
+    });
+  } catch (error) {
+    logger.error("Two-factor login error", error);
+    return NextResponse.json<LoginResponse>(
+      {
+        success: false,
+        error: "Ocurrió un error al iniciar sesión. Intentá de nuevo.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { revokeCurrentSession } from "@/lib/session";
+import { logger } from "@/lib/logger";
+
+export async function POST() {
+  try {
+    await revokeCurrentSession();
+  } catch (error) {
+    logger.error("Logout error", error);
+    return NextResponse.json(
+      { success: false, error: "No se pudo cerrar la sesión." },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "@/lib/session";
+import { hasPermission } from "@/lib/permissions";
+import { getReceipt } from "@/lib/receipts";
+import { getReceiptFileName } from "@/lib/receipt-format";
+import { renderReceiptPdf } from "@/lib/receipt-pdf";
+import { logger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "No autenticado." }, { status: 401 });
+  }
+
+  if (!hasPermission(user.role, "clients:read")) {
+    return NextResponse.json({ error: "No autorizado." }, { status: 403 });
+  }
+
+  const transactionId = Number((await params).id);
+
+  if (!Number.isInteger(transactionId) || transactionId <= 0) {
+    return NextResponse.json({ error: "Comprobante inválido." }, { status: 400 });
+  }
+
+  try {
+    const receipt = await getReceipt(transactionId);
+
+    if (!receipt) {
+      return NextResponse.json({ error: "El movimiento no existe." }, { status: 404 });
+    }
+
+    // ?download=1 saves the file; otherwise the browser opens it inline
+    const disposition = new URL(request.url).searchParams.get("download") ? "attachment" : "inline";
+
+    return new NextResponse(renderReceiptPdf(receipt), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${disposition}; filename="${getReceiptFileName(receipt, "pdf")}"`,
+      },
+    });
+  } catch (error) {
+    logger.error("Receipt PDF error", error);
+    return NextResponse.json(
+      { error: "No se pudo generar el comprobante." },
+      { status: 500 },
+    );
+  }
+}
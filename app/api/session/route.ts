@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "@/lib/session";
+import type { SessionResponse } from "@/types/auth";
+import { logger } from "@/lib/logger";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return NextResponse.json<SessionResponse>(
+        { authenticated: false },
+        { status: 401 },
+      );
+    }
+
+    return NextResponse.json<SessionResponse>({ authenticated: true, user });
+  } catch (error) {
+    logger.error("Session lookup error", error);
+    return NextResponse.json<SessionResponse>(
+      { authenticated: false },
+      { status: 500 },
+    );
+  }
+}
@@ -1,31 +1,16 @@
 "use client";
 
-import { useEffect } from "react";
-import { useRouter } from "next/navigation";
 import OperatorChatPanel from "@/components/OperatorChatPanel";
-import { useAuthStore } from "@/stores/auth-store";
-import { Loader2 } from "lucide-react";
+import { AuthGuard } from "@/components/auth/AuthGuard";
 
-export default function OperatorChatPage() {
-  const router = useRouter();
-  const { isAuthenticated, user } = useAuthStore();
-
-  useEffect(() => {
-    if (!isAuthenticated) {
-      router.push("/login");
-    }
-  }, [isAuthenticated, router]);
+// The chat socket streams client messages until the page unmounts, so a
+// deactivated operator is dropped within seconds instead of half a minute
+const CHAT_SESSION_RECHECK_INTERVAL_MS = 5 * 1000;
 
-  if (!isAuthenticated) {
-    return (
-      <div className="flex h-screen items-center justify-center bg-neutral-100">
-        <div className="flex flex-col items-center gap-4">
-          <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          <p className="text-neutral-600">Verificando autenticación...</p>
-        </div>
-      </div>
-    );
-  }
-
-  return <OperatorChatPanel />;
+export default function OperatorChatPage() {
+  return (
+    <AuthGuard recheckIntervalMs={CHAT_SESSION_RECHECK_INTERVAL_MS}>
+      <OperatorChatPanel />
+    </AuthGuard>
+  );
 }
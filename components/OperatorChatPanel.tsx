@@ -3,7 +3,7 @@
 import { useEffect, useRef, useState } from "react";
 import { io, Socket } from "socket.io-client";
 import Link from "next/link";
-import { ArrowLeft, Search, X, Loader2, UserPlus, Download, Sun, Moon, Zap, Smile } from "lucide-react";
+import { ArrowLeft, Banknote, Search, X, Loader2, UserPlus, Download, Sun, Moon, Zap, Smile, ShieldAlert, ReceiptText } from "lucide-react";
 import { useTheme } from "next-themes";
 import { useNotification } from "@/lib/useNotification";
 import { soundManager } from "@/lib/sound-notifications";
@@ -18,11 +18,18 @@ import {
   markMessagesAsReadAction,
 } from "@/actions/chat";
 import { createClientAction } from "@/actions/crm";
-import { MessageSenderType, MessageType } from "@prisma/client";
+import { MessageSenderType, MessageType, type MembershipTier } from "@prisma/client";
 import { useAuthStore } from "@/stores/auth-store";
+import { isForbidden, unwrapAction } from "@/lib/auth";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { RequestWithdrawalDialog } from "@/components/ledger/request-withdrawal-dialog";
+import { ClientLimitsDialog } from "@/components/ledger/client-limits-dialog";
+import { SendReceiptDialog } from "@/components/ledger/send-receipt-dialog";
+import { isSelfExcluded } from "@/lib/charge-limit-policy";
+import { MEMBERSHIP_TIER_BADGE_CLASSES, MEMBERSHIP_TIER_LABELS } from "@/lib/membership-tiers";
+import type { PointsExpiryWarning } from "@/lib/points-expiry";
 
 // ---------------- TYPES ----------------
 
@@ -52,6 +59,9 @@ interface Chat {
   clientDbId?: number; // Database client ID
   isLoadingHistory?: boolean;
   tags?: ChatTag[]; // Tags for categorizing chats
+  selfExcludedUntil?: string | null; // responsible play: charges are blocked until then
+  tier?: MembershipTier | null; // null for guests
+  pointsExpiry?: PointsExpiryWarning | null; // balance about to expire (expiry policy)
 }
 
 interface NewChatPayload {
@@ -135,8 +145,11 @@ export default function OperatorChatPanel() {
   const [currentSessionId] = useState(() => `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [isCreateClientDialogOpen, setIsCreateClientDialogOpen] = useState(false);
-  const [newClientData, setNewClientData] = useState({ username: "", phone: "" });
+  const [newClientData, setNewClientData] = useState({ username: "", phone: "", referredByCode: "" });
   const [clientToCreate, setClientToCreate] = useState<string | null>(null);
+  const [withdrawalClient, setWithdrawalClient] = useState<{ id: number; username: string } | null>(null);
+  const [limitsClient, setLimitsClient] = useState<{ id: number; username: string } | null>(null);
+  const [receiptClient, setReceiptClient] = useState<{ id: number; username: string } | null>(null);
   const [isLoadingChats, setIsLoadingChats] = useState(true);
   const [operatorStatus, setOperatorStatus] = useState<"online" | "away" | "busy" | "offline">("online");
   const [showCannedResponses, setShowCannedResponses] = useState(false);
@@ -149,6 +162,8 @@ export default function OperatorChatPanel() {
   const [selectedTagFilter, setSelectedTagFilter] = useState<ChatTag | "all">("all");
 
   const user = useAuthStore((state) => state.user);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const logout = useAuthStore((state) => state.logout);
   const notification = useNotification();
   const { getEffectiveVolume } = useNotificationSettings();
   const { theme, setTheme } = useTheme();
@@ -165,6 +180,13 @@ export default function OperatorChatPanel() {
     userIdRef.current = user?.id;
   }, [user]);
 
+  // Session gone (deactivated, revoked): stop receiving chats right away
+  useEffect(() => {
+    if (!isAuthenticated) {
+      socketRef.current?.disconnect();
+    }
+  }, [isAuthenticated]);
+
   useEffect(() => {
     activeClientIdRef.current = activeClientId;
 
@@ -181,8 +203,7 @@ export default function OperatorChatPanel() {
 
           markMessagesAsReadAction({
             clientId: chat.clientDbId,
-            operatorId: user.id,
-          }).then(() => {
+          }).then(unwrapAction).then(() => {
             logger.log(`✅ Successfully marked messages as read`);
             // Update unread count in local state
             setChats((prevChats) =>
@@ -348,7 +369,7 @@ export default function OperatorChatPanel() {
       setIsLoadingChats(true);
       logger.log("🔄 Loading recent chats...");
 
-      const recentChats = await getRecentChatsAction();
+      const recentChats = unwrapAction(await getRecentChatsAction());
       logger.log(`📥 Received ${recentChats.length} chats from server`);
 
       const chatsData: Chat[] = await Promise.all(
@@ -362,17 +383,17 @@ export default function OperatorChatPanel() {
             if (isGuest) {
               // For guests, use guestUsername to load history
               logger.log(`  → Loading guest history for ${client.username}`);
-              history = await getChatHistoryAction({
+              history = unwrapAction(await getChatHistoryAction({
                 guestUsername: client.username,
                 limit: 100
-              });
+              }));
             } else {
               // For registered clients, use clientId
               logger.log(`  → Loading client history for ID ${client.id}`);
-              history = await getChatHistoryAction({
+              history = unwrapAction(await getChatHistoryAction({
                 clientId: client.id,
                 limit: 100
-              });
+              }));
             }
 
             logger.log(`  ✓ Loaded ${history.length} messages`);
@@ -398,6 +419,9 @@ export default function OperatorChatPanel() {
               isClientTyping: false,
               clientDbId: isGuest ? undefined : client.id,
               isLoadingHistory: false,
+              selfExcludedUntil: client.selfExcludedUntil?.toISOString() ?? null,
+              tier: client.tier,
+              pointsExpiry: client.pointsExpiry,
             };
           } catch (chatError) {
             logger.error(`  ✗ Error loading chat for ${client.username}:`, chatError);
@@ -450,7 +474,9 @@ export default function OperatorChatPanel() {
 
   const loadChatHistory = async (clientUsername: string, clientDbId: number) => {
     try {
-      const history = await getChatHistoryAction({ clientId: clientDbId, limit: 100 });
+      const history = unwrapAction(
+        await getChatHistoryAction({ clientId: clientDbId, limit: 100 }),
+      );
 
       const convertedMessages: Message[] = history.map((msg: any) => ({
         from: msg.senderType === MessageSenderType.CLIENT ? "client" : "operator",
@@ -497,19 +523,20 @@ export default function OperatorChatPanel() {
 
       // Try to get client from database if not provided
       if (!dbClientId) {
-        const client = await getClientByUsernameAction({ username: clientUsername });
+        const client = unwrapAction(
+          await getClientByUsernameAction({ username: clientUsername }),
+        );
         if (client) {
           dbClientId = client.id;
           isGuest = false;
         }
       }
 
-      const savedMessage = await saveChatMessageAction({
+      const saved = await saveChatMessageAction({
         clientId: dbClientId ?? null,
         guestUsername: isGuest ? clientUsername : null,
         clientSocketId: message.from === "client" ? activeClientId ?? null : null,
         senderType: message.from === "client" ? MessageSenderType.CLIENT : MessageSenderType.OPERATOR,
-        operatorId: message.from === "operator" ? user?.id ?? null : null,
         messageType: message.image ? MessageType.IMAGE : MessageType.TEXT,
         text: message.text ?? null,
         imageUrl: message.image ?? null,
@@ -518,7 +545,12 @@ export default function OperatorChatPanel() {
         sessionId: currentSessionId,
       });
 
-      return savedMessage.id;
+      if (isForbidden(saved) && saved.reason === "UNAUTHENTICATED") {
+        logout();
+        return null;
+      }
+
+      return unwrapAction(saved).id;
     } catch (err) {
       logger.error("Error saving message to database:", err);
       return null;
@@ -633,11 +665,21 @@ export default function OperatorChatPanel() {
 
       // Load chat history from database
       try {
-        const client = await getClientByUsernameAction({ username: data.username });
+        const client = unwrapAction(
+          await getClientByUsernameAction({ username: data.username }),
+        );
         if (client) {
           setChats((prev) =>
             prev.map((c) =>
-              c.clientId === data.clientId ? { ...c, clientDbId: client.id } : c
+              c.clientId === data.clientId
+                ? {
+                    ...c,
+                    clientDbId: client.id,
+                    selfExcludedUntil: client.selfExcludedUntil?.toISOString() ?? null,
+                    tier: client.tier,
+                    pointsExpiry: client.pointsExpiry,
+                  }
+                : c
             )
           );
           await loadChatHistory(data.username, client.id);
@@ -753,10 +795,11 @@ export default function OperatorChatPanel() {
               // If chat is active, mark as read in DB immediately
               if (isActiveChatNow && c.clientDbId && userIdRef.current) {
                 try {
-                  await markMessagesAsReadAction({
-                    clientId: c.clientDbId,
-                    operatorId: userIdRef.current,
-                  });
+                  unwrapAction(
+                    await markMessagesAsReadAction({
+                      clientId: c.clientDbId,
+                    }),
+                  );
                   logger.log(`✅ Marked incoming message as read (chat is active)`);
                 } catch (err) {
                   logger.error("Error marking incoming message as read:", err);
@@ -1017,7 +1060,7 @@ export default function OperatorChatPanel() {
 
   const handleOpenCreateClientDialog = (username: string) => {
     setClientToCreate(username);
-    setNewClientData({ username, phone: "" });
+    setNewClientData({ username, phone: "", referredByCode: "" });
     setIsCreateClientDialogOpen(true);
   };
 
@@ -1030,10 +1073,11 @@ export default function OperatorChatPanel() {
     }
 
     try {
-      const client = await createClientAction({
+      const client = unwrapAction(await createClientAction({
         username: newClientData.username.trim(),
         phone: newClientData.phone.trim() || undefined,
-      });
+        referredByCode: newClientData.referredByCode.trim() || undefined,
+      }));
 
       // Update chat with database client ID
       setChats((prev) =>
@@ -1049,11 +1093,15 @@ export default function OperatorChatPanel() {
 
       notification.success(`Cliente ${client.username} guardado correctamente`);
       setIsCreateClientDialogOpen(false);
-      setNewClientData({ username: "", phone: "" });
+      setNewClientData({ username: "", phone: "", referredByCode: "" });
       setClientToCreate(null);
     } catch (err) {
       logger.error("Error creating client:", err);
-      notification.error("No se pudo guardar el cliente. Verificá que el usuario sea único.");
+      notification.error(
+        err instanceof Error && err.message
+          ? err.message
+          : "No se pudo guardar el cliente. Verificá que el usuario sea único.",
+      );
     }
   };
 
@@ -1166,6 +1214,9 @@ export default function OperatorChatPanel() {
       logger.error(`❌ Failed to save message - no ID returned`);
     }
 
+    // Signed out while saving: the socket is closed, nothing to broadcast
+    if (!useAuthStore.getState().isAuthenticated) return;
+
     // NOW broadcast to other operators (after DB save completes)
     socketRef.current.emit("operatorMessage", {
       to: activeChat.clientId,
@@ -1190,82 +1241,95 @@ export default function OperatorChatPanel() {
     fileInputRef.current?.click();
   };
 
-  // 🆕 Cuando el operador elige una imagen
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    if (!file.type.startsWith("image/")) {
-      alert("Solo podés enviar imágenes.");
-      e.target.value = "";
-      return;
+  // Sends an image (upload or generated receipt) to the active chat
+  const sendImageMessage = async (image: { dataUrl: string; name: string; mimeType: string; size: number }) => {
+    if (!socketRef.current || !activeChat || !user) {
+      throw new Error("No hay conexión con el chat.");
     }
 
-    if (!socketRef.current || !activeChat) return;
-
-    const reader = new FileReader();
-    reader.onload = async () => {
-      const base64 = reader.result as string;
+    const newMsg: Message = {
+      from: "operator",
+      image: image.dataUrl,
+      mimeType: image.mimeType,
+      name: image.name,
+      timestamp: new Date().toISOString(),
+      operatorId: user.id,
+      operatorName: user.name,
+    };
 
-      if (!user) return;
+    // Add message optimistically (without ID)
+    setChats((prev) =>
+      prev.map((c) =>
+        c.clientId === activeChat.clientId
+          ? {
+              ...c,
+              messages: [...c.messages, newMsg],
+            }
+          : c,
+      ),
+    );
 
-      const newMsg: Message = {
-        from: "operator",
-        image: base64,
-        mimeType: file.type,
-        name: file.name,
-        timestamp: new Date().toISOString(),
-        operatorId: user.id,
-        operatorName: user.name,
-      };
+    // Save to database FIRST (before broadcasting) to prevent race condition
+    logger.log(`💾 Saving image message to DB for ${activeChat.username}`);
+    const savedMessageId = await saveMessageToDb(activeChat.username, newMsg, activeChat.clientDbId);
+    logger.log(`📝 Image message saved with ID: ${savedMessageId}`);
 
-      // Add message optimistically (without ID)
+    if (savedMessageId) {
+      logger.log(`✅ Updating image message with ID ${savedMessageId}`);
       setChats((prev) =>
         prev.map((c) =>
           c.clientId === activeChat.clientId
             ? {
                 ...c,
-                messages: [...c.messages, newMsg],
+                messages: c.messages.map((m) =>
+                  m.timestamp === newMsg.timestamp && m.from === "operator" && !m.id
+                    ? { ...m, id: savedMessageId }
+                    : m
+                ),
               }
             : c,
         ),
       );
+    } else {
+      logger.error(`❌ Failed to save image message - no ID returned`);
+    }
 
-      // Save to database FIRST (before broadcasting) to prevent race condition
-      logger.log(`💾 Saving image message to DB for ${activeChat.username}`);
-      const savedMessageId = await saveMessageToDb(activeChat.username, newMsg, activeChat.clientDbId);
-      logger.log(`📝 Image message saved with ID: ${savedMessageId}`);
+    // Signed out while saving: the socket is closed, nothing to broadcast
+    if (!useAuthStore.getState().isAuthenticated) return;
 
-      if (savedMessageId) {
-        logger.log(`✅ Updating image message with ID ${savedMessageId}`);
-        setChats((prev) =>
-          prev.map((c) =>
-            c.clientId === activeChat.clientId
-              ? {
-                  ...c,
-                  messages: c.messages.map((m) =>
-                    m.timestamp === newMsg.timestamp && m.from === "operator" && !m.id
-                      ? { ...m, id: savedMessageId }
-                      : m
-                  ),
-                }
-              : c,
-          ),
-        );
-      } else {
-        logger.error(`❌ Failed to save image message - no ID returned`);
-      }
+    // NOW broadcast to other operators (after DB save completes)
+    socketRef.current?.emit("operatorMessage", {
+      to: activeChat.clientId,
+      type: "image",
+      image: image.dataUrl,
+      name: image.name,
+      mimeType: image.mimeType,
+      size: image.size,
+      operatorId: user.id,
+      operatorName: user.name,
+    });
+  };
+
+  // 🆕 Cuando el operador elige una imagen
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      alert("Solo podés enviar imágenes.");
+      e.target.value = "";
+      return;
+    }
+
+    if (!socketRef.current || !activeChat) return;
 
-      // NOW broadcast to other operators (after DB save completes)
-      socketRef.current?.emit("operatorMessage", {
-        to: activeChat.clientId,
-        type: "image",
-        image: base64,
+    const reader = new FileReader();
+    reader.onload = async () => {
+      await sendImageMessage({
+        dataUrl: reader.result as string,
         name: file.name,
         mimeType: file.type,
         size: file.size,
-        operatorId: user.id,
-        operatorName: user.name,
       });
 
       e.target.value = "";
@@ -1450,6 +1514,17 @@ export default function OperatorChatPanel() {
                         <UserPlus className="h-3 w-3" />
                       </span>
                     )}
+                    {isSelfExcluded(c.selfExcludedUntil) && (
+                      <span
+                        className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-medium ${
+                          isActive ? "bg-white/20 text-white" : "bg-red-100 text-red-700"
+                        }`}
+                        title="Cliente autoexcluido: no se le pueden registrar cargas"
+                      >
+                        <ShieldAlert className="h-3 w-3" />
+                        Autoexcluido
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center gap-1 flex-shrink-0">
                     {c.unread > 0 && (
@@ -1548,6 +1623,22 @@ export default function OperatorChatPanel() {
                       DB: #{activeChat.clientDbId}
                     </span>
                   )}
+                  {activeChat.tier && (
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-medium ${MEMBERSHIP_TIER_BADGE_CLASSES[activeChat.tier]}`}>
+                      {MEMBERSHIP_TIER_LABELS[activeChat.tier]}
+                    </span>
+                  )}
+                  {activeChat.pointsExpiry && (
+                    <span className="px-2 py-0.5 bg-amber-100 text-amber-800 rounded text-[10px] font-medium">
+                      Vencen {activeChat.pointsExpiry.points.toLocaleString("es-AR")} puntos el{" "}
+                      {new Date(activeChat.pointsExpiry.expiresAt).toLocaleDateString("es-AR")}
+                    </span>
+                  )}
+                  {isSelfExcluded(activeChat.selfExcludedUntil) && (
+                    <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded text-[10px] font-medium">
+                      Autoexcluido hasta {new Date(activeChat.selfExcludedUntil!).toLocaleDateString("es-AR")}
+                    </span>
+                  )}
                   </div>
                 </div>
               </div>
@@ -1585,6 +1676,51 @@ export default function OperatorChatPanel() {
                   </div>
                 </div>
 
+                {/* Limits and self-exclusion (registered clients only) */}
+                {activeChat.clientDbId && (
+                  <button
+                    onClick={() =>
+                      setLimitsClient({ id: activeChat.clientDbId!, username: activeChat.username })
+                    }
+                    className="p-2 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg transition-colors"
+                    title="Límites y autoexclusión"
+                  >
+                    <ShieldAlert
+                      className={`h-5 w-5 ${
+                        isSelfExcluded(activeChat.selfExcludedUntil)
+                          ? "text-red-600"
+                          : "text-neutral-600 dark:text-neutral-400"
+                      }`}
+                    />
+                  </button>
+                )}
+
+                {/* Send a receipt as an image (registered clients only) */}
+                {activeChat.clientDbId && (
+                  <button
+                    onClick={() =>
+                      setReceiptClient({ id: activeChat.clientDbId!, username: activeChat.username })
+                    }
+                    className="p-2 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg transition-colors"
+                    title="Enviar comprobante"
+                  >
+                    <ReceiptText className="h-5 w-5 text-neutral-600 dark:text-neutral-400" />
+                  </button>
+                )}
+
+                {/* Withdrawal request (registered clients only) */}
+                {activeChat.clientDbId && (
+                  <button
+                    onClick={() =>
+                      setWithdrawalClient({ id: activeChat.clientDbId!, username: activeChat.username })
+                    }
+                    className="p-2 hover:bg-neutral-100 dark:hover:bg-neutral-700 rounded-lg transition-colors"
+                    title="Solicitar retiro"
+                  >
+                    <Banknote className="h-5 w-5 text-neutral-600 dark:text-neutral-400" />
+                  </button>
+                )}
+
                 {/* Search button */}
                 <button
                   onClick={() => setShowMessageSearch(!showMessageSearch)}
@@ -2105,13 +2241,25 @@ export default function OperatorChatPanel() {
                 className="w-full"
               />
             </div>
+            <div className="space-y-2">
+              <label htmlFor="new-client-referral" className="text-sm font-medium">
+                Código de referido (opcional)
+              </label>
+              <Input
+                id="new-client-referral"
+                value={newClientData.referredByCode}
+                onChange={(e) => setNewClientData((prev) => ({ ...prev, referredByCode: e.target.value }))}
+                placeholder="Código del cliente que lo recomendó"
+                className="w-full"
+              />
+            </div>
             <div className="flex justify-end gap-2">
               <Button
                 type="button"
                 variant="outline"
                 onClick={() => {
                   setIsCreateClientDialogOpen(false);
-                  setNewClientData({ username: "", phone: "" });
+                  setNewClientData({ username: "", phone: "", referredByCode: "" });
                   setClientToCreate(null);
                 }}
               >
@@ -2125,6 +2273,31 @@ export default function OperatorChatPanel() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <RequestWithdrawalDialog
+        client={withdrawalClient}
+        onClose={() => setWithdrawalClient(null)}
+      />
+
+      <SendReceiptDialog
+        client={receiptClient}
+        onClose={() => setReceiptClient(null)}
+        onSend={sendImageMessage}
+      />
+
+      <ClientLimitsDialog
+        client={limitsClient}
+        onClose={() => setLimitsClient(null)}
+        onChange={(summary) =>
+          setChats((prev) =>
+            prev.map((c) =>
+              c.clientDbId === summary.clientId
+                ? { ...c, selfExcludedUntil: summary.selfExcludedUntil }
+                : c
+            )
+          )
+        }
+      />
     </div>
   );
 }
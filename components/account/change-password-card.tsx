@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound } from "lucide-react";
+
+import { changeOwnPasswordAction } from "@/actions/account";
+import { logger } from "@/lib/logger";
+import { PASSWORD_MIN_LENGTH, PASSWORD_POLICY_HINT } from "@/lib/password-policy";
+import { useNotification } from "@/lib/useNotification";
+import { useAuthStore } from "@/stores/auth-store";
+import type { AuthUser } from "@/types/auth";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const EMPTY_FORM = { currentPassword: "", newPassword: "", confirmPassword: "" };
+
+export function ChangePasswordCard({
+  description,
+  onChanged,
+}: {
+  description?: string;
+  onChanged?: (user: AuthUser) => void;
+}) {
+  const notification = useNotification();
+  const login = useAuthStore((state) => state.login);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (form.newPassword !== form.confirmPassword) {
+      notification.error("Las contraseñas nuevas no coinciden.");
+      return;
+    }
+
+    setIsWorking(true);
+
+    try {
+      const result = await changeOwnPasswordAction({
+        currentPassword: form.currentPassword,
+        newPassword: form.newPassword,
+      });
+
+      if (!result.success) {
+        notification.error(result.error);
+        return;
+      }
+
+      login(result.user);
+      setForm(EMPTY_FORM);
+      notification.success("Contraseña actualizada. Cerramos tus otras sesiones.");
+      onChanged?.(result.user);
+    } catch (error) {
+      logger.error("Error changing password", error);
+      notification.error("No se pudo cambiar la contraseña.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="size-5 text-primary" />
+          Contraseña
+        </CardTitle>
+        <CardDescription>{description ?? PASSWORD_POLICY_HINT}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="current-password">
+              Contraseña actual
+            </label>
+            <Input
+              id="current-password"
+              type="password"
+              autoComplete="current-password"
+              value={form.currentPassword}
+              onChange={(e) => setForm((prev) => ({ ...prev, currentPassword: e.target.value }))}
+              required
+              disabled={isWorking}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="new-password">
+              Nueva contraseña
+            </label>
+            <Input
+              id="new-password"
+              type="password"
+              autoComplete="new-password"
+              value={form.newPassword}
+              onChange={(e) => setForm((prev) => ({ ...prev, newPassword: e.target.value }))}
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+              disabled={isWorking}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="confirm-password">
+              Repetí la nueva contraseña
+            </label>
+            <Input
+              id="confirm-password"
+              type="password"
+              autoComplete="new-password"
+              value={form.confirmPassword}
+              onChange={(e) => setForm((prev) => ({ ...prev, confirmPassword: e.target.value }))}
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+              disabled={isWorking}
+            />
+          </div>
+          <Button type="submit" disabled={isWorking}>
+            {isWorking ? "Guardando..." : "Cambiar contraseña"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
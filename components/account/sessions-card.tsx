@@ -0,0 +1,135 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { LogOut, MonitorSmartphone } from "lucide-react";
+
+import {
+  listMySessionsAction,
+  revokeMySessionAction,
+  signOutEverywhereAction,
+  type SessionRow,
+} from "@/actions/security";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import { describeUserAgent } from "@/lib/user-agent";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function SessionsCard() {
+  const router = useRouter();
+  const notification = useNotification();
+  const logout = useAuthStore((state) => state.logout);
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(unwrapAction(await listMySessionsAction()));
+    } catch (error) {
+      logger.error("Error loading sessions", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionRow) => {
+    setIsWorking(true);
+
+    try {
+      unwrapAction(await revokeMySessionAction({ sessionId: session.id }));
+      notification.success("Sesión cerrada.");
+      await loadSessions();
+    } catch (error) {
+      logger.error("Error revoking session", error);
+      notification.error(getErrorMessage(error, "No se pudo cerrar la sesión."));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setIsWorking(true);
+
+    try {
+      unwrapAction(await signOutEverywhereAction());
+      logout();
+      router.replace("/login");
+    } catch (error) {
+      logger.error("Error signing out everywhere", error);
+      notification.error(getErrorMessage(error, "No se pudieron cerrar las sesiones."));
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="size-5 text-primary" />
+          Sesiones activas
+        </CardTitle>
+        <CardDescription>
+          Dispositivos donde tu usuario tiene la sesión abierta
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between rounded-md border border-border/60 px-3 py-2 text-sm"
+            >
+              <div className="flex flex-col">
+                <span className="font-medium">
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 text-xs font-normal text-primary">Esta sesión</span>
+                  )}
+                </span>
+                <span className="text-muted-foreground">
+                  {session.ipAddress ?? "IP desconocida"} · última actividad{" "}
+                  {dateTimeFormatter.format(new Date(session.lastSeenAt))}
+                </span>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isWorking}
+                  onClick={() => handleRevoke(session)}
+                >
+                  Cerrar
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Button variant="destructive" onClick={handleSignOutEverywhere} disabled={isWorking}>
+          <LogOut className="size-4" />
+          Cerrar sesión en todos lados
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, ShieldCheck, ShieldOff } from "lucide-react";
+
+import {
+  confirmTwoFactorEnrollmentAction,
+  disableTwoFactorAction,
+  getTwoFactorStatusAction,
+  regenerateBackupCodesAction,
+  startTwoFactorEnrollmentAction,
+  type TwoFactorStatus,
+} from "@/actions/security";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import type { TwoFactorEnrollment } from "@/types/auth";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function TwoFactorCard() {
+  const notification = useNotification();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(unwrapAction(await getTwoFactorStatusAction()));
+    } catch (error) {
+      logger.error("Error loading two-factor status", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  const runWithCode = async (
+    action: () => Promise<void>,
+    fallbackError: string,
+  ) => {
+    setIsWorking(true);
+
+    try {
+      await action();
+      setCode("");
+      await loadStatus();
+    } catch (error) {
+      logger.error(fallbackError, error);
+      notification.error(getErrorMessage(error, fallbackError));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStartEnrollment = () =>
+    runWithCode(async () => {
+      setBackupCodes(null);
+      setEnrollment(unwrapAction(await startTwoFactorEnrollmentAction()));
+    }, "No se pudo iniciar la activación.");
+
+  const handleConfirmEnrollment = () =>
+    runWithCode(async () => {
+      const result = unwrapAction(await confirmTwoFactorEnrollmentAction({ code }));
+      setEnrollment(null);
+      setBackupCodes(result.backupCodes);
+      notification.success("Verificación en dos pasos activada.");
+    }, "No se pudo activar la verificación en dos pasos.");
+
+  const handleRegenerateCodes = () =>
+    runWithCode(async () => {
+      const result = unwrapAction(await regenerateBackupCodesAction({ code }));
+      setBackupCodes(result.backupCodes);
+      notification.success("Se generaron nuevos códigos de respaldo.");
+    }, "No se pudieron regenerar los códigos.");
+
+  const handleDisable = () =>
+    runWithCode(async () => {
+      unwrapAction(await disableTwoFactorAction({ code }));
+      setBackupCodes(null);
+      notification.success("Verificación en dos pasos desactivada.");
+    }, "No se pudo desactivar la verificación en dos pasos.");
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {status?.enabled ? (
+            <ShieldCheck className="size-5 text-primary" />
+          ) : (
+            <ShieldOff className="size-5 text-muted-foreground" />
+          )}
+          Verificación en dos pasos
+        </CardTitle>
+        <CardDescription>
+          {status?.enabled
+            ? `Activa · ${status.backupCodesRemaining} códigos de respaldo disponibles`
+            : status?.required
+              ? "Tu rol requiere 2FA. Activala para no perder el acceso."
+              : "Sumá un código de tu app de autenticación al iniciar sesión."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backupCodes && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Guardá estos códigos de respaldo. No se vuelven a mostrar.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 rounded-md border border-border/70 bg-muted/40 p-4 font-mono text-sm">
+              {backupCodes.map((backupCode) => (
+                <li key={backupCode}>{backupCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {enrollment && (
+          <div className="flex flex-col items-center gap-3">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={enrollment.qrCodeDataUrl}
+              alt="Código QR para la app de autenticación"
+              className="size-48 rounded-md border border-border/70 bg-white p-2"
+            />
+            <p className="break-all text-center font-mono text-xs text-muted-foreground">
+              {enrollment.secret}
+            </p>
+          </div>
+        )}
+
+        {(enrollment || status?.enabled) && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="two-factor-code">
+              Código de verificación
+            </label>
+            <Input
+              id="two-factor-code"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={isWorking}
+            />
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!status?.enabled && !enrollment && (
+            <Button onClick={handleStartEnrollment} disabled={isWorking || !status}>
+              <KeyRound className="size-4" />
+              Activar 2FA
+            </Button>
+          )}
+          {enrollment && (
+            <>
+              <Button onClick={handleConfirmEnrollment} disabled={isWorking || !code}>
+                Confirmar código
+              </Button>
+              <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={isWorking}>
+                Cancelar
+              </Button>
+            </>
+          )}
+          {status?.enabled && (
+            <>
+              <Button variant="outline" onClick={handleRegenerateCodes} disabled={isWorking || !code}>
+                Regenerar códigos de respaldo
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" onClick={handleDisable} disabled={isWorking || !code}>
+                  Desactivar 2FA
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { Scale, Wrench } from "lucide-react";
+
+import {
+  getBalanceDiscrepanciesAction,
+  repairBalancesAction,
+} from "@/actions/ledger";
+import type { BalanceDiscrepancy } from "@/lib/balances";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function BalanceReconciliationCard() {
+  const notification = useNotification();
+  // null = not checked yet in this visit
+  const [discrepancies, setDiscrepancies] = useState<BalanceDiscrepancy[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+
+  const repairable = discrepancies?.filter((row) => row.difference !== 0) ?? [];
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+
+    try {
+      setDiscrepancies(unwrapAction(await getBalanceDiscrepanciesAction()));
+    } catch (error) {
+      logger.error("Error checking balances", error);
+      notification.error(getErrorMessage(error, "No se pudo verificar los saldos."));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    setIsRepairing(true);
+
+    try {
+      const repairs = unwrapAction(
+        await repairBalancesAction({ clientIds: repairable.map((row) => row.clientId) }),
+      );
+      notification.success(`Se registraron ${repairs.length} ajustes de conciliación.`);
+      await handleCheck();
+    } catch (error) {
+      logger.error("Error repairing balances", error);
+      notification.error(getErrorMessage(error, "No se pudieron reparar los saldos."));
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="size-5 text-primary" />
+          Conciliación de saldos
+        </CardTitle>
+        <CardDescription>
+          Compara el saldo de cada cliente con la suma de sus movimientos. La reparación registra un
+          ajuste auditado por la diferencia.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" disabled={isChecking} onClick={handleCheck}>
+            {isChecking ? "Verificando..." : "Verificar saldos"}
+          </Button>
+          {repairable.length > 0 && (
+            <Button disabled={isRepairing} onClick={handleRepair}>
+              <Wrench className="size-4" />
+              {isRepairing ? "Reparando..." : `Reparar ${repairable.length}`}
+            </Button>
+          )}
+        </div>
+
+        {discrepancies !== null &&
+          (discrepancies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todos los saldos coinciden con sus movimientos.</p>
+          ) : (
+            <div className="max-h-96 space-y-2 overflow-y-auto">
+              {discrepancies.map((row) => (
+                <div
+                  key={row.clientId}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border/60 px-3 py-2 text-sm"
+                >
+                  <span className="font-medium">@{row.username}</span>
+                  <span className="text-muted-foreground">
+                    Saldo {pointsFormatter.format(row.storedBalance)} · Movimientos{" "}
+                    {pointsFormatter.format(row.ledgerBalance)}
+                    {row.difference !== 0
+                      ? ` · Diferencia ${pointsFormatter.format(row.difference)}`
+                      : " · Saldo negativo"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
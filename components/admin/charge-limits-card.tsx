@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ShieldAlert } from "lucide-react";
+
+import {
+  getChargeLimitPolicyAction,
+  updateChargeLimitPolicyAction,
+} from "@/actions/limits";
+import { unwrapAction } from "@/lib/auth";
+import {
+  CHARGE_LIMIT_PERIOD_LABELS,
+  CHARGE_LIMIT_PERIODS,
+  type ChargeLimitPeriod,
+} from "@/lib/charge-limit-policy";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function parseLimit(value: string) {
+  return value ? Number(value) : null;
+}
+
+export function ChargeLimitsCard() {
+  const notification = useNotification();
+  const [form, setForm] = useState<Record<ChargeLimitPeriod, string> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getChargeLimitPolicyAction()
+      .then((result) => {
+        const policy = unwrapAction(result);
+        setForm({
+          DAILY: policy.DAILY?.toString() ?? "",
+          WEEKLY: policy.WEEKLY?.toString() ?? "",
+          MONTHLY: policy.MONTHLY?.toString() ?? "",
+        });
+      })
+      .catch((error) => logger.error("Error loading charge limit policy", error));
+  }, []);
+
+  const handleSave = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+
+    try {
+      unwrapAction(
+        await updateChargeLimitPolicyAction({
+          DAILY: parseLimit(form.DAILY),
+          WEEKLY: parseLimit(form.WEEKLY),
+          MONTHLY: parseLimit(form.MONTHLY),
+        }),
+      );
+      notification.success("Límites generales actualizados.");
+    } catch (error) {
+      logger.error("Error updating charge limit policy", error);
+      notification.error(getErrorMessage(error, "No se pudieron guardar los límites."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="size-5 text-primary" />
+          Límites de carga generales
+        </CardTitle>
+        <CardDescription>
+          Se aplican a los clientes sin límites propios. Vacío = sin límite.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!form ? (
+          <p className="text-sm text-muted-foreground">Cargando...</p>
+        ) : (
+          <form className="space-y-3" onSubmit={handleSave}>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {CHARGE_LIMIT_PERIODS.map((period) => (
+                <div key={period} className="space-y-1">
+                  <label className="text-xs capitalize text-muted-foreground">
+                    {CHARGE_LIMIT_PERIOD_LABELS[period]}
+                  </label>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Sin límite"
+                    value={form[period]}
+                    onChange={(e) => setForm((prev) => prev && { ...prev, [period]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? "Guardando..." : "Guardar"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
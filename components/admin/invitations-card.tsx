@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy, MailPlus, XCircle } from "lucide-react";
+
+import {
+  createInvitationAction,
+  listInvitationsAction,
+  revokeInvitationAction,
+  type InvitationRow,
+} from "@/actions/invitations";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const ROLE_LABELS: Record<InvitationRow["role"], string> = {
+  ADMIN: "Administrador",
+  CASHIER: "Cajero",
+  AGENT: "Agente",
+};
+
+const STATE_LABELS: Record<InvitationRow["state"], string> = {
+  PENDING: "Pendiente",
+  USED: "Usada",
+  REVOKED: "Revocada",
+  EXPIRED: "Vencida",
+};
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function InvitationsCard() {
+  const notification = useNotification();
+  const [invitations, setInvitations] = useState<InvitationRow[]>([]);
+  const [form, setForm] = useState<{
+    role: InvitationRow["role"];
+    expiresInHours: string;
+    note: string;
+  }>({
+    role: "CASHIER",
+    expiresInHours: "72",
+    note: "",
+  });
+  const [lastLink, setLastLink] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setInvitations(unwrapAction(await listInvitationsAction()));
+    } catch (error) {
+      logger.error("Error loading invitations", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadInvitations();
+  }, [loadInvitations]);
+
+  const copyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      notification.success("Enlace copiado.");
+    } catch (error) {
+      logger.error("Error copying invitation link", error);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const result = unwrapAction(
+        await createInvitationAction({
+          role: form.role,
+          expiresInHours: Number(form.expiresInHours) || undefined,
+          note: form.note || null,
+        }),
+      );
+
+      const link = `${window.location.origin}/register?token=${encodeURIComponent(result.token)}`;
+      setLastLink(link);
+      setForm((prev) => ({ ...prev, note: "" }));
+      await copyLink(link);
+      await loadInvitations();
+    } catch (error) {
+      logger.error("Error creating invitation", error);
+      notification.error(getErrorMessage(error, "No se pudo crear la invitación."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: InvitationRow) => {
+    try {
+      unwrapAction(await revokeInvitationAction({ invitationId: invitation.id }));
+      notification.success("Invitación revocada.");
+      await loadInvitations();
+    } catch (error) {
+      logger.error("Error revoking invitation", error);
+      notification.error(getErrorMessage(error, "No se pudo revocar la invitación."));
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MailPlus className="size-5 text-primary" />
+          Invitaciones
+        </CardTitle>
+        <CardDescription>
+          El registro es sólo por invitación: cada enlace sirve una vez y define el rol
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="grid gap-3 sm:grid-cols-[1fr_7rem_1fr_auto] sm:items-end" onSubmit={handleCreate}>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="invitation-role">Rol</label>
+            <select
+              id="invitation-role"
+              className="h-9 w-full rounded-md border border-border bg-background px-3 text-sm"
+              value={form.role}
+              onChange={(e) => setForm((prev) => ({ ...prev, role: e.target.value as InvitationRow["role"] }))}
+            >
+              <option value="CASHIER">Cajero</option>
+              <option value="AGENT">Agente</option>
+              <option value="ADMIN">Administrador</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="invitation-hours">Horas</label>
+            <Input
+              id="invitation-hours"
+              type="number"
+              min={1}
+              max={336}
+              value={form.expiresInHours}
+              onChange={(e) => setForm((prev) => ({ ...prev, expiresInHours: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="invitation-note">Para</label>
+            <Input
+              id="invitation-note"
+              placeholder="Nombre o referencia"
+              value={form.note}
+              onChange={(e) => setForm((prev) => ({ ...prev, note: e.target.value }))}
+            />
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            Generar enlace
+          </Button>
+        </form>
+
+        {lastLink && (
+          <div className="flex items-center gap-2 rounded-md bg-muted/50 px-3 py-2 text-sm">
+            <span className="flex-1 truncate font-mono text-xs">{lastLink}</span>
+            <Button variant="ghost" size="icon-sm" onClick={() => copyLink(lastLink)}>
+              <Copy className="size-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {invitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no se generaron invitaciones.</p>
+          ) : (
+            invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between rounded-md border border-border/60 px-3 py-2 text-sm"
+              >
+                <div className="flex flex-col">
+                  <span className="font-medium">
+                    {ROLE_LABELS[invitation.role]}
+                    {invitation.note && ` · ${invitation.note}`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {STATE_LABELS[invitation.state]}
+                    {invitation.usedByUsername && ` por @${invitation.usedByUsername}`} · vence{" "}
+                    {dateTimeFormatter.format(new Date(invitation.expiresAt))}
+                  </span>
+                </div>
+                {invitation.state === "PENDING" && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation)}>
+                    <XCircle className="size-4" />
+                    Revocar
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LockKeyhole, ShieldAlert, Unlock } from "lucide-react";
+
+import {
+  clearLoginLockAction,
+  getLoginSecurityOverviewAction,
+  type LockedUserRow,
+  type LoginAttemptRow,
+} from "@/actions/security";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+export function LoginLocksCard() {
+  const notification = useNotification();
+  const [lockedUsers, setLockedUsers] = useState<LockedUserRow[]>([]);
+  const [recentFailures, setRecentFailures] = useState<LoginAttemptRow[]>([]);
+  const [clearingId, setClearingId] = useState<number | null>(null);
+
+  const loadOverview = useCallback(async () => {
+    try {
+      const data = await getLoginSecurityOverviewAction();
+
+      if (isForbidden(data)) {
+        logger.error("Login security overview forbidden", data.error);
+        return;
+      }
+
+      setLockedUsers(data.lockedUsers);
+      setRecentFailures(data.recentFailures);
+    } catch (error) {
+      logger.error("Error loading login security overview", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadOverview();
+  }, [loadOverview]);
+
+  const handleClearLock = async (user: LockedUserRow) => {
+    setClearingId(user.id);
+
+    try {
+      const result = await clearLoginLockAction({ userId: user.id });
+
+      if (isForbidden(result)) {
+        notification.error(result.error);
+        return;
+      }
+
+      notification.success(`Se desbloqueó a ${user.username}.`);
+      await loadOverview();
+    } catch (error) {
+      logger.error("Error clearing login lock", error);
+      notification.error("No se pudo desbloquear la cuenta.");
+    } finally {
+      setClearingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="size-5 text-primary" />
+          Seguridad de acceso
+        </CardTitle>
+        <CardDescription>
+          Cuentas bloqueadas por intentos fallidos y últimos accesos rechazados
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Cuentas con fallos</h4>
+          {lockedUsers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No hay cuentas bloqueadas ni con intentos fallidos.
+            </p>
+          ) : (
+            lockedUsers.map((user) => (
+              <div
+                key={user.id}
+                className="flex items-center justify-between rounded-lg border border-border/70 bg-background/80 p-4"
+              >
+                <div className="flex flex-col gap-1">
+                  <span className="flex items-center gap-2 font-medium">
+                    {user.lockedUntil && <LockKeyhole className="size-4 text-destructive" />}
+                    {user.name}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    @{user.username} · {user.failedLoginAttempts} fallos
+                    {user.lockedUntil &&
+                      ` · bloqueada hasta ${dateTimeFormatter.format(new Date(user.lockedUntil))}`}
+                  </span>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={clearingId === user.id}
+                  onClick={() => handleClearLock(user)}
+                >
+                  <Unlock className="size-4" />
+                  Desbloquear
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Intentos fallidos recientes</h4>
+          {recentFailures.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Sin intentos fallidos registrados.</p>
+          ) : (
+            <div className="max-h-80 space-y-2 overflow-y-auto">
+              {recentFailures.map((attempt) => (
+                <div
+                  key={attempt.id}
+                  className="flex items-center justify-between rounded-md border border-border/60 px-3 py-2 text-sm"
+                >
+                  <span className="font-medium">{attempt.username}</span>
+                  <span className="text-muted-foreground">
+                    {attempt.ipAddress ?? "IP desconocida"} ·{" "}
+                    {dateTimeFormatter.format(new Date(attempt.createdAt))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Crown } from "lucide-react";
+
+import {
+  getMembershipTierPolicyAction,
+  listTierChangesAction,
+  recalculateTiersAction,
+  updateMembershipTierPolicyAction,
+  type TierChangeRow,
+} from "@/actions/tiers";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { MEMBERSHIP_TIER_LABELS } from "@/lib/membership-tiers";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+type PolicyForm = {
+  windowDays: string;
+  premiumMinVolume: string;
+  enterpriseMinVolume: string;
+};
+
+export function MembershipTiersCard() {
+  const notification = useNotification();
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [changes, setChanges] = useState<TierChangeRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+
+  const loadChanges = useCallback(async () => {
+    try {
+      setChanges(unwrapAction(await listTierChangesAction({ limit: 10 })));
+    } catch (error) {
+      logger.error("Error loading tier changes", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    getMembershipTierPolicyAction()
+      .then((result) => {
+        const policy = unwrapAction(result);
+        setForm({
+          windowDays: policy.windowDays.toString(),
+          premiumMinVolume: policy.premiumMinVolume.toString(),
+          enterpriseMinVolume: policy.enterpriseMinVolume.toString(),
+        });
+      })
+      .catch((error) => logger.error("Error loading membership tier policy", error));
+    void loadChanges();
+  }, [loadChanges]);
+
+  const handleSave = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+
+    try {
+      unwrapAction(
+        await updateMembershipTierPolicyAction({
+          windowDays: Number(form.windowDays),
+          premiumMinVolume: Number(form.premiumMinVolume),
+          enterpriseMinVolume: Number(form.enterpriseMinVolume),
+        }),
+      );
+      notification.success("Umbrales actualizados. Se aplican en el próximo recálculo.");
+    } catch (error) {
+      logger.error("Error updating membership tier policy", error);
+      notification.error(getErrorMessage(error, "No se pudieron guardar los umbrales."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRecalculate = async () => {
+    setIsRecalculating(true);
+
+    try {
+      const result = unwrapAction(await recalculateTiersAction());
+      notification.success(
+        `${result.evaluated} clientes evaluados, ${result.changes.length} cambiaron de nivel.`,
+      );
+      await loadChanges();
+    } catch (error) {
+      logger.error("Error recalculating membership tiers", error);
+      notification.error(getErrorMessage(error, "No se pudieron recalcular los niveles."));
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crown className="size-5 text-primary" />
+          Niveles de membresía
+        </CardTitle>
+        <CardDescription>
+          El nivel sale del volumen cargado en los últimos días. Se recalcula todas las noches.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!form ? (
+          <p className="text-sm text-muted-foreground">Cargando...</p>
+        ) : (
+          <form className="space-y-3" onSubmit={handleSave}>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Ventana (días)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={form.windowDays}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, windowDays: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">
+                  {MEMBERSHIP_TIER_LABELS.PREMIUM} desde
+                </label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={form.premiumMinVolume}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, premiumMinVolume: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">
+                  {MEMBERSHIP_TIER_LABELS.ENTERPRISE} desde
+                </label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={form.enterpriseMinVolume}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, enterpriseMinVolume: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button type="submit" size="sm" disabled={isSaving}>
+                {isSaving ? "Guardando..." : "Guardar"}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={isRecalculating}
+                onClick={() => void handleRecalculate()}
+              >
+                {isRecalculating ? "Recalculando..." : "Recalcular ahora"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Últimos cambios de nivel</p>
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todavía no hubo cambios de nivel.</p>
+          ) : (
+            changes.map((change) => (
+              <div
+                key={change.id}
+                className="flex items-center justify-between rounded-lg border border-border/70 bg-background/80 p-3 text-sm"
+              >
+                <div className="flex flex-col gap-1">
+                  <span className="font-medium">@{change.username}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {dateTimeFormatter.format(new Date(change.createdAt))} · {change.changedByName ?? "Sistema"}
+                  </span>
+                </div>
+                <div className="text-right">
+                  <div className="font-medium">
+                    {MEMBERSHIP_TIER_LABELS[change.fromTier]} → {MEMBERSHIP_TIER_LABELS[change.toTier]}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {pointsFormatter.format(change.volume)} cargados
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
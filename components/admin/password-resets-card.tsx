@@ -0,0 +1,165 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy, KeyRound, LogOut } from "lucide-react";
+
+import {
+  createPasswordResetLinkAction,
+  forcePasswordChangeAction,
+  getPasswordStatusListAction,
+  type PasswordStatusRow,
+} from "@/actions/security";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function PasswordResetsCard() {
+  const notification = useNotification();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const [users, setUsers] = useState<PasswordStatusRow[]>([]);
+  const [lastLink, setLastLink] = useState<{ username: string; link: string } | null>(null);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setUsers(unwrapAction(await getPasswordStatusListAction()));
+    } catch (error) {
+      logger.error("Error loading password status", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadUsers();
+  }, [loadUsers]);
+
+  const copyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      notification.success("Enlace copiado.");
+    } catch (error) {
+      logger.error("Error copying reset link", error);
+    }
+  };
+
+  const handleCreateLink = async (user: PasswordStatusRow) => {
+    setWorkingId(user.id);
+
+    try {
+      const result = unwrapAction(await createPasswordResetLinkAction({ userId: user.id }));
+      const link = `${window.location.origin}/reset-password?token=${encodeURIComponent(result.token)}`;
+      setLastLink({ username: user.username, link });
+      await copyLink(link);
+      await loadUsers();
+    } catch (error) {
+      logger.error("Error creating password reset link", error);
+      notification.error(getErrorMessage(error, "No se pudo generar el enlace."));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleForceChange = async (user: PasswordStatusRow) => {
+    setWorkingId(user.id);
+
+    try {
+      const result = unwrapAction(await forcePasswordChangeAction({ userId: user.id }));
+      notification.success(
+        `@${user.username} deberá cambiar su contraseña. Se cerraron ${result.revokedSessions} sesiones.`,
+      );
+      await loadUsers();
+    } catch (error) {
+      logger.error("Error forcing password change", error);
+      notification.error(getErrorMessage(error, "No se pudo forzar el cambio."));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="size-5 text-primary" />
+          Contraseñas
+        </CardTitle>
+        <CardDescription>
+          Enlaces de reseteo de un solo uso (24 h) y cambio obligatorio en el próximo ingreso
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lastLink && (
+          <div className="flex items-center gap-2 rounded-md bg-muted/50 px-3 py-2 text-sm">
+            <span className="font-medium">@{lastLink.username}</span>
+            <span className="flex-1 truncate font-mono text-xs">{lastLink.link}</span>
+            <Button variant="ghost" size="icon-sm" onClick={() => copyLink(lastLink.link)}>
+              <Copy className="size-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="max-h-96 space-y-2 overflow-y-auto">
+          {users.map((user) => (
+            <div
+              key={user.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border/60 px-3 py-2 text-sm"
+            >
+              <div className="flex flex-col">
+                <span className="font-medium">
+                  {user.name} <span className="text-muted-foreground">@{user.username}</span>
+                </span>
+                <span className="text-muted-foreground">
+                  {user.passwordChangedAt
+                    ? `Cambiada ${dateTimeFormatter.format(new Date(user.passwordChangedAt))}`
+                    : "Nunca cambiada"}
+                  {user.mustChangePassword && " · Cambio pendiente"}
+                  {user.pendingResetExpiresAt &&
+                    ` · Enlace vigente hasta ${dateTimeFormatter.format(new Date(user.pendingResetExpiresAt))}`}
+                  {!user.isActive && " · Inactivo"}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={workingId === user.id || !user.isActive}
+                  onClick={() => handleCreateLink(user)}
+                >
+                  Generar enlace
+                </Button>
+                {user.id !== currentUserId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={workingId === user.id || user.mustChangePassword}
+                    onClick={() => handleForceChange(user)}
+                  >
+                    <LogOut className="size-4" />
+                    Forzar cambio
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Hourglass } from "lucide-react";
+
+import {
+  getPointsExpiryPolicyAction,
+  getPointsExpiryReportAction,
+  runPointsExpiryAction,
+  updatePointsExpiryPolicyAction,
+  type PointsExpiryReport,
+} from "@/actions/points-expiry";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const monthFormatter = new Intl.DateTimeFormat("es-AR", { month: "short", year: "2-digit" });
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+type PolicyForm = {
+  isActive: boolean;
+  inactivityDays: string;
+  warningDays: string;
+};
+
+export function PointsExpiryCard() {
+  const notification = useNotification();
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [report, setReport] = useState<PointsExpiryReport | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(unwrapAction(await getPointsExpiryReportAction()));
+    } catch (error) {
+      logger.error("Error loading points expiry report", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    getPointsExpiryPolicyAction()
+      .then((result) => {
+        const policy = unwrapAction(result);
+        setForm({
+          isActive: policy.isActive,
+          inactivityDays: policy.inactivityDays.toString(),
+          warningDays: policy.warningDays.toString(),
+        });
+      })
+      .catch((error) => logger.error("Error loading points expiry policy", error));
+    void loadReport();
+  }, [loadReport]);
+
+  const handleSave = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+
+    try {
+      unwrapAction(
+        await updatePointsExpiryPolicyAction({
+          isActive: form.isActive,
+          inactivityDays: Number(form.inactivityDays),
+          warningDays: Number(form.warningDays),
+        }),
+      );
+      notification.success("Regla de vencimiento actualizada.");
+      await loadReport();
+    } catch (error) {
+      logger.error("Error updating points expiry policy", error);
+      notification.error(getErrorMessage(error, "No se pudo guardar la regla."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+
+    try {
+      const result = unwrapAction(await runPointsExpiryAction());
+      notification.success(
+        `${result.expired.length} saldos vencidos (${pointsFormatter.format(result.totalPoints)} puntos).`,
+      );
+      await loadReport();
+    } catch (error) {
+      logger.error("Error running points expiry", error);
+      notification.error(getErrorMessage(error, "No se pudo ejecutar el vencimiento."));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="size-5 text-primary" />
+          Vencimiento de puntos
+        </CardTitle>
+        <CardDescription>
+          El saldo vence tras los días indicados sin cargas ni canjes. Se procesa todas las noches.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report && (
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="rounded-lg border border-border/70 bg-background/80 p-4">
+              <div className="text-sm text-muted-foreground">Vencidos (30 días)</div>
+              <div className="text-2xl font-semibold">{pointsFormatter.format(report.expiredLast30Days)}</div>
+              <div className="text-xs text-muted-foreground">{report.clientsLast30Days} clientes</div>
+            </div>
+            <div className="rounded-lg border border-border/70 bg-background/80 p-4">
+              <div className="text-sm text-muted-foreground">Vencidos (total)</div>
+              <div className="text-2xl font-semibold">{pointsFormatter.format(report.expiredTotal)}</div>
+            </div>
+            <div className="rounded-lg border border-border/70 bg-background/80 p-4">
+              <div className="text-sm text-muted-foreground">Por vencer</div>
+              <div className="text-2xl font-semibold">{pointsFormatter.format(report.upcomingPoints)}</div>
+              <div className="text-xs text-muted-foreground">{report.upcomingClients} clientes avisados</div>
+            </div>
+          </div>
+        )}
+
+        {report && (
+          <div className="grid grid-cols-3 gap-2 text-sm sm:grid-cols-6">
+            {report.byMonth.map((row) => {
+              const [year, month] = row.month.split("-").map(Number);
+
+              return (
+                <div key={row.month} className="rounded-md border border-border/60 px-2 py-1 text-center">
+                  <div className="text-xs capitalize text-muted-foreground">
+                    {monthFormatter.format(new Date(year, month - 1, 1))}
+                  </div>
+                  <div className="font-medium">{pointsFormatter.format(row.points)}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {!form ? (
+          <p className="text-sm text-muted-foreground">Cargando...</p>
+        ) : (
+          <form className="space-y-3" onSubmit={handleSave}>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm((prev) => prev && { ...prev, isActive: e.target.checked })}
+              />
+              Vencimiento activo
+            </label>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Días sin movimientos</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={form.inactivityDays}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, inactivityDays: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Avisar con (días de anticipación)</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.warningDays}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, warningDays: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button type="submit" size="sm" disabled={isSaving}>
+                {isSaving ? "Guardando..." : "Guardar"}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={isRunning || !form.isActive}
+                onClick={() => void handleRun()}
+              >
+                {isRunning ? "Procesando..." : "Vencer ahora"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
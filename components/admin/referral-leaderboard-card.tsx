@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Trophy } from "lucide-react";
+
+import {
+  getReferralLeaderboardAction,
+  type ReferralLeaderboardRow,
+} from "@/actions/referrals";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+export function ReferralLeaderboardCard() {
+  const [rows, setRows] = useState<ReferralLeaderboardRow[]>([]);
+
+  useEffect(() => {
+    getReferralLeaderboardAction({ limit: 10 })
+      .then((result) => {
+        if (isForbidden(result)) {
+          logger.error("Referral leaderboard forbidden", result.error);
+          return;
+        }
+        setRows(result);
+      })
+      .catch((error) => logger.error("Error loading referral leaderboard", error));
+  }, []);
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="size-5 text-primary" />
+          Ranking de referidos
+        </CardTitle>
+        <CardDescription>Clientes que más jugadores trajeron</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Todavía no hay clientes referidos.</p>
+        ) : (
+          rows.map((row, index) => (
+            <div
+              key={row.clientId}
+              className="flex items-center justify-between rounded-lg border border-border/70 bg-background/80 p-4"
+            >
+              <div className="flex flex-col gap-1">
+                <span className="font-medium">
+                  {index + 1}. @{row.username}
+                </span>
+                <span className="text-sm text-muted-foreground">Código {row.referralCode}</span>
+              </div>
+              <div className="flex items-center gap-6 text-sm">
+                <div className="text-right">
+                  <div className="font-medium">{row.referrals}</div>
+                  <div className="text-muted-foreground">Referidos</div>
+                </div>
+                <div className="text-right">
+                  <div className="font-medium">{row.qualified}</div>
+                  <div className="text-muted-foreground">Con carga</div>
+                </div>
+                <div className="text-right">
+                  <div className="font-medium">{pointsFormatter.format(row.rewardPoints)}</div>
+                  <div className="text-muted-foreground">Premios</div>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Handshake } from "lucide-react";
+
+import {
+  getReferralProgramAction,
+  updateReferralProgramAction,
+} from "@/actions/referrals";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type ProgramForm = {
+  isActive: boolean;
+  referrerReward: string;
+  referredReward: string;
+  minFirstCharge: string;
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function ReferralProgramCard() {
+  const notification = useNotification();
+  const [form, setForm] = useState<ProgramForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getReferralProgramAction()
+      .then((result) => {
+        const program = unwrapAction(result);
+        setForm({
+          isActive: program.isActive,
+          referrerReward: String(program.referrerReward),
+          referredReward: String(program.referredReward),
+          minFirstCharge: String(program.minFirstCharge),
+        });
+      })
+      .catch((error) => logger.error("Error loading referral program", error));
+  }, []);
+
+  const handleSave = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+
+    try {
+      unwrapAction(
+        await updateReferralProgramAction({
+          isActive: form.isActive,
+          referrerReward: Number(form.referrerReward) || 0,
+          referredReward: Number(form.referredReward) || 0,
+          minFirstCharge: Number(form.minFirstCharge) || 0,
+        }),
+      );
+      notification.success("Programa de referidos actualizado.");
+    } catch (error) {
+      logger.error("Error updating referral program", error);
+      notification.error(getErrorMessage(error, "No se pudo guardar el programa."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Handshake className="size-5 text-primary" />
+          Programa de referidos
+        </CardTitle>
+        <CardDescription>
+          Los premios se acreditan una sola vez, con la primera carga del cliente referido
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!form ? (
+          <p className="text-sm text-muted-foreground">Cargando...</p>
+        ) : (
+          <form className="space-y-3" onSubmit={handleSave}>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm((prev) => prev && { ...prev, isActive: e.target.checked })}
+              />
+              Programa activo
+            </label>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Premio para quien refiere</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.referrerReward}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, referrerReward: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Premio para el referido</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.referredReward}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, referredReward: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Primera carga mínima</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.minFirstCharge}
+                  onChange={(e) => setForm((prev) => prev && { ...prev, minFirstCharge: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving ? "Guardando..." : "Guardar"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ShieldCheck } from "lucide-react";
+
+import {
+  getTwoFactorPoliciesAction,
+  setTwoFactorPolicyAction,
+  type TwoFactorPolicyRow,
+} from "@/actions/security";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+const ROLE_LABELS: Record<TwoFactorPolicyRow["role"], string> = {
+  ADMIN: "Administradores",
+  CASHIER: "Cajeros",
+  AGENT: "Agentes",
+};
+
+export function TwoFactorPolicyCard() {
+  const notification = useNotification();
+  const [policies, setPolicies] = useState<TwoFactorPolicyRow[]>([]);
+  const [savingRole, setSavingRole] = useState<TwoFactorPolicyRow["role"] | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      const data = await getTwoFactorPoliciesAction();
+
+      if (isForbidden(data)) {
+        logger.error("Two-factor policies forbidden", data.error);
+        return;
+      }
+
+      setPolicies(data);
+    } catch (error) {
+      logger.error("Error loading two-factor policies", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPolicies();
+  }, [loadPolicies]);
+
+  const handleToggle = async (policy: TwoFactorPolicyRow) => {
+    setSavingRole(policy.role);
+
+    try {
+      const result = await setTwoFactorPolicyAction({
+        role: policy.role,
+        requireTwoFactor: !policy.requireTwoFactor,
+      });
+
+      if (isForbidden(result)) {
+        notification.error(result.error);
+        return;
+      }
+
+      notification.success(
+        result.requireTwoFactor
+          ? `2FA obligatorio para ${ROLE_LABELS[policy.role].toLowerCase()}. Se cerraron ${result.revokedSessions} sesiones sin 2FA.`
+          : `2FA opcional para ${ROLE_LABELS[policy.role].toLowerCase()}.`,
+      );
+      await loadPolicies();
+    } catch (error) {
+      logger.error("Error updating two-factor policy", error);
+      notification.error("No se pudo actualizar la política.");
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="size-5 text-primary" />
+          Verificación en dos pasos por rol
+        </CardTitle>
+        <CardDescription>
+          Los roles obligatorios deben activar 2FA en su próximo inicio de sesión
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {policies.map((policy) => (
+          <div
+            key={policy.role}
+            className="flex items-center justify-between rounded-lg border border-border/70 bg-background/80 p-4"
+          >
+            <div className="flex flex-col gap-1">
+              <span className="font-medium">{ROLE_LABELS[policy.role]}</span>
+              <span className="text-sm text-muted-foreground">
+                {policy.requireTwoFactor ? "Obligatorio" : "Opcional"} ·{" "}
+                {policy.usersWithoutTwoFactor} usuarios sin 2FA
+              </span>
+            </div>
+            <Button
+              variant={policy.requireTwoFactor ? "outline" : "default"}
+              size="sm"
+              disabled={savingRole === policy.role}
+              onClick={() => handleToggle(policy)}
+            >
+              {policy.requireTwoFactor ? "Hacer opcional" : "Exigir 2FA"}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
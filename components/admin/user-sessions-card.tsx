@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LogOut, MonitorSmartphone, UserCheck, UserX } from "lucide-react";
+
+import { setUserActiveAction } from "@/actions";
+import {
+  listUserSessionsAction,
+  revokeUserSessionsAction,
+  type UserSessionsRow,
+} from "@/actions/security";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import { describeUserAgent } from "@/lib/user-agent";
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function UserSessionsCard() {
+  const notification = useNotification();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const [users, setUsers] = useState<UserSessionsRow[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [workingId, setWorkingId] = useState<number | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setUsers(unwrapAction(await listUserSessionsAction()));
+    } catch (error) {
+      logger.error("Error loading user sessions", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadUsers();
+  }, [loadUsers]);
+
+  const runForUser = async (
+    user: UserSessionsRow,
+    action: () => Promise<void>,
+    fallbackError: string,
+  ) => {
+    setWorkingId(user.id);
+
+    try {
+      await action();
+      await loadUsers();
+    } catch (error) {
+      logger.error(fallbackError, error);
+      notification.error(getErrorMessage(error, fallbackError));
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  const handleRevokeAll = (user: UserSessionsRow) =>
+    runForUser(user, async () => {
+      const result = unwrapAction(await revokeUserSessionsAction({ userId: user.id }));
+      notification.success(`Se cerraron ${result.revokedSessions} sesiones de @${user.username}.`);
+    }, "No se pudieron cerrar las sesiones.");
+
+  const handleToggleActive = (user: UserSessionsRow) =>
+    runForUser(user, async () => {
+      const result = unwrapAction(
+        await setUserActiveAction({ userId: user.id, isActive: !user.isActive }),
+      );
+      notification.success(
+        result.isActive
+          ? `@${user.username} fue reactivado.`
+          : `@${user.username} fue desactivado y se cerraron ${result.revokedSessions} sesiones.`,
+      );
+    }, "No se pudo actualizar el usuario.");
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="size-5 text-primary" />
+          Sesiones del equipo
+        </CardTitle>
+        <CardDescription>
+          Dispositivos conectados por usuario. Desactivar a alguien cierra sus sesiones y su chat
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="max-h-[32rem] space-y-2 overflow-y-auto">
+        {users.map((user) => (
+          <div key={user.id} className="rounded-md border border-border/60 px-3 py-2 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <button
+                type="button"
+                className="flex flex-col text-left"
+                onClick={() => setExpandedId((current) => (current === user.id ? null : user.id))}
+              >
+                <span className="font-medium">
+                  {user.name} <span className="text-muted-foreground">@{user.username}</span>
+                </span>
+                <span className="text-muted-foreground">
+                  {user.isActive ? `${user.sessions.length} sesiones activas` : "Inactivo"}
+                </span>
+              </button>
+              <div className="flex gap-2">
+                {user.sessions.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={workingId === user.id}
+                    onClick={() => handleRevokeAll(user)}
+                  >
+                    <LogOut className="size-4" />
+                    Cerrar sesiones
+                  </Button>
+                )}
+                {user.id !== currentUserId && (
+                  <Button
+                    variant={user.isActive ? "ghost" : "outline"}
+                    size="sm"
+                    disabled={workingId === user.id}
+                    onClick={() => handleToggleActive(user)}
+                  >
+                    {user.isActive ? <UserX className="size-4" /> : <UserCheck className="size-4" />}
+                    {user.isActive ? "Desactivar" : "Reactivar"}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {expandedId === user.id && user.sessions.length > 0 && (
+              <ul className="mt-2 space-y-1 border-t border-border/60 pt-2 text-muted-foreground">
+                {user.sessions.map((session) => (
+                  <li key={session.id} className="flex justify-between gap-2">
+                    <span>
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && " (esta sesión)"}
+                    </span>
+                    <span>
+                      {session.ipAddress ?? "IP desconocida"} ·{" "}
+                      {dateTimeFormatter.format(new Date(session.lastSeenAt))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,26 +3,92 @@
 import { PropsWithChildren, useEffect, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 
-import { getDashboardRouteForRole } from "@/lib/auth";
+import { CHANGE_PASSWORD_ROUTE, getDashboardRouteForRole } from "@/lib/auth";
+import { logger } from "@/lib/logger";
 import { useAuthStore } from "@/stores/auth-store";
-import type { AuthRole } from "@/types/auth";
-
-function useAuthHydration() {
-  const [hydrated, setHydrated] = useState(
-    () => useAuthStore.persist?.hasHydrated?.() ?? false,
+import type { AuthRole, AuthUser, SessionResponse } from "@/types/auth";
+
+type SessionStatus = "loading" | "authenticated" | "unauthenticated";
+
+// Sessions revoked remotely (sign out everywhere, deactivation) are noticed
+// within this interval; pages holding a live connection pass a shorter one.
+const SESSION_RECHECK_INTERVAL_MS = 30 * 1000;
+
+function isSameUser(a: AuthUser | null, b: AuthUser) {
+  return (
+    !!a &&
+    a.id === b.id &&
+    a.name === b.name &&
+    a.username === b.username &&
+    a.role === b.role &&
+    a.mustChangePassword === b.mustChangePassword
   );
+}
+
+// The persisted store is only a display cache: the server session decides.
+function useServerSession(recheckIntervalMs: number) {
+  const pathname = usePathname();
+  const login = useAuthStore((state) => state.login);
+  const logout = useAuthStore((state) => state.logout);
+  const [status, setStatus] = useState<SessionStatus>("loading");
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [recheck, setRecheck] = useState(0);
 
   useEffect(() => {
-    const unsub = useAuthStore.persist?.onFinishHydration?.(() => {
-      setHydrated(true);
+    const trigger = () => setRecheck((value) => value + 1);
+    const interval = window.setInterval(trigger, recheckIntervalMs);
+    window.addEventListener("focus", trigger);
+    // A page signed the store out (an action came back UNAUTHENTICATED): ask
+    // the server now instead of waiting for the next tick
+    const unsubscribe = useAuthStore.subscribe((state, previous) => {
+      if (previous.isAuthenticated && !state.isAuthenticated) trigger();
     });
 
     return () => {
-      unsub?.();
+      window.clearInterval(interval);
+      window.removeEventListener("focus", trigger);
+      unsubscribe();
     };
-  }, []);
+  }, [recheckIntervalMs]);
 
-  return hydrated;
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/session", { cache: "no-store" })
+      .then((response) => response.json() as Promise<SessionResponse>)
+      .then((result) => {
+        if (cancelled) return;
+
+        if (result.authenticated) {
+          // Same user on every recheck: keep references stable so consumers
+          // of the store don't re-run their effects
+          if (!isSameUser(useAuthStore.getState().user, result.user)) {
+            login(result.user);
+          }
+          setUser((current) => (isSameUser(current, result.user) ? current : result.user));
+          setStatus("authenticated");
+        } else {
+          logout();
+          setUser(null);
+          setStatus("unauthenticated");
+        }
+      })
+      .catch((error) => {
+        logger.error("Error resolving session", error);
+        if (cancelled) return;
+        // A network blip on a periodic recheck must not sign the user out
+        if (recheck > 0 && useAuthStore.getState().isAuthenticated) return;
+        logout();
+        setUser(null);
+        setStatus("unauthenticated");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [login, logout, pathname, recheck]);
+
+  return { status, user };
 }
 
 function resolveFallbackRoute(role: AuthRole | undefined, pathname: string) {
@@ -40,26 +106,31 @@ function resolveFallbackRoute(role: AuthRole | undefined, pathname: string) {
 export function AuthGuard({
   children,
   allowedRoles,
-}: PropsWithChildren<{ allowedRoles?: AuthRole[] }>) {
+  recheckIntervalMs = SESSION_RECHECK_INTERVAL_MS,
+}: PropsWithChildren<{ allowedRoles?: AuthRole[]; recheckIntervalMs?: number }>) {
   const router = useRouter();
   const pathname = usePathname();
-  const hydrated = useAuthHydration();
-  const { isAuthenticated, user } = useAuthStore();
+  const { status, user } = useServerSession(recheckIntervalMs);
 
   useEffect(() => {
-    if (!hydrated) return;
+    if (status === "loading") return;
 
-    if (!isAuthenticated || !user) {
+    if (status === "unauthenticated" || !user) {
       router.replace("/login");
       return;
     }
 
+    if (user.mustChangePassword && pathname !== CHANGE_PASSWORD_ROUTE) {
+      router.replace(CHANGE_PASSWORD_ROUTE);
+      return;
+    }
+
     if (allowedRoles && !allowedRoles.includes(user.role)) {
       router.replace(resolveFallbackRoute(user.role, pathname));
     }
-  }, [allowedRoles, hydrated, isAuthenticated, pathname, router, user]);
+  }, [allowedRoles, pathname, router, status, user]);
 
-  if (!hydrated) {
+  if (status === "loading") {
     return (
       <div className="grid min-h-screen place-items-center bg-background">
         <p className="text-sm text-muted-foreground">
@@ -69,7 +140,11 @@ export function AuthGuard({
     );
   }
 
-  if (!isAuthenticated || !user) {
+  if (status === "unauthenticated" || !user) {
+    return null;
+  }
+
+  if (user.mustChangePassword && pathname !== CHANGE_PASSWORD_ROUTE) {
     return null;
   }
 
@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { LogIn } from "lucide-react";
+import { KeyRound, LogIn } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -15,9 +15,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { getDashboardRouteForRole } from "@/lib/auth";
+import { CHANGE_PASSWORD_ROUTE, getDashboardRouteForRole } from "@/lib/auth";
 import { useAuthStore } from "@/stores/auth-store";
-import type { LoginResponse } from "@/types/auth";
+import type {
+  AuthUser,
+  LoginResponse,
+  TwoFactorEnrollment,
+} from "@/types/auth";
 import { logger } from "@/lib/logger";
 
 export function LoginCard() {
@@ -28,6 +32,15 @@ export function LoginCard() {
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactor, setTwoFactor] = useState<{
+    step: "verify" | "enroll";
+    challenge: string;
+    enrollment?: TwoFactorEnrollment;
+  } | null>(null);
+  const [backupCodes, setBackupCodes] = useState<{
+    user: AuthUser;
+    codes: string[];
+  } | null>(null);
 
   useEffect(() => {
     if (isAuthenticated && user) {
@@ -60,25 +73,7 @@ export function LoginCard() {
       });
 
       const result = (await response.json()) as LoginResponse;
-
-      if (!response.ok) {
-        const errorMessage =
-          !result.success && "error" in result
-            ? result.error
-            : "No pudimos iniciar sesión. Intentá de nuevo.";
-        setError(errorMessage);
-        setIsSubmitting(false);
-        return;
-      }
-
-      if (!result.success) {
-        setError(result.error);
-        setIsSubmitting(false);
-        return;
-      }
-
-      login(result.user);
-      router.replace(getDashboardRouteForRole(result.user.role));
+      handleLoginResponse(response, result);
     } catch (err) {
       logger.error(err);
       setError("Ocurrió un error al iniciar sesión. Intentá de nuevo.");
@@ -86,6 +81,183 @@ export function LoginCard() {
     }
   };
 
+  const handleVerifyCode = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!twoFactor) return;
+
+    setError(null);
+    setIsSubmitting(true);
+
+    const formData = new FormData(event.currentTarget);
+    const code = String(formData.get("code") ?? "").trim();
+
+    if (!code) {
+      setError("Ingresá el código de verificación.");
+      setIsSubmitting(false);
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/login/two-factor", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ challenge: twoFactor.challenge, code }),
+      });
+
+      const result = (await response.json()) as LoginResponse;
+
+      handleLoginResponse(response, result);
+    } catch (err) {
+      logger.error(err);
+      setError("Ocurrió un error al verificar el código. Intentá de nuevo.");
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLoginResponse = (response: Response, result: LoginResponse) => {
+    if (!result.success && "twoFactorStep" in result) {
+      setTwoFactor({
+        step: result.twoFactorStep,
+        challenge: result.challenge,
+        enrollment: result.enrollment,
+      });
+      setIsSubmitting(false);
+      return;
+    }
+
+    if (!response.ok || !result.success) {
+      const errorMessage =
+        !result.success && "error" in result
+          ? result.error
+          : "No pudimos iniciar sesión. Intentá de nuevo.";
+      setError(errorMessage);
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Freshly enrolled: show the backup codes once before entering
+    if (result.backupCodes?.length) {
+      setBackupCodes({ user: result.user, codes: result.backupCodes });
+      setIsSubmitting(false);
+      return;
+    }
+
+    completeLogin(result.user);
+  };
+
+  const completeLogin = (authUser: AuthUser) => {
+    login(authUser);
+    router.replace(
+      authUser.mustChangePassword
+        ? CHANGE_PASSWORD_ROUTE
+        : getDashboardRouteForRole(authUser.role),
+    );
+  };
+
+  if (backupCodes) {
+    return (
+      <Card className="w-full border-border/80">
+        <CardHeader className="space-y-4">
+          <CardTitle className="text-2xl font-semibold tracking-tight">
+            Códigos de respaldo
+          </CardTitle>
+          <CardDescription>
+            Guardalos en un lugar seguro. Cada código sirve una sola vez si
+            perdés acceso a tu app de autenticación.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-5">
+          <ul className="grid grid-cols-2 gap-2 rounded-md border border-border/70 bg-muted/40 p-4 font-mono text-sm">
+            {backupCodes.codes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </ul>
+          <Button className="w-full" onClick={() => completeLogin(backupCodes.user)}>
+            Ya los guardé, continuar
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (twoFactor) {
+    return (
+      <Card className="w-full border-border/80">
+        <CardHeader className="space-y-4">
+          <CardTitle className="text-2xl font-semibold tracking-tight">
+            {twoFactor.step === "enroll"
+              ? "Activá la verificación en dos pasos"
+              : "Verificación en dos pasos"}
+          </CardTitle>
+          <CardDescription>
+            {twoFactor.step === "enroll"
+              ? "Tu rol requiere 2FA. Escaneá el código QR con tu app de autenticación e ingresá el código que genera."
+              : "Ingresá el código de 6 dígitos de tu app de autenticación o uno de tus códigos de respaldo."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="grid gap-5" onSubmit={handleVerifyCode}>
+            {twoFactor.enrollment && (
+              <div className="flex flex-col items-center gap-3">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={twoFactor.enrollment.qrCodeDataUrl}
+                  alt="Código QR para la app de autenticación"
+                  className="size-48 rounded-md border border-border/70 bg-white p-2"
+                />
+                <p className="break-all text-center font-mono text-xs text-muted-foreground">
+                  {twoFactor.enrollment.secret}
+                </p>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <label htmlFor="code" className="text-sm font-medium text-foreground">
+                Código de verificación
+              </label>
+              <Input
+                id="code"
+                name="code"
+                autoComplete="one-time-code"
+                inputMode="text"
+                placeholder="123456"
+                required
+                autoFocus
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                "Verificando..."
+              ) : (
+                <>
+                  <KeyRound className="size-4" />
+                  Verificar
+                </>
+              )}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              disabled={isSubmitting}
+              onClick={() => {
+                setTwoFactor(null);
+                setError(null);
+              }}
+            >
+              Volver
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full border-border/80">
       <CardHeader className="space-y-4">
@@ -118,7 +290,7 @@ export function LoginCard() {
             <div className="flex items-center justify-between text-sm font-medium text-foreground">
               <label htmlFor="password">Contraseña</label>
               <Link
-                href="#"
+                href="/reset-password"
                 className="text-sm font-medium text-primary transition hover:text-primary/80"
               >
                 ¿Olvidaste tu contraseña?
@@ -151,13 +323,7 @@ export function LoginCard() {
       </CardContent>
       <CardFooter className="flex-col gap-2 text-sm text-muted-foreground">
         <div>
-          ¿No tenés una cuenta?{" "}
-          <Link
-            href="/register"
-            className="font-medium text-primary hover:text-primary/80"
-          >
-            Creá una
-          </Link>
+          ¿No tenés una cuenta? Pedile una invitación a un administrador.
         </div>
         <p className="text-xs text-muted-foreground/80">
           Al continuar, aceptás nuestros Términos de Servicio y reconocés
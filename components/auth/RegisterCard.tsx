@@ -19,8 +19,16 @@ import { Input } from "@/components/ui/input";
 import { getDashboardRouteForRole } from "@/lib/auth";
 import { useAuthStore } from "@/stores/auth-store";
 import { logger } from "@/lib/logger";
+import {
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_POLICY_HINT,
+} from "@/lib/password-policy";
 
-export function RegisterCard() {
+export function RegisterCard({
+  invitationToken,
+}: {
+  invitationToken?: string;
+}) {
   const router = useRouter();
   const login = useAuthStore((state) => state.login);
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
@@ -51,6 +59,11 @@ export function RegisterCard() {
         return;
       }
 
+      if (result.requiresLogin) {
+        router.replace("/login");
+        return;
+      }
+
       login(result.user);
       router.replace(getDashboardRouteForRole(result.user.role));
     } catch (err) {
@@ -60,6 +73,33 @@ export function RegisterCard() {
     }
   };
 
+  if (!invitationToken) {
+    return (
+      <Card className="w-full border-border/80">
+        <CardHeader className="space-y-4">
+          <CardTitle className="text-2xl font-semibold tracking-tight">
+            Registro por invitación
+          </CardTitle>
+          <CardDescription>
+            Para crear una cuenta necesitás el enlace de invitación que te
+            envía un administrador.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter className="text-sm text-muted-foreground">
+          <div>
+            ¿Ya tenés una cuenta?{" "}
+            <Link
+              href="/login"
+              className="font-medium text-primary hover:text-primary/80"
+            >
+              Iniciar sesión
+            </Link>
+          </div>
+        </CardFooter>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full border-border/80">
       <CardHeader className="space-y-4">
@@ -67,11 +107,12 @@ export function RegisterCard() {
           Creá tu cuenta
         </CardTitle>
         <CardDescription>
-          Empezá tu prueba gratis de 14 días. No necesitás tarjeta de crédito.
+          Completá tus datos para aceptar la invitación al equipo.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form className="grid gap-5" onSubmit={handleSubmit}>
+          <input type="hidden" name="invitationToken" value={invitationToken} />
           <div className="grid gap-2 sm:grid-cols-2 sm:gap-4">
             <div className="grid gap-2">
               <label
@@ -151,8 +192,12 @@ export function RegisterCard() {
               autoComplete="new-password"
               placeholder="Creá una contraseña segura"
               required
+              minLength={PASSWORD_MIN_LENGTH}
               disabled={isSubmitting}
             />
+            <p className="text-xs text-muted-foreground">
+              {PASSWORD_POLICY_HINT}
+            </p>
           </div>
           <div className="space-y-3 text-xs text-muted-foreground">
             <label className="flex items-start gap-2 text-left">
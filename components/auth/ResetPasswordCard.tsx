@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { KeyRound } from "lucide-react";
+
+import { resetPasswordWithTokenAction } from "@/actions/account";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { logger } from "@/lib/logger";
+import {
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_POLICY_HINT,
+} from "@/lib/password-policy";
+
+export function ResetPasswordCard({ resetToken }: { resetToken?: string }) {
+  const router = useRouter();
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    const formData = new FormData(event.currentTarget);
+
+    try {
+      const result = await resetPasswordWithTokenAction(formData);
+
+      if (!result.success) {
+        setError(result.error);
+        setIsSubmitting(false);
+        return;
+      }
+
+      setDone(true);
+      setIsSubmitting(false);
+    } catch (err) {
+      logger.error(err);
+      setError("Ocurrió un error al cambiar la contraseña. Intentá de nuevo.");
+      setIsSubmitting(false);
+    }
+  };
+
+  const loginFooter = (
+    <CardFooter className="text-sm text-muted-foreground">
+      <div>
+        ¿Ya la recordaste?{" "}
+        <Link
+          href="/login"
+          className="font-medium text-primary hover:text-primary/80"
+        >
+          Iniciar sesión
+        </Link>
+      </div>
+    </CardFooter>
+  );
+
+  if (!resetToken) {
+    return (
+      <Card className="w-full border-border/80">
+        <CardHeader className="space-y-4">
+          <CardTitle className="text-2xl font-semibold tracking-tight">
+            Recuperar contraseña
+          </CardTitle>
+          <CardDescription>
+            Pedile a un administrador que genere un enlace de reseteo para tu
+            usuario. El enlace vence a las 24 horas y sirve una sola vez.
+          </CardDescription>
+        </CardHeader>
+        {loginFooter}
+      </Card>
+    );
+  }
+
+  if (done) {
+    return (
+      <Card className="w-full border-border/80">
+        <CardHeader className="space-y-4">
+          <CardTitle className="text-2xl font-semibold tracking-tight">
+            Contraseña actualizada
+          </CardTitle>
+          <CardDescription>
+            Cerramos todas tus sesiones abiertas. Ingresá con tu nueva
+            contraseña.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button className="w-full" onClick={() => router.replace("/login")}>
+            Ir a iniciar sesión
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full border-border/80">
+      <CardHeader className="space-y-4">
+        <CardTitle className="text-2xl font-semibold tracking-tight">
+          Elegí una nueva contraseña
+        </CardTitle>
+        <CardDescription>{PASSWORD_POLICY_HINT}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="grid gap-5" onSubmit={handleSubmit}>
+          <input type="hidden" name="token" value={resetToken} />
+          <div className="grid gap-2">
+            <label
+              htmlFor="password"
+              className="text-sm font-medium text-foreground"
+            >
+              Nueva contraseña
+            </label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="grid gap-2">
+            <label
+              htmlFor="confirmPassword"
+              className="text-sm font-medium text-foreground"
+            >
+              Repetí la contraseña
+            </label>
+            <Input
+              id="confirmPassword"
+              name="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? (
+              "Guardando..."
+            ) : (
+              <>
+                <KeyRound className="size-4" />
+                Cambiar contraseña
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+      {loginFooter}
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Gift } from "lucide-react";
+
+import { previewPromotionAction } from "@/actions/promotions";
+import type { PromotionMatch } from "@/lib/promotions";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+
+const PREVIEW_DELAY_MS = 400;
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+/**
+ * Bonus the charge would earn with the current promotions. The server
+ * evaluates them again when the charge is saved; this is only a hint.
+ */
+export function BonusPreview({ clientId, amount }: { clientId: number; amount: number }) {
+  const [preview, setPreview] = useState<{ amount: number; match: PromotionMatch | null } | null>(null);
+
+  useEffect(() => {
+    if (!Number.isInteger(amount) || amount <= 0) return;
+
+    let cancelled = false;
+
+    // Debounced: one request once the cashier stops typing
+    const timer = setTimeout(() => {
+      previewPromotionAction({ clientId, amount })
+        .then((result) => {
+          if (cancelled || isForbidden(result)) return;
+          setPreview({ amount, match: result });
+        })
+        .catch((error) => logger.error("Error previewing promotion", error));
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [clientId, amount]);
+
+  // A stale preview for another amount is hidden, not shown
+  if (!preview?.match || preview.amount !== amount) return null;
+
+  return (
+    <p className="flex items-center gap-1 text-xs text-primary">
+      <Gift className="size-3" />+{pointsFormatter.format(preview.match.bonus)} de bonificación ·{" "}
+      {preview.match.name}
+    </p>
+  );
+}
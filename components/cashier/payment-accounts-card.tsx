@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Landmark } from "lucide-react";
+
+import {
+  getPaymentAccountDaySummaryAction,
+  type PaymentAccountDaySummary,
+} from "@/actions/payment-accounts";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payment-methods";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+/**
+ * Inflow and payouts of each account on `date`. `refreshKey` changes after
+ * every charge so the totals follow the counter.
+ */
+export function PaymentAccountsCard({ date, refreshKey }: { date: string; refreshKey?: unknown }) {
+  const [accounts, setAccounts] = useState<PaymentAccountDaySummary[] | null>(null);
+
+  useEffect(() => {
+    getPaymentAccountDaySummaryAction({ date })
+      .then((result) => {
+        if (isForbidden(result)) {
+          logger.error("Payment account summary forbidden", result.error);
+          return;
+        }
+        setAccounts(result);
+      })
+      .catch((error) => logger.error("Error loading payment account summary", error));
+  }, [date, refreshKey]);
+
+  // Nothing to show until an admin sets up the accounts
+  if (!accounts || accounts.length === 0) return null;
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="size-5 text-primary" />
+          Cuentas de cobro
+        </CardTitle>
+        <CardDescription>Ingresos y retiros pagados del día por cuenta</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+        {accounts.map((account) => {
+          const usage = account.dailyInflowCap
+            ? Math.min(100, Math.round((account.day.inflow / account.dailyInflowCap) * 100))
+            : null;
+
+          return (
+            <div
+              key={account.id}
+              className={`space-y-2 rounded-lg border p-3 text-sm ${
+                account.overCap ? "border-destructive/60 bg-destructive/5" : "border-border/70 bg-background/80"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{account.name}</span>
+                <span className="text-xs text-muted-foreground">{PAYMENT_METHOD_LABELS[account.method]}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div>
+                  <p className="text-muted-foreground">Ingresos</p>
+                  <p className="font-medium">{amountFormatter.format(account.day.inflow)}</p>
+                  <p className="text-muted-foreground">{account.day.charges} cargas</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Retiros</p>
+                  <p className="font-medium">{amountFormatter.format(account.day.outflow)}</p>
+                  <p className="text-muted-foreground">{account.day.payouts} pagos</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Neto</p>
+                  <p className="font-medium">{amountFormatter.format(account.day.inflow - account.day.outflow)}</p>
+                </div>
+              </div>
+              {usage !== null && (
+                <div className="space-y-1">
+                  <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                    <div
+                      className={`h-full ${account.overCap ? "bg-destructive" : "bg-primary"}`}
+                      style={{ width: `${usage}%` }}
+                    />
+                  </div>
+                  <p className={`text-xs ${account.overCap ? "font-medium text-destructive" : "text-muted-foreground"}`}>
+                    {account.overCap ? "Superó el tope de " : "Tope "}
+                    {amountFormatter.format(account.dailyInflowCap!)}
+                  </p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
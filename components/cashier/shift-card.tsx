@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { LockKeyhole, Printer, Wallet } from "lucide-react";
+import type { PaymentMethod } from "@prisma/client";
+
+import {
+  closeShiftAction,
+  getCurrentShiftAction,
+  openShiftAction,
+  type ShiftSummary,
+} from "@/actions/shifts";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from "@/lib/payment-methods";
+import { useNotification } from "@/lib/useNotification";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function formatDifference(value: number) {
+  if (value === 0) return "Sin diferencia";
+  return value > 0
+    ? `Sobrante ${amountFormatter.format(value)}`
+    : `Faltante ${amountFormatter.format(-value)}`;
+}
+
+export function ShiftCard() {
+  const notification = useNotification();
+  const [shift, setShift] = useState<ShiftSummary | null>(null);
+  const [closedShift, setClosedShift] = useState<ShiftSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [counted, setCounted] = useState<Partial<Record<PaymentMethod, string>>>({});
+  const [note, setNote] = useState("");
+
+  const loadShift = useCallback(async () => {
+    try {
+      setShift(unwrapAction(await getCurrentShiftAction()));
+    } catch (error) {
+      logger.error("Error loading current shift", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadShift();
+  }, [loadShift]);
+
+  const handleOpen = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = Number(openingFloat || 0);
+
+    if (!Number.isInteger(amount) || amount < 0) {
+      notification.error("El fondo inicial tiene que ser un número entero.");
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      setShift(unwrapAction(await openShiftAction({ openingFloat: amount })));
+      setClosedShift(null);
+      setOpeningFloat("");
+      notification.success("Turno abierto.");
+    } catch (error) {
+      logger.error("Error opening shift", error);
+      notification.error(getErrorMessage(error, "No se pudo abrir el turno."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const amounts = Object.fromEntries(
+      PAYMENT_METHODS.map((method) => [method, Number(counted[method] || 0)]),
+    ) as Record<PaymentMethod, number>;
+
+    if (Object.values(amounts).some((value) => !Number.isInteger(value) || value < 0)) {
+      notification.error("Los montos contados tienen que ser números enteros.");
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const result = unwrapAction(await closeShiftAction({ counted: amounts, note }));
+      setClosedShift(result);
+      setShift(null);
+      setCounted({});
+      setNote("");
+      notification.success("Turno cerrado.");
+    } catch (error) {
+      logger.error("Error closing shift", error);
+      notification.error(getErrorMessage(error, "No se pudo cerrar el turno."));
+      void loadShift();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/70 bg-background/95">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="size-5 text-primary" />
+          Turno de caja
+        </CardTitle>
+        <CardDescription>
+          {shift
+            ? `Abierto el ${dateTimeFormatter.format(new Date(shift.openedAt))} con un fondo de ${amountFormatter.format(shift.openingFloat)}.`
+            : "Abrí el turno con el efectivo inicial y cerralo con el arqueo por medio de pago."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Cargando turno...</p>
+        ) : shift ? (
+          <form onSubmit={handleClose} className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+              {PAYMENT_METHODS.map((method) => (
+                <div key={method} className="space-y-1 rounded-md border border-border/60 p-3">
+                  <label className="text-sm font-medium" htmlFor={`shift-count-${method}`}>
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Esperado: {amountFormatter.format(shift.expected[method])}
+                  </p>
+                  <Input
+                    id={`shift-count-${method}`}
+                    type="number"
+                    min={0}
+                    placeholder="Contado"
+                    value={counted[method] ?? ""}
+                    onChange={(e) => setCounted((prev) => ({ ...prev, [method]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <Textarea
+              placeholder="Observaciones del cierre (opcional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                {shift.transactionCount} movimientos en este turno.
+              </p>
+              <Button type="submit" disabled={isSaving}>
+                <LockKeyhole className="size-4" />
+                {isSaving ? "Cerrando..." : "Cerrar turno"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <>
+            {closedShift && (
+              <div className="space-y-2 rounded-md border border-border/70 bg-muted/40 p-3 text-sm">
+                <p className="font-medium">
+                  Turno #{closedShift.id} cerrado · {formatDifference(closedShift.totalDifference ?? 0)}
+                </p>
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {closedShift.counts.map((row) => (
+                    <li key={row.method}>
+                      {PAYMENT_METHOD_LABELS[row.method]}: esperado {amountFormatter.format(row.expected)},
+                      contado {amountFormatter.format(row.counted)} ({formatDifference(row.difference)})
+                    </li>
+                  ))}
+                </ul>
+                <Button asChild size="sm" variant="outline">
+                  <Link href={`/cashier/shifts/${closedShift.id}`}>
+                    <Printer className="size-4" />
+                    Ver reporte
+                  </Link>
+                </Button>
+              </div>
+            )}
+            <form onSubmit={handleOpen} className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <label className="text-sm font-medium" htmlFor="shift-opening-float">
+                  Fondo inicial en efectivo
+                </label>
+                <Input
+                  id="shift-opening-float"
+                  type="number"
+                  min={0}
+                  placeholder="0"
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                  className="w-40"
+                />
+              </div>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Abriendo..." : "Abrir turno"}
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Client } from "@prisma/client";
+
+import { updateClientAction } from "@/actions/crm";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useNotification } from "@/lib/useNotification";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+type ProfileForm = {
+  phone: string;
+  fullName: string;
+  email: string;
+  birthDate: string;
+  documentId: string;
+  city: string;
+  notes: string;
+};
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// YYYY-MM-DD in local time, as the date input expects
+function toDateInputValue(value: Date | string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function toProfileForm(client: Client): ProfileForm {
+  return {
+    phone: client.phone ?? "",
+    fullName: client.fullName ?? "",
+    email: client.email ?? "",
+    birthDate: toDateInputValue(client.birthDate),
+    documentId: client.documentId ?? "",
+    city: client.city ?? "",
+    notes: client.notes ?? "",
+  };
+}
+
+export function ClientProfileDialog({
+  client,
+  onClose,
+  onSaved,
+}: {
+  client: Client | null;
+  onClose: () => void;
+  onSaved: (client: Client) => void;
+}) {
+  const notification = useNotification();
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(client ? toProfileForm(client) : null);
+  }, [client]);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!client || !form) return;
+
+    setIsSaving(true);
+
+    try {
+      // The update writes every field, so the ones not in this form go back as they are
+      const updated = unwrapAction(
+        await updateClientAction({
+          id: client.id,
+          username: client.username,
+          marketingSourceId: client.marketingSourceId,
+          phone: form.phone.trim() || null,
+          fullName: form.fullName,
+          email: form.email,
+          birthDate: form.birthDate || null,
+          documentId: form.documentId,
+          city: form.city,
+          notes: form.notes,
+        }),
+      );
+      onSaved(updated);
+      notification.success("Perfil actualizado.");
+      onClose();
+    } catch (error) {
+      logger.error("Error updating client profile", error);
+      notification.error(getErrorMessage(error, "No se pudo guardar el perfil."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const field = (key: keyof ProfileForm) => ({
+    value: form?.[key] ?? "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((prev) => prev && { ...prev, [key]: e.target.value }),
+  });
+
+  return (
+    <Dialog open={!!client} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] w-full max-w-xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Perfil de @{client?.username}</DialogTitle>
+          <DialogDescription>Todos los campos son opcionales.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Nombre completo</label>
+              <Input {...field("fullName")} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Teléfono</label>
+              <Input placeholder="+54 9 11 1234-5678" {...field("phone")} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Email</label>
+              <Input type="email" {...field("email")} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Fecha de nacimiento</label>
+              <Input type="date" {...field("birthDate")} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">DNI / CUIT</label>
+              <Input {...field("documentId")} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Ciudad</label>
+              <Input {...field("city")} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Notas</label>
+            <Textarea {...field("notes")} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
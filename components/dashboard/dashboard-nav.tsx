@@ -10,6 +10,7 @@ import type { AuthRole } from "@/types/auth";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
+import { logger } from "@/lib/logger";
 import { NotificationSettings } from "@/components/NotificationSettings";
 
 type NavItem = {
@@ -24,16 +25,51 @@ const NAV_ITEMS: NavItem[] = [
     href: "/admin",
     roles: ["ADMIN"],
   },
+  {
+    label: "Auditoría",
+    href: "/admin/audit",
+    roles: ["ADMIN"],
+  },
+  {
+    label: "Promociones",
+    href: "/admin/promotions",
+    roles: ["ADMIN"],
+  },
+  {
+    label: "Turnos de caja",
+    href: "/admin/shifts",
+    roles: ["ADMIN"],
+  },
+  {
+    label: "Cuentas de cobro",
+    href: "/admin/payment-accounts",
+    roles: ["ADMIN"],
+  },
   {
     label: "Caja diaria",
     href: "/cashier",
     roles: ["ADMIN", "CASHIER"],
   },
+  {
+    label: "Retiros",
+    href: "/cashier/withdrawals",
+    roles: ["ADMIN", "CASHIER"],
+  },
+  {
+    label: "Importar cargas",
+    href: "/cashier/imports",
+    roles: ["ADMIN", "CASHIER"],
+  },
   {
     label: "CRM",
     href: "/crm",
     roles: ["ADMIN", "AGENT"],
   },
+  {
+    label: "Mi cuenta",
+    href: "/account",
+    roles: ["ADMIN", "AGENT", "CASHIER"],
+  },
 ];
 
 function useHydratedUser() {
@@ -67,13 +103,31 @@ export function DashboardNav() {
     return NAV_ITEMS.filter((item) => item.roles.includes(user.role));
   }, [user]);
 
-  const handleLogout = () => {
+  // Longest matching href wins, so /admin/audit doesn't also light up /admin
+  const activeHref = useMemo(
+    () =>
+      items
+        .filter(
+          (item) =>
+            pathname === item.href || pathname.startsWith(`${item.href}/`),
+        )
+        .sort((a, b) => b.href.length - a.href.length)[0]?.href,
+    [items, pathname],
+  );
+
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/logout", { method: "POST" });
+    } catch (error) {
+      logger.error("Error closing session", error);
+    }
+
     logout();
     router.replace("/login");
   };
 
   return (
-    <header className="sticky top-0 z-30 border-b border-primary/20 bg-gradient-to-r from-[#3b1d68]/80 via-[#2d1559]/80 to-[#24124a]/80 text-primary-foreground backdrop-blur supports-[backdrop-filter]:bg-[#1c0d38]/60">
+    <header className="sticky top-0 z-30 print:hidden border-b border-primary/20 bg-gradient-to-r from-[#3b1d68]/80 via-[#2d1559]/80 to-[#24124a]/80 text-primary-foreground backdrop-blur supports-[backdrop-filter]:bg-[#1c0d38]/60">
       <div className="mx-auto flex w-full max-w-6xl items-center justify-between px-6 py-4">
         <Link
           href="/"
@@ -93,7 +147,7 @@ export function DashboardNav() {
         {hydrated && items.length > 0 ? (
           <nav className="hidden items-center gap-2 md:flex">
             {items.map((item) => {
-              const active = pathname.startsWith(item.href);
+              const active = item.href === activeHref;
               return (
                 <Link
                   key={item.href}
@@ -172,7 +226,7 @@ export function DashboardNav() {
                 {items.length > 0 ? (
                   <nav className="flex flex-col gap-2">
                     {items.map((item) => {
-                      const active = pathname.startsWith(item.href);
+                      const active = item.href === activeHref;
                       return (
                         <Link
                           key={item.href}
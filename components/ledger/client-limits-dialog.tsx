@@ -0,0 +1,256 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import {
+  endSelfExclusionAction,
+  getClientLimitsAction,
+  setClientLimitsAction,
+  startSelfExclusionAction,
+  type ClientLimitsSummary,
+} from "@/actions/limits";
+import { unwrapAction } from "@/lib/auth";
+import {
+  CHARGE_LIMIT_PERIOD_LABELS,
+  CHARGE_LIMIT_PERIODS,
+  isSelfExcluded,
+  type ChargeLimitPeriod,
+} from "@/lib/charge-limit-policy";
+import { logger } from "@/lib/logger";
+import { hasPermission } from "@/lib/permissions";
+import { useNotification } from "@/lib/useNotification";
+import { useAuthStore } from "@/stores/auth-store";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const SELF_EXCLUSION_OPTIONS = [
+  { days: 1, label: "24 horas" },
+  { days: 7, label: "7 días" },
+  { days: 30, label: "30 días" },
+  { days: 90, label: "3 meses" },
+  { days: 180, label: "6 meses" },
+  { days: 365, label: "1 año" },
+];
+
+const EMPTY_LIMITS: Record<ChargeLimitPeriod, string> = { DAILY: "", WEEKLY: "", MONTHLY: "" };
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function ClientLimitsDialog({
+  client,
+  onClose,
+  onChange,
+}: {
+  client: { id: number; username: string } | null;
+  onClose: () => void;
+  onChange?: (summary: ClientLimitsSummary) => void;
+}) {
+  const notification = useNotification();
+  const role = useAuthStore((state) => state.user?.role);
+  const canLiftExclusion = !!role && hasPermission(role, "limits:manage");
+  const [summary, setSummary] = useState<ClientLimitsSummary | null>(null);
+  const [limits, setLimits] = useState(EMPTY_LIMITS);
+  const [exclusionDays, setExclusionDays] = useState(SELF_EXCLUSION_OPTIONS[1].days);
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const clientId = client?.id;
+
+  const applySummary = (data: ClientLimitsSummary) => {
+    setSummary(data);
+    setLimits({
+      DAILY: data.own.DAILY?.toString() ?? "",
+      WEEKLY: data.own.WEEKLY?.toString() ?? "",
+      MONTHLY: data.own.MONTHLY?.toString() ?? "",
+    });
+  };
+
+  const loadSummary = useCallback(async () => {
+    if (!clientId) return;
+
+    try {
+      applySummary(unwrapAction(await getClientLimitsAction({ clientId })));
+    } catch (error) {
+      logger.error("Error loading client limits", error);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setSummary(null);
+    setReason("");
+    void loadSummary();
+  }, [loadSummary]);
+
+  const run = async (action: () => Promise<ClientLimitsSummary>, success: string, fallback: string) => {
+    setIsSaving(true);
+
+    try {
+      const data = await action();
+      applySummary(data);
+      onChange?.(data);
+      setReason("");
+      notification.success(success);
+    } catch (error) {
+      logger.error("Error updating client limits", error);
+      notification.error(getErrorMessage(error, fallback));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveLimits = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!clientId) return;
+
+    const parse = (value: string) => (value ? Number(value) : null);
+
+    void run(
+      async () =>
+        unwrapAction(
+          await setClientLimitsAction({
+            clientId,
+            limits: {
+              DAILY: parse(limits.DAILY),
+              WEEKLY: parse(limits.WEEKLY),
+              MONTHLY: parse(limits.MONTHLY),
+            },
+          }),
+        ),
+      "Límites actualizados.",
+      "No se pudieron guardar los límites.",
+    );
+  };
+
+  const excluded = isSelfExcluded(summary?.selfExcludedUntil);
+
+  return (
+    <Dialog open={!!client} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Juego responsable · @{client?.username}</DialogTitle>
+          <DialogDescription>
+            Límites de carga por período y autoexclusión. Un campo vacío usa el límite general.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!summary ? (
+          <p className="text-sm text-muted-foreground">Cargando...</p>
+        ) : (
+          <div className="space-y-6">
+            <form onSubmit={handleSaveLimits} className="space-y-3">
+              {CHARGE_LIMIT_PERIODS.map((period) => (
+                <div key={period} className="grid grid-cols-[1fr_8rem] items-center gap-3 text-sm">
+                  <div>
+                    <p className="font-medium capitalize">{CHARGE_LIMIT_PERIOD_LABELS[period]}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Cargado: {pointsFormatter.format(summary.usage[period])}
+                      {summary.effective[period] !== null &&
+                        ` de ${pointsFormatter.format(summary.effective[period]!)}`}
+                      {summary.own[period] === null &&
+                        (summary.defaults[period] !== null ? " (límite general)" : " · sin límite")}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder={summary.defaults[period]?.toString() ?? "Sin límite"}
+                    value={limits[period]}
+                    onChange={(e) => setLimits((prev) => ({ ...prev, [period]: e.target.value }))}
+                  />
+                </div>
+              ))}
+              <Button type="submit" size="sm" disabled={isSaving}>
+                Guardar límites
+              </Button>
+            </form>
+
+            <div className="space-y-3 rounded-md border border-border/70 bg-muted/40 p-3">
+              {excluded ? (
+                <p className="text-sm font-medium text-destructive">
+                  Autoexcluido hasta el {dateTimeFormatter.format(new Date(summary.selfExcludedUntil!))}
+                  {summary.selfExclusionReason && ` · ${summary.selfExclusionReason}`}
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Durante la autoexclusión no se le pueden registrar cargas al cliente.
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <select
+                  className="h-9 rounded-md border border-border bg-background px-3 text-sm"
+                  value={exclusionDays}
+                  onChange={(e) => setExclusionDays(Number(e.target.value))}
+                >
+                  {SELF_EXCLUSION_OPTIONS.map((option) => (
+                    <option key={option.days} value={option.days}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  className="flex-1"
+                  placeholder={excluded ? "Motivo" : "Motivo (opcional)"}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={isSaving}
+                  onClick={() =>
+                    clientId &&
+                    void run(
+                      async () =>
+                        unwrapAction(
+                          await startSelfExclusionAction({ clientId, days: exclusionDays, reason }),
+                        ),
+                      "Autoexclusión registrada.",
+                      "No se pudo registrar la autoexclusión.",
+                    )
+                  }
+                >
+                  {excluded ? "Extender autoexclusión" : "Autoexcluir"}
+                </Button>
+                {excluded && canLiftExclusion && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isSaving}
+                    onClick={() =>
+                      clientId &&
+                      void run(
+                        async () => unwrapAction(await endSelfExclusionAction({ clientId, reason })),
+                        "Autoexclusión levantada.",
+                        "No se pudo levantar la autoexclusión.",
+                      )
+                    }
+                  >
+                    Levantar
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
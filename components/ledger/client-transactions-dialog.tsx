@@ -0,0 +1,180 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ReceiptText, ShieldAlert, Undo2 } from "lucide-react";
+
+import {
+  getClientTransactionsAction,
+  type ClientTransactionRow,
+} from "@/actions/crm";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { hasPermission } from "@/lib/permissions";
+import { useAuthStore } from "@/stores/auth-store";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ClientLimitsDialog } from "@/components/ledger/client-limits-dialog";
+import {
+  ReverseTransactionDialog,
+  type ReversibleTransaction,
+} from "@/components/ledger/reverse-transaction-dialog";
+
+const TYPE_LABELS: Record<ClientTransactionRow["type"], string> = {
+  CHARGE: "Carga",
+  REDEEM: "Canje",
+  ADJUSTMENT: "Ajuste",
+  BONUS: "Bonificación",
+  REFERRAL: "Premio por referido",
+  EXPIRE: "Vencimiento",
+};
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+export function ClientTransactionsDialog({
+  client,
+  onClose,
+  onBalanceChange,
+}: {
+  client: { id: number; username: string } | null;
+  onClose: () => void;
+  onBalanceChange: (clientId: number, pointsBalance: number) => void;
+}) {
+  const role = useAuthStore((state) => state.user?.role);
+  const canReverse = !!role && hasPermission(role, "ledger:reverse");
+  const [transactions, setTransactions] = useState<ClientTransactionRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reversalTarget, setReversalTarget] = useState<ReversibleTransaction | null>(null);
+  const [showLimits, setShowLimits] = useState(false);
+
+  const clientId = client?.id;
+
+  const loadTransactions = useCallback(async () => {
+    if (!clientId) return;
+    setIsLoading(true);
+
+    try {
+      setTransactions(unwrapAction(await getClientTransactionsAction({ clientId })));
+    } catch (error) {
+      logger.error("Error loading client transactions", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setTransactions([]);
+    void loadTransactions();
+  }, [loadTransactions]);
+
+  return (
+    <>
+      <Dialog
+        open={!!client && !reversalTarget && !showLimits}
+        onOpenChange={(open) => !open && onClose()}
+      >
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Movimientos de @{client?.username}</DialogTitle>
+            <DialogDescription>
+              Últimos 50 movimientos. Los revertidos quedan tachados junto a su ajuste.
+            </DialogDescription>
+            <div>
+              <Button size="sm" variant="outline" onClick={() => setShowLimits(true)}>
+                <ShieldAlert className="size-4" />
+                Límites y autoexclusión
+              </Button>
+            </div>
+          </DialogHeader>
+          <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+            {isLoading && transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Cargando movimientos...</p>
+            ) : transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Sin movimientos registrados.</p>
+            ) : (
+              transactions.map((tx) => {
+                const isReversed = tx.reversedById !== null;
+
+                return (
+                  <div
+                    key={tx.id}
+                    className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2 text-sm"
+                  >
+                    <div className={isReversed ? "line-through text-muted-foreground" : undefined}>
+                      <p className="font-medium">
+                        #{tx.id} · {TYPE_LABELS[tx.type]}
+                        {tx.cashierName && ` · ${tx.cashierName}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {dateTimeFormatter.format(new Date(tx.createdAt))}
+                        {tx.reversesId
+                          ? ` · Revierte #${tx.reversesId}: ${tx.reversalReason ?? ""}`
+                          : tx.withdrawalId
+                            ? ` · Retiro #${tx.withdrawalId}`
+                            : tx.description && ` · ${tx.description}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`font-medium ${isReversed ? "line-through text-muted-foreground" : tx.amount < 0 ? "text-destructive" : ""}`}
+                      >
+                        {tx.amount > 0 ? "+" : ""}
+                        {pointsFormatter.format(tx.amount)}
+                      </span>
+                      <Button asChild size="sm" variant="ghost">
+                        <Link href={`/receipts/${tx.id}`} target="_blank" title="Comprobante">
+                          <ReceiptText className="size-4" />
+                        </Link>
+                      </Button>
+                      {canReverse && !isReversed && !tx.reversesId && !tx.withdrawalId && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() =>
+                            setReversalTarget({
+                              id: tx.id,
+                              amount: tx.amount,
+                              label: `#${tx.id} · ${TYPE_LABELS[tx.type]} de ${pointsFormatter.format(tx.amount)} puntos`,
+                            })
+                          }
+                        >
+                          <Undo2 className="size-4" />
+                          Revertir
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ClientLimitsDialog
+        client={showLimits ? client : null}
+        onClose={() => setShowLimits(false)}
+      />
+
+      <ReverseTransactionDialog
+        transaction={reversalTarget}
+        onClose={() => setReversalTarget(null)}
+        onReversed={({ pointsBalance }) => {
+          if (clientId) onBalanceChange(clientId, pointsBalance);
+          void loadTransactions();
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  isChargeLimitExceeded,
+  LIMIT_OVERRIDE_REASON_MIN_LENGTH,
+  type ChargeLimitExceededResult,
+} from "@/lib/charge-limit-policy";
+import type { ChargeOverrideInput, ChargeOverrideKind } from "@/lib/charge-overrides";
+import { logger } from "@/lib/logger";
+import { isDuplicateReference, type DuplicateReferenceResult } from "@/lib/payment-methods";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { useNotification } from "@/lib/useNotification";
+import { useAuthStore } from "@/stores/auth-store";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export type LimitOverrideRequest = {
+  kind?: ChargeOverrideKind; // LIMIT_EXCEEDED by default
+  message: string; // why the charge was rejected
+  label: string; // e.g. "@cliente · 5.000 monedas"
+};
+
+const OVERRIDE_COPY: Record<ChargeOverrideKind, { title: string; permission: Permission; placeholder: string }> = {
+  LIMIT_EXCEEDED: {
+    title: "Carga sobre el límite",
+    permission: "ledger:override-limits",
+    placeholder: "Ej.: el cliente pidió subir el límite y se verificó su situación",
+  },
+  DUPLICATE_REFERENCE: {
+    title: "Comprobante ya acreditado",
+    permission: "ledger:override-duplicates",
+    placeholder: "Ej.: son dos transferencias distintas con el mismo número de operación",
+  },
+};
+
+export type OverridableChargeRejection = ChargeLimitExceededResult | DuplicateReferenceResult;
+
+// Whether the charge action rejected the charge on a check an ADMIN can
+// override; the rejection's `code` is the kind of override to ask for
+export function isOverridableRejection(result: unknown): result is OverridableChargeRejection {
+  return isChargeLimitExceeded(result) || isDuplicateReference(result);
+}
+
+const EMPTY_FORM = { reason: "", approverUsername: "", approverPassword: "", approverCode: "" };
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * Asks for the authorization to register a charge over the client's limits,
+ * or one crediting a reference already credited: a reason, plus an ADMIN's
+ * credentials when the operator isn't one. `onConfirm` retries the charge
+ * with the override and throws on failure.
+ */
+export function LimitOverrideDialog({
+  request,
+  onClose,
+  onConfirm,
+}: {
+  request: LimitOverrideRequest | null;
+  onClose: () => void;
+  onConfirm: (override: ChargeOverrideInput) => Promise<void>;
+}) {
+  const notification = useNotification();
+  const role = useAuthStore((state) => state.user?.role);
+  const copy = OVERRIDE_COPY[request?.kind ?? "LIMIT_EXCEEDED"];
+  const needsApprover = !role || !hasPermission(role, copy.permission);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClose = () => {
+    setForm(EMPTY_FORM);
+    onClose();
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await onConfirm({
+        reason: form.reason,
+        approver: needsApprover
+          ? { username: form.approverUsername, password: form.approverPassword, code: form.approverCode || null }
+          : null,
+      });
+      handleClose();
+    } catch (error) {
+      logger.error("Error overriding charge limit", error);
+      notification.error(getErrorMessage(error, "No se pudo registrar la carga."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{copy.title}</DialogTitle>
+          <DialogDescription>
+            {request?.label}. {request?.message}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="limit-override-reason">Motivo</label>
+            <Textarea
+              id="limit-override-reason"
+              placeholder={copy.placeholder}
+              value={form.reason}
+              onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+              minLength={LIMIT_OVERRIDE_REASON_MIN_LENGTH}
+              required
+            />
+          </div>
+
+          {needsApprover && (
+            <div className="space-y-3 rounded-md border border-border/70 bg-muted/40 p-3">
+              <p className="text-sm text-muted-foreground">
+                Un administrador tiene que autorizarla con su usuario.
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Input
+                  placeholder="Usuario del administrador"
+                  autoComplete="off"
+                  value={form.approverUsername}
+                  onChange={(e) => setForm((prev) => ({ ...prev, approverUsername: e.target.value }))}
+                  required
+                />
+                <Input
+                  type="password"
+                  placeholder="Contraseña"
+                  autoComplete="off"
+                  value={form.approverPassword}
+                  onChange={(e) => setForm((prev) => ({ ...prev, approverPassword: e.target.value }))}
+                  required
+                />
+              </div>
+              <Input
+                placeholder="Código de verificación (si usa verificación en dos pasos)"
+                autoComplete="one-time-code"
+                value={form.approverCode}
+                onChange={(e) => setForm((prev) => ({ ...prev, approverCode: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Registrando..." : "Autorizar y cargar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
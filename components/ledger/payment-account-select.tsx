@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PaymentMethod } from "@prisma/client";
+
+import { listPaymentAccountsAction, type PaymentAccountOption } from "@/actions/payment-accounts";
+import { isForbidden } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payment-methods";
+import { cn } from "@/lib/utils";
+
+/**
+ * Picker of the active account a charge came into or a payout left from.
+ * `method` narrows the list to that method's accounts; empty = no account.
+ */
+export function PaymentAccountSelect({
+  value,
+  onChange,
+  method,
+  className,
+  emptyLabel = "Sin cuenta",
+}: {
+  value: number | null;
+  onChange: (account: PaymentAccountOption | null) => void;
+  method?: PaymentMethod | null;
+  className?: string;
+  emptyLabel?: string;
+}) {
+  const [accounts, setAccounts] = useState<PaymentAccountOption[]>([]);
+
+  useEffect(() => {
+    listPaymentAccountsAction()
+      .then((result) => {
+        if (!isForbidden(result)) setAccounts(result.filter((account) => account.isActive));
+      })
+      .catch((error) => logger.error("Error loading payment accounts", error));
+  }, []);
+
+  const options = method ? accounts.filter((account) => account.method === method) : accounts;
+
+  return (
+    <select
+      className={cn("h-10 w-full rounded-md border border-border bg-background px-3 text-sm", className)}
+      value={value ?? ""}
+      onChange={(e) => onChange(accounts.find((account) => account.id === Number(e.target.value)) ?? null)}
+    >
+      <option value="">{emptyLabel}</option>
+      {options.map((account) => (
+        <option key={account.id} value={account.id}>
+          {account.name}
+          {method ? "" : ` · ${PAYMENT_METHOD_LABELS[account.method]}`}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Banknote } from "lucide-react";
+
+import { getClientOverviewAction } from "@/actions/crm";
+import { requestWithdrawalAction, type WithdrawalRow } from "@/actions/withdrawals";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { useIdempotencyKeys } from "@/lib/useIdempotencyKey";
+import { useNotification } from "@/lib/useNotification";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const EMPTY_FORM = { amount: "", destination: "", note: "" };
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function RequestWithdrawalDialog({
+  client,
+  onClose,
+  onRequested,
+}: {
+  client: { id: number; username: string } | null;
+  onClose: () => void;
+  onRequested?: (withdrawal: WithdrawalRow) => void;
+}) {
+  const notification = useNotification();
+  const requestKeys = useIdempotencyKeys();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const clientId = client?.id;
+
+  useEffect(() => {
+    if (!clientId) return;
+
+    getClientOverviewAction({ clientId })
+      .then((result) => setBalance(unwrapAction(result).metrics.currentBalance))
+      .catch((error) => logger.error("Error loading client balance", error));
+  }, [clientId]);
+
+  const handleClose = () => {
+    setForm(EMPTY_FORM);
+    setBalance(null);
+    onClose();
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!client) return;
+
+    const amount = Number(form.amount);
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      notification.error("El monto tiene que ser un número entero positivo.");
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const payload = { clientId: client.id, amount, destination: form.destination, note: form.note };
+      const withdrawal = unwrapAction(
+        await requestWithdrawalAction({
+          ...payload,
+          idempotencyKey: requestKeys.getKey(client.id, payload),
+        }),
+      );
+
+      requestKeys.release(client.id);
+      notification.success(`Retiro #${withdrawal.id} enviado a la cola.`);
+      onRequested?.(withdrawal);
+      handleClose();
+    } catch (error) {
+      logger.error("Error requesting withdrawal", error);
+      notification.error(getErrorMessage(error, "No se pudo registrar el retiro."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!client} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Solicitar retiro para @{client?.username}</DialogTitle>
+          <DialogDescription>
+            {balance === null
+              ? "El monto se descuenta del saldo al enviarlo y queda retenido hasta el pago."
+              : `Saldo disponible: ${pointsFormatter.format(balance)} puntos. El monto queda retenido hasta el pago.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium" htmlFor="withdrawal-amount">Monto</label>
+              <Input
+                id="withdrawal-amount"
+                type="number"
+                min={1}
+                max={balance ?? undefined}
+                value={form.amount}
+                onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium" htmlFor="withdrawal-destination">CBU / CVU / alias</label>
+              <Input
+                id="withdrawal-destination"
+                value={form.destination}
+                onChange={(e) => setForm((prev) => ({ ...prev, destination: e.target.value }))}
+                required
+              />
+            </div>
+          </div>
+          <Textarea
+            placeholder="Nota para caja (opcional)"
+            value={form.note}
+            onChange={(e) => setForm((prev) => ({ ...prev, note: e.target.value }))}
+          />
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              <Banknote className="size-4" />
+              {isSaving ? "Enviando..." : "Solicitar retiro"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { Undo2 } from "lucide-react";
+
+import { reverseTransactionAction } from "@/actions/ledger";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import {
+  REVERSAL_APPROVAL_THRESHOLD,
+  REVERSAL_REASON_MIN_LENGTH,
+  isReversalApprovalRequired,
+  requiresReversalApproval,
+} from "@/lib/reversal-policy";
+import { useNotification } from "@/lib/useNotification";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export type ReversibleTransaction = {
+  id: number;
+  amount: number;
+  label: string; // e.g. "@cliente · 1.500 monedas"
+};
+
+const EMPTY_FORM = { reason: "", approverUsername: "", approverPassword: "", approverCode: "" };
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+export function ReverseTransactionDialog({
+  transaction,
+  onClose,
+  onReversed,
+}: {
+  transaction: ReversibleTransaction | null;
+  onClose: () => void;
+  onReversed: (result: { transactionId: number; reversalId: number; pointsBalance: number }) => void;
+}) {
+  const notification = useNotification();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  // Set when the server counted the bonus and rewards reversed along with it
+  const [approvalRequired, setApprovalRequired] = useState(false);
+
+  const needsApproval = approvalRequired || (transaction ? requiresReversalApproval(transaction.amount) : false);
+
+  const handleClose = () => {
+    setForm(EMPTY_FORM);
+    setApprovalRequired(false);
+    onClose();
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!transaction) return;
+
+    setIsSaving(true);
+
+    try {
+      const result = unwrapAction(
+        await reverseTransactionAction({
+          transactionId: transaction.id,
+          reason: form.reason,
+          approver: needsApproval
+            ? { username: form.approverUsername, password: form.approverPassword, code: form.approverCode || null }
+            : null,
+        }),
+      );
+
+      if (isReversalApprovalRequired(result)) {
+        setApprovalRequired(true);
+        notification.warning(result.message);
+        return;
+      }
+
+      notification.success("Movimiento revertido.");
+      onReversed({
+        transactionId: transaction.id,
+        reversalId: result.reversal.id,
+        pointsBalance: result.client.pointsBalance,
+      });
+      handleClose();
+    } catch (error) {
+      logger.error("Error reversing transaction", error);
+      notification.error(getErrorMessage(error, "No se pudo revertir el movimiento."));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Revertir movimiento</DialogTitle>
+          <DialogDescription>
+            {transaction?.label}. Se registra un ajuste que lo compensa; el original queda tachado.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium" htmlFor="reversal-reason">Motivo</label>
+            <Textarea
+              id="reversal-reason"
+              placeholder="Ej.: cargado al cliente equivocado"
+              value={form.reason}
+              onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+              minLength={REVERSAL_REASON_MIN_LENGTH}
+              required
+            />
+          </div>
+
+          {needsApproval && (
+            <div className="space-y-3 rounded-md border border-border/70 bg-muted/40 p-3">
+              <p className="text-sm text-muted-foreground">
+                Supera {REVERSAL_APPROVAL_THRESHOLD} puntos: un administrador tiene que aprobarla con su usuario.
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Input
+                  placeholder="Usuario del aprobador"
+                  autoComplete="off"
+                  value={form.approverUsername}
+                  onChange={(e) => setForm((prev) => ({ ...prev, approverUsername: e.target.value }))}
+                  required
+                />
+                <Input
+                  type="password"
+                  placeholder="Contraseña"
+                  autoComplete="off"
+                  value={form.approverPassword}
+                  onChange={(e) => setForm((prev) => ({ ...prev, approverPassword: e.target.value }))}
+                  required
+                />
+              </div>
+              <Input
+                placeholder="Código de verificación (si usa verificación en dos pasos)"
+                autoComplete="one-time-code"
+                value={form.approverCode}
+                onChange={(e) => setForm((prev) => ({ ...prev, approverCode: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isSaving}>
+              <Undo2 className="size-4" />
+              {isSaving ? "Revirtiendo..." : "Revertir"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Send } from "lucide-react";
+
+import {
+  getClientTransactionsAction,
+  type ClientTransactionRow,
+} from "@/actions/crm";
+import { getReceiptAction } from "@/actions/receipts";
+import { unwrapAction } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { RECEIPT_TITLES } from "@/lib/receipt-format";
+import { renderReceiptImage, type ReceiptImage } from "@/lib/receipt-image";
+import { useNotification } from "@/lib/useNotification";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * Lists the client's recent movements and sends the receipt of the chosen one
+ * as an image. `onSend` delivers it through the chat and throws on failure.
+ */
+export function SendReceiptDialog({
+  client,
+  onClose,
+  onSend,
+}: {
+  client: { id: number; username: string } | null;
+  onClose: () => void;
+  onSend: (image: ReceiptImage) => Promise<void>;
+}) {
+  const notification = useNotification();
+  const [transactions, setTransactions] = useState<ClientTransactionRow[] | null>(null);
+  const [sendingId, setSendingId] = useState<number | null>(null);
+
+  const clientId = client?.id;
+
+  useEffect(() => {
+    setTransactions(null);
+    if (!clientId) return;
+
+    getClientTransactionsAction({ clientId, take: 10 })
+      .then((result) => setTransactions(unwrapAction(result)))
+      .catch((error) => {
+        logger.error("Error loading client transactions", error);
+        setTransactions([]);
+      });
+  }, [clientId]);
+
+  const handleSend = async (transactionId: number) => {
+    setSendingId(transactionId);
+
+    try {
+      const receipt = unwrapAction(await getReceiptAction({ transactionId }));
+      await onSend(await renderReceiptImage(receipt));
+      notification.success(`Comprobante #${transactionId} enviado.`);
+      onClose();
+    } catch (error) {
+      logger.error("Error sending receipt", error);
+      notification.error(getErrorMessage(error, "No se pudo enviar el comprobante."));
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!client} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Enviar comprobante a @{client?.username}</DialogTitle>
+          <DialogDescription>Se envía como imagen en el chat.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+          {!transactions ? (
+            <p className="text-sm text-muted-foreground">Cargando movimientos...</p>
+          ) : transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Sin movimientos registrados.</p>
+          ) : (
+            transactions.map((tx) => (
+              <div
+                key={tx.id}
+                className="flex items-center justify-between gap-3 rounded-md border border-border/60 px-3 py-2 text-sm"
+              >
+                <div>
+                  <p className="font-medium">
+                    #{tx.id} · {RECEIPT_TITLES[tx.type]}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {dateTimeFormatter.format(new Date(tx.createdAt))} · {tx.amount > 0 ? "+" : ""}
+                    {pointsFormatter.format(tx.amount)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button asChild size="sm" variant="ghost">
+                    <Link href={`/receipts/${tx.id}`} target="_blank">
+                      Ver
+                    </Link>
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={sendingId !== null}
+                    onClick={() => void handleSend(tx.id)}
+                  >
+                    <Send className="size-4" />
+                    {sendingId === tx.id ? "Enviando..." : "Enviar"}
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
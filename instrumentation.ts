@@ -0,0 +1,7 @@
+// Runs once when the server starts: fail fast on missing configuration
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getSessionSecret } = await import("@/lib/session");
+  getSessionSecret();
+}
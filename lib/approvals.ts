@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { verifyPassword } from "@/lib/password";
+import { getRequestMetadata } from "@/lib/request-context";
+import { isUserLocked, registerFailedLogin } from "@/lib/login-security";
+import { isTwoFactorEnabled, isTwoFactorRequired, verifySecondFactor } from "@/lib/two-factor";
+import type { AuthRole, AuthUser } from "@/types/auth";
+
+// Supervisor credentials typed on the same screen as the operation
+export const approverSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+  // TOTP or backup code, for approvers with two-factor authentication
+  code: z.string().trim().optional().nullable(),
+});
+
+export type ApproverCredentials = z.infer<typeof approverSchema>;
+
+/**
+ * Checks the credentials of a second user authorizing an operation and
+ * returns that user. `messages` words the errors for the operation.
+ */
+export async function verifyApprover(
+  approver: ApproverCredentials,
+  requester: AuthUser,
+  permission: Permission,
+  messages: { sameUser: string; forbidden: string },
+) {
+  const invalidError = "Usuario o contraseña del aprobador incorrectos.";
+
+  const dbUser = await prisma.user.findUnique({
+    where: { username: approver.username },
+  });
+
+  if (!dbUser || !dbUser.isActive) {
+    throw new Error(invalidError);
+  }
+
+  if (dbUser.id === requester.id) {
+    throw new Error(messages.sameUser);
+  }
+
+  if (isUserLocked(dbUser)) {
+    throw new Error("La cuenta del aprobador está bloqueada temporalmente.");
+  }
+
+  // Same lockout counter as the login form, so this can't be used to guess passwords
+  if (!(await verifyPassword(approver.password, dbUser.passwordHash))) {
+    await registerFailedLogin({
+      username: approver.username,
+      user: dbUser,
+      metadata: await getRequestMetadata(),
+    });
+    throw new Error(invalidError);
+  }
+
+  // The password alone isn't enough for an account that needs a second factor
+  // to sign in; a wrong code counts toward the same lockout
+  if (isTwoFactorEnabled(dbUser)) {
+    if (!approver.code) {
+      throw new Error("Falta el código de verificación del aprobador.");
+    }
+
+    if (!(await verifySecondFactor(dbUser, approver.code))) {
+      await registerFailedLogin({
+        username: approver.username,
+        user: dbUser,
+        metadata: await getRequestMetadata(),
+      });
+      throw new Error("El código de verificación del aprobador no es válido.");
+    }
+  } else if (await isTwoFactorRequired(dbUser.role)) {
+    throw new Error("El aprobador tiene que activar la verificación en dos pasos antes de autorizar.");
+  }
+
+  if (!hasPermission(dbUser.role as AuthRole, permission)) {
+    throw new Error(messages.forbidden);
+  }
+
+  return dbUser;
+}
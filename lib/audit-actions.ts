@@ -0,0 +1,62 @@
+/**
+ * Every action name written to the audit log, with its label for the admin
+ * viewer. Client-safe: no server imports here.
+ */
+export const AUDIT_ACTION_LABELS = {
+  "user.create": "Alta de usuario",
+  "user.update": "Edición de usuario",
+  "user.password-change": "Cambio de contraseña",
+  "user.password-reset-link": "Enlace de reseteo generado",
+  "user.password-reset": "Contraseña reseteada",
+  "user.force-password-change": "Cambio de contraseña forzado",
+  "user.deactivate": "Usuario desactivado",
+  "user.reactivate": "Usuario reactivado",
+  "session.revoke": "Sesión cerrada de forma remota",
+  "session.revoke-all": "Cierre de todas las sesiones",
+  "client.create": "Alta de cliente",
+  "client.update": "Edición de cliente",
+  "client.limits": "Límites de carga del cliente",
+  "client.self-exclusion": "Autoexclusión",
+  "client.self-exclusion-end": "Fin anticipado de autoexclusión",
+  "ledger.charge": "Carga de puntos",
+  "ledger.redeem": "Canje de puntos",
+  "ledger.reverse": "Reversión de movimiento",
+  "ledger.bonus": "Bonificación por promoción",
+  "ledger.referral": "Premio por referido",
+  "ledger.reconcile": "Conciliación de saldo",
+  "ledger.expire": "Vencimiento de puntos",
+  "charge-import.commit": "Importación de cargas",
+  "charge-import.rollback": "Importación de cargas revertida",
+  "payment-account.create": "Alta de cuenta de cobro",
+  "payment-account.update": "Edición de cuenta de cobro",
+  "payment-account.cap-exceeded": "Cuenta de cobro sobre el tope diario",
+  "daily-check.upsert": "Control diario",
+  "shift.open": "Apertura de turno",
+  "shift.close": "Cierre de turno (arqueo)",
+  "withdrawal.request": "Solicitud de retiro",
+  "withdrawal.approve": "Retiro aprobado",
+  "withdrawal.reject": "Retiro rechazado",
+  "withdrawal.pay": "Retiro pagado",
+  "promotion.create": "Alta de promoción",
+  "promotion.update": "Edición de promoción",
+  "referral.program-update": "Cambio del programa de referidos",
+  "limits.policy-update": "Límites de carga por defecto",
+  "tiers.policy-update": "Umbrales de niveles de membresía",
+  "tiers.recalculate": "Recálculo de niveles de membresía",
+  "expiry.policy-update": "Regla de vencimiento de puntos",
+  "expiry.run": "Proceso de vencimiento de puntos",
+  "marketing-source.create": "Alta de fuente de marketing",
+  "marketing-source.update": "Edición de fuente de marketing",
+  "invitation.create": "Invitación creada",
+  "invitation.revoke": "Invitación revocada",
+  "security.unlock": "Desbloqueo de cuenta",
+  "security.two-factor-policy": "Política de 2FA",
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTION_LABELS;
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+export function getAuditActionLabel(action: string): string {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action;
+}
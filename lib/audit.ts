@@ -0,0 +1,159 @@
+import { Prisma, type User } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { getRequestMetadata, type RequestMetadata } from "@/lib/request-context";
+import type { AuthUser } from "@/types/auth";
+import type { AuditAction } from "@/lib/audit-actions";
+
+type AuditClient = Prisma.TransactionClient | typeof prisma;
+
+export type AuditEntry = {
+  actor: AuthUser | null; // null = system (cron, scripts)
+  action: AuditAction;
+  entityType: string;
+  entityId: string | number;
+  before?: unknown;
+  after?: unknown;
+};
+
+// Dates and nested objects go through JSON so the stored snapshot is plain data
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  if (value === undefined || value === null) return Prisma.JsonNull;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+async function getMetadataSafely(): Promise<RequestMetadata> {
+  try {
+    return await getRequestMetadata();
+  } catch {
+    // Outside a request (scripts, cron jobs) there are no headers
+    return { ipAddress: null, userAgent: null };
+  }
+}
+
+/**
+ * Appends an event to the audit log. Pass the transaction client when the
+ * audited write runs inside `prisma.$transaction` so both commit together.
+ */
+export async function recordAudit(
+  entry: AuditEntry,
+  client: AuditClient = prisma,
+): Promise<void> {
+  const { ipAddress, userAgent } = await getMetadataSafely();
+
+  await client.auditEvent.create({
+    data: {
+      actorId: entry.actor?.id ?? null,
+      actorUsername: entry.actor?.username ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: String(entry.entityId),
+      before: toJson(entry.before),
+      after: toJson(entry.after),
+      ipAddress,
+      userAgent,
+    },
+  });
+}
+
+/**
+ * User snapshot without credentials or 2FA secrets.
+ */
+export function toAuditUser(
+  user: Pick<User, "id" | "name" | "username" | "role" | "isActive">,
+) {
+  return {
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    role: user.role,
+    isActive: user.isActive,
+  };
+}
+
+/* ----------------------------------------
+ * QUERYING (viewer + CSV export)
+ * -------------------------------------- */
+
+export type AuditFilters = {
+  action?: string | null;
+  entityType?: string | null;
+  entityId?: string | null;
+  actor?: string | null; // username, partial match
+  from?: string | null; // YYYY-MM-DD, inclusive
+  to?: string | null; // YYYY-MM-DD, inclusive
+};
+
+export function buildAuditWhere(filters: AuditFilters): Prisma.AuditEventWhereInput {
+  const createdAt: Prisma.DateTimeFilter = {};
+
+  if (filters.from) {
+    createdAt.gte = new Date(`${filters.from}T00:00:00.000Z`);
+  }
+  if (filters.to) {
+    createdAt.lte = new Date(`${filters.to}T23:59:59.999Z`);
+  }
+
+  return {
+    action: filters.action || undefined,
+    entityType: filters.entityType || undefined,
+    entityId: filters.entityId || undefined,
+    actorUsername: filters.actor
+      ? { contains: filters.actor, mode: "insensitive" }
+      : undefined,
+    createdAt: filters.from || filters.to ? createdAt : undefined,
+  };
+}
+
+function escapeCsvValue(raw: string): string {
+  // Spreadsheets evaluate cells starting with these as formulas
+  const value = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function auditEventsToCsv(
+  events: Array<{
+    id: number;
+    createdAt: Date;
+    actorUsername: string | null;
+    action: string;
+    entityType: string;
+    entityId: string;
+    before: Prisma.JsonValue;
+    after: Prisma.JsonValue;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }>,
+): string {
+  const header = [
+    "id",
+    "fecha",
+    "usuario",
+    "accion",
+    "entidad",
+    "entidad_id",
+    "antes",
+    "despues",
+    "ip",
+    "user_agent",
+  ];
+
+  const rows = events.map((event) =>
+    [
+      String(event.id),
+      event.createdAt.toISOString(),
+      event.actorUsername ?? "",
+      event.action,
+      event.entityType,
+      event.entityId,
+      event.before === null ? "" : JSON.stringify(event.before),
+      event.after === null ? "" : JSON.stringify(event.after),
+      event.ipAddress ?? "",
+      event.userAgent ?? "",
+    ]
+      .map(escapeCsvValue)
+      .join(","),
+  );
+
+  return [header.join(","), ...rows].join("\n");
+}
@@ -1,4 +1,7 @@
-import type { AuthRole } from "@/types/auth";
+import type { AuthRole, ForbiddenResult } from "@/types/auth";
+
+// Where users with mustChangePassword are sent until they pick a new one
+export const CHANGE_PASSWORD_ROUTE = "/account/password";
 
 export function getDashboardRouteForRole(role: AuthRole): string {
   switch (role) {
@@ -11,3 +14,23 @@ export function getDashboardRouteForRole(role: AuthRole): string {
       return "/cashier";
   }
 }
+
+export function isForbidden(value: unknown): value is ForbiddenResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Partial<ForbiddenResult>).forbidden === true
+  );
+}
+
+/**
+ * Returns the action result or throws with the forbidden message, for callers
+ * that already surface failures through a try/catch.
+ */
+export function unwrapAction<T>(result: T | ForbiddenResult): T {
+  if (isForbidden(result)) {
+    throw new Error(result.error);
+  }
+
+  return result;
+}
@@ -0,0 +1,58 @@
+import { PERMISSIONS, type Permission } from "@/lib/permissions";
+import { getCurrentUser } from "@/lib/session";
+import type { AuthRole, AuthUser, ForbiddenResult } from "@/types/auth";
+
+const UNAUTHENTICATED_ERROR = "Tu sesión expiró. Volvé a iniciar sesión.";
+const FORBIDDEN_ERROR = "No tenés permisos para realizar esta acción.";
+const PASSWORD_CHANGE_REQUIRED_ERROR =
+  "Tenés que cambiar tu contraseña antes de continuar.";
+
+/**
+ * Wraps a server action so it only runs for a signed-in user whose role is
+ * in `roles`. The handler receives that user as its first argument; callers
+ * get a `ForbiddenResult` instead of the handler result otherwise.
+ */
+export function withRole<Args extends unknown[], Result>(
+  roles: readonly AuthRole[],
+  handler: (user: AuthUser, ...args: Args) => Promise<Result>,
+): (...args: Args) => Promise<Result | ForbiddenResult> {
+  return async (...args: Args) => {
+    const user = await getCurrentUser();
+
+    if (!user) {
+      return {
+        success: false,
+        forbidden: true,
+        reason: "UNAUTHENTICATED",
+        error: UNAUTHENTICATED_ERROR,
+      };
+    }
+
+    if (user.mustChangePassword) {
+      return {
+        success: false,
+        forbidden: true,
+        reason: "PASSWORD_CHANGE_REQUIRED",
+        error: PASSWORD_CHANGE_REQUIRED_ERROR,
+      };
+    }
+
+    if (!roles.includes(user.role)) {
+      return {
+        success: false,
+        forbidden: true,
+        reason: "FORBIDDEN",
+        error: FORBIDDEN_ERROR,
+      };
+    }
+
+    return handler(user, ...args);
+  };
+}
+
+export function withPermission<Args extends unknown[], Result>(
+  permission: Permission,
+  handler: (user: AuthUser, ...args: Args) => Promise<Result>,
+): (...args: Args) => Promise<Result | ForbiddenResult> {
+  return withRole(PERMISSIONS[permission], handler);
+}
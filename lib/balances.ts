@@ -0,0 +1,159 @@
+import { TransactionType, type Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/types/auth";
+
+/**
+ * Client.pointsBalance is a running counter next to the PointTransaction
+ * ledger: every movement writes a row and increments/decrements the counter
+ * in the same transaction, so sum(amount) should always equal the balance.
+ */
+
+export class InsufficientBalanceError extends Error {
+  constructor(message = "El cliente no tiene saldo suficiente.") {
+    super(message);
+  }
+}
+
+/**
+ * Check-and-decrement in one statement: the row is only updated if the
+ * balance covers the amount, so two concurrent redeems can't both pass a
+ * check made on the same stale read.
+ */
+export async function debitPointsBalance(
+  db: Prisma.TransactionClient,
+  clientId: number,
+  amount: number,
+  insufficientMessage?: string,
+) {
+  const result = await db.client.updateMany({
+    where: { id: clientId, pointsBalance: { gte: amount } },
+    data: { pointsBalance: { decrement: amount } },
+  });
+
+  if (result.count === 0) {
+    const exists = await db.client.count({ where: { id: clientId } });
+    if (!exists) throw new Error("Cliente no encontrado.");
+    throw new InsufficientBalanceError(insufficientMessage);
+  }
+
+  return db.client.findUniqueOrThrow({ where: { id: clientId } });
+}
+
+/* ----------------------------------------
+ * RECONCILIATION
+ * -------------------------------------- */
+
+export type BalanceDiscrepancy = {
+  clientId: number;
+  username: string;
+  storedBalance: number; // Client.pointsBalance
+  ledgerBalance: number; // sum of PointTransaction.amount
+  difference: number; // stored - ledger
+};
+
+/**
+ * Clients whose counter doesn't match their ledger, plus clients with a
+ * negative balance (consistent but impossible without a race).
+ */
+export async function findBalanceDiscrepancies(
+  client: Prisma.TransactionClient = prisma,
+): Promise<BalanceDiscrepancy[]> {
+  const [sums, clients] = await Promise.all([
+    client.pointTransaction.groupBy({
+      by: ["clientId"],
+      _sum: { amount: true },
+      orderBy: { clientId: "asc" },
+    }),
+    client.client.findMany({
+      select: { id: true, username: true, pointsBalance: true },
+      orderBy: { id: "asc" },
+    }),
+  ]);
+
+  const ledgerByClient = new Map(sums.map((row) => [row.clientId, row._sum.amount ?? 0]));
+
+  return clients.flatMap((row) => {
+    const ledgerBalance = ledgerByClient.get(row.id) ?? 0;
+
+    if (ledgerBalance === row.pointsBalance && row.pointsBalance >= 0) return [];
+
+    return [
+      {
+        clientId: row.id,
+        username: row.username,
+        storedBalance: row.pointsBalance,
+        ledgerBalance,
+        difference: row.pointsBalance - ledgerBalance,
+      },
+    ];
+  });
+}
+
+export type BalanceRepair = {
+  clientId: number;
+  username: string;
+  adjustment: number;
+  transactionId: number;
+};
+
+/**
+ * Brings the ledger in line with the balance the client has been seeing:
+ * writes an ADJUSTMENT row for the missing amount and audits it. Negative
+ * balances are only reported, they need a human decision.
+ * `actor` is null when run from the CLI script.
+ */
+export async function repairBalanceDiscrepancy(
+  clientId: number,
+  actor: AuthUser | null,
+): Promise<BalanceRepair | null> {
+  return prisma.$transaction(async (db) => {
+    // No-op update to take the row lock first: a concurrent movement waits for
+    // us, so the sum below and the balance can't change under our feet
+    const locked = await db.client.update({
+      where: { id: clientId },
+      data: { pointsBalance: { increment: 0 } },
+      select: { username: true, pointsBalance: true },
+    });
+
+    const sum = await db.pointTransaction.aggregate({
+      where: { clientId },
+      _sum: { amount: true },
+    });
+
+    const ledgerBalance = sum._sum.amount ?? 0;
+    const adjustment = locked.pointsBalance - ledgerBalance;
+
+    if (adjustment === 0) return null;
+
+    const tx = await db.pointTransaction.create({
+      data: {
+        clientId,
+        amount: adjustment,
+        type: TransactionType.ADJUSTMENT,
+        description: "Conciliación: ajuste del historial al saldo registrado",
+        cashierId: actor?.id ?? null,
+      },
+    });
+
+    await recordAudit(
+      {
+        actor,
+        action: "ledger.reconcile",
+        entityType: "Client",
+        entityId: clientId,
+        before: { pointsBalance: locked.pointsBalance, ledgerBalance },
+        after: {
+          pointsBalance: locked.pointsBalance,
+          ledgerBalance: ledgerBalance + adjustment,
+          transactionId: tx.id,
+          amount: adjustment,
+        },
+      },
+      db,
+    );
+
+    return { clientId, username: locked.username, adjustment, transactionId: tx.id };
+  });
+}
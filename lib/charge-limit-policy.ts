@@ -0,0 +1,45 @@
+/**
+ * Responsible-play rules shared by the charge forms and the server. Client-safe,
+ * so the forms can tell a charge rejected on a limit (which an ADMIN may
+ * override) apart from any other failure.
+ */
+
+export const CHARGE_LIMIT_PERIODS = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+
+export type ChargeLimitPeriod = (typeof CHARGE_LIMIT_PERIODS)[number];
+
+export type ChargeLimits = Record<ChargeLimitPeriod, number | null>;
+
+export const CHARGE_LIMIT_PERIOD_LABELS: Record<ChargeLimitPeriod, string> = {
+  DAILY: "diario",
+  WEEKLY: "semanal",
+  MONTHLY: "mensual",
+};
+
+export const LIMIT_OVERRIDE_REASON_MIN_LENGTH = 5;
+
+/**
+ * What a charge action returns, instead of throwing, when the charge goes
+ * over one of the client's limits: production builds hide thrown messages,
+ * so the form needs a code to offer the override. Self-exclusion still throws.
+ */
+export type ChargeLimitExceededResult = {
+  success: false;
+  code: "LIMIT_EXCEEDED";
+  message: string;
+  period: ChargeLimitPeriod; // the first limit the charge goes over
+  limits: ChargeLimits;
+  usage: Record<ChargeLimitPeriod, number>; // charged so far in each period
+};
+
+export function isChargeLimitExceeded(value: unknown): value is ChargeLimitExceededResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Partial<ChargeLimitExceededResult>).code === "LIMIT_EXCEEDED"
+  );
+}
+
+export function isSelfExcluded(selfExcludedUntil: Date | string | null | undefined, now = new Date()) {
+  return !!selfExcludedUntil && new Date(selfExcludedUntil) > now;
+}
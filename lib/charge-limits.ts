@@ -0,0 +1,143 @@
+import { TransactionType, type Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import {
+  CHARGE_LIMIT_PERIOD_LABELS,
+  CHARGE_LIMIT_PERIODS,
+  isSelfExcluded,
+  type ChargeLimitExceededResult,
+  type ChargeLimits,
+} from "@/lib/charge-limit-policy";
+import type { ChargeOverride } from "@/lib/charge-overrides";
+
+export const CHARGE_LIMIT_POLICY_ID = 1;
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateFormatter = new Intl.DateTimeFormat("es-AR", { dateStyle: "short", timeStyle: "short" });
+
+/**
+ * Thrown by enforceChargeLimits so the charge transaction rolls back; the
+ * charge actions catch it and return `result` to the form.
+ */
+export class ChargeLimitExceededError extends Error {
+  constructor(readonly result: ChargeLimitExceededResult) {
+    super(result.message);
+  }
+}
+
+export async function getChargeLimitPolicy(client: Prisma.TransactionClient = prisma): Promise<ChargeLimits> {
+  const policy = await client.chargeLimitPolicy.findUnique({ where: { id: CHARGE_LIMIT_POLICY_ID } });
+
+  return {
+    DAILY: policy?.dailyLimit ?? null,
+    WEEKLY: policy?.weeklyLimit ?? null,
+    MONTHLY: policy?.monthlyLimit ?? null,
+  };
+}
+
+// A client's own limit wins over the default, in either direction
+export function getEffectiveChargeLimits(
+  client: { dailyChargeLimit: number | null; weeklyChargeLimit: number | null; monthlyChargeLimit: number | null },
+  defaults: ChargeLimits,
+): ChargeLimits {
+  return {
+    DAILY: client.dailyChargeLimit ?? defaults.DAILY,
+    WEEKLY: client.weeklyChargeLimit ?? defaults.WEEKLY,
+    MONTHLY: client.monthlyChargeLimit ?? defaults.MONTHLY,
+  };
+}
+
+// Calendar periods in server time; weeks start on Monday
+function getPeriodStarts(now: Date): Record<(typeof CHARGE_LIMIT_PERIODS)[number], Date> {
+  const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const week = new Date(day);
+  week.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+
+  return {
+    DAILY: day,
+    WEEKLY: week,
+    MONTHLY: new Date(now.getFullYear(), now.getMonth(), 1),
+  };
+}
+
+/** Points charged (net of reversed charges) in the current day, week and month. */
+export async function getChargeUsage(
+  clientId: number,
+  client: Prisma.TransactionClient = prisma,
+  now = new Date(),
+): Promise<Record<(typeof CHARGE_LIMIT_PERIODS)[number], number>> {
+  const starts = getPeriodStarts(now);
+
+  const sums = await Promise.all(
+    CHARGE_LIMIT_PERIODS.map((period) =>
+      client.pointTransaction.aggregate({
+        where: {
+          clientId,
+          type: TransactionType.CHARGE,
+          reversedBy: { is: null },
+          createdAt: { gte: starts[period] },
+        },
+        _sum: { amount: true },
+      }),
+    ),
+  );
+
+  return {
+    DAILY: sums[0]._sum.amount ?? 0,
+    WEEKLY: sums[1]._sum.amount ?? 0,
+    MONTHLY: sums[2]._sum.amount ?? 0,
+  };
+}
+
+/**
+ * Blocks charges to self-excluded clients and charges that would go over a
+ * daily/weekly/monthly limit, unless `override` is given (self-exclusion
+ * can't be overridden: it has to be lifted first). Call it first thing in the
+ * charge transaction: it takes the client row lock so two concurrent charges
+ * can't both fit under the same limit. Returns whether the override was used;
+ * throws ChargeLimitExceededError when the charge needs one.
+ */
+export async function enforceChargeLimits(
+  db: Prisma.TransactionClient,
+  clientId: number,
+  amount: number,
+  override: ChargeOverride | null,
+): Promise<boolean> {
+  const client = await db.client.update({
+    where: { id: clientId },
+    data: { pointsBalance: { increment: 0 } },
+  });
+
+  if (isSelfExcluded(client.selfExcludedUntil)) {
+    throw new Error(
+      `El cliente está autoexcluido hasta el ${dateFormatter.format(client.selfExcludedUntil!)}: no se pueden registrar cargas.`,
+    );
+  }
+
+  const limits = getEffectiveChargeLimits(client, await getChargeLimitPolicy(db));
+
+  if (CHARGE_LIMIT_PERIODS.every((period) => limits[period] === null)) return false;
+
+  const usage = await getChargeUsage(clientId, db);
+
+  const exceeded = CHARGE_LIMIT_PERIODS.find((period) => {
+    const limit = limits[period];
+    return limit !== null && usage[period] + amount > limit;
+  });
+
+  if (!exceeded) return false;
+  if (override) return true;
+
+  throw new ChargeLimitExceededError({
+    success: false,
+    code: "LIMIT_EXCEEDED",
+    message:
+      `Supera el límite ${CHARGE_LIMIT_PERIOD_LABELS[exceeded]} del cliente: lleva ` +
+      `${pointsFormatter.format(usage[exceeded])} de ${pointsFormatter.format(limits[exceeded]!)}. ` +
+      "Un administrador puede autorizar la carga.",
+    period: exceeded,
+    limits,
+    usage,
+  });
+}
@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+import { approverSchema, verifyApprover } from "@/lib/approvals";
+import { LIMIT_OVERRIDE_REASON_MIN_LENGTH } from "@/lib/charge-limit-policy";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import type { AuthUser } from "@/types/auth";
+
+/**
+ * Authorizations to register a charge that a check rejected: one over the
+ * client's limits (see lib/charge-limits.ts) or one crediting a reference
+ * already credited (see lib/reference-codes.ts). Both take a reason, plus an
+ * ADMIN's credentials when the operator can't authorize it themselves.
+ */
+
+// Same values as the `code` of the rejected charge result
+export type ChargeOverrideKind = "LIMIT_EXCEEDED" | "DUPLICATE_REFERENCE";
+
+export const chargeOverrideSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(
+      LIMIT_OVERRIDE_REASON_MIN_LENGTH,
+      `Indicá el motivo (al menos ${LIMIT_OVERRIDE_REASON_MIN_LENGTH} caracteres).`,
+    ),
+  // an ADMIN's credentials, unless the operator is an ADMIN
+  approver: approverSchema.optional().nullable(),
+});
+
+export type ChargeOverrideInput = z.infer<typeof chargeOverrideSchema>;
+
+export type ChargeOverride = { approvedById: number; reason: string };
+
+const OVERRIDE_PERMISSIONS: Record<ChargeOverrideKind, { permission: Permission; forbidden: string }> = {
+  LIMIT_EXCEEDED: {
+    permission: "ledger:override-limits",
+    forbidden: "El aprobador no tiene permiso para autorizar cargas sobre el límite.",
+  },
+  DUPLICATE_REFERENCE: {
+    permission: "ledger:override-duplicates",
+    forbidden: "El aprobador no tiene permiso para autorizar comprobantes repetidos.",
+  },
+};
+
+/**
+ * Checks who authorizes the override. Call it before the charge
+ * transaction: a wrong password counts as a failed login.
+ */
+export async function resolveChargeOverride(
+  user: AuthUser,
+  kind: ChargeOverrideKind,
+  input: ChargeOverrideInput | null | undefined,
+): Promise<ChargeOverride | null> {
+  if (!input) return null;
+
+  const data = chargeOverrideSchema.parse(input);
+  const { permission, forbidden } = OVERRIDE_PERMISSIONS[kind];
+
+  if (hasPermission(user.role, permission)) {
+    return { approvedById: user.id, reason: data.reason };
+  }
+
+  if (!data.approver) {
+    throw new Error("Un administrador tiene que autorizar la carga con su usuario.");
+  }
+
+  const approver = await verifyApprover(data.approver, user, permission, {
+    sameUser: "La carga la tiene que autorizar otra persona.",
+    forbidden,
+  });
+
+  return { approvedById: approver.id, reason: data.reason };
+}
@@ -0,0 +1,199 @@
+import { createHash, randomBytes } from "crypto";
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { hashPassword, verifyPassword } from "@/lib/password";
+import { validatePasswordStrength } from "@/lib/password-policy";
+
+// Cuántas contraseñas anteriores (además de la actual) no se pueden repetir.
+export const PASSWORD_HISTORY_SIZE = 5;
+
+// Vigencia de un enlace de reseteo generado por un admin.
+export const PASSWORD_RESET_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class PasswordPolicyError extends Error {}
+
+/**
+ * True when the password matches the current hash or one of the last
+ * PASSWORD_HISTORY_SIZE hashes of the user.
+ */
+export async function isPasswordReused(
+  userId: number,
+  password: string,
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      passwordHash: true,
+      passwordHistory: {
+        orderBy: { createdAt: "desc" },
+        take: PASSWORD_HISTORY_SIZE,
+        select: { passwordHash: true },
+      },
+    },
+  });
+
+  if (!user) return false;
+
+  const hashes = [
+    user.passwordHash,
+    ...user.passwordHistory.map((entry) => entry.passwordHash),
+  ];
+
+  for (const hash of hashes) {
+    if (await verifyPassword(password, hash)) return true;
+  }
+
+  return false;
+}
+
+export type PreparedPasswordChange = {
+  userId: number;
+  passwordHash: string;
+  previousHash: string;
+};
+
+/**
+ * Validates the policy and reuse rules and hashes the new password, without
+ * writing anything. Throws PasswordPolicyError on violations.
+ */
+export async function preparePasswordChange(
+  userId: number,
+  password: string,
+): Promise<PreparedPasswordChange> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { username: true, passwordHash: true },
+  });
+
+  if (!user) {
+    throw new PasswordPolicyError("Usuario no encontrado.");
+  }
+
+  const validation = validatePasswordStrength(password, {
+    username: user.username,
+  });
+  if (!validation.valid) {
+    throw new PasswordPolicyError(validation.error);
+  }
+
+  if (await isPasswordReused(userId, password)) {
+    throw new PasswordPolicyError(
+      `No podés repetir ninguna de tus últimas ${PASSWORD_HISTORY_SIZE + 1} contraseñas.`,
+    );
+  }
+
+  return {
+    userId,
+    passwordHash: await hashPassword(password),
+    previousHash: user.passwordHash,
+  };
+}
+
+/**
+ * Stores a prepared password and pushes the previous one into the history,
+ * inside the caller's transaction.
+ */
+export async function writePasswordChange(
+  tx: Prisma.TransactionClient,
+  change: PreparedPasswordChange,
+  options: { mustChangePassword: boolean },
+): Promise<void> {
+  await tx.passwordHistory.create({
+    data: { userId: change.userId, passwordHash: change.previousHash },
+  });
+
+  await tx.user.update({
+    where: { id: change.userId },
+    data: {
+      passwordHash: change.passwordHash,
+      passwordChangedAt: new Date(),
+      mustChangePassword: options.mustChangePassword,
+    },
+  });
+
+  await trimPasswordHistory(tx, change.userId);
+}
+
+/**
+ * Validates the policy and reuse rules, stores the new hash and pushes the
+ * previous one into the history. Throws PasswordPolicyError on violations.
+ */
+export async function setUserPassword(
+  userId: number,
+  password: string,
+  options: { mustChangePassword: boolean },
+): Promise<void> {
+  const change = await preparePasswordChange(userId, password);
+
+  await prisma.$transaction((tx) => writePasswordChange(tx, change, options));
+}
+
+async function trimPasswordHistory(tx: Prisma.TransactionClient, userId: number) {
+  const stale = await tx.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+    skip: PASSWORD_HISTORY_SIZE,
+    select: { id: true },
+  });
+
+  if (stale.length > 0) {
+    await tx.passwordHistory.deleteMany({
+      where: { id: { in: stale.map((entry) => entry.id) } },
+    });
+  }
+}
+
+/* ----------------------------------------
+ * RESET TOKENS
+ * -------------------------------------- */
+
+export function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function createPasswordResetToken(params: {
+  userId: number;
+  createdById: number;
+}): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(24).toString("base64url");
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+
+  await prisma.$transaction([
+    // Only the newest link works
+    prisma.passwordResetToken.updateMany({
+      where: { userId: params.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        tokenHash: hashResetToken(token),
+        userId: params.userId,
+        createdById: params.createdById,
+        expiresAt,
+      },
+    }),
+  ]);
+
+  return { token, expiresAt };
+}
+
+export async function findUsableResetToken(token: string) {
+  if (!token) return null;
+
+  const resetToken = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashResetToken(token) },
+    include: { user: true },
+  });
+
+  if (
+    !resetToken ||
+    resetToken.usedAt ||
+    resetToken.expiresAt <= new Date() ||
+    !resetToken.user.isActive
+  ) {
+    return null;
+  }
+
+  return resetToken;
+}
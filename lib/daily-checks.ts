@@ -0,0 +1,35 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Ticks the client's DailyChargeCheck for `day` (YYYY-MM-DD, stored as UTC
+ * midnight like the cashier sheet reads it). Every charge calls it inside its
+ * transaction, so the sheet shows the client as charged without a manual tick.
+ */
+export async function markChargedOnDay(
+  db: Prisma.TransactionClient,
+  clientId: number,
+  day: string,
+  checkedById: number,
+) {
+  const date = new Date(`${day}T00:00:00.000Z`);
+
+  return db.dailyChargeCheck.upsert({
+    where: {
+      clientId_date: {
+        clientId,
+        date,
+      },
+    },
+    create: {
+      clientId,
+      date,
+      hasCharged: true,
+      checkedById,
+    },
+    update: {
+      hasCharged: true,
+      checkedAt: new Date(),
+      checkedById,
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import type { PointTransaction, TransactionType } from "@prisma/client";
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Charges and redeems accept an `idempotencyKey` generated by the browser
+ * once per intended operation (crypto.randomUUID()). The key is stored in a
+ * unique column of PointTransaction, so a double click or a retried request
+ * returns the transaction that already exists instead of moving points twice.
+ */
+
+export const idempotencyKeySchema = z.string().trim().min(16).max(128);
+
+export class IdempotencyConflictError extends Error {
+  constructor() {
+    super(
+      "La clave de operación ya se usó para otro movimiento. Recargá la página e intentá de nuevo.",
+    );
+  }
+}
+
+type ExpectedTransaction = {
+  clientId: number;
+  amount: number;
+  type: TransactionType;
+};
+
+function isIdempotencyKeyViolation(error: unknown): boolean {
+  const knownError = error as { code?: string; meta?: { target?: unknown } };
+
+  if (knownError?.code !== "P2002") return false;
+
+  const target = knownError.meta?.target;
+  return Array.isArray(target)
+    ? target.includes("idempotencyKey")
+    : String(target ?? "").includes("idempotencyKey");
+}
+
+async function findReplay(
+  key: string,
+  expected: ExpectedTransaction,
+): Promise<PointTransaction | null> {
+  const existing = await prisma.pointTransaction.findUnique({
+    where: { idempotencyKey: key },
+  });
+
+  if (!existing) return null;
+
+  // Same key with a different payload is a client bug, never a replay
+  if (
+    existing.clientId !== expected.clientId ||
+    existing.amount !== expected.amount ||
+    existing.type !== expected.type
+  ) {
+    throw new IdempotencyConflictError();
+  }
+
+  return existing;
+}
+
+export type IdempotentOutcome<T> = {
+  result: T;
+  // true when the key was already used: nothing was applied this time, so
+  // the caller must not count the operation again
+  replayed: boolean;
+};
+
+/**
+ * Runs `apply` (which must create the PointTransaction with `key` inside its
+ * Prisma transaction) unless a transaction with that key already exists, in
+ * which case `replay` rebuilds the result from it. A concurrent request with
+ * the same key loses on the unique index, its transaction rolls back and it
+ * falls through to `replay` as well.
+ */
+export async function runIdempotent<T>(
+  key: string | null | undefined,
+  expected: ExpectedTransaction,
+  apply: () => Promise<T>,
+  replay: (existing: PointTransaction) => Promise<T>,
+): Promise<IdempotentOutcome<T>> {
+  if (!key) return { result: await apply(), replayed: false };
+
+  const previous = await findReplay(key, expected);
+  if (previous) return { result: await replay(previous), replayed: true };
+
+  try {
+    return { result: await apply(), replayed: false };
+  } catch (error) {
+    if (!isIdempotencyKeyViolation(error)) throw error;
+
+    const winner = await findReplay(key, expected);
+    if (!winner) throw error;
+
+    return { result: await replay(winner), replayed: true };
+  }
+}
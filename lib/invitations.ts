@@ -0,0 +1,52 @@
+import { createHash, randomBytes } from "crypto";
+import type { UserInvitation } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+
+// Vigencia por defecto de una invitación.
+export const DEFAULT_INVITATION_TTL_HOURS = 72;
+export const MAX_INVITATION_TTL_HOURS = 24 * 14;
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Returns the plain token (only ever shown to the admin inside the link)
+ * and the hash that gets stored.
+ */
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export type InvitationState = "PENDING" | "USED" | "REVOKED" | "EXPIRED";
+
+export function getInvitationState(
+  invitation: Pick<UserInvitation, "usedAt" | "revokedAt" | "expiresAt">,
+  now = new Date(),
+): InvitationState {
+  if (invitation.usedAt) return "USED";
+  if (invitation.revokedAt) return "REVOKED";
+  if (invitation.expiresAt <= now) return "EXPIRED";
+  return "PENDING";
+}
+
+/**
+ * Resolves a token to an invitation that can still be used, or null.
+ */
+export async function findUsableInvitation(
+  token: string,
+): Promise<UserInvitation | null> {
+  if (!token) return null;
+
+  const invitation = await prisma.userInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+  });
+
+  if (!invitation || getInvitationState(invitation) !== "PENDING") {
+    return null;
+  }
+
+  return invitation;
+}
@@ -0,0 +1,169 @@
+import type { User } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type { RequestMetadata } from "@/lib/request-context";
+
+// Fallos consecutivos antes de bloquear la cuenta.
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+
+// Duración del bloqueo temporal de la cuenta.
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+
+// Ventana y tope de fallos por IP, para frenar ataques que rotan usuarios.
+const IP_WINDOW_MS = 15 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS_PER_IP = 20;
+
+// Demora progresiva: 500ms, 1s, 2s, 4s... con techo.
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function getProgressiveDelayMs(failedAttempts: number): number {
+  if (failedAttempts <= 0) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failedAttempts - 1), MAX_DELAY_MS);
+}
+
+export function isUserLocked(
+  user: Pick<User, "lockedUntil">,
+  now = new Date(),
+): boolean {
+  return !!user.lockedUntil && user.lockedUntil > now;
+}
+
+/**
+ * True when the IP already burned through its failure budget for the window.
+ * Requests without an IP (local dev, misconfigured proxy) are never throttled.
+ */
+export async function isIpThrottled(ipAddress: string | null): Promise<boolean> {
+  if (!ipAddress) return false;
+
+  const recentFailures = await prisma.loginAttempt.count({
+    where: {
+      ipAddress,
+      success: false,
+      createdAt: { gte: new Date(Date.now() - IP_WINDOW_MS) },
+    },
+  });
+
+  return recentFailures >= MAX_FAILED_ATTEMPTS_PER_IP;
+}
+
+export async function recordLoginAttempt(params: {
+  username: string;
+  userId?: number | null;
+  success: boolean;
+  metadata: RequestMetadata;
+}) {
+  await prisma.loginAttempt.create({
+    data: {
+      username: params.username,
+      userId: params.userId ?? null,
+      success: params.success,
+      ipAddress: params.metadata.ipAddress,
+      userAgent: params.metadata.userAgent,
+    },
+  });
+}
+
+/**
+ * Records a failed password check, locks the account once the limit is hit
+ * and waits the progressive delay before the caller answers. The counter is
+ * incremented in the database, so a burst of parallel attempts still adds
+ * up to the lockout.
+ */
+export async function registerFailedLogin(params: {
+  username: string;
+  user: Pick<User, "id"> | null;
+  metadata: RequestMetadata;
+}) {
+  const { username, user, metadata } = params;
+
+  await recordLoginAttempt({
+    username,
+    userId: user?.id ?? null,
+    success: false,
+    metadata,
+  });
+
+  let failedAttempts: number;
+
+  if (user) {
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+    failedAttempts = updated.failedLoginAttempts;
+
+    if (failedAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lockedUntil: new Date(Date.now() + LOCKOUT_DURATION_MS) },
+      });
+    }
+  } else {
+    // Usuarios inexistentes también pagan la demora, así no se distinguen.
+    failedAttempts = await prisma.loginAttempt.count({
+      where: {
+        username,
+        success: false,
+        createdAt: { gte: new Date(Date.now() - LOCKOUT_DURATION_MS) },
+      },
+    });
+  }
+
+  await sleep(getProgressiveDelayMs(failedAttempts));
+}
+
+/**
+ * Rejects an attempt against a locked account like any other failure: it is
+ * recorded (so it counts toward the IP budget) and pays the delay, but the
+ * lock itself is left alone.
+ */
+export async function registerLockedLogin(params: {
+  username: string;
+  user: Pick<User, "id" | "failedLoginAttempts">;
+  metadata: RequestMetadata;
+}) {
+  const { username, user, metadata } = params;
+
+  await recordLoginAttempt({
+    username,
+    userId: user.id,
+    success: false,
+    metadata,
+  });
+
+  await sleep(getProgressiveDelayMs(user.failedLoginAttempts));
+}
+
+export async function registerSuccessfulLogin(params: {
+  username: string;
+  userId: number;
+  metadata: RequestMetadata;
+}) {
+  await recordLoginAttempt({ ...params, success: true });
+
+  await prisma.user.update({
+    where: { id: params.userId },
+    data: { failedLoginAttempts: 0, lockedUntil: null },
+  });
+}
+
+export async function clearLoginLock(userId: number) {
+  return prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockedUntil: null },
+  });
+}
+
+export function formatLockRemaining(lockedUntil: Date, now = new Date()): string {
+  const minutes = Math.max(
+    1,
+    Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000),
+  );
+  return minutes === 1 ? "1 minuto" : `${minutes} minutos`;
+}
@@ -0,0 +1,18 @@
+import type { MembershipTier } from "@prisma/client";
+
+/**
+ * Display labels and order of membership tiers. Client-safe.
+ */
+export const MEMBERSHIP_TIER_LABELS: Record<MembershipTier, string> = {
+  STANDARD: "Estándar",
+  PREMIUM: "Premium",
+  ENTERPRISE: "Empresarial",
+};
+
+export const MEMBERSHIP_TIERS = Object.keys(MEMBERSHIP_TIER_LABELS) as MembershipTier[];
+
+export const MEMBERSHIP_TIER_BADGE_CLASSES: Record<MembershipTier, string> = {
+  STANDARD: "bg-blue-100 text-blue-800",
+  PREMIUM: "bg-purple-100 text-purple-800",
+  ENTERPRISE: "bg-indigo-100 text-indigo-800",
+};
@@ -0,0 +1,127 @@
+import { MembershipTier, TransactionType, type Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/types/auth";
+
+/**
+ * Client.tier follows the rolling charge volume (non-reversed CHARGE rows in
+ * the last `windowDays`). It is recalculated in bulk — nightly by
+ * scripts/recalculate-tiers.ts, or on demand from the admin panel — and
+ * every change leaves a ClientTierChange row.
+ */
+
+export const MEMBERSHIP_TIER_POLICY_ID = 1;
+
+export type MembershipTierPolicySettings = {
+  windowDays: number;
+  premiumMinVolume: number;
+  enterpriseMinVolume: number;
+};
+
+export async function getMembershipTierPolicy(
+  client: Prisma.TransactionClient = prisma,
+): Promise<MembershipTierPolicySettings> {
+  const policy = await client.membershipTierPolicy.findUnique({
+    where: { id: MEMBERSHIP_TIER_POLICY_ID },
+  });
+
+  // Same values as the column defaults
+  return {
+    windowDays: policy?.windowDays ?? 90,
+    premiumMinVolume: policy?.premiumMinVolume ?? 100000,
+    enterpriseMinVolume: policy?.enterpriseMinVolume ?? 500000,
+  };
+}
+
+export function tierForVolume(volume: number, policy: MembershipTierPolicySettings): MembershipTier {
+  if (volume >= policy.enterpriseMinVolume) return MembershipTier.ENTERPRISE;
+  if (volume >= policy.premiumMinVolume) return MembershipTier.PREMIUM;
+  return MembershipTier.STANDARD;
+}
+
+export type TierChangeResult = {
+  clientId: number;
+  username: string;
+  fromTier: MembershipTier;
+  toTier: MembershipTier;
+  volume: number;
+};
+
+export type TierRecalculation = {
+  evaluated: number;
+  changes: TierChangeResult[];
+};
+
+/**
+ * Recomputes every client's tier and writes the ones that changed. `actor`
+ * null is the nightly job ("Sistema" in the audit log). Each change is a
+ * conditional update on the previous tier, so overlapping runs can't record
+ * the same change twice.
+ */
+export async function recalculateMembershipTiers(actor: AuthUser | null): Promise<TierRecalculation> {
+  const policy = await getMembershipTierPolicy();
+  const since = new Date(Date.now() - policy.windowDays * 24 * 60 * 60 * 1000);
+
+  const [volumes, clients] = await Promise.all([
+    prisma.pointTransaction.groupBy({
+      by: ["clientId"],
+      where: {
+        type: TransactionType.CHARGE,
+        reversedBy: { is: null },
+        createdAt: { gte: since },
+      },
+      _sum: { amount: true },
+      orderBy: { clientId: "asc" },
+    }),
+    prisma.client.findMany({
+      select: { id: true, username: true, tier: true },
+      orderBy: { id: "asc" },
+    }),
+  ]);
+
+  const volumeByClient = new Map(volumes.map((row) => [row.clientId, row._sum.amount ?? 0]));
+  const changes: TierChangeResult[] = [];
+
+  for (const client of clients) {
+    const volume = volumeByClient.get(client.id) ?? 0;
+    const tier = tierForVolume(volume, policy);
+
+    if (tier === client.tier) continue;
+
+    const changed = await prisma.$transaction(async (db) => {
+      const updated = await db.client.updateMany({
+        where: { id: client.id, tier: client.tier },
+        data: { tier, tierUpdatedAt: new Date() },
+      });
+
+      if (updated.count === 0) return false;
+
+      await db.clientTierChange.create({
+        data: {
+          clientId: client.id,
+          fromTier: client.tier,
+          toTier: tier,
+          volume,
+          changedById: actor?.id ?? null,
+        },
+      });
+
+      return true;
+    });
+
+    if (changed) {
+      changes.push({ clientId: client.id, username: client.username, fromTier: client.tier, toTier: tier, volume });
+    }
+  }
+
+  await recordAudit({
+    actor,
+    action: "tiers.recalculate",
+    entityType: "MembershipTierPolicy",
+    entityId: MEMBERSHIP_TIER_POLICY_ID,
+    after: { ...policy, evaluated: clients.length, changed: changes.length },
+  });
+
+  return { evaluated: clients.length, changes };
+}
@@ -0,0 +1,70 @@
+/**
+ * Shared password rules for every place a password is chosen: admin user
+ * forms, invitation signup, reset links and the change-password screen.
+ * Client-safe, so the forms can validate before submitting.
+ */
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+export const PASSWORD_POLICY_HINT = `Mínimo ${PASSWORD_MIN_LENGTH} caracteres, con al menos una letra y un número.`;
+
+// Las más usadas en filtraciones; no vale la pena una lista enorme.
+const COMMON_PASSWORDS = new Set([
+  "1234567890",
+  "12345678910",
+  "qwertyuiop",
+  "password1",
+  "password123",
+  "contraseña1",
+  "contrasena1",
+  "ganamos123",
+  "ganamos2024",
+  "ganamos2025",
+  "ganamos2026",
+  "admin12345",
+  "cajero1234",
+]);
+
+export type PasswordValidation = { valid: true } | { valid: false; error: string };
+
+export function validatePasswordStrength(
+  password: string,
+  context: { username?: string | null } = {},
+): PasswordValidation {
+  if (!password.trim()) {
+    return { valid: false, error: "La contraseña no puede estar vacía." };
+  }
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return {
+      valid: false,
+      error: `La contraseña debe tener al menos ${PASSWORD_MIN_LENGTH} caracteres.`,
+    };
+  }
+
+  if (!/\p{L}/u.test(password) || !/\d/.test(password)) {
+    return {
+      valid: false,
+      error: "La contraseña debe combinar letras y números.",
+    };
+  }
+
+  const lower = password.toLowerCase();
+  const username = context.username?.trim().toLowerCase();
+
+  if (username && lower.includes(username)) {
+    return {
+      valid: false,
+      error: "La contraseña no puede contener el nombre de usuario.",
+    };
+  }
+
+  if (COMMON_PASSWORDS.has(lower)) {
+    return {
+      valid: false,
+      error: "Esa contraseña es demasiado común. Elegí otra.",
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,179 @@
+import {
+  TransactionType,
+  WithdrawalStatus,
+  type PaymentAccount,
+  type PaymentMethod,
+  type Prisma,
+} from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/types/auth";
+
+/**
+ * Bank and wallet accounts behind the payment methods. Charges record the
+ * account the money came into (PointTransaction.paymentAccountId) and
+ * payouts the one it left from (WithdrawalRequest.payoutAccountId); the
+ * totals are always computed from those rows, never stored. Inflow counts
+ * non-reversed charges; outflow counts paid withdrawals.
+ */
+
+export type PaymentAccountTotals = {
+  inflow: number;
+  outflow: number;
+  charges: number;
+  payouts: number;
+};
+
+export type InflowCapAlert = {
+  accountId: number;
+  accountName: string;
+  inflow: number; // today's, this charge included
+  cap: number;
+};
+
+const EMPTY_TOTALS: PaymentAccountTotals = { inflow: 0, outflow: 0, charges: 0, payouts: 0 };
+
+// Calendar day in server time, like the charge limits
+export function getLocalDayRange(date: string | Date = new Date()) {
+  const start =
+    typeof date === "string"
+      ? new Date(`${date}T00:00:00`)
+      : new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const end = new Date(start);
+  end.setDate(start.getDate() + 1);
+
+  return { start, end };
+}
+
+/**
+ * Checks the account a movement goes through: it has to exist, be active
+ * and match the method, if one was given. Returns it so the caller can take
+ * the method from it.
+ */
+export async function resolvePaymentAccount(
+  db: Prisma.TransactionClient,
+  accountId: number | null | undefined,
+  method: PaymentMethod | null | undefined,
+): Promise<PaymentAccount | null> {
+  if (!accountId) return null;
+
+  const account = await db.paymentAccount.findUnique({ where: { id: accountId } });
+
+  if (!account) {
+    throw new Error("La cuenta de cobro no existe.");
+  }
+
+  if (!account.isActive) {
+    throw new Error(`La cuenta ${account.name} está desactivada.`);
+  }
+
+  if (method && method !== account.method) {
+    throw new Error(`La cuenta ${account.name} no corresponde al método de pago elegido.`);
+  }
+
+  return account;
+}
+
+/** Totals per account for movements in [from, to); no range means all time. */
+export async function getPaymentAccountTotals(
+  range: { from: Date; to: Date } | null = null,
+  client: Prisma.TransactionClient = prisma,
+): Promise<Map<number, PaymentAccountTotals>> {
+  const [charges, payouts] = await Promise.all([
+    client.pointTransaction.groupBy({
+      by: ["paymentAccountId"],
+      where: {
+        type: TransactionType.CHARGE,
+        paymentAccountId: { not: null },
+        reversedBy: { is: null },
+        ...(range ? { createdAt: { gte: range.from, lt: range.to } } : {}),
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
+      orderBy: { paymentAccountId: "asc" },
+    }),
+    client.withdrawalRequest.groupBy({
+      by: ["payoutAccountId"],
+      where: {
+        status: WithdrawalStatus.PAID,
+        payoutAccountId: { not: null },
+        ...(range ? { paidAt: { gte: range.from, lt: range.to } } : {}),
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
+      orderBy: { payoutAccountId: "asc" },
+    }),
+  ]);
+
+  const totals = new Map<number, PaymentAccountTotals>();
+  const totalsFor = (accountId: number) => {
+    if (!totals.has(accountId)) totals.set(accountId, { ...EMPTY_TOTALS });
+    return totals.get(accountId)!;
+  };
+
+  for (const row of charges) {
+    const entry = totalsFor(row.paymentAccountId!);
+    entry.inflow = row._sum.amount ?? 0;
+    entry.charges = row._count._all;
+  }
+
+  for (const row of payouts) {
+    const entry = totalsFor(row.payoutAccountId!);
+    entry.outflow = row._sum.amount ?? 0;
+    entry.payouts = row._count._all;
+  }
+
+  return totals;
+}
+
+export function emptyPaymentAccountTotals(): PaymentAccountTotals {
+  return { ...EMPTY_TOTALS };
+}
+
+/**
+ * Call it inside the charge transaction, after creating the charge. When the
+ * account's inflow of the day goes over its cap it returns the alert for the
+ * operator; the charge that crosses the cap also leaves an audit event, so
+ * the crossing is on record even if nobody sees the warning.
+ */
+export async function checkInflowCap(
+  db: Prisma.TransactionClient,
+  account: PaymentAccount | null,
+  amount: number,
+  actor: AuthUser,
+): Promise<InflowCapAlert | null> {
+  if (!account || account.dailyInflowCap === null) return null;
+
+  const { start, end } = getLocalDayRange();
+  const today = await db.pointTransaction.aggregate({
+    where: {
+      type: TransactionType.CHARGE,
+      paymentAccountId: account.id,
+      reversedBy: { is: null },
+      createdAt: { gte: start, lt: end },
+    },
+    _sum: { amount: true },
+  });
+
+  const inflow = today._sum.amount ?? 0;
+  const cap = account.dailyInflowCap;
+
+  if (inflow <= cap) return null;
+
+  if (inflow - amount <= cap) {
+    await recordAudit(
+      {
+        actor,
+        action: "payment-account.cap-exceeded",
+        entityType: "PaymentAccount",
+        entityId: account.id,
+        before: { inflow: inflow - amount },
+        after: { inflow, cap },
+      },
+      db,
+    );
+  }
+
+  return { accountId: account.id, accountName: account.name, inflow, cap };
+}
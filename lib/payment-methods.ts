@@ -0,0 +1,39 @@
+import type { PaymentMethod } from "@prisma/client";
+
+/**
+ * Display labels and order of payment methods. Client-safe.
+ */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: "Efectivo",
+  CARD: "Tarjeta",
+  TRANSFER: "Transferencia",
+  OTHER: "Otro",
+};
+
+export const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+/**
+ * What a charge action returns, instead of throwing, when the reference was
+ * already credited with the same method, so the charge forms can offer the
+ * ADMIN override (see lib/reference-codes.ts).
+ */
+export type DuplicateReferenceResult = {
+  success: false;
+  code: "DUPLICATE_REFERENCE";
+  message: string;
+  duplicateOfId: number; // the charge that already credited it
+};
+
+export function isDuplicateReference(value: unknown): value is DuplicateReferenceResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Partial<DuplicateReferenceResult>).code === "DUPLICATE_REFERENCE"
+  );
+}
+
+const amountFormatter = new Intl.NumberFormat("es-AR");
+
+export function describeInflowCapAlert(alert: { accountName: string; inflow: number; cap: number }) {
+  return `${alert.accountName} superó su tope diario: lleva ${amountFormatter.format(alert.inflow)} de ${amountFormatter.format(alert.cap)}.`;
+}
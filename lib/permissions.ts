@@ -0,0 +1,54 @@
+import type { AuthRole } from "@/types/auth";
+
+/**
+ * Permission matrix: which roles may perform each kind of operation.
+ * Every server action declares one of these keys through `withPermission`.
+ */
+export const PERMISSIONS = {
+  "dashboard:admin": ["ADMIN"],
+  "users:manage": ["ADMIN"],
+  "clients:read": ["ADMIN", "AGENT", "CASHIER"],
+  "clients:create": ["ADMIN", "AGENT", "CASHIER"],
+  "clients:update": ["ADMIN", "AGENT"],
+  "contacts:write": ["ADMIN", "AGENT", "CASHIER"],
+  "cashier:read": ["ADMIN", "CASHIER"],
+  "daily-checks:write": ["ADMIN", "CASHIER"],
+  "ledger:charge": ["ADMIN", "AGENT", "CASHIER"],
+  "ledger:redeem": ["ADMIN", "CASHIER"],
+  "ledger:reverse": ["ADMIN", "CASHIER"],
+  "ledger:approve-reversal": ["ADMIN"],
+  "ledger:reconcile": ["ADMIN"],
+  "ledger:override-limits": ["ADMIN"],
+  "ledger:override-duplicates": ["ADMIN"],
+  "ledger:import": ["ADMIN", "CASHIER"],
+  "ledger:import-rollback": ["ADMIN"],
+  "limits:manage": ["ADMIN"],
+  "payment-accounts:manage": ["ADMIN"],
+  "shifts:operate": ["ADMIN", "CASHIER"],
+  "shifts:read-all": ["ADMIN"],
+  "withdrawals:request": ["ADMIN", "AGENT", "CASHIER"],
+  "withdrawals:read": ["ADMIN", "CASHIER"],
+  "withdrawals:review": ["ADMIN"],
+  "withdrawals:pay": ["ADMIN", "CASHIER"],
+  "marketing:read": ["ADMIN", "AGENT", "CASHIER"],
+  "marketing:manage": ["ADMIN"],
+  "promotions:manage": ["ADMIN"],
+  "referrals:manage": ["ADMIN"],
+  "tiers:manage": ["ADMIN"],
+  "expiry:manage": ["ADMIN"],
+  "chat:operate": ["ADMIN", "AGENT", "CASHIER"],
+  "account:security": ["ADMIN", "AGENT", "CASHIER"],
+  "audit:read": ["ADMIN"],
+} as const satisfies Record<string, readonly AuthRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: AuthRole, permission: Permission): boolean {
+  return (PERMISSIONS[permission] as readonly AuthRole[]).includes(role);
+}
+
+export function getRolePermissions(role: AuthRole): Permission[] {
+  return (Object.keys(PERMISSIONS) as Permission[]).filter((permission) =>
+    hasPermission(role, permission),
+  );
+}
@@ -0,0 +1,195 @@
+import { TransactionType, type Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/types/auth";
+
+/**
+ * A client's whole balance expires after `inactivityDays` without a CHARGE or
+ * REDEEM (bonuses, rewards and adjustments don't count as activity). The
+ * expiry is an EXPIRE row for -balance, written by scripts/expire-points.ts
+ * every night or on demand from the admin panel; like any movement it can be
+ * reversed from the client's ledger.
+ */
+
+export const POINTS_EXPIRY_POLICY_ID = 1;
+
+const ACTIVITY_TYPES = [TransactionType.CHARGE, TransactionType.REDEEM];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PointsExpiryPolicySettings = {
+  isActive: boolean;
+  inactivityDays: number;
+  warningDays: number;
+};
+
+export async function getPointsExpiryPolicy(
+  client: Prisma.TransactionClient = prisma,
+): Promise<PointsExpiryPolicySettings> {
+  const policy = await client.pointsExpiryPolicy.findUnique({
+    where: { id: POINTS_EXPIRY_POLICY_ID },
+  });
+
+  // Same values as the column defaults
+  return {
+    isActive: policy?.isActive ?? false,
+    inactivityDays: policy?.inactivityDays ?? 180,
+    warningDays: policy?.warningDays ?? 15,
+  };
+}
+
+type ClientWithBalance = { id: number; pointsBalance: number; createdAt: Date };
+
+// Last CHARGE or REDEEM per client; clients without any count from their sign-up
+async function getLastActivity(clients: ClientWithBalance[]) {
+  const rows = await prisma.pointTransaction.groupBy({
+    by: ["clientId"],
+    where: {
+      clientId: { in: clients.map((client) => client.id) },
+      type: { in: ACTIVITY_TYPES },
+    },
+    _max: { createdAt: true },
+    orderBy: { clientId: "asc" },
+  });
+
+  const lastByClient = new Map(rows.map((row) => [row.clientId, row._max.createdAt]));
+
+  return new Map(clients.map((client) => [client.id, lastByClient.get(client.id) ?? client.createdAt]));
+}
+
+export type PointsExpiryWarning = {
+  points: number;
+  expiresAt: string;
+};
+
+/**
+ * Clients (of the given ones) whose balance expires within the warning
+ * window, or is already due for the next run. Empty while the policy is off.
+ */
+export async function getPointsExpiryWarnings(
+  clients: ClientWithBalance[],
+  now = new Date(),
+): Promise<Map<number, PointsExpiryWarning>> {
+  const warnings = new Map<number, PointsExpiryWarning>();
+  const policy = await getPointsExpiryPolicy();
+  const withBalance = clients.filter((client) => client.pointsBalance > 0);
+
+  if (!policy.isActive || withBalance.length === 0) return warnings;
+
+  const lastActivity = await getLastActivity(withBalance);
+  const warnFrom = now.getTime() + policy.warningDays * DAY_MS;
+
+  for (const client of withBalance) {
+    const expiresAt = lastActivity.get(client.id)!.getTime() + policy.inactivityDays * DAY_MS;
+
+    if (expiresAt <= warnFrom) {
+      warnings.set(client.id, {
+        points: client.pointsBalance,
+        expiresAt: new Date(expiresAt).toISOString(),
+      });
+    }
+  }
+
+  return warnings;
+}
+
+export type ExpiredBalance = {
+  clientId: number;
+  username: string;
+  points: number;
+  transactionId: number;
+};
+
+export type PointsExpiryRun = {
+  evaluated: number;
+  expired: ExpiredBalance[];
+  totalPoints: number;
+};
+
+/**
+ * Writes the EXPIRE rows for every client past the inactivity period.
+ * Returns null when the policy is off. `actor` null is the nightly job
+ * ("Sistema" in the audit log). Activity and balance are checked again under
+ * the client row lock, so a charge landing mid-run keeps the points.
+ */
+export async function expireInactiveBalances(
+  actor: AuthUser | null,
+  now = new Date(),
+): Promise<PointsExpiryRun | null> {
+  const policy = await getPointsExpiryPolicy();
+
+  if (!policy.isActive) return null;
+
+  const cutoff = new Date(now.getTime() - policy.inactivityDays * DAY_MS);
+
+  const clients = await prisma.client.findMany({
+    where: { pointsBalance: { gt: 0 } },
+    select: { id: true, username: true, pointsBalance: true, createdAt: true },
+    orderBy: { id: "asc" },
+  });
+
+  const lastActivity = await getLastActivity(clients);
+  const expired: ExpiredBalance[] = [];
+
+  for (const candidate of clients) {
+    if (lastActivity.get(candidate.id)! >= cutoff) continue;
+
+    const result = await prisma.$transaction(async (db) => {
+      // Row lock: concurrent charges and redeems on this client wait for us
+      const client = await db.client.update({
+        where: { id: candidate.id },
+        data: { pointsBalance: { increment: 0 } },
+      });
+
+      const recentActivity = await db.pointTransaction.count({
+        where: { clientId: client.id, type: { in: ACTIVITY_TYPES }, createdAt: { gte: cutoff } },
+      });
+
+      if (recentActivity > 0 || client.pointsBalance <= 0) return null;
+
+      const transaction = await db.pointTransaction.create({
+        data: {
+          clientId: client.id,
+          amount: -client.pointsBalance,
+          type: TransactionType.EXPIRE,
+          description: `Vencimiento por ${policy.inactivityDays} días sin movimientos`,
+          cashierId: actor?.id ?? null,
+        },
+      });
+
+      await db.client.update({
+        where: { id: client.id },
+        data: { pointsBalance: { decrement: client.pointsBalance } },
+      });
+
+      await recordAudit(
+        {
+          actor,
+          action: "ledger.expire",
+          entityType: "Client",
+          entityId: client.id,
+          before: { pointsBalance: client.pointsBalance },
+          after: { pointsBalance: 0, transactionId: transaction.id, inactivityDays: policy.inactivityDays },
+        },
+        db,
+      );
+
+      return { clientId: client.id, username: client.username, points: client.pointsBalance, transactionId: transaction.id };
+    });
+
+    if (result) expired.push(result);
+  }
+
+  const totalPoints = expired.reduce((acc, row) => acc + row.points, 0);
+
+  await recordAudit({
+    actor,
+    action: "expiry.run",
+    entityType: "PointsExpiryPolicy",
+    entityId: POINTS_EXPIRY_POLICY_ID,
+    after: { ...policy, evaluated: clients.length, expired: expired.length, totalPoints },
+  });
+
+  return { evaluated: clients.length, expired, totalPoints };
+}
@@ -0,0 +1,165 @@
+import {
+  PromotionKind,
+  TransactionType,
+  type PointTransaction,
+  type Prisma,
+  type Promotion,
+} from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/types/auth";
+
+export type PromotionMatch = {
+  promotionId: number;
+  name: string;
+  bonus: number;
+};
+
+export function computeBonus(
+  promotion: Pick<Promotion, "kind" | "value" | "maxBonus">,
+  amount: number,
+): number {
+  if (promotion.kind === PromotionKind.FIXED) return promotion.value;
+
+  const bonus = Math.floor((amount * promotion.value) / 100);
+  return promotion.maxBonus !== null ? Math.min(bonus, promotion.maxBonus) : bonus;
+}
+
+/**
+ * Best promotion for a charge of `amount` to the client, or null. Promotions
+ * don't stack: the one with the biggest bonus wins.
+ *
+ * `excludeTransactionId` is the charge being evaluated, already written when
+ * this runs inside the charge transaction (it doesn't count as a previous
+ * deposit).
+ */
+export async function findBestPromotion(
+  params: { clientId: number; amount: number; excludeTransactionId?: number },
+  client: Prisma.TransactionClient = prisma,
+): Promise<PromotionMatch | null> {
+  const now = new Date();
+
+  const [promotions, target] = await Promise.all([
+    client.promotion.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+          { OR: [{ endsAt: null }, { endsAt: { gte: now } }] },
+          { OR: [{ minAmount: null }, { minAmount: { lte: params.amount } }] },
+        ],
+      },
+    }),
+    client.client.findUnique({
+      where: { id: params.clientId },
+      select: { marketingSourceId: true, tier: true },
+    }),
+  ]);
+
+  if (!target || promotions.length === 0) return null;
+
+  const previousDeposits = promotions.some((promotion) => promotion.firstDepositOnly)
+    ? await client.pointTransaction.count({
+        where: {
+          clientId: params.clientId,
+          type: TransactionType.CHARGE,
+          reversedBy: { is: null },
+          ...(params.excludeTransactionId ? { id: { not: params.excludeTransactionId } } : {}),
+        },
+      })
+    : 0;
+
+  // Reversed bonuses don't use up the promotion
+  const uses = await client.pointTransaction.groupBy({
+    by: ["promotionId"],
+    where: {
+      clientId: params.clientId,
+      type: TransactionType.BONUS,
+      promotionId: { in: promotions.map((promotion) => promotion.id) },
+      reversedBy: { is: null },
+    },
+    _count: { _all: true },
+    orderBy: { promotionId: "asc" },
+  });
+
+  const usesByPromotion = new Map(uses.map((row) => [row.promotionId, row._count._all]));
+
+  let best: PromotionMatch | null = null;
+
+  for (const promotion of promotions) {
+    if (promotion.firstDepositOnly && previousDeposits > 0) continue;
+    if (promotion.marketingSourceId && promotion.marketingSourceId !== target.marketingSourceId) continue;
+    if (promotion.tier && promotion.tier !== target.tier) continue;
+    if (
+      promotion.maxUsesPerClient !== null &&
+      (usesByPromotion.get(promotion.id) ?? 0) >= promotion.maxUsesPerClient
+    ) {
+      continue;
+    }
+
+    const bonus = computeBonus(promotion, params.amount);
+
+    if (bonus > 0 && (!best || bonus > best.bonus)) {
+      best = { promotionId: promotion.id, name: promotion.name, bonus };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Credits the promotion bonus of a charge as its own BONUS row. Call it inside
+ * the charge transaction after the balance increment: that update holds the
+ * client row lock, so concurrent charges can't both use the last allowed use.
+ * Bonuses aren't cash, so they never get a shiftId.
+ */
+export async function applyPromotionBonus(
+  db: Prisma.TransactionClient,
+  charge: Pick<PointTransaction, "id" | "clientId" | "amount">,
+  actor: AuthUser,
+): Promise<PointTransaction | null> {
+  const match = await findBestPromotion(
+    { clientId: charge.clientId, amount: charge.amount, excludeTransactionId: charge.id },
+    db,
+  );
+
+  if (!match) return null;
+
+  const bonus = await db.pointTransaction.create({
+    data: {
+      clientId: charge.clientId,
+      amount: match.bonus,
+      type: TransactionType.BONUS,
+      description: `Promoción: ${match.name}`,
+      cashierId: actor.id,
+      promotionId: match.promotionId,
+      bonusForId: charge.id,
+    },
+  });
+
+  const client = await db.client.update({
+    where: { id: charge.clientId },
+    data: { pointsBalance: { increment: match.bonus } },
+  });
+
+  await recordAudit(
+    {
+      actor,
+      action: "ledger.bonus",
+      entityType: "Client",
+      entityId: charge.clientId,
+      before: { pointsBalance: client.pointsBalance - match.bonus },
+      after: {
+        pointsBalance: client.pointsBalance,
+        transactionId: bonus.id,
+        chargeId: charge.id,
+        promotionId: match.promotionId,
+        amount: match.bonus,
+      },
+    },
+    db,
+  );
+
+  return bonus;
+}
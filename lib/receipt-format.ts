@@ -0,0 +1,106 @@
+import type { TransactionType } from "@prisma/client";
+
+import { PAYMENT_METHOD_LABELS } from "@/lib/payment-methods";
+import type { Receipt } from "@/lib/receipts";
+
+/**
+ * Receipt layout shared by the print view, the PDF and the chat image, so the
+ * three always show the same lines. Client-safe.
+ */
+
+export const RECEIPT_ISSUER = "Ganamos";
+
+export const RECEIPT_FOOTER = "Conservá este comprobante como constancia del movimiento.";
+
+export const RECEIPT_TITLES: Record<TransactionType, string> = {
+  CHARGE: "Comprobante de carga",
+  REDEEM: "Comprobante de canje",
+  ADJUSTMENT: "Comprobante de ajuste",
+  BONUS: "Comprobante de bonificación",
+  REFERRAL: "Comprobante de premio por referido",
+  EXPIRE: "Comprobante de vencimiento de puntos",
+};
+
+export type ReceiptLine = { label: string; value: string };
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateTimeFormatter = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+  timeZone: "America/Argentina/Buenos_Aires",
+});
+
+export function getReceiptLines(receipt: Receipt): ReceiptLine[] {
+  const lines: ReceiptLine[] = [
+    { label: "Comprobante N°", value: `#${receipt.transactionId}` },
+    { label: "Fecha", value: dateTimeFormatter.format(new Date(receipt.createdAt)) },
+    { label: "Cliente", value: `@${receipt.clientUsername}` },
+    {
+      label: "Monto",
+      value: `${receipt.amount > 0 ? "+" : ""}${pointsFormatter.format(receipt.amount)} puntos`,
+    },
+    { label: "Método", value: receipt.method ? PAYMENT_METHOD_LABELS[receipt.method] : "—" },
+    { label: "Referencia", value: receipt.referenceCode ?? "—" },
+    { label: "Cajero", value: receipt.cashierName ?? "Sistema" },
+    { label: "Saldo resultante", value: `${pointsFormatter.format(receipt.balanceAfter)} puntos` },
+  ];
+
+  if (receipt.reversesId) {
+    lines.push({ label: "Revierte", value: `#${receipt.reversesId}` });
+  }
+
+  if (receipt.reversedById) {
+    lines.push({ label: "Revertido por", value: `#${receipt.reversedById}` });
+  }
+
+  return lines;
+}
+
+export function getReceiptFileName(receipt: Receipt, extension: "pdf" | "png") {
+  return `comprobante-${receipt.transactionId}.${extension}`;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const SVG_WIDTH = 420;
+const SVG_LINE_HEIGHT = 30;
+const SVG_HEADER_HEIGHT = 96;
+const SVG_FOOTER_HEIGHT = 48;
+
+/**
+ * Standalone SVG of the receipt; the chat rasterizes it to PNG before sending
+ * so it shows like any other image on the client's phone.
+ */
+export function renderReceiptSvg(receipt: Receipt) {
+  const lines = getReceiptLines(receipt);
+  const height = SVG_HEADER_HEIGHT + lines.length * SVG_LINE_HEIGHT + SVG_FOOTER_HEIGHT;
+
+  const rows = lines
+    .map((line, index) => {
+      const y = SVG_HEADER_HEIGHT + index * SVG_LINE_HEIGHT + 20;
+      return (
+        `<text x="24" y="${y}" font-size="14" fill="#6b7280">${escapeXml(line.label)}</text>` +
+        `<text x="${SVG_WIDTH - 24}" y="${y}" font-size="14" font-weight="600" fill="#111827" text-anchor="end">${escapeXml(line.value)}</text>`
+      );
+    })
+    .join("");
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SVG_WIDTH}" height="${height}" viewBox="0 0 ${SVG_WIDTH} ${height}" font-family="Helvetica, Arial, sans-serif">` +
+    `<rect width="${SVG_WIDTH}" height="${height}" fill="#ffffff"/>` +
+    `<rect width="${SVG_WIDTH}" height="8" fill="#7c3aed"/>` +
+    `<text x="24" y="44" font-size="20" font-weight="700" fill="#7c3aed">${escapeXml(RECEIPT_ISSUER)}</text>` +
+    `<text x="24" y="72" font-size="15" fill="#111827">${escapeXml(RECEIPT_TITLES[receipt.type])}</text>` +
+    `<line x1="24" y1="${SVG_HEADER_HEIGHT - 8}" x2="${SVG_WIDTH - 24}" y2="${SVG_HEADER_HEIGHT - 8}" stroke="#e5e7eb"/>` +
+    rows +
+    `<text x="24" y="${height - 20}" font-size="11" fill="#9ca3af">${escapeXml(RECEIPT_FOOTER)}</text>` +
+    `</svg>`
+  );
+}
@@ -0,0 +1,51 @@
+import { getReceiptFileName, renderReceiptSvg } from "@/lib/receipt-format";
+import type { Receipt } from "@/lib/receipts";
+
+export type ReceiptImage = {
+  dataUrl: string;
+  name: string;
+  mimeType: string;
+  size: number;
+};
+
+// Drawn at 2x so the text stays sharp on phone screens
+const RASTER_SCALE = 2;
+
+/**
+ * Rasterizes the receipt SVG to a PNG data URL in the browser, ready to send
+ * through the chat like an uploaded image.
+ */
+export function renderReceiptImage(receipt: Receipt): Promise<ReceiptImage> {
+  const svg = renderReceiptSvg(receipt);
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width * RASTER_SCALE;
+      canvas.height = image.height * RASTER_SCALE;
+
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("El navegador no permite generar la imagen del comprobante."));
+        return;
+      }
+
+      context.scale(RASTER_SCALE, RASTER_SCALE);
+      context.drawImage(image, 0, 0);
+
+      const dataUrl = canvas.toDataURL("image/png");
+      resolve({
+        dataUrl,
+        name: getReceiptFileName(receipt, "png"),
+        mimeType: "image/png",
+        // base64 payload length → bytes
+        size: Math.round(((dataUrl.length - dataUrl.indexOf(",") - 1) * 3) / 4),
+      });
+    };
+
+    image.onerror = () => reject(new Error("No se pudo generar la imagen del comprobante."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
@@ -0,0 +1,100 @@
+import {
+  getReceiptLines,
+  RECEIPT_FOOTER,
+  RECEIPT_ISSUER,
+  RECEIPT_TITLES,
+} from "@/lib/receipt-format";
+import type { Receipt } from "@/lib/receipts";
+
+/**
+ * Renders a receipt as a one-page PDF without external services or
+ * libraries: standard Helvetica fonts with WinAnsi encoding (enough for
+ * Spanish text) and a single content stream. The output is plain ASCII, so
+ * byte offsets in the xref table are string lengths.
+ */
+
+const PAGE_WIDTH = 320;
+const LINE_HEIGHT = 22;
+const HEADER_HEIGHT = 90;
+const FOOTER_HEIGHT = 50;
+const VALUE_X = 130;
+
+// Unicode characters outside Latin-1 that WinAnsi still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "—": 0x97,
+  "–": 0x96,
+  "…": 0x85,
+  "“": 0x93,
+  "”": 0x94,
+  "‘": 0x91,
+  "’": 0x92,
+  "€": 0x80,
+  "\u202f": 0x20, // narrow no-break space, used by Intl in "p. m."
+};
+
+function pdfString(value: string) {
+  let out = "";
+
+  for (const char of value) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+
+    if (char === "\\" || char === "(" || char === ")") {
+      out += `\\${char}`;
+    } else if (code >= 0x20 && code < 0x7f) {
+      out += char;
+    } else if (code <= 0xff) {
+      out += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      out += "?";
+    }
+  }
+
+  return `(${out})`;
+}
+
+function text(font: "F1" | "F2", size: number, x: number, y: number, value: string, gray = 0) {
+  return `BT /${font} ${size} Tf ${gray} g ${x} ${y} Td ${pdfString(value)} Tj ET`;
+}
+
+export function renderReceiptPdf(receipt: Receipt): Uint8Array<ArrayBuffer> {
+  const lines = getReceiptLines(receipt);
+  const height = HEADER_HEIGHT + lines.length * LINE_HEIGHT + FOOTER_HEIGHT;
+
+  const content = [
+    "0.486 0.227 0.929 rg",
+    `0 ${height - 6} ${PAGE_WIDTH} 6 re f`,
+    `BT /F2 16 Tf 24 ${height - 36} Td ${pdfString(RECEIPT_ISSUER)} Tj ET`,
+    text("F1", 12, 24, height - 58, RECEIPT_TITLES[receipt.type]),
+    `0.9 G 24 ${height - HEADER_HEIGHT + 12} m ${PAGE_WIDTH - 24} ${height - HEADER_HEIGHT + 12} l S`,
+    ...lines.flatMap((line, index) => {
+      const y = height - HEADER_HEIGHT - index * LINE_HEIGHT - 4;
+      return [text("F1", 10, 24, y, line.label, 0.45), text("F2", 10, VALUE_X, y, line.value)];
+    }),
+    text("F1", 8, 24, 24, RECEIPT_FOOTER, 0.6),
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${height}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
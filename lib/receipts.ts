@@ -0,0 +1,59 @@
+import type { PaymentMethod, TransactionType } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Data printed on a client receipt. One receipt per PointTransaction; the
+ * balance is the one right after the movement, rebuilt from the ledger so a
+ * receipt printed later still shows the balance of that moment.
+ */
+export type Receipt = {
+  transactionId: number;
+  createdAt: string;
+  type: TransactionType;
+  amount: number;
+  method: PaymentMethod | null;
+  referenceCode: string | null;
+  description: string | null;
+  clientId: number;
+  clientUsername: string;
+  cashierName: string | null;
+  balanceAfter: number;
+  reversesId: number | null;
+  reversedById: number | null;
+};
+
+export async function getReceipt(transactionId: number): Promise<Receipt | null> {
+  const tx = await prisma.pointTransaction.findUnique({
+    where: { id: transactionId },
+    include: {
+      client: { select: { username: true } },
+      cashier: { select: { name: true } },
+      reversedBy: { select: { id: true } },
+    },
+  });
+
+  if (!tx) return null;
+
+  // Ids grow with insertion order, so this is the balance after the movement
+  const balance = await prisma.pointTransaction.aggregate({
+    where: { clientId: tx.clientId, id: { lte: tx.id } },
+    _sum: { amount: true },
+  });
+
+  return {
+    transactionId: tx.id,
+    createdAt: tx.createdAt.toISOString(),
+    type: tx.type,
+    amount: tx.amount,
+    method: tx.method,
+    referenceCode: tx.referenceCode,
+    description: tx.description,
+    clientId: tx.clientId,
+    clientUsername: tx.client.username,
+    cashierName: tx.cashier?.name ?? null,
+    balanceAfter: balance._sum.amount ?? 0,
+    reversesId: tx.reversesId,
+    reversedById: tx.reversedBy?.id ?? null,
+  };
+}
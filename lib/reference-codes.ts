@@ -0,0 +1,105 @@
+import { TransactionType, type PaymentMethod, type Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+import type { ChargeOverride } from "@/lib/charge-overrides";
+import { PAYMENT_METHOD_LABELS, type DuplicateReferenceResult } from "@/lib/payment-methods";
+
+/**
+ * A reference code (transfer id, ticket number) can be credited once per
+ * payment method: a second CHARGE with the same method and reference is
+ * rejected unless an ADMIN overrides it, which is recorded on the row.
+ * Reversed charges free their reference. Charges without a method or a
+ * reference aren't checked.
+ */
+
+const pointsFormatter = new Intl.NumberFormat("es-AR");
+
+const dateFormatter = new Intl.DateTimeFormat("es-AR", { dateStyle: "short", timeStyle: "short" });
+
+export const referenceCodeSchema = z
+  .string()
+  .trim()
+  .max(120)
+  .transform((value) => value || null);
+
+/**
+ * Thrown by assertReferenceAvailable so the charge transaction rolls back;
+ * the charge actions catch it and return `result` to the form.
+ */
+export class DuplicateReferenceError extends Error {
+  constructor(readonly result: DuplicateReferenceResult) {
+    super(result.message);
+  }
+}
+
+/** Non-reversed charges with these references and method, by reference. */
+export async function findCreditedReferences(
+  method: PaymentMethod,
+  references: string[],
+  db: Prisma.TransactionClient = prisma,
+) {
+  if (references.length === 0) return new Map<string, number>();
+
+  const existing = await db.pointTransaction.findMany({
+    where: {
+      type: TransactionType.CHARGE,
+      method,
+      referenceCode: { in: references },
+      reversedBy: { is: null },
+    },
+    orderBy: { id: "asc" },
+    select: { id: true, referenceCode: true },
+  });
+
+  // Latest charge per reference
+  return new Map(existing.map((tx) => [tx.referenceCode!, tx.id]));
+}
+
+/**
+ * Rejects a charge whose reference was already credited with the same
+ * method, unless `override` is given. Call it inside the charge transaction:
+ * it holds a lock on the method + reference until the transaction ends, so
+ * two cashiers crediting the same receipt at once can't both pass. Returns
+ * the id of the charge being duplicated when the override was used; throws
+ * DuplicateReferenceError when the charge needs one.
+ */
+export async function assertReferenceAvailable(
+  db: Prisma.TransactionClient,
+  method: PaymentMethod | null | undefined,
+  referenceCode: string | null | undefined,
+  override: ChargeOverride | null,
+): Promise<number | null> {
+  if (!method || !referenceCode) return null;
+
+  // Transaction-scoped advisory lock; there's no row to lock before the charge exists
+  await db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`${method}:${referenceCode}`}))`;
+
+  const existing = await db.pointTransaction.findFirst({
+    where: {
+      type: TransactionType.CHARGE,
+      method,
+      referenceCode,
+      reversedBy: { is: null },
+    },
+    orderBy: { id: "desc" },
+    include: {
+      client: { select: { username: true } },
+      cashier: { select: { name: true } },
+    },
+  });
+
+  if (!existing) return null;
+  if (override) return existing.id;
+
+  throw new DuplicateReferenceError({
+    success: false,
+    code: "DUPLICATE_REFERENCE",
+    message:
+      `Comprobante ya acreditado: la referencia ${referenceCode} (${PAYMENT_METHOD_LABELS[method]}) ` +
+      `ya se le cargó a @${existing.client.username} por ${pointsFormatter.format(existing.amount)}, ` +
+      `registrada por ${existing.cashier?.name ?? "Sistema"} el ${dateFormatter.format(existing.createdAt)} ` +
+      `(movimiento #${existing.id}). Un administrador puede autorizar la carga.`,
+    duplicateOfId: existing.id,
+  });
+}
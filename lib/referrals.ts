@@ -0,0 +1,235 @@
+import { TransactionType, type PointTransaction, type Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { recordAudit } from "@/lib/audit";
+import { debitPointsBalance } from "@/lib/balances";
+import type { AuthUser } from "@/types/auth";
+
+export const REFERRAL_PROGRAM_ID = 1;
+
+export async function getReferralProgram(client: Prisma.TransactionClient = prisma) {
+  const program = await client.referralProgram.findUnique({ where: { id: REFERRAL_PROGRAM_ID } });
+
+  return (
+    program ?? {
+      id: REFERRAL_PROGRAM_ID,
+      updatedAt: null,
+      isActive: false,
+      referrerReward: 0,
+      referredReward: 0,
+      minFirstCharge: 0,
+    }
+  );
+}
+
+/**
+ * Client id behind a referral code, or an error if nobody has it. Codes are
+ * stored upper-case, so operators can type them either way.
+ */
+export async function resolveReferralCode(
+  code: string,
+  client: Prisma.TransactionClient = prisma,
+): Promise<number> {
+  const referrer = await client.client.findUnique({
+    where: { referralCode: code.trim().toUpperCase() },
+    select: { id: true },
+  });
+
+  if (!referrer) {
+    throw new Error("El código de referido no existe.");
+  }
+
+  return referrer.id;
+}
+
+async function creditReferralReward(
+  db: Prisma.TransactionClient,
+  params: { clientId: number; amount: number; description: string; chargeId: number },
+  actor: AuthUser,
+) {
+  const reward = await db.pointTransaction.create({
+    data: {
+      clientId: params.clientId,
+      amount: params.amount,
+      type: TransactionType.REFERRAL,
+      description: params.description,
+      cashierId: actor.id,
+      referralForId: params.chargeId,
+    },
+  });
+
+  const client = await db.client.update({
+    where: { id: params.clientId },
+    data: { pointsBalance: { increment: params.amount } },
+  });
+
+  await recordAudit(
+    {
+      actor,
+      action: "ledger.referral",
+      entityType: "Client",
+      entityId: params.clientId,
+      before: { pointsBalance: client.pointsBalance - params.amount },
+      after: {
+        pointsBalance: client.pointsBalance,
+        transactionId: reward.id,
+        chargeId: params.chargeId,
+        amount: params.amount,
+      },
+    },
+    db,
+  );
+
+  return reward;
+}
+
+/**
+ * Credits the referral rewards when `charge` is the referred client's first
+ * charge and reaches the program minimum. Call it inside the charge
+ * transaction after the balance increment. Like bonuses, rewards aren't cash
+ * and never get a shiftId. Returns the REFERRAL row of the charged client
+ * (null if they got nothing) so callers can report the new balance.
+ */
+export async function applyReferralReward(
+  db: Prisma.TransactionClient,
+  charge: Pick<PointTransaction, "id" | "clientId" | "amount">,
+  actor: AuthUser,
+): Promise<PointTransaction | null> {
+  const referred = await db.client.findUniqueOrThrow({
+    where: { id: charge.clientId },
+    select: {
+      username: true,
+      referralRewardedAt: true,
+      referredBy: { select: { id: true, username: true } },
+    },
+  });
+
+  if (!referred.referredBy || referred.referralRewardedAt) return null;
+
+  const program = await getReferralProgram(db);
+
+  if (!program.isActive || charge.amount < program.minFirstCharge) return null;
+
+  const previousDeposits = await db.pointTransaction.count({
+    where: {
+      clientId: charge.clientId,
+      type: TransactionType.CHARGE,
+      reversedBy: { is: null },
+      id: { not: charge.id },
+    },
+  });
+
+  if (previousDeposits > 0) return null;
+
+  // Claim the reward: only one charge can flip the flag
+  const claimed = await db.client.updateMany({
+    where: { id: charge.clientId, referralRewardedAt: null },
+    data: { referralRewardedAt: new Date() },
+  });
+
+  if (claimed.count === 0) return null;
+
+  if (program.referrerReward > 0) {
+    await creditReferralReward(
+      db,
+      {
+        clientId: referred.referredBy.id,
+        amount: program.referrerReward,
+        description: `Referido: ${referred.username}`,
+        chargeId: charge.id,
+      },
+      actor,
+    );
+  }
+
+  if (program.referredReward <= 0) return null;
+
+  return creditReferralReward(
+    db,
+    {
+      clientId: charge.clientId,
+      amount: program.referredReward,
+      description: `Invitado por ${referred.referredBy.username}`,
+      chargeId: charge.id,
+    },
+    actor,
+  );
+}
+
+/**
+ * Takes back the referral rewards earned by `charge`, for both sides, and
+ * clears the referred client's flag so their next first charge can earn them
+ * again. Call it inside the transaction that reverses the charge. Fails if
+ * a client already spent the reward. Returns the reversal rows.
+ */
+export async function reverseReferralRewards(
+  db: Prisma.TransactionClient,
+  charge: Pick<PointTransaction, "id" | "clientId">,
+  params: { reason: string; approvedById?: number | null },
+  actor: AuthUser,
+): Promise<PointTransaction[]> {
+  const rewards = await db.pointTransaction.findMany({
+    where: { referralForId: charge.id },
+    include: {
+      client: { select: { username: true } },
+      reversedBy: { select: { id: true } },
+    },
+    orderBy: { id: "asc" },
+  });
+
+  if (rewards.length === 0) return [];
+
+  await db.client.update({
+    where: { id: charge.clientId },
+    data: { referralRewardedAt: null },
+  });
+
+  const reversals: PointTransaction[] = [];
+
+  for (const reward of rewards) {
+    if (reward.reversedBy) continue;
+
+    const client = await debitPointsBalance(
+      db,
+      reward.clientId,
+      reward.amount,
+      `@${reward.client.username} ya usó la recompensa por referido #${reward.id}.`,
+    );
+
+    const reversal = await db.pointTransaction.create({
+      data: {
+        clientId: reward.clientId,
+        amount: -reward.amount,
+        type: TransactionType.ADJUSTMENT,
+        description: `Reversión de la recompensa por referido #${reward.id}`,
+        reversesId: reward.id,
+        reversalReason: params.reason,
+        cashierId: actor.id,
+        approvedById: params.approvedById ?? null,
+      },
+    });
+
+    await recordAudit(
+      {
+        actor,
+        action: "ledger.reverse",
+        entityType: "Client",
+        entityId: reward.clientId,
+        before: { pointsBalance: client.pointsBalance + reward.amount },
+        after: {
+          pointsBalance: client.pointsBalance,
+          transactionId: reversal.id,
+          reversesId: reward.id,
+          amount: reversal.amount,
+          chargeId: charge.id,
+          reason: params.reason,
+        },
+      },
+      db,
+    );
+
+    reversals.push(reversal);
+  }
+
+  return reversals;
+}
@@ -0,0 +1,24 @@
+import { headers } from "next/headers";
+
+export type RequestMetadata = {
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+/**
+ * Reads the caller IP and user agent of the current request.
+ * Works inside route handlers, server actions and server components.
+ */
+export async function getRequestMetadata(): Promise<RequestMetadata> {
+  const headerList = await headers();
+
+  // Vercel (and most proxies) put the real client first in x-forwarded-for
+  const forwardedFor = headerList.get("x-forwarded-for");
+  const ipAddress =
+    forwardedFor?.split(",")[0]?.trim() || headerList.get("x-real-ip") || null;
+
+  return {
+    ipAddress,
+    userAgent: headerList.get("user-agent"),
+  };
+}
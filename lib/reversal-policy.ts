@@ -0,0 +1,34 @@
+/**
+ * Rules for voiding a point transaction. Client-safe, so the reversal dialog
+ * knows up front whether to ask for a second approver.
+ */
+
+// Reversals moving more points than this need a second user (ADMIN) to approve.
+export const REVERSAL_APPROVAL_THRESHOLD = 20000;
+
+export const REVERSAL_REASON_MIN_LENGTH = 5;
+
+export function requiresReversalApproval(amount: number): boolean {
+  return Math.abs(amount) > REVERSAL_APPROVAL_THRESHOLD;
+}
+
+/**
+ * What the reversal action returns when the points it would move (the
+ * movement plus the bonus and referral rewards reversed with it) go over the
+ * threshold and no approver came with the request, so the dialog can ask for
+ * one even when the movement alone is under it.
+ */
+export type ReversalApprovalRequiredResult = {
+  success: false;
+  code: "APPROVAL_REQUIRED";
+  message: string;
+  pointsMoved: number;
+};
+
+export function isReversalApprovalRequired(value: unknown): value is ReversalApprovalRequiredResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as Partial<ReversalApprovalRequiredResult>).code === "APPROVAL_REQUIRED"
+  );
+}
@@ -0,0 +1,199 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import type { Prisma, Session, User } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { getRequestMetadata } from "@/lib/request-context";
+import type { AuthRole, AuthUser } from "@/types/auth";
+
+export const SESSION_COOKIE_NAME = "crm-ganamos-session";
+
+// Un turno largo de caja entra cómodo; después hay que volver a loguearse.
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// lastSeenAt is only written when older than this, to avoid a write per request.
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export const SESSION_SECRET_MIN_LENGTH = 32;
+
+/**
+ * Signs session cookies and login challenges. Checked at server start by
+ * instrumentation.ts, so a missing value fails the deploy instead of every
+ * login. Generate one with `openssl rand -base64 48` (see README).
+ */
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret || secret.length < SESSION_SECRET_MIN_LENGTH) {
+    throw new Error(
+      `SESSION_SECRET no está configurado o tiene menos de ${SESSION_SECRET_MIN_LENGTH} caracteres. ` +
+        "Generá uno con `openssl rand -base64 48` y agregalo a las variables de entorno.",
+    );
+  }
+
+  return secret;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function signToken(token: string): string {
+  return createHmac("sha256", getSessionSecret())
+    .update(token)
+    .digest("base64url");
+}
+
+// Signed value format: "<value>.<hmac(value)>" (session cookie, login challenges)
+export function signValue(token: string): string {
+  return `${token}.${signToken(token)}`;
+}
+
+export function unsignValue(value: string | undefined): string | null {
+  if (!value) return null;
+
+  const separator = value.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const token = value.slice(0, separator);
+  const signature = Buffer.from(value.slice(separator + 1));
+  const expected = Buffer.from(signToken(token));
+
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(signature, expected)
+  ) {
+    return null;
+  }
+
+  return token;
+}
+
+export function toAuthUser(
+  user: Pick<User, "id" | "name" | "username" | "role" | "mustChangePassword">,
+): AuthUser {
+  return {
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    role: user.role as AuthRole,
+    mustChangePassword: user.mustChangePassword,
+  };
+}
+
+/**
+ * Creates a Session row for the user and sets the HttpOnly session cookie.
+ * Must be called from a route handler or a server action.
+ */
+export async function createSession(userId: number): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const { ipAddress, userAgent } = await getRequestMetadata();
+
+  await prisma.session.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt,
+      ipAddress,
+      userAgent,
+    },
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, signValue(token), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Resolves the session referenced by the request cookie.
+ * Returns null when the cookie is missing, tampered, expired or revoked,
+ * or when the user was deactivated.
+ */
+export async function getCurrentSession(): Promise<
+  (Session & { user: User }) | null
+> {
+  const cookieStore = await cookies();
+  const token = unsignValue(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+
+  if (!token) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  if (
+    !session ||
+    session.revokedAt ||
+    session.expiresAt <= new Date() ||
+    !session.user.isActive
+  ) {
+    return null;
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    session.lastSeenAt = new Date();
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastSeenAt: session.lastSeenAt },
+    });
+  }
+
+  return session;
+}
+
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  const session = await getCurrentSession();
+  return session ? toAuthUser(session.user) : null;
+}
+
+/**
+ * Revokes the session of the current request (if any) and clears the cookie.
+ */
+export async function revokeCurrentSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = unsignValue(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+
+  if (token) {
+    await prisma.session.updateMany({
+      where: { tokenHash: hashToken(token), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Revokes every open session of the user, optionally keeping one (the
+ * caller's own). Returns how many sessions were closed.
+ */
+export async function revokeUserSessions(
+  userId: number,
+  options: { exceptSessionId?: number } = {},
+  client: Prisma.TransactionClient = prisma,
+): Promise<number> {
+  const result = await client.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId ? { id: { not: options.exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+
+  return result.count;
+}
+
+export async function listActiveSessions(userId: number): Promise<Session[]> {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: "desc" },
+  });
+}
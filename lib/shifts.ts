@@ -0,0 +1,51 @@
+import type { PaymentMethod, Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { PAYMENT_METHODS } from "@/lib/payment-methods";
+
+export type ShiftTotals = Record<PaymentMethod, number>;
+
+/**
+ * Open shift of the user, if any. Every charge, redeem and reversal stores it
+ * in PointTransaction.shiftId so the closing count knows what to expect.
+ */
+export async function findOpenShiftId(
+  cashierId: number,
+  client: Prisma.TransactionClient = prisma,
+): Promise<number | null> {
+  const shift = await client.cashierShift.findFirst({
+    where: { cashierId, closedAt: null },
+    select: { id: true },
+  });
+
+  return shift?.id ?? null;
+}
+
+/**
+ * What should be in the drawer per method: the opening float plus every
+ * movement of the shift (charges add, redeems and reversals of charges
+ * subtract). Movements without a method were taken at the counter, in cash.
+ */
+export async function computeExpectedTotals(
+  shift: { id: number; openingFloat: number },
+  client: Prisma.TransactionClient = prisma,
+): Promise<ShiftTotals> {
+  const groups = await client.pointTransaction.groupBy({
+    by: ["method"],
+    where: { shiftId: shift.id },
+    _sum: { amount: true },
+    orderBy: { method: "asc" },
+  });
+
+  const totals = Object.fromEntries(
+    PAYMENT_METHODS.map((method) => [method, 0]),
+  ) as ShiftTotals;
+
+  totals.CASH = shift.openingFloat;
+
+  for (const group of groups) {
+    totals[group.method ?? "CASH"] += group._sum.amount ?? 0;
+  }
+
+  return totals;
+}
@@ -0,0 +1,183 @@
+/**
+ * Bank statement parsing for the charge import. Turns a CSV or spreadsheet
+ * table into rows with the columns the import cares about, recognized by
+ * their header. Runs in the browser; matching against clients happens on the
+ * server. Client-safe.
+ */
+
+export const STATEMENT_MAX_ROWS = 500;
+
+export type StatementRow = {
+  line: number; // 1-based row in the file, as the cashier sees it in Excel
+  date: string | null;
+  amount: number | null; // null when the cell isn't a number
+  reference: string | null;
+  username: string | null;
+  phone: string | null;
+  description: string | null;
+};
+
+type StatementColumn = Exclude<keyof StatementRow, "line">;
+
+// Normalized header texts (lowercase, no accents) for each column; a header
+// matches when it starts with one of them, e.g. "importe ($)" or "nro. de operacion"
+const HEADER_ALIASES: Record<StatementColumn, string[]> = {
+  amount: ["importe", "monto", "credito", "haber", "amount", "valor"],
+  reference: ["referencia", "ref", "nro. de operacion", "nro de operacion", "numero de operacion", "operacion", "comprobante", "id de transaccion", "codigo"],
+  date: ["fecha", "date"],
+  username: ["usuario", "username", "user", "cliente"],
+  phone: ["telefono", "celular", "whatsapp", "phone"],
+  description: ["concepto", "descripcion", "detalle", "ordenante", "origen", "motivo"],
+};
+
+const STATEMENT_COLUMNS = Object.keys(HEADER_ALIASES) as StatementColumn[];
+
+// Bank exports often have a few title lines before the header
+const HEADER_SEARCH_ROWS = 10;
+
+function normalizeHeader(value: unknown) {
+  return String(value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function findColumns(header: unknown[]) {
+  const columns: Partial<Record<StatementColumn, number>> = {};
+  const normalized = header.map(normalizeHeader);
+
+  for (const column of STATEMENT_COLUMNS) {
+    const index = normalized.findIndex(
+      (text) => text && HEADER_ALIASES[column].some((alias) => text === alias || text.startsWith(`${alias} `) || text.startsWith(`${alias}(`)),
+    );
+    if (index !== -1 && !Object.values(columns).includes(index)) {
+      columns[column] = index;
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Accepts "1.234,56", "1,234.56", "1234.5", "$ 5.000" and numeric cells.
+ * Points are whole numbers, so the result is rounded.
+ */
+export function parseStatementAmount(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? Math.round(value) : null;
+
+  let text = String(value ?? "").replace(/[$\s]/g, "").replace(/^ARS/i, "");
+  if (!text) return null;
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever comes last is the decimal separator
+    text = lastComma > lastDot
+      ? text.replace(/\./g, "").replace(",", ".")
+      : text.replace(/,/g, "");
+  } else if (lastComma !== -1) {
+    text = /,\d{1,2}$/.test(text) ? text.replace(/,(?=\d{1,2}$)/, ".").replace(/,/g, "") : text.replace(/,/g, "");
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, "");
+  }
+
+  const amount = Number(text);
+  return Number.isFinite(amount) ? Math.round(amount) : null;
+}
+
+function cellText(value: unknown) {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  const text = String(value ?? "").trim();
+  return text || null;
+}
+
+/** Splits CSV text into rows. Detects "," or ";" and handles quoted fields. */
+export function parseCsv(text: string): string[][] {
+  // Spanish-locale exports use ";" because "," is the decimal separator
+  const sample = text.slice(0, 2000);
+  const delimiter = (sample.match(/;/g)?.length ?? 0) > (sample.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Finds the header row and maps the rows below it. Throws when there is no
+ * amount column or the statement is too long for a single import.
+ */
+export function tableToStatementRows(table: unknown[][]): StatementRow[] {
+  const headerIndex = table
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((row) => findColumns(row).amount !== undefined);
+
+  if (headerIndex === -1) {
+    throw new Error("No se encontró la columna de importe (\"Importe\", \"Monto\" o \"Crédito\").");
+  }
+
+  const columns = findColumns(table[headerIndex]);
+
+  const rows = table
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(headerIndex + 1)
+    .filter(({ cells }) => cells.some((cell) => cellText(cell) !== null))
+    .map(({ cells, line }): StatementRow => {
+      const read = (column: StatementColumn) =>
+        columns[column] === undefined ? null : cellText(cells[columns[column]!]);
+
+      return {
+        line,
+        date: read("date"),
+        amount: parseStatementAmount(cells[columns.amount!]),
+        reference: read("reference"),
+        username: read("username"),
+        phone: read("phone"),
+        description: read("description"),
+      };
+    });
+
+  if (rows.length > STATEMENT_MAX_ROWS) {
+    throw new Error(`El archivo tiene ${rows.length} filas; el máximo por importación es ${STATEMENT_MAX_ROWS}.`);
+  }
+
+  return rows;
+}
@@ -0,0 +1,167 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 defaults, the ones every authenticator app expects.
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+// Acepta el código anterior y el siguiente para tolerar relojes desfasados.
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_ISSUER = "Ganamos CRM";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Secreto TOTP inválido.");
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  // 160 bits, the size recommended by RFC 4226
+  return base32Encode(randomBytes(20));
+}
+
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac("sha1", secret).update(counterBuffer).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotpCode(secret: string, at = Date.now()): string {
+  const counter = Math.floor(at / 1000 / TOTP_PERIOD_SECONDS);
+  return generateHotp(base32Decode(secret), counter);
+}
+
+/**
+ * Returns the time step the code belongs to (within the drift window), or
+ * null when it doesn't match. Callers that log someone in store the step to
+ * reject the same code afterwards.
+ */
+export function matchTotpStep(
+  secret: string,
+  code: string,
+  at = Date.now(),
+): number | null {
+  const normalized = code.replace(/\s+/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const counter = Math.floor(at / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const candidate = Buffer.from(generateHotp(key, counter + drift));
+    if (timingSafeEqual(candidate, Buffer.from(normalized))) {
+      return counter + drift;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * otpauth:// URI understood by Google Authenticator, Authy, 1Password, etc.
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/* ----------------------------------------
+ * BACKUP CODES
+ * -------------------------------------- */
+
+const BACKUP_CODE_COUNT = 8;
+
+function normalizeBackupCode(code: string): string {
+  return code.replace(/[\s-]+/g, "").toLowerCase();
+}
+
+export function hashBackupCode(code: string): string {
+  return createHash("sha256").update(normalizeBackupCode(code)).digest("hex");
+}
+
+/**
+ * Returns the plain codes (shown once to the user) and the hashes to store.
+ */
+export function generateBackupCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map(hashBackupCode) };
+}
+
+/**
+ * Looks the code up among the stored hashes. Returns the remaining hashes
+ * when it matches (the code is single-use), or null when it does not.
+ */
+export function consumeBackupCode(
+  code: string,
+  storedHashes: string[],
+): string[] | null {
+  const hash = hashBackupCode(code);
+  const index = storedHashes.indexOf(hash);
+
+  if (index === -1) return null;
+
+  return storedHashes.filter((_, i) => i !== index);
+}
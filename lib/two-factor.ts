@@ -0,0 +1,170 @@
+import type { User, UserRole } from "@prisma/client";
+import QRCode from "qrcode";
+
+import { prisma } from "@/lib/prisma";
+import { signValue, unsignValue } from "@/lib/session";
+import {
+  buildOtpAuthUrl,
+  consumeBackupCode,
+  generateBackupCodes,
+  generateTotpSecret,
+  hashBackupCode,
+  matchTotpStep,
+} from "@/lib/totp";
+import type { TwoFactorEnrollment } from "@/types/auth";
+
+// Tiempo para completar el segundo paso después de validar la contraseña.
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export function isTwoFactorEnabled(user: Pick<User, "totpEnabledAt">): boolean {
+  return !!user.totpEnabledAt;
+}
+
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  const policy = await prisma.roleSecurityPolicy.findUnique({
+    where: { role },
+  });
+
+  return policy?.requireTwoFactor ?? false;
+}
+
+/**
+ * Signed, short-lived proof that the password step already succeeded.
+ * Format before signing: "2fa:<userId>:<expiresAtMs>".
+ */
+export function createLoginChallenge(userId: number): string {
+  const expiresAt = Date.now() + LOGIN_CHALLENGE_TTL_MS;
+  return signValue(`2fa:${userId}:${expiresAt}`);
+}
+
+export function readLoginChallenge(challenge: string): number | null {
+  const payload = unsignValue(challenge);
+  if (!payload) return null;
+
+  const [prefix, rawUserId, rawExpiresAt] = payload.split(":");
+  const userId = Number(rawUserId);
+  const expiresAt = Number(rawExpiresAt);
+
+  if (
+    prefix !== "2fa" ||
+    !Number.isInteger(userId) ||
+    !Number.isFinite(expiresAt) ||
+    expiresAt <= Date.now()
+  ) {
+    return null;
+  }
+
+  return userId;
+}
+
+/**
+ * Stores a fresh (not yet enabled) secret for the user and returns what the
+ * UI needs to show: the QR as a data URL and the secret for manual entry.
+ */
+export async function startTwoFactorEnrollment(
+  user: Pick<User, "id" | "username">,
+): Promise<TwoFactorEnrollment> {
+  const secret = generateTotpSecret();
+  const otpauthUrl = buildOtpAuthUrl(secret, user.username);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpEnabledAt: null },
+  });
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Accepts a TOTP code at most once: the step is claimed with a conditional
+ * update, so a replayed code (or an older one) fails even when two requests
+ * race with it.
+ */
+export async function acceptTotpCode(
+  user: Pick<User, "id" | "totpSecret">,
+  code: string,
+): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const step = matchTotpStep(user.totpSecret, code);
+  if (step === null) return false;
+
+  const claimed = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+
+  return claimed.count === 1;
+}
+
+/**
+ * Checks a TOTP code, or a backup code when the user has 2FA enabled.
+ * Backup codes are single-use: the update only applies while the stored
+ * list is still the one the code was found in, so two requests can't both
+ * spend it.
+ */
+export async function verifySecondFactor(
+  user: Pick<User, "id" | "totpSecret" | "totpEnabledAt" | "totpBackupCodeHashes">,
+  code: string,
+): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  if (matchTotpStep(user.totpSecret, code) !== null) {
+    return acceptTotpCode(user, code);
+  }
+
+  if (!user.totpEnabledAt) return false;
+
+  const remaining = consumeBackupCode(code, user.totpBackupCodeHashes);
+  if (!remaining) return false;
+
+  const consumed = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      totpBackupCodeHashes: { equals: user.totpBackupCodeHashes, has: hashBackupCode(code) },
+    },
+    data: { totpBackupCodeHashes: remaining },
+  });
+
+  return consumed.count === 1;
+}
+
+/**
+ * Turns 2FA on for a user whose pending secret was just verified and issues
+ * a new set of backup codes (plain codes are returned only here).
+ */
+export async function enableTwoFactor(userId: number): Promise<string[]> {
+  const { codes, hashes } = generateBackupCodes();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: new Date(), totpBackupCodeHashes: hashes },
+  });
+
+  return codes;
+}
+
+export async function disableTwoFactor(userId: number) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: null, totpEnabledAt: null, totpBackupCodeHashes: [] },
+  });
+}
+
+export async function regenerateBackupCodes(userId: number): Promise<string[]> {
+  const { codes, hashes } = generateBackupCodes();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpBackupCodeHashes: hashes },
+  });
+
+  return codes;
+}
@@ -0,0 +1,30 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Keeps one idempotency key per pending operation (e.g. per client row).
+ * Double clicks and retries of the same payload reuse the key, so the server
+ * returns the original transaction; editing the payload starts a new key.
+ * Call `release` once the operation succeeded.
+ */
+export function useIdempotencyKeys() {
+  const keysRef = useRef(new Map<string, { payload: string; key: string }>());
+
+  const getKey = useCallback((scope: string | number, payload: unknown) => {
+    const serialized = JSON.stringify(payload);
+    const current = keysRef.current.get(String(scope));
+
+    if (current && current.payload === serialized) {
+      return current.key;
+    }
+
+    const key = crypto.randomUUID();
+    keysRef.current.set(String(scope), { payload: serialized, key });
+    return key;
+  }, []);
+
+  const release = useCallback((scope: string | number) => {
+    keysRef.current.delete(String(scope));
+  }, []);
+
+  return { getKey, release };
+}
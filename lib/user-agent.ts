@@ -0,0 +1,35 @@
+/**
+ * Short "Browser · OS" label for the sessions screens. Only the common
+ * cases; anything else falls back to "Dispositivo desconocido".
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Dispositivo desconocido";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\//.test(userAgent)
+      ? "Opera"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Firefox\//.test(userAgent)
+          ? "Firefox"
+          : /Safari\//.test(userAgent)
+            ? "Safari"
+            : null;
+
+  const os = /Android/.test(userAgent)
+    ? "Android"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Windows/.test(userAgent)
+        ? "Windows"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+
+  if (!browser && !os) return "Dispositivo desconocido";
+
+  return [browser, os].filter(Boolean).join(" · ");
+}
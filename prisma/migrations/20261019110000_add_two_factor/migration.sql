@@ -0,0 +1,15 @@
+-- AddTwoFactor: TOTP enrolment on users and per-role 2FA policy
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "totpBackupCodeHashes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "totpSecret" TEXT;
+
+-- CreateTable
+CREATE TABLE "RoleSecurityPolicy" (
+    "role" "UserRole" NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "requireTwoFactor" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "RoleSecurityPolicy_pkey" PRIMARY KEY ("role")
+);
@@ -0,0 +1,32 @@
+-- AddUserInvitations: invitation-only self-registration
+
+-- CreateTable
+CREATE TABLE "UserInvitation" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tokenHash" TEXT NOT NULL,
+    "role" "UserRole" NOT NULL,
+    "note" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "usedAt" TIMESTAMP(3),
+    "createdById" INTEGER NOT NULL,
+    "usedById" INTEGER,
+
+    CONSTRAINT "UserInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserInvitation_tokenHash_key" ON "UserInvitation"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserInvitation_usedById_key" ON "UserInvitation"("usedById");
+
+-- CreateIndex
+CREATE INDEX "UserInvitation_createdAt_idx" ON "UserInvitation"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UserInvitation" ADD CONSTRAINT "UserInvitation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserInvitation" ADD CONSTRAINT "UserInvitation_usedById_fkey" FOREIGN KEY ("usedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
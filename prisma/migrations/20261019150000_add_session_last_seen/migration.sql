@@ -0,0 +1,7 @@
+-- AddSessionLastSeen: activity timestamp for the sessions/devices screen
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "Session_userId_revokedAt_idx" ON "Session"("userId", "revokedAt");
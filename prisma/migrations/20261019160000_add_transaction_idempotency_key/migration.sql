@@ -0,0 +1,7 @@
+-- AddTransactionIdempotencyKey: client-generated key so retried charges/redeems are not applied twice
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PointTransaction_idempotencyKey_key" ON "PointTransaction"("idempotencyKey");
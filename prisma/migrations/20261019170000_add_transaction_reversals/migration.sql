@@ -0,0 +1,15 @@
+-- AddTransactionReversals: compensating ADJUSTMENT rows linked to the transaction they void
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN "reversesId" INTEGER,
+ADD COLUMN "reversalReason" TEXT,
+ADD COLUMN "approvedById" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PointTransaction_reversesId_key" ON "PointTransaction"("reversesId");
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_reversesId_fkey" FOREIGN KEY ("reversesId") REFERENCES "PointTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_approvedById_fkey" FOREIGN KEY ("approvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- AddCashierShifts: shift opening/closing with cash count (arqueo) per payment method
+
+-- CreateTable
+CREATE TABLE "CashierShift" (
+    "id" SERIAL NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "cashierId" INTEGER NOT NULL,
+    "openingFloat" INTEGER NOT NULL,
+    "closingNote" TEXT,
+
+    CONSTRAINT "CashierShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CashierShiftCount" (
+    "id" SERIAL NOT NULL,
+    "shiftId" INTEGER NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "expected" INTEGER NOT NULL,
+    "counted" INTEGER NOT NULL,
+    "difference" INTEGER NOT NULL,
+
+    CONSTRAINT "CashierShiftCount_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN "shiftId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "CashierShift_cashierId_openedAt_idx" ON "CashierShift"("cashierId", "openedAt");
+
+-- CreateIndex
+CREATE INDEX "CashierShift_openedAt_idx" ON "CashierShift"("openedAt");
+
+-- At most one open shift per cashier (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "CashierShift_one_open_per_cashier" ON "CashierShift"("cashierId") WHERE "closedAt" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CashierShiftCount_shiftId_method_key" ON "CashierShiftCount"("shiftId", "method");
+
+-- CreateIndex
+CREATE INDEX "PointTransaction_shiftId_idx" ON "PointTransaction"("shiftId");
+
+-- AddForeignKey
+ALTER TABLE "CashierShift" ADD CONSTRAINT "CashierShift_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CashierShiftCount" ADD CONSTRAINT "CashierShiftCount_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "CashierShift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "CashierShift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
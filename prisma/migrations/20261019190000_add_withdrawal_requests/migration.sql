@@ -0,0 +1,51 @@
+-- AddWithdrawalRequests: payout queue with the requested amount held from the balance
+
+-- CreateEnum
+CREATE TYPE "WithdrawalStatus" AS ENUM ('PENDING', 'APPROVED', 'PAID', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "WithdrawalRequest" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "status" "WithdrawalStatus" NOT NULL DEFAULT 'PENDING',
+    "clientId" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "destination" TEXT NOT NULL,
+    "note" TEXT,
+    "requestedById" INTEGER NOT NULL,
+    "holdTransactionId" INTEGER NOT NULL,
+    "reviewedById" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "paidById" INTEGER,
+    "paidAt" TIMESTAMP(3),
+    "payoutMethod" "PaymentMethod",
+    "transferReference" TEXT,
+
+    CONSTRAINT "WithdrawalRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WithdrawalRequest_holdTransactionId_key" ON "WithdrawalRequest"("holdTransactionId");
+
+-- CreateIndex
+CREATE INDEX "WithdrawalRequest_status_createdAt_idx" ON "WithdrawalRequest"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WithdrawalRequest_clientId_createdAt_idx" ON "WithdrawalRequest"("clientId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "WithdrawalRequest" ADD CONSTRAINT "WithdrawalRequest_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WithdrawalRequest" ADD CONSTRAINT "WithdrawalRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WithdrawalRequest" ADD CONSTRAINT "WithdrawalRequest_holdTransactionId_fkey" FOREIGN KEY ("holdTransactionId") REFERENCES "PointTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WithdrawalRequest" ADD CONSTRAINT "WithdrawalRequest_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WithdrawalRequest" ADD CONSTRAINT "WithdrawalRequest_paidById_fkey" FOREIGN KEY ("paidById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- AddPromotions: bonus rules applied on charges, credited as separate BONUS transactions
+
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'BONUS';
+
+-- CreateEnum
+CREATE TYPE "PromotionKind" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "MembershipTier" AS ENUM ('STANDARD', 'PREMIUM', 'ENTERPRISE');
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "kind" "PromotionKind" NOT NULL,
+    "value" INTEGER NOT NULL,
+    "maxBonus" INTEGER,
+    "firstDepositOnly" BOOLEAN NOT NULL DEFAULT false,
+    "minAmount" INTEGER,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "marketingSourceId" INTEGER,
+    "tier" "MembershipTier",
+    "maxUsesPerClient" INTEGER,
+    "createdById" INTEGER NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN "promotionId" INTEGER,
+ADD COLUMN "bonusForId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Promotion_isActive_idx" ON "Promotion"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PointTransaction_bonusForId_key" ON "PointTransaction"("bonusForId");
+
+-- CreateIndex
+CREATE INDEX "PointTransaction_promotionId_clientId_idx" ON "PointTransaction"("promotionId", "clientId");
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_marketingSourceId_fkey" FOREIGN KEY ("marketingSourceId") REFERENCES "MarketingSource"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_bonusForId_fkey" FOREIGN KEY ("bonusForId") REFERENCES "PointTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
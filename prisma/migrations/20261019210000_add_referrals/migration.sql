@@ -0,0 +1,30 @@
+-- AddReferrals: referral codes on clients, who referred whom, and the reward settings
+
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'REFERRAL';
+
+-- AlterTable (the volatile default gives every existing client its own code)
+ALTER TABLE "Client" ADD COLUMN     "referralCode" TEXT NOT NULL DEFAULT upper(substr(md5(random()::text), 1, 8)),
+ADD COLUMN     "referralRewardedAt" TIMESTAMP(3),
+ADD COLUMN     "referredById" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ReferralProgram" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "referrerReward" INTEGER NOT NULL DEFAULT 0,
+    "referredReward" INTEGER NOT NULL DEFAULT 0,
+    "minFirstCharge" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ReferralProgram_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Client_referralCode_key" ON "Client"("referralCode");
+
+-- CreateIndex
+CREATE INDEX "Client_referredById_idx" ON "Client"("referredById");
+
+-- AddForeignKey
+ALTER TABLE "Client" ADD CONSTRAINT "Client_referredById_fkey" FOREIGN KEY ("referredById") REFERENCES "Client"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AddChargeLimits: per-client charge limits and self-exclusion, global defaults, ADMIN overrides on charges
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "dailyChargeLimit" INTEGER,
+ADD COLUMN     "monthlyChargeLimit" INTEGER,
+ADD COLUMN     "selfExcludedUntil" TIMESTAMP(3),
+ADD COLUMN     "selfExclusionReason" TEXT,
+ADD COLUMN     "weeklyChargeLimit" INTEGER;
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN     "limitOverrideById" INTEGER,
+ADD COLUMN     "limitOverrideReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "ChargeLimitPolicy" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "dailyLimit" INTEGER,
+    "weeklyLimit" INTEGER,
+    "monthlyLimit" INTEGER,
+
+    CONSTRAINT "ChargeLimitPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_limitOverrideById_fkey" FOREIGN KEY ("limitOverrideById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
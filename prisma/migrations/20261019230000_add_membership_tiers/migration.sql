@@ -0,0 +1,41 @@
+-- AddMembershipTiers: persisted client tier, configurable thresholds and tier-change history
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "tier" "MembershipTier" NOT NULL DEFAULT 'STANDARD',
+ADD COLUMN     "tierUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "MembershipTierPolicy" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "windowDays" INTEGER NOT NULL DEFAULT 90,
+    "premiumMinVolume" INTEGER NOT NULL DEFAULT 100000,
+    "enterpriseMinVolume" INTEGER NOT NULL DEFAULT 500000,
+
+    CONSTRAINT "MembershipTierPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClientTierChange" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clientId" INTEGER NOT NULL,
+    "fromTier" "MembershipTier" NOT NULL,
+    "toTier" "MembershipTier" NOT NULL,
+    "volume" INTEGER NOT NULL,
+    "changedById" INTEGER,
+
+    CONSTRAINT "ClientTierChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClientTierChange_clientId_createdAt_idx" ON "ClientTierChange"("clientId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ClientTierChange_createdAt_idx" ON "ClientTierChange"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ClientTierChange" ADD CONSTRAINT "ClientTierChange_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientTierChange" ADD CONSTRAINT "ClientTierChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AddPointsExpiry: EXPIRE transactions and the inactivity-based expiry settings
+
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'EXPIRE';
+
+-- CreateTable
+CREATE TABLE "PointsExpiryPolicy" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "inactivityDays" INTEGER NOT NULL DEFAULT 180,
+    "warningDays" INTEGER NOT NULL DEFAULT 15,
+
+    CONSTRAINT "PointsExpiryPolicy_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,41 @@
+-- AddChargeImports: bank statement imports as a batch of charges that can be rolled back
+
+-- CreateEnum
+CREATE TYPE "ChargeImportStatus" AS ENUM ('COMMITTED', 'ROLLED_BACK');
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN     "chargeImportId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ChargeImport" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" "ChargeImportStatus" NOT NULL DEFAULT 'COMMITTED',
+    "fileName" TEXT NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "totalAmount" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "rolledBackById" INTEGER,
+    "rolledBackAt" TIMESTAMP(3),
+    "rollbackReason" TEXT,
+
+    CONSTRAINT "ChargeImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PointTransaction_chargeImportId_idx" ON "PointTransaction"("chargeImportId");
+
+-- CreateIndex
+CREATE INDEX "PointTransaction_referenceCode_idx" ON "PointTransaction"("referenceCode");
+
+-- CreateIndex
+CREATE INDEX "ChargeImport_createdAt_idx" ON "ChargeImport"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_chargeImportId_fkey" FOREIGN KEY ("chargeImportId") REFERENCES "ChargeImport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChargeImport" ADD CONSTRAINT "ChargeImport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChargeImport" ADD CONSTRAINT "ChargeImport_rolledBackById_fkey" FOREIGN KEY ("rolledBackById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AddReferenceOverrides: charges crediting a reference already credited with the same method need an ADMIN override
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN     "referenceOverrideById" INTEGER,
+ADD COLUMN     "referenceOverrideReason" TEXT;
+
+-- DropIndex
+DROP INDEX "PointTransaction_referenceCode_idx";
+
+-- CreateIndex
+CREATE INDEX "PointTransaction_method_referenceCode_idx" ON "PointTransaction"("method", "referenceCode");
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_referenceOverrideById_fkey" FOREIGN KEY ("referenceOverrideById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AddPaymentAccounts: bank and wallet accounts that charges come into and payouts go out of
+
+-- CreateTable
+CREATE TABLE "PaymentAccount" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "identifier" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "dailyInflowCap" INTEGER,
+
+    CONSTRAINT "PaymentAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN     "paymentAccountId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "WithdrawalRequest" ADD COLUMN     "payoutAccountId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentAccount_name_key" ON "PaymentAccount"("name");
+
+-- CreateIndex
+CREATE INDEX "PointTransaction_paymentAccountId_createdAt_idx" ON "PointTransaction"("paymentAccountId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WithdrawalRequest_payoutAccountId_paidAt_idx" ON "WithdrawalRequest"("payoutAccountId", "paidAt");
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_paymentAccountId_fkey" FOREIGN KEY ("paymentAccountId") REFERENCES "PaymentAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WithdrawalRequest" ADD CONSTRAINT "WithdrawalRequest_payoutAccountId_fkey" FOREIGN KEY ("payoutAccountId") REFERENCES "PaymentAccount"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AddClientProfileFields: full name, email, birth date, document id, city and notes on Client
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "birthDate" TIMESTAMP(3),
+ADD COLUMN     "city" TEXT,
+ADD COLUMN     "documentId" TEXT,
+ADD COLUMN     "email" TEXT,
+ADD COLUMN     "fullName" TEXT,
+ADD COLUMN     "notes" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Client_documentId_key" ON "Client"("documentId");
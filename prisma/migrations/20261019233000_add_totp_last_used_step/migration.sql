@@ -0,0 +1,4 @@
+-- AddTotpLastUsedStep: remember the last accepted TOTP time step so a code can't be replayed
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "totpLastUsedStep" INTEGER;
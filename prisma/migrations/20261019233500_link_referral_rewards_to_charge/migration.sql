@@ -0,0 +1,18 @@
+-- LinkReferralRewardsToCharge: REFERRAL rows point to the charge that earned them, so reversing it takes them back
+
+-- AlterTable
+ALTER TABLE "PointTransaction" ADD COLUMN     "referralForId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "PointTransaction_referralForId_idx" ON "PointTransaction"("referralForId");
+
+-- AddForeignKey
+ALTER TABLE "PointTransaction" ADD CONSTRAINT "PointTransaction_referralForId_fkey" FOREIGN KEY ("referralForId") REFERENCES "PointTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: the ledger.referral audit event of each reward recorded the charge
+UPDATE "PointTransaction" AS "reward"
+SET "referralForId" = ("event"."after"->>'chargeId')::INTEGER
+FROM "AuditEvent" AS "event"
+WHERE "event"."action" = 'ledger.referral'
+  AND ("event"."after"->>'transactionId')::INTEGER = "reward"."id"
+  AND "reward"."type" = 'REFERRAL';
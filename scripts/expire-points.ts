@@ -0,0 +1,50 @@
+/**
+ * Points Expiry: nightly run
+ *
+ * Writes an EXPIRE transaction for the whole balance of every client without
+ * a charge or redeem in the inactivity period configured in the
+ * "Vencimiento de puntos" card in /admin. Does nothing while the rule is off.
+ *
+ * Run with: npx tsx scripts/expire-points.ts
+ * Or with Bun: bun run scripts/expire-points.ts
+ */
+
+import { prisma } from '../lib/prisma';
+import { expireInactiveBalances } from '../lib/points-expiry';
+
+async function main() {
+  console.log('🔍 Expiring inactive balances...\n');
+
+  try {
+    // actor null: recorded in the audit log as "Sistema"
+    const result = await expireInactiveBalances(null);
+
+    if (!result) {
+      console.log('ℹ️  Points expiry is turned off. Nothing to do.\n');
+      return;
+    }
+
+    for (const row of result.expired) {
+      console.log(`   ✓ ${row.username} (ID: ${row.clientId}): ${row.points} points (transaction #${row.transactionId})`);
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 POINTS EXPIRY SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`ℹ️  Clients with balance evaluated: ${result.evaluated}`);
+    console.log(`✅ Balances expired: ${result.expired.length}`);
+    console.log(`✅ Points expired: ${result.totalPoints}`);
+    console.log('='.repeat(60) + '\n');
+  } catch (error) {
+    console.error('❌ Error during points expiry:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
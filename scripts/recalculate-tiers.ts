@@ -0,0 +1,46 @@
+/**
+ * Membership Tiers: nightly recalculation
+ *
+ * Recomputes every client's tier from its rolling charge volume (thresholds
+ * and window from the "Niveles de membresía" card in /admin) and records a
+ * ClientTierChange row for each client whose tier changed.
+ *
+ * Run with: npx tsx scripts/recalculate-tiers.ts
+ * Or with Bun: bun run scripts/recalculate-tiers.ts
+ */
+
+import { prisma } from '../lib/prisma';
+import { recalculateMembershipTiers } from '../lib/membership';
+
+async function main() {
+  console.log('🔍 Recalculating membership tiers...\n');
+
+  try {
+    // actor null: recorded in the audit log as "Sistema"
+    const result = await recalculateMembershipTiers(null);
+
+    for (const change of result.changes) {
+      console.log(
+        `   ✓ ${change.username} (ID: ${change.clientId}): ${change.fromTier} → ${change.toTier} (volume ${change.volume})`,
+      );
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 TIER RECALCULATION SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`ℹ️  Clients evaluated: ${result.evaluated}`);
+    console.log(`✅ Tiers changed: ${result.changes.length}`);
+    console.log('='.repeat(60) + '\n');
+  } catch (error) {
+    console.error('❌ Error during tier recalculation:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
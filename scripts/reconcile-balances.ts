@@ -0,0 +1,74 @@
+/**
+ * Ledger Integrity Check: Client.pointsBalance vs PointTransaction
+ *
+ * Recomputes every client's balance from its ledger and reports the clients
+ * whose stored balance differs (or is negative). With --repair it writes an
+ * audited ADJUSTMENT row per drifted client so the ledger matches the balance.
+ *
+ * Run with: npx tsx scripts/reconcile-balances.ts [--repair]
+ * Or with Bun: bun run scripts/reconcile-balances.ts [--repair]
+ */
+
+import { prisma } from '../lib/prisma';
+import { findBalanceDiscrepancies, repairBalanceDiscrepancy } from '../lib/balances';
+
+const shouldRepair = process.argv.includes('--repair');
+
+async function main() {
+  console.log('🔍 Checking client balances against the ledger...\n');
+
+  try {
+    const discrepancies = await findBalanceDiscrepancies();
+
+    if (discrepancies.length === 0) {
+      console.log('✅ Every balance matches the sum of its transactions.\n');
+      return;
+    }
+
+    console.log(`   Found ${discrepancies.length} clients with issues:\n`);
+    for (const row of discrepancies) {
+      console.log(
+        `     - ${row.username} (ID: ${row.clientId}): stored ${row.storedBalance}, ledger ${row.ledgerBalance}` +
+          (row.difference !== 0 ? `, difference ${row.difference}` : ' (negative balance)'),
+      );
+    }
+
+    const drifted = discrepancies.filter((row) => row.difference !== 0);
+    const negative = discrepancies.filter((row) => row.storedBalance < 0);
+
+    if (!shouldRepair) {
+      console.log('\nℹ️  Dry run. Re-run with --repair to write the ADJUSTMENT rows.\n');
+      return;
+    }
+
+    console.log(`\nRepairing ${drifted.length} drifted balances...`);
+
+    let repairedCount = 0;
+    for (const row of drifted) {
+      // actor null: recorded in the audit log as "Sistema"
+      const repair = await repairBalanceDiscrepancy(row.clientId, null);
+      if (repair) {
+        repairedCount++;
+        console.log(`   ✓ ${repair.username}: adjustment ${repair.adjustment} (transaction #${repair.transactionId})`);
+      }
+    }
+
+    console.log('\n' + '='.repeat(60));
+    console.log('📊 RECONCILIATION SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`✅ Balances repaired: ${repairedCount}`);
+    console.log(`⚠️  Negative balances (review by hand): ${negative.length}`);
+    console.log('='.repeat(60) + '\n');
+  } catch (error) {
+    console.error('❌ Error during reconciliation:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -5,6 +5,8 @@ import { persist, createJSONStorage } from "zustand/middleware";
 
 import type { AuthUser } from "@/types/auth";
 
+// Display cache of the signed-in user. The HttpOnly session cookie is the
+// source of truth; AuthGuard re-syncs this store from /api/session.
 type AuthState = {
   user: AuthUser | null;
   isAuthenticated: boolean;
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type FakeUser = {
+  id: number;
+  username: string;
+  name: string;
+  role: "ADMIN" | "AGENT" | "CASHIER";
+  passwordHash: string;
+  mustChangePassword: boolean;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
+};
+
+const db = vi.hoisted(() => ({ user: null as unknown as FakeUser, attempts: 0 }));
+
+const setUserPassword = vi.hoisted(() => vi.fn(async () => undefined));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      update: async ({ data }: { data: Record<string, unknown> }) => {
+        for (const [key, value] of Object.entries(data)) {
+          const increment = (value as { increment?: number })?.increment;
+          Object.assign(db.user, {
+            [key]: increment !== undefined ? (db.user[key as keyof FakeUser] as number) + increment : value,
+          });
+        }
+        return { ...db.user };
+      },
+    },
+    loginAttempt: {
+      create: async () => {
+        db.attempts += 1;
+      },
+    },
+  },
+}));
+
+vi.mock("@/lib/session", () => ({
+  getCurrentSession: async () => ({ id: "session", userId: db.user.id, user: { ...db.user } }),
+  revokeUserSessions: async () => undefined,
+  toAuthUser: (user: FakeUser) => ({ id: user.id, name: user.name, username: user.username, role: user.role }),
+}));
+
+vi.mock("@/lib/credentials", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/credentials")>()),
+  setUserPassword,
+}));
+
+vi.mock("@/lib/password", () => ({
+  verifyPassword: async (password: string, hash: string) => password === hash,
+}));
+vi.mock("@/lib/request-context", () => ({
+  getRequestMetadata: async () => ({ ipAddress: "203.0.113.7", userAgent: "vitest" }),
+}));
+vi.mock("@/lib/audit", () => ({ recordAudit: async () => undefined }));
+
+const { changeOwnPasswordAction } = await import("@/actions/account");
+const { MAX_FAILED_LOGIN_ATTEMPTS } = await import("@/lib/login-security");
+
+const CURRENT = "clave-actual-123";
+
+// Failures wait a progressive delay; fake timers skip it
+async function change(currentPassword: string) {
+  const pending = changeOwnPasswordAction({ currentPassword, newPassword: "Clave-Nueva-456!" });
+  await vi.runAllTimersAsync();
+  return pending;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout"] });
+  setUserPassword.mockClear();
+  db.attempts = 0;
+  db.user = {
+    id: 1,
+    username: "cajero",
+    name: "Cajero",
+    role: "CASHIER",
+    passwordHash: CURRENT,
+    mustChangePassword: false,
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+  };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("changeOwnPasswordAction", () => {
+  it("counts a wrong current password as a failed login", async () => {
+    await expect(change("otra-clave")).resolves.toEqual({
+      success: false,
+      error: "La contraseña actual no es correcta.",
+    });
+
+    expect(db.user.failedLoginAttempts).toBe(1);
+    expect(db.attempts).toBe(1);
+  });
+
+  it("locks the account after too many wrong guesses, even for the right password", async () => {
+    for (let attempt = 0; attempt < MAX_FAILED_LOGIN_ATTEMPTS; attempt++) {
+      await change(`intento-${attempt}`);
+    }
+
+    expect(db.user.lockedUntil).not.toBeNull();
+    await expect(change(CURRENT)).resolves.toMatchObject({
+      success: false,
+      error: expect.stringContaining("Demasiados intentos fallidos"),
+    });
+    expect(setUserPassword).not.toHaveBeenCalled();
+  });
+
+  it("resets the counter when the current password is right", async () => {
+    await change("otra-clave");
+    await change("otra-clave");
+
+    await expect(change(CURRENT)).resolves.toMatchObject({ success: true });
+    expect(db.user.failedLoginAttempts).toBe(0);
+    expect(setUserPassword).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AuthUser } from "@/types/auth";
+import { EXPECTED_PERMISSIONS } from "./helpers/permissions";
+import { makeUser, ROLES } from "./helpers/users";
+
+/**
+ * Every exported server action must go through withPermission. The mock keeps
+ * the real guard but swaps the handler for a marker, so a role either gets
+ * the ForbiddenResult or reaches the handler without touching the database.
+ */
+const state = vi.hoisted(() => ({
+  user: null as AuthUser | null,
+  permissionOf: new Map<unknown, string>(),
+  reached: Symbol("handler reached"),
+}));
+
+vi.mock("@/lib/session", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/session")>()),
+  getCurrentUser: async () => state.user,
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: { auditEvent: { findMany: async () => [] } } }));
+
+vi.mock("@/lib/authz", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/authz")>();
+
+  return {
+    ...actual,
+    withPermission: (permission: Parameters<typeof actual.withPermission>[0]) => {
+      const action = actual.withPermission(permission, async () => state.reached);
+      state.permissionOf.set(action, permission);
+      return action;
+    },
+  };
+});
+
+// Callable without a staff session by design
+const PUBLIC_ACTIONS = new Set([
+  "account.changeOwnPasswordAction", // must work while mustChangePassword is set
+  "account.resetPasswordWithTokenAction", // the reset link is the credential
+  "register.registerAction",
+]);
+
+const ADMIN_ONLY = ["ADMIN"] as const;
+
+// Pinned by hand: a change to the matrix that opens one of these to another
+// role has to be made here too
+const PRIVILEGED_ACTIONS: Record<string, readonly string[]> = {
+  "admin.addTeamMember": ADMIN_ONLY,
+  "admin.addCashier": ADMIN_ONLY,
+  "index.createUserAction": ADMIN_ONLY,
+  "index.updateUserAction": ADMIN_ONLY,
+  "index.setUserActiveAction": ADMIN_ONLY,
+  "index.listUsersAction": ADMIN_ONLY,
+  "invitations.createInvitationAction": ADMIN_ONLY,
+  "invitations.listInvitationsAction": ADMIN_ONLY,
+  "invitations.revokeInvitationAction": ADMIN_ONLY,
+  "security.clearLoginLockAction": ADMIN_ONLY,
+  "security.setTwoFactorPolicyAction": ADMIN_ONLY,
+  "security.createPasswordResetLinkAction": ADMIN_ONLY,
+  "security.forcePasswordChangeAction": ADMIN_ONLY,
+  "security.revokeUserSessionsAction": ADMIN_ONLY,
+  "ledger.reverseTransactionAction": ["ADMIN", "CASHIER"],
+  "ledger.getBalanceDiscrepanciesAction": ADMIN_ONLY,
+  "ledger.repairBalancesAction": ADMIN_ONLY,
+  "withdrawals.approveWithdrawalAction": ADMIN_ONLY,
+  "withdrawals.rejectWithdrawalAction": ADMIN_ONLY,
+  "limits.updateChargeLimitPolicyAction": ADMIN_ONLY,
+  "limits.endSelfExclusionAction": ADMIN_ONLY,
+  "charge-imports.rollbackChargeImportAction": ADMIN_ONLY,
+  "audit.listAuditEventsAction": ADMIN_ONLY,
+};
+
+const modules = {
+  account: await import("@/actions/account"),
+  admin: await import("@/actions/admin"),
+  audit: await import("@/actions/audit"),
+  cashier: await import("@/actions/cashier"),
+  "charge-imports": await import("@/actions/charge-imports"),
+  chat: await import("@/actions/chat"),
+  crm: await import("@/actions/crm"),
+  index: await import("@/actions/index"),
+  invitations: await import("@/actions/invitations"),
+  ledger: await import("@/actions/ledger"),
+  limits: await import("@/actions/limits"),
+  "payment-accounts": await import("@/actions/payment-accounts"),
+  "points-expiry": await import("@/actions/points-expiry"),
+  promotions: await import("@/actions/promotions"),
+  receipts: await import("@/actions/receipts"),
+  referrals: await import("@/actions/referrals"),
+  register: await import("@/actions/register"),
+  security: await import("@/actions/security"),
+  shifts: await import("@/actions/shifts"),
+  tiers: await import("@/actions/tiers"),
+  withdrawals: await import("@/actions/withdrawals"),
+};
+
+const auditExport = await import("@/app/api/admin/audit/export/route");
+
+const actions = Object.entries(modules).flatMap(([moduleName, exports]) =>
+  Object.entries(exports)
+    .filter(([, value]) => typeof value === "function")
+    .map(([name, action]) => ({ name: `${moduleName}.${name}`, action: action as () => Promise<unknown> })),
+);
+
+const protectedActions = actions.filter(({ name }) => !PUBLIC_ACTIONS.has(name));
+
+beforeEach(() => {
+  state.user = null;
+});
+
+describe("server actions", () => {
+  it.each(protectedActions)("$name is wrapped in withPermission", ({ action }) => {
+    expect(state.permissionOf.has(action)).toBe(true);
+  });
+
+  const cases = protectedActions.flatMap(({ name, action }) =>
+    ROLES.map((role) => ({ name, action, role })),
+  );
+
+  it.each(Object.keys(PRIVILEGED_ACTIONS))("%s is still exported", (name) => {
+    expect(actions.map((action) => action.name)).toContain(name);
+  });
+
+  it.each(cases)("$name as $role", async ({ name, action, role }) => {
+    const permission = state.permissionOf.get(action) as keyof typeof EXPECTED_PERMISSIONS;
+    const allowed = (PRIVILEGED_ACTIONS[name] ?? EXPECTED_PERMISSIONS[permission]).includes(role);
+    state.user = makeUser(role);
+
+    const result = await action();
+
+    if (allowed) expect(result).toBe(state.reached);
+    else expect(result).toMatchObject({ success: false, forbidden: true, reason: "FORBIDDEN" });
+  });
+
+  it.each(protectedActions)("$name rejects a request without session", async ({ action }) => {
+    await expect(action()).resolves.toMatchObject({ forbidden: true, reason: "UNAUTHENTICATED" });
+  });
+});
+
+describe("audit export route", () => {
+  it.each([
+    ["ADMIN", 200],
+    ["AGENT", 403],
+    ["CASHIER", 403],
+  ] as const)("answers %s with %i", async (role, status) => {
+    state.user = makeUser(role);
+
+    const response = await auditExport.GET(new Request("http://localhost/api/admin/audit/export"));
+
+    expect(response.status).toBe(status);
+  });
+
+  it("rejects a request without session", async () => {
+    const response = await auditExport.GET(new Request("http://localhost/api/admin/audit/export"));
+
+    expect(response.status).toBe(401);
+  });
+});
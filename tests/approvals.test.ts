@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { makeUser } from "./helpers/users";
+
+type FakeApprover = {
+  id: number;
+  username: string;
+  role: "ADMIN" | "AGENT" | "CASHIER";
+  isActive: boolean;
+  passwordHash: string;
+  lockedUntil: Date | null;
+  totpEnabledAt: Date | null;
+};
+
+const state = vi.hoisted(() => ({
+  approver: null as unknown as FakeApprover,
+  requireTwoFactor: false,
+}));
+
+const registerFailedLogin = vi.hoisted(() => vi.fn(async () => undefined));
+const verifySecondFactor = vi.hoisted(() => vi.fn(async (_user: unknown, code: string) => code === "123456"));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { user: { findUnique: async () => state.approver } },
+}));
+vi.mock("@/lib/password", () => ({
+  verifyPassword: async (password: string, hash: string) => password === hash,
+}));
+vi.mock("@/lib/request-context", () => ({
+  getRequestMetadata: async () => ({ ipAddress: "203.0.113.7", userAgent: "vitest" }),
+}));
+vi.mock("@/lib/login-security", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/login-security")>()),
+  registerFailedLogin,
+}));
+vi.mock("@/lib/two-factor", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/two-factor")>()),
+  isTwoFactorRequired: async () => state.requireTwoFactor,
+  verifySecondFactor,
+}));
+
+const { verifyApprover } = await import("@/lib/approvals");
+
+const MESSAGES = { sameUser: "No podés aprobar tu propia reversión.", forbidden: "El aprobador no tiene permiso." };
+const requester = makeUser("CASHIER", { id: 5 });
+
+function approve(code?: string) {
+  return verifyApprover({ username: "admin", password: "secreta", code }, requester, "ledger:approve-reversal", MESSAGES);
+}
+
+beforeEach(() => {
+  registerFailedLogin.mockClear();
+  verifySecondFactor.mockClear();
+  state.requireTwoFactor = false;
+  state.approver = {
+    id: 9,
+    username: "admin",
+    role: "ADMIN",
+    isActive: true,
+    passwordHash: "secreta",
+    lockedUntil: null,
+    totpEnabledAt: null,
+  };
+});
+
+describe("verifyApprover", () => {
+  it("takes the password alone from an approver without 2FA", async () => {
+    await expect(approve()).resolves.toMatchObject({ id: 9 });
+    expect(verifySecondFactor).not.toHaveBeenCalled();
+  });
+
+  describe("with 2FA enabled", () => {
+    beforeEach(() => {
+      state.approver.totpEnabledAt = new Date();
+    });
+
+    it("accepts a valid code", async () => {
+      await expect(approve("123456")).resolves.toMatchObject({ id: 9 });
+      expect(verifySecondFactor).toHaveBeenCalledWith(state.approver, "123456");
+    });
+
+    it("asks for the code", async () => {
+      await expect(approve()).rejects.toThrow("Falta el código de verificación del aprobador.");
+      expect(registerFailedLogin).not.toHaveBeenCalled();
+    });
+
+    it("counts a wrong code like a wrong password", async () => {
+      await expect(approve("000000")).rejects.toThrow("El código de verificación del aprobador no es válido.");
+      expect(registerFailedLogin).toHaveBeenCalledWith(
+        expect.objectContaining({ username: "admin", user: state.approver }),
+      );
+    });
+
+    it("checks the password before the code", async () => {
+      state.approver.passwordHash = "otra";
+
+      await expect(approve("123456")).rejects.toThrow("Usuario o contraseña del aprobador incorrectos.");
+      expect(verifySecondFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  it("rejects an approver whose role requires 2FA before they enroll", async () => {
+    state.requireTwoFactor = true;
+
+    await expect(approve("123456")).rejects.toThrow("activar la verificación en dos pasos");
+  });
+});
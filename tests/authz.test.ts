@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { AuthUser } from "@/types/auth";
+import { EXPECTED_PERMISSIONS } from "./helpers/permissions";
+import { makeUser, ROLES } from "./helpers/users";
+
+const session = vi.hoisted(() => ({ user: null as AuthUser | null }));
+
+vi.mock("@/lib/session", () => ({
+  getCurrentUser: async () => session.user,
+}));
+
+const { withPermission, withRole } = await import("@/lib/authz");
+const { PERMISSIONS } = await import("@/lib/permissions");
+
+type Permission = keyof typeof PERMISSIONS;
+
+const permissions = Object.keys(PERMISSIONS) as Permission[];
+
+beforeEach(() => {
+  session.user = null;
+});
+
+describe("withPermission", () => {
+  const cases = permissions.flatMap((permission) =>
+    ROLES.map((role) => ({ permission, role, allowed: EXPECTED_PERMISSIONS[permission].includes(role) })),
+  );
+
+  it.each(cases)("$role on $permission → allowed: $allowed", async ({ permission, role, allowed }) => {
+    const handler = vi.fn(async (user: AuthUser, value: number) => ({ userId: user.id, value }));
+    const action = withPermission(permission, handler);
+    session.user = makeUser(role);
+
+    const result = await action(7);
+
+    if (allowed) {
+      expect(result).toEqual({ userId: 1, value: 7 });
+      expect(handler).toHaveBeenCalledWith(session.user, 7);
+    } else {
+      expect(result).toMatchObject({ success: false, forbidden: true, reason: "FORBIDDEN" });
+      expect(handler).not.toHaveBeenCalled();
+    }
+  });
+
+  it.each(permissions)("%s rejects a request without session", async (permission) => {
+    const handler = vi.fn(async () => "ok");
+
+    await expect(withPermission(permission, handler)()).resolves.toMatchObject({
+      forbidden: true,
+      reason: "UNAUTHENTICATED",
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("withRole", () => {
+  const cases = [
+    { roles: ["ADMIN"] as const, role: "ADMIN" as const, allowed: true },
+    { roles: ["ADMIN"] as const, role: "AGENT" as const, allowed: false },
+    { roles: ["ADMIN"] as const, role: "CASHIER" as const, allowed: false },
+    { roles: ["ADMIN", "CASHIER"] as const, role: "CASHIER" as const, allowed: true },
+    { roles: ["ADMIN", "CASHIER"] as const, role: "AGENT" as const, allowed: false },
+    { roles: [] as const, role: "ADMIN" as const, allowed: false },
+  ];
+
+  it.each(cases)("$role with [$roles] → allowed: $allowed", async ({ roles, role, allowed }) => {
+    session.user = makeUser(role);
+
+    const result = await withRole(roles, async () => "ok")();
+
+    if (allowed) expect(result).toBe("ok");
+    else expect(result).toMatchObject({ forbidden: true, reason: "FORBIDDEN" });
+  });
+
+  it.each(ROLES)("blocks %s while a password change is pending", async (role) => {
+    session.user = makeUser(role, { mustChangePassword: true });
+    const handler = vi.fn(async () => "ok");
+
+    await expect(withRole(ROLES, handler)()).resolves.toMatchObject({
+      forbidden: true,
+      reason: "PASSWORD_CHANGE_REQUIRED",
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Prisma } from "@prisma/client";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+const { ChargeLimitExceededError, enforceChargeLimits } = await import("@/lib/charge-limits");
+const { isChargeLimitExceeded } = await import("@/lib/charge-limit-policy");
+
+// A client with a 10.000 daily limit who already charged `chargedToday`
+function fakeDb(chargedToday: number, selfExcludedUntil: Date | null = null) {
+  return {
+    client: {
+      update: async () => ({
+        id: 1,
+        selfExcludedUntil,
+        dailyChargeLimit: 10_000,
+        weeklyChargeLimit: null,
+        monthlyChargeLimit: null,
+      }),
+    },
+    chargeLimitPolicy: { findUnique: async () => null },
+    pointTransaction: { aggregate: async () => ({ _sum: { amount: chargedToday } }) },
+  } as unknown as Prisma.TransactionClient;
+}
+
+async function rejection(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("expected a rejection");
+}
+
+describe("enforceChargeLimits", () => {
+  it("lets a charge under the limit through", async () => {
+    await expect(enforceChargeLimits(fakeDb(2_000), 1, 8_000, null)).resolves.toBe(false);
+  });
+
+  it("rejects a charge over the limit with a typed result", async () => {
+    const error = await rejection(enforceChargeLimits(fakeDb(6_000), 1, 5_000, null));
+
+    expect(error).toBeInstanceOf(ChargeLimitExceededError);
+    const { result } = error as InstanceType<typeof ChargeLimitExceededError>;
+    expect(result).toMatchObject({
+      success: false,
+      code: "LIMIT_EXCEEDED",
+      period: "DAILY",
+      limits: { DAILY: 10_000, WEEKLY: null, MONTHLY: null },
+      usage: { DAILY: 6_000 },
+    });
+    expect(isChargeLimitExceeded(result)).toBe(true);
+  });
+
+  it("reports the override as used", async () => {
+    const override = { approvedById: 9, reason: "Autorizado por gerencia" };
+
+    await expect(enforceChargeLimits(fakeDb(6_000), 1, 5_000, override)).resolves.toBe(true);
+  });
+
+  it("keeps throwing a plain error for self-excluded clients", async () => {
+    const error = await rejection(enforceChargeLimits(fakeDb(0, new Date(Date.now() + 86_400_000)), 1, 100, null));
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(ChargeLimitExceededError);
+  });
+});
+
+describe("isChargeLimitExceeded", () => {
+  it.each([
+    [null, false],
+    [new Error("Supera el límite diario"), false],
+    [{ success: true, newBalance: 100 }, false],
+    [{ success: false, code: "LIMIT_EXCEEDED", message: "Supera el límite diario" }, true],
+  ])("%o → %s", (value, expected) => {
+    expect(isChargeLimitExceeded(value)).toBe(expected);
+  });
+});
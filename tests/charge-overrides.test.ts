@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { makeUser } from "./helpers/users";
+
+const verifyApprover = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/approvals", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/approvals")>()),
+  verifyApprover,
+}));
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+const { resolveChargeOverride } = await import("@/lib/charge-overrides");
+const { isDuplicateReference } = await import("@/lib/payment-methods");
+const { isOverridableRejection } = await import("@/components/ledger/limit-override-dialog");
+
+const REASON = "Dos transferencias distintas";
+const APPROVER = { username: "admin", password: "secreta" };
+
+beforeEach(() => {
+  verifyApprover.mockReset();
+  verifyApprover.mockResolvedValue(makeUser("ADMIN", { id: 42 }));
+});
+
+describe("resolveChargeOverride", () => {
+  it("returns null without an override", async () => {
+    await expect(resolveChargeOverride(makeUser("CASHIER"), "LIMIT_EXCEEDED", null)).resolves.toBeNull();
+  });
+
+  it.each(["LIMIT_EXCEEDED", "DUPLICATE_REFERENCE"] as const)("lets an ADMIN authorize %s alone", async (kind) => {
+    const admin = makeUser("ADMIN", { id: 7 });
+
+    await expect(resolveChargeOverride(admin, kind, { reason: REASON })).resolves.toEqual({
+      approvedById: 7,
+      reason: REASON,
+    });
+    expect(verifyApprover).not.toHaveBeenCalled();
+  });
+
+  it("asks anyone else for an ADMIN's credentials", async () => {
+    await expect(resolveChargeOverride(makeUser("CASHIER"), "LIMIT_EXCEEDED", { reason: REASON })).rejects.toThrow(
+      "Un administrador tiene que autorizar la carga con su usuario.",
+    );
+  });
+
+  it.each([
+    ["LIMIT_EXCEEDED", "ledger:override-limits"],
+    ["DUPLICATE_REFERENCE", "ledger:override-duplicates"],
+  ] as const)("checks the approver of %s against %s", async (kind, permission) => {
+    const cashier = makeUser("CASHIER");
+
+    await expect(resolveChargeOverride(cashier, kind, { reason: REASON, approver: APPROVER })).resolves.toEqual({
+      approvedById: 42,
+      reason: REASON,
+    });
+    expect(verifyApprover).toHaveBeenCalledWith(APPROVER, cashier, permission, expect.any(Object));
+  });
+
+  it("rejects a short reason", async () => {
+    await expect(resolveChargeOverride(makeUser("ADMIN"), "DUPLICATE_REFERENCE", { reason: "ok" })).rejects.toThrow();
+  });
+});
+
+describe("isOverridableRejection", () => {
+  const duplicate = { success: false, code: "DUPLICATE_REFERENCE", message: "Comprobante ya acreditado", duplicateOfId: 3 };
+  const overLimit = { success: false, code: "LIMIT_EXCEEDED", message: "Supera el límite diario" };
+
+  it.each([
+    [duplicate, true],
+    [overLimit, true],
+    [new Error("Comprobante ya acreditado"), false],
+    [{ success: false, forbidden: true, reason: "FORBIDDEN", error: "No tenés permisos" }, false],
+    [{ newBalance: 100, replayed: false }, false],
+  ])("%o → %s", (value, expected) => {
+    expect(isOverridableRejection(value)).toBe(expected);
+  });
+
+  it("tells the duplicate reference apart", () => {
+    expect(isDuplicateReference(duplicate)).toBe(true);
+    expect(isDuplicateReference(overLimit)).toBe(false);
+  });
+});
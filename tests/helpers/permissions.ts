@@ -0,0 +1,45 @@
+import type { Permission } from "@/lib/permissions";
+import type { AuthRole } from "@/types/auth";
+
+const ALL: AuthRole[] = ["ADMIN", "AGENT", "CASHIER"];
+const STAFF: AuthRole[] = ["ADMIN", "CASHIER"];
+const ADMIN_ONLY: AuthRole[] = ["ADMIN"];
+
+// Written out by hand instead of read from PERMISSIONS, so widening a
+// permission fails here until the table is updated on purpose
+export const EXPECTED_PERMISSIONS: Record<Permission, AuthRole[]> = {
+  "dashboard:admin": ADMIN_ONLY,
+  "users:manage": ADMIN_ONLY,
+  "clients:read": ALL,
+  "clients:create": ALL,
+  "clients:update": ["ADMIN", "AGENT"],
+  "contacts:write": ALL,
+  "cashier:read": STAFF,
+  "daily-checks:write": STAFF,
+  "ledger:charge": ALL,
+  "ledger:redeem": STAFF,
+  "ledger:reverse": STAFF,
+  "ledger:approve-reversal": ADMIN_ONLY,
+  "ledger:reconcile": ADMIN_ONLY,
+  "ledger:override-limits": ADMIN_ONLY,
+  "ledger:override-duplicates": ADMIN_ONLY,
+  "ledger:import": STAFF,
+  "ledger:import-rollback": ADMIN_ONLY,
+  "limits:manage": ADMIN_ONLY,
+  "payment-accounts:manage": ADMIN_ONLY,
+  "shifts:operate": STAFF,
+  "shifts:read-all": ADMIN_ONLY,
+  "withdrawals:request": ALL,
+  "withdrawals:read": STAFF,
+  "withdrawals:review": ADMIN_ONLY,
+  "withdrawals:pay": STAFF,
+  "marketing:read": ALL,
+  "marketing:manage": ADMIN_ONLY,
+  "promotions:manage": ADMIN_ONLY,
+  "referrals:manage": ADMIN_ONLY,
+  "tiers:manage": ADMIN_ONLY,
+  "expiry:manage": ADMIN_ONLY,
+  "chat:operate": ALL,
+  "account:security": ALL,
+  "audit:read": ADMIN_ONLY,
+};
@@ -0,0 +1,14 @@
+import type { AuthRole, AuthUser } from "@/types/auth";
+
+export const ROLES: AuthRole[] = ["ADMIN", "AGENT", "CASHIER"];
+
+export function makeUser(role: AuthRole, overrides: Partial<AuthUser> = {}): AuthUser {
+  return {
+    id: 1,
+    name: `Usuario ${role}`,
+    username: role.toLowerCase(),
+    role,
+    mustChangePassword: false,
+    ...overrides,
+  };
+}
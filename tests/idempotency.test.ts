@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PointTransaction } from "@prisma/client";
+
+type StoredTransaction = Pick<PointTransaction, "id" | "clientId" | "amount" | "type" | "idempotencyKey">;
+
+const db = vi.hoisted(() => ({ transactions: [] as StoredTransaction[] }));
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    pointTransaction: {
+      findUnique: async ({ where }: { where: { idempotencyKey: string } }) => {
+        await tick();
+        return db.transactions.find((tx) => tx.idempotencyKey === where.idempotencyKey) ?? null;
+      },
+    },
+  },
+}));
+
+const { IdempotencyConflictError, runIdempotent } = await import("@/lib/idempotency");
+
+const KEY = "5f0c2f7e-4a59-4a8e-9a57-3c1f1b2d9e10";
+type ChargePayload = Pick<PointTransaction, "clientId" | "amount" | "type">;
+
+const CHARGE: ChargePayload = { clientId: 7, amount: 1500, type: "CHARGE" };
+
+// Stand-in for a charge: inserts the row, failing like Postgres on a repeated key
+function charge(key: string | null, payload: ChargePayload = CHARGE) {
+  return async () => {
+    await tick();
+
+    if (key && db.transactions.some((tx) => tx.idempotencyKey === key)) {
+      throw Object.assign(new Error("Unique constraint failed"), {
+        code: "P2002",
+        meta: { target: ["idempotencyKey"] },
+      });
+    }
+
+    const row = { id: db.transactions.length + 1, ...payload, idempotencyKey: key };
+    db.transactions.push(row);
+    return row.id;
+  };
+}
+
+const replay = async (existing: PointTransaction) => existing.id;
+
+beforeEach(() => {
+  db.transactions = [];
+});
+
+describe("runIdempotent", () => {
+  it("applies the operation the first time", async () => {
+    await expect(runIdempotent(KEY, CHARGE, charge(KEY), replay)).resolves.toEqual({ result: 1, replayed: false });
+    expect(db.transactions).toHaveLength(1);
+  });
+
+  it("replays a finished key without applying again", async () => {
+    await runIdempotent(KEY, CHARGE, charge(KEY), replay);
+    const apply = vi.fn(charge(KEY));
+
+    await expect(runIdempotent(KEY, CHARGE, apply, replay)).resolves.toEqual({ result: 1, replayed: true });
+    expect(apply).not.toHaveBeenCalled();
+    expect(db.transactions).toHaveLength(1);
+  });
+
+  it("applies once when two calls with the same key race", async () => {
+    const outcomes = await Promise.all([
+      runIdempotent(KEY, CHARGE, charge(KEY), replay),
+      runIdempotent(KEY, CHARGE, charge(KEY), replay),
+    ]);
+
+    expect(db.transactions).toHaveLength(1);
+    expect(outcomes.map((outcome) => outcome.result)).toEqual([1, 1]);
+    expect(outcomes.filter((outcome) => outcome.replayed)).toHaveLength(1);
+  });
+
+  it.each<[string, ChargePayload]>([
+    ["client", { ...CHARGE, clientId: 8 }],
+    ["amount", { ...CHARGE, amount: 2000 }],
+    ["type", { ...CHARGE, type: "REDEEM" }],
+  ])("rejects a key reused with a different %s", async (_field, payload) => {
+    await runIdempotent(KEY, CHARGE, charge(KEY), replay);
+
+    await expect(runIdempotent(KEY, payload, charge(KEY, payload), replay)).rejects.toBeInstanceOf(
+      IdempotencyConflictError,
+    );
+    expect(db.transactions).toHaveLength(1);
+  });
+
+  it("rejects a different payload that races with the original", async () => {
+    const other = { ...CHARGE, amount: 2000 };
+
+    const [first, second] = await Promise.allSettled([
+      runIdempotent(KEY, CHARGE, charge(KEY), replay),
+      runIdempotent(KEY, other, charge(KEY, other), replay),
+    ]);
+
+    expect(first).toMatchObject({ status: "fulfilled", value: { replayed: false } });
+    expect(second).toMatchObject({ status: "rejected", reason: expect.any(IdempotencyConflictError) });
+  });
+
+  it("always applies without a key", async () => {
+    await runIdempotent(null, CHARGE, charge(null), replay);
+    await runIdempotent(null, CHARGE, charge(null), replay);
+
+    expect(db.transactions).toHaveLength(2);
+  });
+
+  it("rethrows errors other than the key violation", async () => {
+    const failing = async () => {
+      throw new Error("Saldo insuficiente");
+    };
+
+    await expect(runIdempotent(KEY, CHARGE, failing, replay)).rejects.toThrow("Saldo insuficiente");
+  });
+});
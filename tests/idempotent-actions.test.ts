@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PointTransaction } from "@prisma/client";
+
+import { makeUser } from "./helpers/users";
+
+/**
+ * The charge and redeem actions against an in-memory Client and
+ * PointTransaction table, to check that a repeated key moves points once.
+ */
+type StoredTransaction = Pick<PointTransaction, "id" | "clientId" | "amount" | "type" | "idempotencyKey">;
+
+const db = vi.hoisted(() => ({
+  balance: 0,
+  balanceUpdates: 0,
+  transactions: [] as StoredTransaction[],
+}));
+
+vi.mock("@/lib/session", () => ({ getCurrentUser: async () => makeUser("CASHIER", { id: 5 }) }));
+vi.mock("@/lib/audit", () => ({ recordAudit: async () => undefined }));
+vi.mock("@/lib/shifts", () => ({ findOpenShiftId: async () => null }));
+vi.mock("@/lib/daily-checks", () => ({ markChargedOnDay: async () => undefined }));
+vi.mock("@/lib/promotions", () => ({ applyPromotionBonus: async () => null }));
+vi.mock("@/lib/referrals", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/referrals")>()),
+  applyReferralReward: async () => null,
+}));
+vi.mock("@/lib/charge-limits", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/charge-limits")>()),
+  enforceChargeLimits: async () => false,
+}));
+vi.mock("@/lib/reference-codes", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/reference-codes")>()),
+  assertReferenceAvailable: async () => null,
+}));
+vi.mock("@/lib/payment-accounts", () => ({
+  resolvePaymentAccount: async () => null,
+  checkInflowCap: async () => null,
+}));
+vi.mock("@/lib/prisma", () => {
+  const clientRow = () => ({ id: 1, username: "cliente", pointsBalance: db.balance });
+
+  const find = (where: { id?: number; idempotencyKey?: string }) =>
+    db.transactions.find((tx) =>
+      where.idempotencyKey !== undefined ? tx.idempotencyKey === where.idempotencyKey : tx.id === where.id,
+    ) ?? null;
+
+  const client = {
+    update: async ({ data }: { data: { pointsBalance: { increment: number } } }) => {
+      db.balance += data.pointsBalance.increment;
+      db.balanceUpdates += 1;
+      return clientRow();
+    },
+    updateMany: async ({ where, data }: {
+      where: { pointsBalance: { gte: number } };
+      data: { pointsBalance: { decrement: number } };
+    }) => {
+      if (db.balance < where.pointsBalance.gte) return { count: 0 };
+      db.balance -= data.pointsBalance.decrement;
+      db.balanceUpdates += 1;
+      return { count: 1 };
+    },
+    count: async () => 1,
+    findUniqueOrThrow: async () => clientRow(),
+  };
+
+  const pointTransaction = {
+    findUnique: async ({ where }: { where: { idempotencyKey?: string; bonusForId?: number } }) =>
+      where.bonusForId !== undefined ? null : find(where),
+    findUniqueOrThrow: async ({ where }: { where: { id: number } }) => ({
+      ...find(where),
+      createdAt: new Date(),
+      description: null,
+      client: clientRow(),
+      bonus: null,
+    }),
+    create: async ({ data, include }: {
+      data: Omit<StoredTransaction, "id">;
+      include?: { client?: boolean };
+    }) => {
+      if (data.idempotencyKey && find({ idempotencyKey: data.idempotencyKey })) {
+        throw Object.assign(new Error("Unique constraint failed"), {
+          code: "P2002",
+          meta: { target: ["idempotencyKey"] },
+        });
+      }
+
+      const row = { ...data, id: db.transactions.length + 1 };
+      db.transactions.push(row);
+      return { ...row, createdAt: new Date(), description: null, ...(include?.client && { client: clientRow() }) };
+    },
+  };
+
+  const tx = { client, pointTransaction };
+
+  return {
+    prisma: { ...tx, $transaction: async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx) },
+  };
+});
+
+const { registerCharge } = await import("@/actions/cashier");
+const { registerPointChargeAction, redeemPointsAction } = await import("@/actions/crm");
+const { IdempotencyConflictError } = await import("@/lib/idempotency");
+
+const KEY = "5f0c2f7e-4a59-4a8e-9a57-3c1f1b2d9e10";
+
+type Submit = (amount: number) => Promise<unknown>;
+
+const submits: [string, Submit, number][] = [
+  [
+    "registerCharge",
+    (amount) => registerCharge({ clientId: 1, coins: amount, selectedDate: "2026-10-19", idempotencyKey: KEY }),
+    1_500,
+  ],
+  ["registerPointChargeAction", (amount) => registerPointChargeAction({ clientId: 1, amount, idempotencyKey: KEY }), 1_500],
+  ["redeemPointsAction", (amount) => redeemPointsAction({ clientId: 1, amount, idempotencyKey: KEY }), -1_500],
+];
+
+beforeEach(() => {
+  db.balance = 10_000;
+  db.balanceUpdates = 0;
+  db.transactions = [];
+});
+
+describe.each(submits)("%s with a repeated idempotency key", (_name, submit, moved) => {
+  it("moves the points once and flags the retry as replayed", async () => {
+    const first = await submit(1_500);
+    const second = await submit(1_500);
+
+    expect(first).toMatchObject({ replayed: false });
+    expect(second).toMatchObject({ replayed: true });
+    expect(db.transactions).toEqual([expect.objectContaining({ amount: moved, idempotencyKey: KEY })]);
+    expect(db.balanceUpdates).toBe(1);
+    expect(db.balance).toBe(10_000 + moved);
+  });
+
+  it("rejects the key for a different amount", async () => {
+    await submit(1_500);
+
+    await expect(submit(2_000)).rejects.toBeInstanceOf(IdempotencyConflictError);
+    expect(db.transactions).toHaveLength(1);
+    expect(db.balance).toBe(10_000 + moved);
+  });
+});
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+/**
+ * Attack simulations against POST /api/login with an in-memory stand-in for
+ * the User and LoginAttempt tables. Every query yields to the event loop, so
+ * parallel requests interleave the way they do against Postgres.
+ */
+type FakeUser = {
+  id: number;
+  username: string;
+  passwordHash: string;
+  role: "ADMIN" | "AGENT" | "CASHIER";
+  name: string;
+  isActive: boolean;
+  mustChangePassword: boolean;
+  totpEnabledAt: Date | null;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
+};
+
+type FakeAttempt = {
+  username: string;
+  userId: number | null;
+  success: boolean;
+  ipAddress: string | null;
+  createdAt: Date;
+};
+
+const db = vi.hoisted(() => ({
+  users: [] as FakeUser[],
+  attempts: [] as FakeAttempt[],
+  ipAddress: "203.0.113.7" as string | null,
+}));
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+vi.mock("@/lib/prisma", () => {
+  const matches = (attempt: FakeAttempt, where: Record<string, unknown>) =>
+    (where.username === undefined || attempt.username === where.username) &&
+    (where.ipAddress === undefined || attempt.ipAddress === where.ipAddress) &&
+    (where.success === undefined || attempt.success === where.success) &&
+    attempt.createdAt >= ((where.createdAt as { gte?: Date } | undefined)?.gte ?? new Date(0));
+
+  return {
+    prisma: {
+      user: {
+        findUnique: async ({ where }: { where: { username: string } }) => {
+          await tick();
+          const user = db.users.find((u) => u.username === where.username);
+          return user ? { ...user } : null;
+        },
+        update: async ({ where, data }: { where: { id: number }; data: Record<string, unknown> }) => {
+          await tick();
+          const user = db.users.find((u) => u.id === where.id)!;
+          for (const [key, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            const increment = (value as { increment?: number })?.increment;
+            Object.assign(user, {
+              [key]: increment !== undefined ? (user[key as keyof FakeUser] as number) + increment : value,
+            });
+          }
+          return { ...user };
+        },
+      },
+      loginAttempt: {
+        create: async ({ data }: { data: Omit<FakeAttempt, "createdAt"> }) => {
+          await tick();
+          db.attempts.push({ ...data, createdAt: new Date() });
+        },
+        count: async ({ where }: { where: Record<string, unknown> }) => {
+          await tick();
+          return db.attempts.filter((attempt) => matches(attempt, where)).length;
+        },
+      },
+    },
+  };
+});
+
+vi.mock("@/lib/password", () => ({
+  verifyPassword: async (password: string, hash: string) => password === hash,
+}));
+
+vi.mock("@/lib/request-context", () => ({
+  getRequestMetadata: async () => ({ ipAddress: db.ipAddress, userAgent: "vitest" }),
+}));
+
+vi.mock("@/lib/session", () => ({
+  createSession: vi.fn(async () => {}),
+  toAuthUser: (user: FakeUser) => ({
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    role: user.role,
+    mustChangePassword: user.mustChangePassword,
+  }),
+}));
+
+vi.mock("@/lib/two-factor", () => ({
+  isTwoFactorEnabled: () => false,
+  isTwoFactorRequired: async () => false,
+  createLoginChallenge: () => "challenge",
+  startTwoFactorEnrollment: async () => null,
+}));
+
+const { POST } = await import("@/app/api/login/route");
+const { MAX_FAILED_LOGIN_ATTEMPTS } = await import("@/lib/login-security");
+
+const PASSWORD = "clave-correcta-123";
+const INVALID_CREDENTIALS = { success: false, error: "Usuario o contraseña incorrectos." };
+
+function login(username: string, password: string) {
+  return POST(
+    new Request("http://localhost/api/login", {
+      method: "POST",
+      body: JSON.stringify({ username, password }),
+    }),
+  );
+}
+
+// The route waits a progressive delay after each failure; fake timers skip it
+async function settle<T>(requests: Promise<T>[]) {
+  let done = false;
+  const all = Promise.all(requests).finally(() => {
+    done = true;
+  });
+
+  while (!done) {
+    await tick();
+    await vi.advanceTimersByTimeAsync(10_000);
+  }
+
+  return all;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout"] });
+  db.ipAddress = "203.0.113.7";
+  db.attempts = [];
+  db.users = [
+    {
+      id: 1,
+      username: "cajero",
+      passwordHash: PASSWORD,
+      role: "CASHIER",
+      name: "Cajero",
+      isActive: true,
+      mustChangePassword: false,
+      totpEnabledAt: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    },
+  ];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("POST /api/login under attack", () => {
+  it("locks the account after consecutive wrong passwords", async () => {
+    for (let i = 0; i < MAX_FAILED_LOGIN_ATTEMPTS; i++) {
+      const [response] = await settle([login("cajero", `mala-${i}`)]);
+      expect(response.status).toBe(401);
+    }
+
+    const [response] = await settle([login("cajero", PASSWORD)]);
+
+    expect(response.status).toBe(401);
+    expect(db.users[0].lockedUntil).not.toBeNull();
+  });
+
+  it("counts every attempt of a parallel burst", async () => {
+    const burst = Array.from({ length: 10 }, (_, i) => login("cajero", `mala-${i}`));
+
+    const responses = await settle(burst);
+
+    expect(responses.every((response) => response.status === 401)).toBe(true);
+    expect(db.users[0].failedLoginAttempts).toBe(10);
+    expect(db.users[0].lockedUntil).not.toBeNull();
+
+    const [afterBurst] = await settle([login("cajero", PASSWORD)]);
+    expect(afterBurst.status).toBe(401);
+  });
+
+  it("throttles an IP that rotates usernames", async () => {
+    const spray = Array.from({ length: 20 }, (_, i) => login(`usuario-${i}`, "mala"));
+    await settle(spray);
+
+    const [response] = await settle([login("cajero", PASSWORD)]);
+
+    expect(response.status).toBe(429);
+    expect(db.users[0].failedLoginAttempts).toBe(0); // the real account was never tried
+  });
+
+  it("answers unknown, inactive, locked and wrong-password users the same way", async () => {
+    db.users.push(
+      { ...db.users[0], id: 2, username: "inactivo", isActive: false },
+      { ...db.users[0], id: 3, username: "bloqueado", failedLoginAttempts: 5, lockedUntil: new Date(Date.now() + 60_000) },
+    );
+
+    const responses = await settle([
+      login("nadie", "mala"),
+      login("inactivo", PASSWORD),
+      login("bloqueado", PASSWORD),
+      login("cajero", "mala"),
+    ]);
+
+    for (const response of responses) {
+      expect(response.status).toBe(401);
+      await expect(response.json()).resolves.toEqual(INVALID_CREDENTIALS);
+    }
+  });
+
+  it("leaves the lock alone on attempts against a locked account", async () => {
+    const lockedUntil = new Date(Date.now() + 60_000);
+    Object.assign(db.users[0], { failedLoginAttempts: 5, lockedUntil });
+
+    await settle([login("cajero", "mala")]);
+
+    expect(db.users[0]).toMatchObject({ failedLoginAttempts: 5, lockedUntil });
+    expect(db.attempts).toEqual([expect.objectContaining({ userId: 1, success: false })]);
+  });
+
+  it("resets the counter on a successful login", async () => {
+    await settle([login("cajero", "mala-1"), login("cajero", "mala-2")]);
+
+    const [response] = await settle([login("cajero", PASSWORD)]);
+
+    expect(response.status).toBe(200);
+    expect(db.users[0].failedLoginAttempts).toBe(0);
+  });
+});
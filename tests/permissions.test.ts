@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { getRolePermissions, hasPermission, PERMISSIONS, type Permission } from "@/lib/permissions";
+import { EXPECTED_PERMISSIONS } from "./helpers/permissions";
+import { ROLES } from "./helpers/users";
+
+const permissions = Object.keys(PERMISSIONS) as Permission[];
+
+describe("PERMISSIONS", () => {
+  it.each(permissions)("%s only names known roles, without repeats", (permission) => {
+    const roles: readonly string[] = PERMISSIONS[permission];
+
+    expect(roles.length).toBeGreaterThan(0);
+    expect(new Set(roles).size).toBe(roles.length);
+    roles.forEach((role) => expect(ROLES).toContain(role));
+  });
+
+  it("matches the pinned table", () => {
+    expect(PERMISSIONS).toEqual(EXPECTED_PERMISSIONS);
+  });
+
+  it("gives ADMIN every permission", () => {
+    expect(getRolePermissions("ADMIN")).toEqual(permissions);
+  });
+});
+
+describe("hasPermission", () => {
+  const cases = permissions.flatMap((permission) =>
+    ROLES.map((role) => ({
+      permission,
+      role,
+      allowed: EXPECTED_PERMISSIONS[permission].includes(role),
+    })),
+  );
+
+  it.each(cases)("$role on $permission → $allowed", ({ permission, role, allowed }) => {
+    expect(hasPermission(role, permission)).toBe(allowed);
+  });
+});
+
+describe("getRolePermissions", () => {
+  it.each(ROLES)("lists exactly the permissions %s has", (role) => {
+    expect(getRolePermissions(role)).toEqual(permissions.filter((permission) => hasPermission(role, permission)));
+  });
+});
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TransactionType, type Prisma } from "@prisma/client";
+
+import { makeUser } from "./helpers/users";
+
+type FakeClient = {
+  id: number;
+  username: string;
+  pointsBalance: number;
+  referredById: number | null;
+  referralRewardedAt: Date | null;
+};
+
+type FakeTransaction = {
+  id: number;
+  clientId: number;
+  amount: number;
+  type: TransactionType;
+  reversesId: number | null;
+  referralForId: number | null;
+};
+
+const state = vi.hoisted(() => ({
+  clients: [] as FakeClient[],
+  transactions: [] as FakeTransaction[],
+}));
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+vi.mock("@/lib/audit", () => ({ recordAudit: async () => undefined }));
+
+const { applyReferralReward, reverseReferralRewards } = await import("@/lib/referrals");
+const { InsufficientBalanceError } = await import("@/lib/balances");
+
+const findClient = (id: number) => {
+  const client = state.clients.find((candidate) => candidate.id === id);
+  if (!client) throw new Error(`client ${id} not found`);
+  return client;
+};
+
+const reversalOf = (id: number) => state.transactions.find((tx) => tx.reversesId === id) ?? null;
+
+// Just the queries the referral helpers issue, against the in-memory rows
+const db = {
+  referralProgram: {
+    findUnique: async () => ({
+      id: 1,
+      updatedAt: null,
+      isActive: true,
+      referrerReward: 300,
+      referredReward: 200,
+      minFirstCharge: 1000,
+    }),
+  },
+  client: {
+    findUniqueOrThrow: async ({ where }: { where: { id: number } }) => {
+      const client = findClient(where.id);
+      const referrer = client.referredById ? findClient(client.referredById) : null;
+      return { ...client, referredBy: referrer && { id: referrer.id, username: referrer.username } };
+    },
+    count: async ({ where }: { where: { id: number } }) => state.clients.filter((c) => c.id === where.id).length,
+    update: async ({ where, data }: { where: { id: number }; data: Record<string, unknown> }) => {
+      const client = findClient(where.id);
+      const { pointsBalance, ...rest } = data as { pointsBalance?: { increment: number } };
+      if (pointsBalance) client.pointsBalance += pointsBalance.increment;
+      Object.assign(client, rest);
+      return { ...client };
+    },
+    updateMany: async ({ where, data }: { where: Record<string, unknown>; data: Record<string, unknown> }) => {
+      const client = findClient(where.id as number);
+      if ("referralRewardedAt" in where && client.referralRewardedAt !== null) return { count: 0 };
+      if ("pointsBalance" in where) {
+        const { gte } = where.pointsBalance as { gte: number };
+        if (client.pointsBalance < gte) return { count: 0 };
+        client.pointsBalance -= (data.pointsBalance as { decrement: number }).decrement;
+        return { count: 1 };
+      }
+      Object.assign(client, data);
+      return { count: 1 };
+    },
+  },
+  pointTransaction: {
+    count: async ({ where }: { where: { clientId: number; type: TransactionType; id: { not: number } } }) =>
+      state.transactions.filter(
+        (tx) => tx.clientId === where.clientId && tx.type === where.type && tx.id !== where.id.not && !reversalOf(tx.id),
+      ).length,
+    create: async ({ data }: { data: Partial<FakeTransaction> }) => {
+      const row: FakeTransaction = {
+        id: state.transactions.length + 1,
+        clientId: data.clientId!,
+        amount: data.amount!,
+        type: data.type!,
+        reversesId: data.reversesId ?? null,
+        referralForId: data.referralForId ?? null,
+      };
+      state.transactions.push(row);
+      return row;
+    },
+    findMany: async ({ where }: { where: { referralForId: number } }) =>
+      state.transactions
+        .filter((tx) => tx.referralForId === where.referralForId)
+        .map((tx) => ({ ...tx, client: { username: findClient(tx.clientId).username }, reversedBy: reversalOf(tx.id) })),
+  },
+} as unknown as Prisma.TransactionClient;
+
+const cashier = makeUser("CASHIER");
+const REFERRER = 1;
+const REFERRED = 2;
+
+// A first charge of the referred client, already credited as registerCharge does
+async function chargeReferred(amount = 1500) {
+  const charge = await db.pointTransaction.create({
+    data: { clientId: REFERRED, amount, type: TransactionType.CHARGE },
+  });
+  findClient(REFERRED).pointsBalance += amount;
+  await applyReferralReward(db, charge, cashier);
+  return charge;
+}
+
+const balances = () => state.clients.map((client) => client.pointsBalance);
+
+beforeEach(() => {
+  state.clients = [
+    { id: REFERRER, username: "ana", pointsBalance: 0, referredById: null, referralRewardedAt: null },
+    { id: REFERRED, username: "bruno", pointsBalance: 0, referredById: REFERRER, referralRewardedAt: null },
+  ];
+  state.transactions = [];
+});
+
+describe("applyReferralReward", () => {
+  it("links both rewards to the charge that earned them", async () => {
+    const charge = await chargeReferred();
+
+    const rewards = state.transactions.filter((tx) => tx.type === TransactionType.REFERRAL);
+    expect(rewards).toMatchObject([
+      { clientId: REFERRER, amount: 300, referralForId: charge.id },
+      { clientId: REFERRED, amount: 200, referralForId: charge.id },
+    ]);
+    expect(balances()).toEqual([300, 1700]);
+  });
+});
+
+describe("reverseReferralRewards", () => {
+  it("takes back both rewards and clears the referred client's flag", async () => {
+    const charge = await chargeReferred();
+
+    const reversals = await reverseReferralRewards(db, charge, { reason: "Carga duplicada" }, cashier);
+
+    expect(reversals).toMatchObject([
+      { clientId: REFERRER, amount: -300, type: TransactionType.ADJUSTMENT },
+      { clientId: REFERRED, amount: -200, type: TransactionType.ADJUSTMENT },
+    ]);
+    expect(balances()).toEqual([0, 1500]);
+    expect(findClient(REFERRED).referralRewardedAt).toBeNull();
+  });
+
+  it("lets the next first charge earn the rewards again", async () => {
+    const charge = await chargeReferred();
+    await reverseReferralRewards(db, charge, { reason: "Carga duplicada" }, cashier);
+    await db.pointTransaction.create({
+      data: { clientId: REFERRED, amount: -1500, type: TransactionType.ADJUSTMENT, reversesId: charge.id },
+    });
+    findClient(REFERRED).pointsBalance -= 1500;
+
+    await chargeReferred();
+
+    expect(balances()).toEqual([300, 1700]);
+  });
+
+  it("skips a reward that was already reversed on its own", async () => {
+    const charge = await chargeReferred();
+    const [referrerReward] = state.transactions.filter((tx) => tx.type === TransactionType.REFERRAL);
+    await db.pointTransaction.create({
+      data: { clientId: REFERRER, amount: -300, type: TransactionType.ADJUSTMENT, reversesId: referrerReward.id },
+    });
+    findClient(REFERRER).pointsBalance -= 300;
+
+    const reversals = await reverseReferralRewards(db, charge, { reason: "Carga duplicada" }, cashier);
+
+    expect(reversals).toMatchObject([{ clientId: REFERRED, amount: -200 }]);
+    expect(balances()).toEqual([0, 1500]);
+  });
+
+  it("fails when the referrer already spent the reward", async () => {
+    const charge = await chargeReferred();
+    findClient(REFERRER).pointsBalance = 100;
+
+    await expect(reverseReferralRewards(db, charge, { reason: "Carga duplicada" }, cashier)).rejects.toBeInstanceOf(
+      InsufficientBalanceError,
+    );
+  });
+
+  it("does nothing for a charge without rewards", async () => {
+    findClient(REFERRED).referredById = null;
+    const charge = await chargeReferred();
+
+    await expect(reverseReferralRewards(db, charge, { reason: "Carga duplicada" }, cashier)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const state = vi.hoisted(() => ({
+  claimCount: 1,
+  audits: [] as { client: string; data: Record<string, unknown> }[],
+}));
+
+vi.mock("@/lib/invitations", () => ({
+  findUsableInvitation: async () => ({ id: 12, role: "CASHIER" }),
+}));
+vi.mock("@/lib/password", () => ({ hashPassword: async () => "hash" }));
+vi.mock("@/lib/request-context", () => ({
+  getRequestMetadata: async () => ({ ipAddress: "10.0.0.1", userAgent: "test" }),
+}));
+vi.mock("@/lib/two-factor", () => ({ isTwoFactorRequired: async () => false }));
+vi.mock("@/lib/session", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/session")>()),
+  createSession: async () => undefined,
+}));
+vi.mock("@/lib/prisma", () => {
+  const auditEvent = (client: string) => ({
+    create: async ({ data }: { data: Record<string, unknown> }) => {
+      state.audits.push({ client, data });
+    },
+  });
+
+  const tx = {
+    user: {
+      create: async ({ data }: { data: Record<string, unknown> }) => ({
+        id: 30,
+        isActive: true,
+        mustChangePassword: false,
+        ...data,
+      }),
+    },
+    userInvitation: { updateMany: async () => ({ count: state.claimCount }) },
+    auditEvent: auditEvent("transaction"),
+  };
+
+  return {
+    prisma: {
+      user: { findUnique: async () => null },
+      auditEvent: auditEvent("prisma"),
+      $transaction: async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx),
+    },
+  };
+});
+
+const { registerAction } = await import("@/actions/register");
+
+function signup() {
+  const form = new FormData();
+  form.set("firstName", "Lucía");
+  form.set("lastName", "Pérez");
+  form.set("username", "lucia.perez");
+  form.set("password", "Caballo-Bateria-42!");
+  form.set("invitationToken", "token");
+  return registerAction(form);
+}
+
+beforeEach(() => {
+  state.claimCount = 1;
+  state.audits = [];
+});
+
+describe("registerAction", () => {
+  it("audits the new user inside the transaction that claims the invitation", async () => {
+    await expect(signup()).resolves.toMatchObject({ success: true });
+
+    expect(state.audits).toEqual([
+      {
+        client: "transaction",
+        data: expect.objectContaining({
+          action: "user.create",
+          entityType: "User",
+          entityId: "30",
+          actorId: 30,
+          after: expect.objectContaining({ invitationId: 12, role: "CASHIER", username: "lucia.perez" }),
+        }),
+      },
+    ]);
+  });
+
+  it("records nothing when the invitation was claimed meanwhile", async () => {
+    state.claimCount = 0;
+
+    await expect(signup()).resolves.toMatchObject({ success: false });
+    expect(state.audits).toEqual([]);
+  });
+});
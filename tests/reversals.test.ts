@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TransactionType } from "@prisma/client";
+
+import { makeUser } from "./helpers/users";
+
+type Original = {
+  id: number;
+  clientId: number;
+  amount: number;
+  type: TransactionType;
+  method: null;
+  reversesId: null;
+  reversedBy: null;
+  withdrawal: null;
+  bonus: { id: number; amount: number; reversedBy: null } | null;
+  referralRewards: { amount: number }[];
+};
+
+const state = vi.hoisted(() => ({ original: null as unknown as Original, created: [] as { amount: number }[] }));
+
+vi.mock("@/lib/session", () => ({ getCurrentUser: async () => makeUser("CASHIER", { id: 5 }) }));
+vi.mock("@/lib/audit", () => ({ recordAudit: async () => undefined }));
+vi.mock("@/lib/shifts", () => ({ findOpenShiftId: async () => null }));
+vi.mock("@/lib/referrals", () => ({ reverseReferralRewards: async () => [] }));
+vi.mock("@/lib/approvals", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/approvals")>()),
+  verifyApprover: async () => makeUser("ADMIN", { id: 9 }),
+}));
+vi.mock("@/lib/prisma", () => {
+  const db = {
+    pointTransaction: {
+      create: async ({ data }: { data: { amount: number } }) => {
+        state.created.push(data);
+        return { id: 100 + state.created.length, ...data };
+      },
+    },
+    client: { update: async () => ({ id: 1, pointsBalance: 50_000 }) },
+  };
+
+  return {
+    prisma: {
+      pointTransaction: { findUnique: async () => state.original },
+      $transaction: async (fn: (tx: typeof db) => Promise<unknown>) => fn(db),
+    },
+  };
+});
+
+const { reverseTransactionAction } = await import("@/actions/ledger");
+
+const REASON = "Cargado al cliente equivocado";
+const APPROVER = { username: "admin", password: "secreta" };
+
+function charge(amount: number, extras: { bonus?: number; rewards?: number[] } = {}): Original {
+  return {
+    id: 1,
+    clientId: 1,
+    amount,
+    type: TransactionType.CHARGE,
+    method: null,
+    reversesId: null,
+    reversedBy: null,
+    withdrawal: null,
+    bonus: extras.bonus ? { id: 2, amount: extras.bonus, reversedBy: null } : null,
+    referralRewards: (extras.rewards ?? []).map((reward) => ({ amount: reward })),
+  };
+}
+
+beforeEach(() => {
+  state.created = [];
+});
+
+describe("reverseTransactionAction approval threshold", () => {
+  it.each([
+    ["the charge alone", charge(25_000)],
+    ["the charge and its bonus", charge(19_000, { bonus: 3_800 })],
+    ["the charge and its referral rewards", charge(19_500, { rewards: [300, 500] })],
+  ])("asks for an approver when %s go over it", async (_label, original) => {
+    state.original = original;
+
+    await expect(reverseTransactionAction({ transactionId: 1, reason: REASON })).resolves.toMatchObject({
+      success: false,
+      code: "APPROVAL_REQUIRED",
+    });
+    expect(state.created).toHaveLength(0);
+  });
+
+  it("reverses without an approver under the threshold", async () => {
+    state.original = charge(15_000, { bonus: 3_000, rewards: [300] });
+
+    await expect(reverseTransactionAction({ transactionId: 1, reason: REASON })).resolves.toHaveProperty("reversal");
+    expect(state.created.map((row) => row.amount)).toEqual([-15_000, -3_000]);
+  });
+
+  it("records the approver over the threshold", async () => {
+    state.original = charge(19_000, { bonus: 3_800 });
+
+    await reverseTransactionAction({ transactionId: 1, reason: REASON, approver: APPROVER });
+
+    expect(state.created).toEqual([
+      expect.objectContaining({ amount: -19_000, approvedById: 9 }),
+      expect.objectContaining({ amount: -3_800, approvedById: 9 }),
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type FakeUser = {
+  id: number;
+  totpSecret: string | null;
+  totpEnabledAt: Date | null;
+  totpBackupCodeHashes: string[];
+  totpLastUsedStep: number | null;
+};
+
+const db = vi.hoisted(() => ({ user: null as unknown as FakeUser }));
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+// Just the conditional updates verifySecondFactor issues, applied atomically
+vi.mock("@/lib/prisma", () => {
+  type StepCondition = { totpLastUsedStep: null | { lt: number } };
+  type Where = {
+    id: number;
+    OR?: StepCondition[];
+    totpBackupCodeHashes?: { equals: string[]; has: string };
+  };
+
+  const matchesStep = (user: FakeUser, condition: StepCondition) =>
+    condition.totpLastUsedStep === null
+      ? user.totpLastUsedStep === null
+      : user.totpLastUsedStep !== null && user.totpLastUsedStep < condition.totpLastUsedStep.lt;
+
+  const matches = (user: FakeUser, where: Where) =>
+    user.id === where.id &&
+    (!where.OR || where.OR.some((condition) => matchesStep(user, condition))) &&
+    (!where.totpBackupCodeHashes ||
+      (JSON.stringify(user.totpBackupCodeHashes) === JSON.stringify(where.totpBackupCodeHashes.equals) &&
+        user.totpBackupCodeHashes.includes(where.totpBackupCodeHashes.has)));
+
+  return {
+    prisma: {
+      user: {
+        updateMany: async ({ where, data }: { where: Where; data: Partial<FakeUser> }) => {
+          await tick();
+          if (!matches(db.user, where)) return { count: 0 };
+          Object.assign(db.user, data);
+          return { count: 1 };
+        },
+      },
+    },
+  };
+});
+
+const { verifySecondFactor } = await import("@/lib/two-factor");
+const { generateBackupCodes, generateTotpCode, generateTotpSecret } = await import("@/lib/totp");
+
+const PERIOD_MS = 30_000;
+
+let backupCodes: string[];
+
+// The caller reads the user right before verifying, as the login route does
+const snapshot = () => ({ ...db.user, totpBackupCodeHashes: [...db.user.totpBackupCodeHashes] });
+
+beforeEach(() => {
+  const { codes, hashes } = generateBackupCodes();
+  backupCodes = codes;
+  db.user = {
+    id: 1,
+    totpSecret: generateTotpSecret(),
+    totpEnabledAt: new Date(),
+    totpBackupCodeHashes: hashes,
+    totpLastUsedStep: null,
+  };
+});
+
+describe("verifySecondFactor", () => {
+  it("accepts a TOTP code once", async () => {
+    const code = generateTotpCode(db.user.totpSecret!);
+
+    expect(await verifySecondFactor(snapshot(), code)).toBe(true);
+    expect(await verifySecondFactor(snapshot(), code)).toBe(false);
+  });
+
+  it("rejects a code from a step before the last accepted one", async () => {
+    const now = Date.now();
+    const next = generateTotpCode(db.user.totpSecret!, now + PERIOD_MS); // inside the drift window
+    const current = generateTotpCode(db.user.totpSecret!, now);
+
+    expect(await verifySecondFactor(snapshot(), next)).toBe(true);
+    expect(await verifySecondFactor(snapshot(), current)).toBe(false);
+  });
+
+  it("lets only one of two parallel requests use the same TOTP code", async () => {
+    const code = generateTotpCode(db.user.totpSecret!);
+
+    const results = await Promise.all([
+      verifySecondFactor(snapshot(), code),
+      verifySecondFactor(snapshot(), code),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("consumes a backup code", async () => {
+    expect(await verifySecondFactor(snapshot(), backupCodes[0])).toBe(true);
+    expect(db.user.totpBackupCodeHashes).toHaveLength(backupCodes.length - 1);
+    expect(await verifySecondFactor(snapshot(), backupCodes[0])).toBe(false);
+  });
+
+  it("lets only one of two parallel requests use the same backup code", async () => {
+    const user = snapshot();
+
+    const results = await Promise.all([
+      verifySecondFactor(user, backupCodes[0]),
+      verifySecondFactor(user, backupCodes[0]),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(db.user.totpBackupCodeHashes).toHaveLength(backupCodes.length - 1);
+  });
+
+  it("never brings back a backup code spent by a parallel request", async () => {
+    const user = snapshot();
+
+    const [first, second] = await Promise.all([
+      verifySecondFactor(user, backupCodes[0]),
+      verifySecondFactor(user, backupCodes[1]),
+    ]);
+
+    // one wins; the other is refused (the list changed) but stays usable
+    expect([first, second].filter(Boolean)).toHaveLength(1);
+    const [spent, kept] = first ? [backupCodes[0], backupCodes[1]] : [backupCodes[1], backupCodes[0]];
+    expect(await verifySecondFactor(snapshot(), spent)).toBe(false);
+    expect(await verifySecondFactor(snapshot(), kept)).toBe(true);
+  });
+});
@@ -5,14 +5,46 @@ export type AuthUser = {
   name: string;
   username: string;
   role: AuthRole;
+  // an admin set or reset the password; every screen redirects to the change form
+  mustChangePassword: boolean;
+};
+
+export type TwoFactorEnrollment = {
+  secret: string; // base32, for manual entry
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
 };
 
 export type LoginResponse =
   | {
       success: true;
       user: AuthUser;
+      // only right after enrolling 2FA during login; shown once
+      backupCodes?: string[];
     }
   | {
       success: false;
       error: string;
+    }
+  | {
+      success: false;
+      twoFactorStep: "verify" | "enroll";
+      challenge: string;
+      enrollment?: TwoFactorEnrollment;
     };
+
+export type SessionResponse =
+  | {
+      authenticated: true;
+      user: AuthUser;
+    }
+  | {
+      authenticated: false;
+    };
+
+export type ForbiddenResult = {
+  success: false;
+  forbidden: true;
+  reason: "UNAUTHENTICATED" | "FORBIDDEN" | "PASSWORD_CHANGE_REQUIRED";
+  error: string;
+};